@@ -4,7 +4,8 @@ import react from '@vitejs/plugin-react'
 
 export default defineConfig({
   main: {
-    plugins: [externalizeDepsPlugin()],
+    // ESM-only packages used by the shared module validator are bundled
+    plugins: [externalizeDepsPlugin({ exclude: ['unified', 'remark-parse', 'remark-math'] })],
     build: {
       copyPublicDir: false,
       assetsDir: '.',
@@ -0,0 +1,101 @@
+import { ipcMain, IpcMainInvokeEvent } from 'electron'
+import { hasPermission, Permission } from '../../shared/permissions'
+import { database } from '../database/database'
+import { sessions } from './sessions'
+import type { ApiResponse, User } from '../types'
+
+export const SESSION_EXPIRED = 'SESSION_EXPIRED'
+
+/**
+ * Who is making an IPC call. Resolved from the session token the renderer
+ * sends as the first argument of every call, never from handler arguments.
+ */
+export interface IpcContext {
+  event: IpcMainInvokeEvent
+  token: string | null
+  user: User | null
+  sessionExpired: boolean
+}
+
+// Arguments come from the renderer, so handlers narrow them before use
+type IpcHandler = (context: IpcContext, ...args: unknown[]) => Promise<unknown>
+
+// Guards for narrowing handler arguments
+export const isId = (value: unknown): value is number =>
+  Number.isSafeInteger(value) && (value as number) > 0
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+async function resolveContext(event: IpcMainInvokeEvent, token: unknown): Promise<IpcContext> {
+  const lookup = sessions.touch(token)
+  if (lookup.status !== 'active') {
+    return { event, token: null, user: null, sessionExpired: lookup.status === 'expired' }
+  }
+
+  // Load the user on every call so role changes and deactivation apply immediately
+  const user = await database.getUserById(lookup.session.userId)
+  if (!user || !user.is_active) {
+    sessions.destroy(lookup.session.token)
+    return { event, token: null, user: null, sessionExpired: true }
+  }
+
+  return { event, token: lookup.session.token, user, sessionExpired: false }
+}
+
+/**
+ * Register an IPC handler that receives the caller's session context
+ */
+export function handleWithSession(channel: string, handler: IpcHandler): void {
+  ipcMain.handle(channel, async (event, token, ...args) => {
+    const context = await resolveContext(event, token)
+    return handler(context, ...args)
+  })
+}
+
+/**
+ * Returns an error response when nobody is signed in, or null when the call
+ * may proceed
+ */
+export function requireUser(context: IpcContext): ApiResponse | null {
+  if (context.user) {
+    return null
+  }
+  if (context.sessionExpired) {
+    return {
+      success: false,
+      error: 'Your session has expired. Please sign in again.',
+      code: SESSION_EXPIRED
+    }
+  }
+  return { success: false, error: 'You must be signed in' }
+}
+
+/**
+ * Returns an error response when the signed-in user lacks the permission,
+ * or null when the call may proceed
+ */
+export function checkPermission(context: IpcContext, permission: Permission): ApiResponse | null {
+  const unauthenticated = requireUser(context)
+  if (unauthenticated) {
+    return unauthenticated
+  }
+  if (!hasPermission(context.user!.role, permission)) {
+    return { success: false, error: 'You do not have permission to perform this action' }
+  }
+  return null
+}
+
+/**
+ * Like checkPermission, but always allows users to act on their own data
+ */
+export function checkUserAccess(
+  context: IpcContext,
+  userId: unknown,
+  permission: Permission
+): ApiResponse | null {
+  if (context.user && context.user.id === userId) {
+    return null
+  }
+  return checkPermission(context, permission)
+}
@@ -0,0 +1,103 @@
+import { randomBytes } from 'crypto'
+
+// Sessions end after this long regardless of activity
+export const SESSION_TTL_MS = 12 * 60 * 60 * 1000
+
+// Sessions end after this long without any IPC call from the renderer
+export const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000
+
+export interface Session {
+  token: string
+  userId: number
+  createdAt: number
+  lastActivityAt: number
+}
+
+export type SessionLookup =
+  | { status: 'active'; session: Session }
+  | { status: 'expired' }
+  | { status: 'missing' }
+
+/**
+ * In-memory session store for the main process. Tokens are random and never
+ * persisted, so every session ends when the app quits.
+ */
+export class SessionManager {
+  private sessions = new Map<string, Session>()
+
+  constructor(
+    private ttlMs: number = SESSION_TTL_MS,
+    private idleTimeoutMs: number = SESSION_IDLE_TIMEOUT_MS
+  ) {}
+
+  create(userId: number): Session {
+    this.pruneExpired()
+
+    const now = Date.now()
+    const session: Session = {
+      token: randomBytes(32).toString('hex'),
+      userId,
+      createdAt: now,
+      lastActivityAt: now
+    }
+    this.sessions.set(session.token, session)
+    return session
+  }
+
+  /**
+   * Look up a session and record activity on it. Expired sessions are removed.
+   */
+  touch(token: unknown): SessionLookup {
+    if (typeof token !== 'string' || token.length === 0) {
+      return { status: 'missing' }
+    }
+
+    const session = this.sessions.get(token)
+    if (!session) {
+      return { status: 'expired' }
+    }
+
+    const now = Date.now()
+    if (this.isExpired(session, now)) {
+      this.sessions.delete(token)
+      return { status: 'expired' }
+    }
+
+    session.lastActivityAt = now
+    return { status: 'active', session }
+  }
+
+  destroy(token: unknown): void {
+    if (typeof token === 'string') {
+      this.sessions.delete(token)
+    }
+  }
+
+  destroyForUser(userId: number): void {
+    for (const [token, session] of this.sessions) {
+      if (session.userId === userId) {
+        this.sessions.delete(token)
+      }
+    }
+  }
+
+  // Used when the whole database is replaced and stored accounts may no longer match
+  destroyAll(): void {
+    this.sessions.clear()
+  }
+
+  private isExpired(session: Session, now: number): boolean {
+    return now - session.createdAt > this.ttlMs || now - session.lastActivityAt > this.idleTimeoutMs
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now()
+    for (const [token, session] of this.sessions) {
+      if (this.isExpired(session, now)) {
+        this.sessions.delete(token)
+      }
+    }
+  }
+}
+
+export const sessions = new SessionManager()
@@ -1,12 +1,281 @@
-import { Database } from 'sqlite3'
+import { Database, OPEN_READONLY } from 'sqlite3'
+import { AsyncLocalStorage } from 'async_hooks'
 import { join } from 'path'
 import { mkdirSync, existsSync } from 'fs'
 import { app } from 'electron'
 import * as bcrypt from 'bcrypt'
-import type { User, Module, UserProgress, Certificate, ApiResponse, LessonProgress } from '../types'
-import { DATABASE_SCHEMA } from './schema'
+import { randomBytes, randomUUID } from 'crypto'
+import type {
+  AppSettings,
+  DatabaseUser,
+  User,
+  Module,
+  UserProgress,
+  Certificate,
+  CertificateVerification,
+  ApiResponse,
+  FacetCount,
+  LessonProgress,
+  ModuleFilters,
+  ModuleQueryResult,
+  ModuleUpgradeResult,
+  QuizAttempt,
+  QuizAttemptAnswer,
+  QuizAttemptResult,
+  QuizAttemptSubmission,
+  QuizProgress,
+  Quiz,
+  SearchResult,
+  LearnerAnalytics,
+  LearnerProfileData,
+  LearnerProfileModule,
+  LearnerProfileTrust,
+  StoredProfileReview,
+  UserSummary
+} from '../types'
+import type { UserRole } from '../../shared/permissions'
+import { compareVersions, diffModuleContent } from '../../shared/moduleVersion'
+import {
+  DEFAULT_BACKUPS_TO_KEEP,
+  isBackupInterval,
+  isBackupsToKeep,
+  isLanSyncRole,
+  isThemePreference
+} from '../../shared/settings'
+import { DEFAULT_TEMPLATE_ID } from '../../shared/certificateTemplate'
+import {
+  getAttemptAvailability,
+  getCountedScore,
+  gradeQuiz,
+  isAnswerCorrect,
+  MAX_TEXT_ANSWER_LENGTH
+} from '../../shared/quizGrading'
+import { calculateModuleCompletion } from '../../shared/moduleProgress'
+import { MODULE_DIFFICULTIES, MODULE_DURATIONS, MODULE_STATUSES } from '../../shared/moduleFilters'
+import { SNIPPET_MATCH_END, SNIPPET_MATCH_START } from '../../shared/search'
+import { ModuleValidator } from '../../shared/moduleSchema'
+import {
+  generateSigningKey,
+  getKeyFingerprint,
+  getPublicKey,
+  isCertificateToken,
+  signCertificate,
+  verifyCertificateToken
+} from '../services/certificateSigning'
+import { MIGRATIONS, LATEST_SCHEMA_VERSION, SCHEMA_VERSION_TABLE } from './migrations'
+import { buildSearchDocuments, toMatchQuery } from './searchIndex'
+import {
+  buildModuleFilter,
+  DURATION_SQL,
+  MODULE_ORDER_BY,
+  MODULE_QUERY_FROM,
+  ModuleFacet,
+  placeholders,
+  STATUS_SQL
+} from './moduleQuery'
 
 // Database row interfaces
+interface UserRow {
+  id: number
+  username: string
+  email: string
+  role: UserRole
+  is_active: number
+  created_at: string
+}
+
+interface UserSummaryRow extends UserRow {
+  modules_started: number
+  modules_completed: number
+  certificate_count: number
+  total_time_spent: number | null
+  last_active: string | null
+}
+
+const USER_COLUMNS = 'id, username, email, role, is_active, created_at'
+
+// Upper bound for a single time entry. The renderer saves every 30 seconds, so
+// anything larger means a clock jump or a bogus request.
+const MAX_TIME_ENTRY_SECONDS = 60 * 60
+
+const HARDEST_QUESTION_LIMIT = 5
+
+// YYYY-MM-DD in local time, the same form as SQLite's date(..., 'localtime')
+function toDayKey(date: Date): string {
+  const pad = (value: number): string => value.toString().padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+function shiftDay(day: string, offset: number): string {
+  const [year, month, date] = day.split('-').map(Number)
+  return toDayKey(new Date(year, month - 1, date + offset))
+}
+
+function calculateStreak(activeDays: string[], today: string): LearnerAnalytics['streak'] {
+  const days = new Set(activeDays)
+
+  let longest = 0
+  for (const day of days) {
+    // Only measure runs from their first day
+    if (days.has(shiftDay(day, -1))) continue
+    let length = 1
+    while (days.has(shiftDay(day, length))) length++
+    longest = Math.max(longest, length)
+  }
+
+  // A streak stays alive until a whole day passes without any learning
+  let current = 0
+  let day = days.has(today) ? today : shiftDay(today, -1)
+  while (days.has(day)) {
+    current++
+    day = shiftDay(day, -1)
+  }
+
+  return { current, longest, activeDays: days.size }
+}
+
+// node-sqlite3 implements SQLite's online backup API, but its type definitions leave it out
+interface SqliteBackup {
+  step(pages: number, callback: (err: Error | null) => void): void
+  finish(callback?: (err: Error | null) => void): void
+}
+
+declare module 'sqlite3' {
+  interface Database {
+    backup(
+      filename: string,
+      destName: string,
+      sourceName: string,
+      filenameIsDest: boolean,
+      callback: (err: Error | null) => void
+    ): SqliteBackup
+  }
+}
+
+// Open a database file other than the live one, without changing it
+function openReadOnly(filePath: string): Promise<Database> {
+  return new Promise((resolve, reject) => {
+    const db = new Database(filePath, OPEN_READONLY, (err) => (err ? reject(err) : resolve(db)))
+  })
+}
+
+function getFrom<T>(db: Database, sql: string): Promise<T | undefined> {
+  return new Promise((resolve, reject) => {
+    db.get(sql, (err, row) => (err ? reject(err) : resolve(row as T | undefined)))
+  })
+}
+
+const CERTIFICATE_KEY_SETTING = 'certificate_signing_key'
+// Kept out of AppSettings so the classroom key is never sent to learners
+const LAN_SYNC_KEY_SETTING = 'lan_sync_key'
+const INSTANCE_ID_SETTING = 'instance_id'
+
+const CERTIFICATE_SELECT = `
+  SELECT c.*, u.username, m.title as module_title FROM certificates c
+  JOIN users u ON u.id = c.user_id
+  JOIN modules m ON m.id = c.module_id`
+
+// certificate_data as stored; certificates issued before signing have no token
+interface CertificateData {
+  user?: string
+  module?: string
+  moduleVersion?: string
+  completionDate?: string
+  timeSpent?: number // seconds
+  score?: number | null // average quiz score; null when the module has no quizzes
+  token?: string
+}
+
+interface CertificateRow {
+  id: number
+  user_id: number
+  module_id: number
+  certificate_code: string
+  certificate_data: string | null
+  issued_at: string
+  username: string
+  module_title: string
+}
+
+function parseCertificateData(value: string | null): CertificateData {
+  try {
+    const data = value ? JSON.parse(value) : {}
+    return typeof data === 'object' && data !== null ? data : {}
+  } catch {
+    return {}
+  }
+}
+
+// Whether a certificate from a learner profile carries a valid signed token for
+// its own code. Without one, toSignedCertificate would sign it with this
+// installation's key as if it had been issued here.
+function hasTokenFor(certificate: NonNullable<LearnerProfileModule['certificate']>): boolean {
+  const { token } = parseCertificateData(certificate.data)
+  if (typeof token !== 'string') return false
+
+  const verification = verifyCertificateToken(token)
+  return verification.valid && verification.payload.code === certificate.code
+}
+
+interface ProfileReviewRow {
+  id: number
+  user_id: number
+  issuer_key: string
+  trust: LearnerProfileTrust
+  profile_data: string
+  submitted_at: string
+}
+
+const toProfileReview = (row: ProfileReviewRow): StoredProfileReview => ({
+  id: row.id,
+  userId: row.user_id,
+  submittedAt: row.submitted_at,
+  issuerKey: row.issuer_key,
+  trust: row.trust,
+  data: JSON.parse(row.profile_data)
+})
+
+// e.g. OA-3F9K-Q2M7-XH4D, unambiguous characters only
+function generateCertificateCode(): string {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+  const characters = Array.from(randomBytes(12), (byte) => alphabet[byte % alphabet.length])
+  return `OA-${characters.slice(0, 4).join('')}-${characters.slice(4, 8).join('')}-${characters
+    .slice(8)
+    .join('')}`
+}
+
+const SETTING_KEYS: Record<keyof AppSettings, string> = {
+  institutionName: 'institution_name',
+  defaultTheme: 'default_theme',
+  certificateTemplate: 'certificate_template',
+  backupInterval: 'backup_interval',
+  backupsToKeep: 'backups_to_keep',
+  lanSyncRole: 'lan_sync_role'
+}
+
+const DEFAULT_SETTINGS: AppSettings = {
+  institutionName: 'Our Africa',
+  defaultTheme: 'system',
+  certificateTemplate: DEFAULT_TEMPLATE_ID,
+  backupInterval: 'daily',
+  backupsToKeep: DEFAULT_BACKUPS_TO_KEEP,
+  lanSyncRole: 'off'
+}
+
+interface QuizAttemptRow extends Omit<QuizAttempt, 'passed' | 'answers'> {
+  passed: number
+  answers: string
+}
+
+interface SearchRow {
+  module_id: number
+  kind: SearchResult['kind']
+  target_id: string
+  title: string
+  module_title: string
+  snippet: string
+}
+
 interface ModuleRow {
   id: number
   title: string
@@ -17,6 +286,7 @@ interface ModuleRow {
   difficulty_level: string
   tags: string | null
   estimated_duration: number
+  media_key: string | null
   created_at: string
   updated_at: string
 }
@@ -24,6 +294,10 @@ interface ModuleRow {
 class DatabaseManager {
   private db: Database | null = null
   private dbPath: string
+  // Every use of the connection waits its turn here, see withConnection
+  private connectionQueue: Promise<unknown> = Promise.resolve()
+  // Set while a transaction runs, so its own statements skip the queue
+  private readonly transactionScope = new AsyncLocalStorage<boolean>()
 
   constructor() {
     // Use a more reliable path for the database
@@ -49,7 +323,7 @@ class DatabaseManager {
 
   // Utility method to promisify database operations
   private query<T = unknown>(sql: string, params: unknown[] = []): Promise<T[]> {
-    return new Promise((resolve, reject) => {
+    return this.statement((resolve, reject) => {
       if (!this.db) {
         reject(new Error('Database not initialized'))
         return
@@ -65,7 +339,7 @@ class DatabaseManager {
   }
 
   private run(sql: string, params: unknown[] = []): Promise<{ lastID: number; changes: number }> {
-    return new Promise((resolve, reject) => {
+    return this.statement((resolve, reject) => {
       if (!this.db) {
         reject(new Error('Database not initialized'))
         return
@@ -81,7 +355,7 @@ class DatabaseManager {
   }
 
   private get<T = unknown>(sql: string, params: unknown[] = []): Promise<T | undefined> {
-    return new Promise((resolve, reject) => {
+    return this.statement((resolve, reject) => {
       if (!this.db) {
         reject(new Error('Database not initialized'))
         return
@@ -96,35 +370,70 @@ class DatabaseManager {
     })
   }
 
+  private exec(sql: string): Promise<void> {
+    return this.statement((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'))
+        return
+      }
+      this.db.exec(sql, (err) => {
+        if (err) {
+          reject(err)
+        } else {
+          resolve()
+        }
+      })
+    })
+  }
+
+  /**
+   * Run a task once everything queued before it has finished. sqlite3 shares a
+   * single connection, so without this, statements from unrelated requests (the
+   * time autosave, scheduled backups, LAN sync) would run inside another
+   * request's open transaction and be committed or rolled back with it.
+   */
+  private withConnection<T>(task: () => Promise<T>): Promise<T> {
+    if (this.transactionScope.getStore()) return task()
+
+    const result = this.connectionQueue.then(task)
+    this.connectionQueue = result.catch(() => undefined)
+    return result
+  }
+
+  private statement<T>(
+    executor: (resolve: (value: T) => void, reject: (error: Error) => void) => void
+  ): Promise<T> {
+    return this.withConnection(() => new Promise<T>(executor))
+  }
+
+  // Commit if the work succeeds, roll back if it throws
+  private transaction<T>(work: () => Promise<T>): Promise<T> {
+    if (this.transactionScope.getStore()) return work()
+
+    return this.withConnection(() =>
+      this.transactionScope.run(true, async () => {
+        await this.run('BEGIN TRANSACTION')
+        try {
+          const result = await work()
+          await this.run('COMMIT')
+          return result
+        } catch (error) {
+          await this.run('ROLLBACK')
+          throw error
+        }
+      })
+    )
+  }
+
   async initialize(): Promise<void> {
     try {
       // Initialize database connection
       this.db = new Database(this.dbPath)
 
-      // Use embedded schema instead of reading from file
-      const schema = DATABASE_SCHEMA
-      console.log('Using embedded database schema')
-
-      // Drop existing tables to ensure clean schema
-      const dropStatements = [
-        'DROP TABLE IF EXISTS certificates',
-        'DROP TABLE IF EXISTS lesson_progress',
-        'DROP TABLE IF EXISTS user_progress',
-        'DROP TABLE IF EXISTS modules',
-        'DROP TABLE IF EXISTS users'
-      ]
-
-      for (const dropStatement of dropStatements) {
-        await this.run(dropStatement)
-      }
-
-      const statements = schema.split(';').filter((stmt) => stmt.trim())
+      await this.migrate()
 
-      for (const statement of statements) {
-        if (statement.trim()) {
-          await this.run(statement)
-        }
-      }
+      // SQLite ships with foreign key enforcement off; the schema relies on it for cascades
+      await this.run('PRAGMA foreign_keys = ON')
 
       console.log('Database initialized successfully')
     } catch (error) {
@@ -133,7 +442,66 @@ class DatabaseManager {
     }
   }
 
-  async createUser(userData: Omit<User, 'id' | 'created_at'>): Promise<ApiResponse<User>> {
+  async getSchemaVersion(): Promise<number> {
+    await this.run(SCHEMA_VERSION_TABLE)
+    const row = await this.get<{ version: number | null }>(
+      'SELECT MAX(version) as version FROM schema_version'
+    )
+    return row?.version || 0
+  }
+
+  // Bring the database file up to LATEST_SCHEMA_VERSION, applying every pending
+  // migration inside a single transaction so a failure leaves the file untouched
+  private async migrate(): Promise<void> {
+    const currentVersion = await this.getSchemaVersion()
+
+    if (currentVersion > LATEST_SCHEMA_VERSION) {
+      throw new Error(
+        `Database schema version ${currentVersion} is newer than this app supports (${LATEST_SCHEMA_VERSION}). Please update Our Africa.`
+      )
+    }
+
+    const pending = MIGRATIONS.filter((migration) => migration.version > currentVersion)
+    if (pending.length === 0) {
+      console.log(`Database schema is up to date (version ${currentVersion})`)
+      return
+    }
+
+    await this.transaction(async () => {
+      for (const migration of pending) {
+        console.log(`Applying migration ${migration.version}: ${migration.description}`)
+        await this.exec(migration.sql)
+        await this.run('INSERT INTO schema_version (version, description) VALUES (?, ?)', [
+          migration.version,
+          migration.description
+        ])
+      }
+      if (pending.some((migration) => migration.recalculateProgress)) {
+        await this.recalculateAllModuleProgress()
+      }
+      if (pending.some((migration) => migration.rebuildSearchIndex)) {
+        await this.rebuildSearchIndex()
+      }
+    })
+
+    console.log(
+      `Database schema migrated from version ${currentVersion} to ${LATEST_SCHEMA_VERSION}`
+    )
+  }
+
+  // Recompute completion for every learner and module they have started
+  private async recalculateAllModuleProgress(): Promise<void> {
+    const rows = await this.query<{ user_id: number; module_id: number }>(
+      'SELECT user_id, module_id FROM user_progress'
+    )
+    for (const { user_id, module_id } of rows) {
+      await this.updateModuleCompletionStatus(user_id, module_id)
+    }
+  }
+
+  async createUser(
+    userData: Pick<DatabaseUser, 'username' | 'email' | 'password_hash'> & { role?: UserRole }
+  ): Promise<ApiResponse<User>> {
     try {
       // Check if user already exists
       const existingUser = await this.get<User>(
@@ -153,21 +521,15 @@ class DatabaseManager {
 
       // Insert user
       const result = await this.run(
-        'INSERT INTO users (username, email, password_hash) VALUES (?, ?, ?)',
-        [userData.username, userData.email, hashedPassword]
+        'INSERT INTO users (username, email, password_hash, role) VALUES (?, ?, ?, ?)',
+        [userData.username, userData.email, hashedPassword, userData.role || 'student']
       )
 
       // Get the created user
-      const newUser = await this.get<User>('SELECT * FROM users WHERE id = ?', [result.lastID])
+      const newUser = await this.getUserById(result.lastID)
 
       if (newUser) {
-        // Remove password from response
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        const { password_hash: _password_hash, ...userWithoutPassword } = newUser
-        return {
-          success: true,
-          data: userWithoutPassword as User
-        }
+        return { success: true, data: newUser }
       }
 
       return { success: false, error: 'Failed to retrieve created user' }
@@ -178,7 +540,10 @@ class DatabaseManager {
 
   async authenticateUser(email: string, password: string): Promise<ApiResponse<User>> {
     try {
-      const user = await this.get<User>('SELECT * FROM users WHERE email = ?', [email])
+      const user = await this.get<UserRow & { password_hash: string }>(
+        `SELECT ${USER_COLUMNS}, password_hash FROM users WHERE email = ?`,
+        [email]
+      )
 
       if (!user) {
         return { success: false, error: 'Invalid email or password' }
@@ -190,13 +555,14 @@ class DatabaseManager {
         return { success: false, error: 'Invalid email or password' }
       }
 
-      // Remove password from response
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const { password_hash: _password_hash, ...userWithoutPassword } = user
-      return {
-        success: true,
-        data: userWithoutPassword as User
+      if (!user.is_active) {
+        return {
+          success: false,
+          error: 'This account has been deactivated. Please contact your administrator.'
+        }
       }
+
+      return { success: true, data: this.toUser(user) }
     } catch (error) {
       return { success: false, error: `Authentication failed: ${error}` }
     }
@@ -204,10 +570,8 @@ class DatabaseManager {
 
   async getAllUsers(): Promise<User[]> {
     try {
-      const users = await this.query<User>(
-        'SELECT id, username, email, avatar, created_at FROM users'
-      )
-      return users
+      const users = await this.query<UserRow>(`SELECT ${USER_COLUMNS} FROM users`)
+      return users.map((user) => this.toUser(user))
     } catch (error) {
       console.error('Failed to get all users:', error)
       return []
@@ -216,34 +580,225 @@ class DatabaseManager {
 
   async getUserById(id: number): Promise<User | null> {
     try {
-      const user = await this.get<User>(
-        'SELECT id, username, email, avatar, created_at FROM users WHERE id = ?',
-        [id]
-      )
-      return user || null
+      const user = await this.get<UserRow>(`SELECT ${USER_COLUMNS} FROM users WHERE id = ?`, [id])
+      return user ? this.toUser(user) : null
     } catch (error) {
       console.error('Failed to get user by id:', error)
       return null
     }
   }
 
+  async setUserRole(userId: number, role: UserRole): Promise<ApiResponse<User>> {
+    try {
+      const user = await this.getUserById(userId)
+      if (!user) {
+        return { success: false, error: 'User not found' }
+      }
+
+      // Never leave the installation without an administrator
+      if (
+        user.role === 'admin' &&
+        role !== 'admin' &&
+        user.is_active &&
+        (await this.countActiveAdmins()) <= 1
+      ) {
+        return { success: false, error: 'Cannot remove the last administrator' }
+      }
+
+      await this.run('UPDATE users SET role = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [
+        role,
+        userId
+      ])
+
+      const updatedUser = await this.getUserById(userId)
+      return updatedUser
+        ? { success: true, data: updatedUser }
+        : { success: false, error: 'Failed to retrieve updated user' }
+    } catch (error) {
+      return { success: false, error: `Failed to update user role: ${error}` }
+    }
+  }
+
+  /**
+   * Every account with its module progress and certificate counts, for the
+   * administrator dashboard
+   */
+  async getUserSummaries(): Promise<UserSummary[]> {
+    try {
+      const rows = await this.query<UserSummaryRow>(
+        `SELECT u.id, u.username, u.email, u.role, u.is_active, u.created_at,
+          (SELECT COUNT(*) FROM user_progress up WHERE up.user_id = u.id) as modules_started,
+          (SELECT COUNT(*) FROM user_progress up WHERE up.user_id = u.id AND up.completed = 1) as modules_completed,
+          (SELECT COUNT(*) FROM certificates c WHERE c.user_id = u.id) as certificate_count,
+          (SELECT SUM(up.total_time_spent) FROM user_progress up WHERE up.user_id = u.id) as total_time_spent,
+          (SELECT MAX(up.last_accessed) FROM user_progress up WHERE up.user_id = u.id) as last_active
+        FROM users u
+        ORDER BY u.username COLLATE NOCASE`
+      )
+      return rows.map((row) => ({
+        ...this.toUser(row),
+        modulesStarted: row.modules_started,
+        modulesCompleted: row.modules_completed,
+        certificateCount: row.certificate_count,
+        totalTimeSpent: row.total_time_spent || 0,
+        lastActive: row.last_active
+      }))
+    } catch (error) {
+      console.error('Failed to get user summaries:', error)
+      return []
+    }
+  }
+
+  async resetUserPassword(userId: number, newPassword: string): Promise<ApiResponse<unknown>> {
+    try {
+      const hashedPassword = await bcrypt.hash(newPassword, 10)
+      const result = await this.run(
+        'UPDATE users SET password_hash = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [hashedPassword, userId]
+      )
+
+      if (result.changes > 0) {
+        return { success: true, message: 'Password reset successfully' }
+      }
+      return { success: false, error: 'User not found' }
+    } catch (error) {
+      return { success: false, error: `Failed to reset password: ${error}` }
+    }
+  }
+
+  async setUserActive(userId: number, active: boolean): Promise<ApiResponse<User>> {
+    try {
+      const user = await this.getUserById(userId)
+      if (!user) {
+        return { success: false, error: 'User not found' }
+      }
+
+      if (!active && user.role === 'admin' && (await this.countActiveAdmins()) <= 1) {
+        return { success: false, error: 'Cannot deactivate the last administrator' }
+      }
+
+      await this.run(
+        'UPDATE users SET is_active = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [active ? 1 : 0, userId]
+      )
+
+      const updatedUser = await this.getUserById(userId)
+      return updatedUser
+        ? { success: true, data: updatedUser }
+        : { success: false, error: 'Failed to retrieve updated user' }
+    } catch (error) {
+      return { success: false, error: `Failed to update user: ${error}` }
+    }
+  }
+
+  /**
+   * Delete an account. Progress, lesson progress and certificates are removed
+   * by the ON DELETE CASCADE foreign keys.
+   */
+  async deleteUser(userId: number): Promise<ApiResponse<unknown>> {
+    try {
+      const user = await this.getUserById(userId)
+      if (!user) {
+        return { success: false, error: 'User not found' }
+      }
+
+      if (user.role === 'admin' && user.is_active && (await this.countActiveAdmins()) <= 1) {
+        return { success: false, error: 'Cannot delete the last administrator' }
+      }
+
+      await this.run('DELETE FROM users WHERE id = ?', [userId])
+      return { success: true, message: 'User deleted successfully' }
+    } catch (error) {
+      return { success: false, error: `Failed to delete user: ${error}` }
+    }
+  }
+
+  /**
+   * The app needs first-run setup until an active administrator exists
+   */
+  async needsSetup(): Promise<boolean> {
+    return (await this.countActiveAdmins()) === 0
+  }
+
+  async getSettings(): Promise<AppSettings> {
+    const rows = await this.query<{ key: string; value: string }>(
+      'SELECT key, value FROM app_settings'
+    )
+    const values = new Map(rows.map((row) => [row.key, row.value]))
+    const theme = values.get(SETTING_KEYS.defaultTheme)
+    const backupInterval = values.get(SETTING_KEYS.backupInterval)
+    const backupsToKeep = Number(values.get(SETTING_KEYS.backupsToKeep))
+    const lanSyncRole = values.get(SETTING_KEYS.lanSyncRole)
+
+    return {
+      institutionName: values.get(SETTING_KEYS.institutionName) || DEFAULT_SETTINGS.institutionName,
+      defaultTheme: isThemePreference(theme) ? theme : DEFAULT_SETTINGS.defaultTheme,
+      certificateTemplate:
+        values.get(SETTING_KEYS.certificateTemplate) || DEFAULT_SETTINGS.certificateTemplate,
+      backupInterval: isBackupInterval(backupInterval)
+        ? backupInterval
+        : DEFAULT_SETTINGS.backupInterval,
+      backupsToKeep: isBackupsToKeep(backupsToKeep)
+        ? backupsToKeep
+        : DEFAULT_SETTINGS.backupsToKeep,
+      lanSyncRole: isLanSyncRole(lanSyncRole) ? lanSyncRole : DEFAULT_SETTINGS.lanSyncRole
+    }
+  }
+
+  async updateSettings(settings: Partial<AppSettings>): Promise<AppSettings> {
+    for (const [name, key] of Object.entries(SETTING_KEYS)) {
+      const value = settings[name as keyof AppSettings]
+      if (value === undefined) continue
+
+      await this.run(
+        `INSERT INTO app_settings (key, value, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)
+         ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`,
+        [key, value]
+      )
+    }
+    return this.getSettings()
+  }
+
+  private async countActiveAdmins(): Promise<number> {
+    const admins = await this.get<{ count: number }>(
+      "SELECT COUNT(*) as count FROM users WHERE role = 'admin' AND is_active = 1"
+    )
+    return admins?.count || 0
+  }
+
+  private toUser(row: UserRow): User {
+    return {
+      id: row.id,
+      username: row.username,
+      email: row.email,
+      role: row.role,
+      is_active: Boolean(row.is_active),
+      created_at: row.created_at
+    }
+  }
+
   async createModule(
     moduleData: Omit<Module, 'id' | 'created_at' | 'updated_at'>
   ): Promise<ApiResponse<Module>> {
     try {
-      const result = await this.run(
-        'INSERT INTO modules (title, description, content, version, author, difficulty_level, tags, estimated_duration) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
-        [
-          moduleData.title,
-          moduleData.description,
-          JSON.stringify(moduleData.content),
-          moduleData.version || '1.0',
-          moduleData.author || 'Unknown',
-          moduleData.difficulty_level || 'beginner',
-          moduleData.tags ? JSON.stringify(moduleData.tags) : null,
-          moduleData.content?.estimatedTime || 0
-        ]
-      )
+      const result = await this.transaction(async () => {
+        const inserted = await this.run(
+          'INSERT INTO modules (title, description, content, version, author, difficulty_level, tags, estimated_duration, media_key) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+          [
+            moduleData.title,
+            moduleData.description,
+            JSON.stringify(moduleData.content),
+            moduleData.version || '1.0',
+            moduleData.author || 'Unknown',
+            moduleData.difficulty_level || 'beginner',
+            moduleData.tags ? JSON.stringify(moduleData.tags) : null,
+            moduleData.content?.estimatedTime || 0,
+            moduleData.media_key || null
+          ]
+        )
+        await this.indexModule(inserted.lastID, moduleData)
+        return inserted
+      })
 
       const newModule = await this.get<ModuleRow>('SELECT * FROM modules WHERE id = ?', [
         result.lastID
@@ -309,6 +864,211 @@ class DatabaseManager {
     }
   }
 
+  async getModuleByTitle(title: string): Promise<Module | null> {
+    try {
+      const module = await this.get<{ id: number }>(
+        'SELECT id FROM modules WHERE LOWER(title) = LOWER(?) ORDER BY id LIMIT 1',
+        [title]
+      )
+      return module ? this.getModuleById(module.id) : null
+    } catch (error) {
+      console.error('Failed to get module by title:', error)
+      return null
+    }
+  }
+
+  /**
+   * Replace a module's content with a newer version in place. The module keeps
+   * its ID, so learner progress survives for every lesson and quiz ID that still
+   * exists; progress for removed items is dropped and completion is recomputed.
+   */
+  async upgradeModule(
+    id: number,
+    moduleData: Omit<Module, 'id' | 'created_at' | 'updated_at'>
+  ): Promise<ApiResponse<ModuleUpgradeResult>> {
+    try {
+      const existing = await this.getModuleById(id)
+      if (!existing) {
+        return { success: false, error: 'Module not found' }
+      }
+
+      const newVersion = moduleData.version || '1.0'
+      if (compareVersions(newVersion, existing.version || '1.0') <= 0) {
+        return {
+          success: false,
+          error: `Version ${newVersion} is not newer than the installed version ${existing.version}`
+        }
+      }
+
+      // Plain JSON has no media of its own, so upgrading from it keeps the
+      // installed package's media and points relative paths at those files
+      const mediaKey = moduleData.media_key || existing.media_key || null
+      const upgraded =
+        mediaKey && !moduleData.media_key
+          ? ModuleValidator.rewriteMediaSources(moduleData, mediaKey)
+          : moduleData
+
+      const diff = diffModuleContent(existing.content, moduleData.content)
+      const remainingLessonIds = moduleData.content.lessons.map((lesson) => lesson.id)
+      const remainingQuizIds = (moduleData.content.quizzes || []).map((quiz) => quiz.id)
+
+      await this.transaction(async () => {
+        await this.run(
+          'UPDATE modules SET title = ?, description = ?, content = ?, version = ?, author = ?, difficulty_level = ?, tags = ?, estimated_duration = ?, media_key = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+          [
+            moduleData.title,
+            moduleData.description,
+            JSON.stringify(upgraded.content),
+            newVersion,
+            moduleData.author || existing.author || 'Unknown',
+            moduleData.difficulty_level || existing.difficulty_level || 'beginner',
+            moduleData.tags ? JSON.stringify(moduleData.tags) : null,
+            moduleData.content?.estimatedTime || 0,
+            mediaKey,
+            id
+          ]
+        )
+
+        await this.run(
+          `DELETE FROM lesson_progress WHERE module_id = ? AND lesson_id NOT IN (${placeholders(remainingLessonIds)})`,
+          [id, ...remainingLessonIds]
+        )
+        await this.indexModule(id, upgraded)
+        for (const table of ['quiz_progress', 'quiz_attempts']) {
+          await this.run(
+            `DELETE FROM ${table} WHERE module_id = ? AND quiz_id NOT IN (${placeholders(remainingQuizIds)})`,
+            [id, ...remainingQuizIds]
+          )
+        }
+
+        const affectedUsers = await this.query<{ user_id: number }>(
+          'SELECT user_id FROM user_progress WHERE module_id = ?',
+          [id]
+        )
+        for (const { user_id } of affectedUsers) {
+          await this.updateModuleCompletionStatus(user_id, id)
+        }
+      })
+
+      const module = await this.getModuleById(id)
+      if (!module) {
+        return { success: false, error: 'Failed to retrieve upgraded module' }
+      }
+
+      return {
+        success: true,
+        data: {
+          module,
+          previousVersion: existing.version,
+          previousMediaKey: existing.media_key !== mediaKey ? existing.media_key : null,
+          diff
+        }
+      }
+    } catch (error) {
+      return { success: false, error: `Failed to upgrade module: ${error}` }
+    }
+  }
+
+  // Replace a module's rows in the full-text search index
+  private async indexModule(
+    moduleId: number,
+    module: Pick<Module, 'title' | 'description' | 'tags' | 'content'>
+  ): Promise<void> {
+    await this.run('DELETE FROM module_search WHERE module_id = ?', [moduleId])
+    for (const document of buildSearchDocuments(module)) {
+      await this.run(
+        'INSERT INTO module_search (module_id, kind, target_id, title, body) VALUES (?, ?, ?, ?, ?)',
+        [moduleId, document.kind, document.targetId, document.title, document.body]
+      )
+    }
+  }
+
+  private async rebuildSearchIndex(): Promise<void> {
+    await this.run('DELETE FROM module_search')
+    for (const module of await this.getAllModules()) {
+      await this.indexModule(module.id, module)
+    }
+  }
+
+  /**
+   * Search module titles, descriptions, tags, lesson text and code, and quiz
+   * questions. Title matches rank above matches in the body.
+   */
+  async searchModules(query: string, limit = 20): Promise<SearchResult[]> {
+    const match = toMatchQuery(query)
+    if (!match) return []
+
+    try {
+      const rows = await this.query<SearchRow>(
+        `SELECT s.module_id, s.kind, s.target_id, s.title, m.title AS module_title,
+          snippet(module_search, -1, ?, ?, '…', 16) AS snippet
+        FROM module_search s
+        JOIN modules m ON m.id = s.module_id
+        WHERE module_search MATCH ?
+        ORDER BY bm25(module_search, 0, 0, 0, 10, 1)
+        LIMIT ?`,
+        [SNIPPET_MATCH_START, SNIPPET_MATCH_END, match, limit]
+      )
+      return rows.map((row) => ({
+        moduleId: row.module_id,
+        moduleTitle: row.module_title,
+        kind: row.kind,
+        targetId: row.target_id || null,
+        title: row.title,
+        snippet: row.snippet
+      }))
+    } catch (error) {
+      console.error('Failed to search modules:', error)
+      return []
+    }
+  }
+
+  /**
+   * The modules matching a set of filters for one user, in the chosen order,
+   * with how many modules each facet value would match
+   */
+  async queryModules(userId: number, filters: Required<ModuleFilters>): Promise<ModuleQueryResult> {
+    const { where, params } = buildModuleFilter(filters)
+    const rows = await this.query<{ id: number }>(
+      `SELECT m.id FROM ${MODULE_QUERY_FROM} ${where} ORDER BY ${MODULE_ORDER_BY[filters.sort]}`,
+      [userId, ...params]
+    )
+
+    const countBy = async (
+      facet: ModuleFacet,
+      valueSql: string,
+      join = ''
+    ): Promise<FacetCount[]> => {
+      const filter = buildModuleFilter(filters, facet)
+      const counts = await this.query<FacetCount>(
+        `SELECT ${valueSql} AS value, COUNT(*) AS count FROM ${MODULE_QUERY_FROM} ${join} ${filter.where}
+        GROUP BY value ORDER BY count DESC, value COLLATE NOCASE`,
+        [userId, ...filter.params]
+      )
+      return counts.filter((count) => count.value)
+    }
+    // Fixed facets list every value, even those no module matches
+    const withEvery = <T extends string>(values: T[], counts: FacetCount[]): FacetCount<T>[] =>
+      values.map((value) => ({
+        value,
+        count: counts.find((count) => count.value === value)?.count || 0
+      }))
+
+    return {
+      moduleIds: rows.map((row) => row.id),
+      facets: {
+        difficulties: withEvery(
+          MODULE_DIFFICULTIES,
+          await countBy('difficulties', 'm.difficulty_level')
+        ),
+        tags: await countBy('tags', 'facet_tag.value', 'JOIN json_each(m.tags) facet_tag'),
+        authors: await countBy('authors', 'm.author'),
+        durations: withEvery(MODULE_DURATIONS, await countBy('durations', DURATION_SQL)),
+        statuses: withEvery(MODULE_STATUSES, await countBy('statuses', STATUS_SQL))
+      }
+    }
+  }
+
   async deleteModule(id: number): Promise<ApiResponse<unknown>> {
     try {
       const result = await this.run('DELETE FROM modules WHERE id = ?', [id])
@@ -358,40 +1118,31 @@ class DatabaseManager {
     }
   }
 
+  async getUserQuizProgress(userId: number): Promise<QuizProgress[]> {
+    try {
+      return await this.query<QuizProgress>('SELECT * FROM quiz_progress WHERE user_id = ?', [
+        userId
+      ])
+    } catch (error) {
+      console.error('Failed to get user quiz progress:', error)
+      return []
+    }
+  }
+
   async updateLessonProgress(progressData: {
     userId: number
     moduleId: number
     lessonId: string
     completed: boolean
-    timeSpent: number
-    quizScore?: number
   }): Promise<ApiResponse<LessonProgress>> {
     try {
-      // Check if module progress exists (for setting started_at timestamp)
-      const moduleProgress = await this.get<UserProgress>(
-        'SELECT * FROM user_progress WHERE user_id = ? AND module_id = ?',
-        [progressData.userId, progressData.moduleId]
-      )
-
-      if (!moduleProgress) {
-        // First time user interacts with this module - create module progress with started_at
-        await this.run(
-          'INSERT INTO user_progress (user_id, module_id, started_at, last_accessed) VALUES (?, ?, ?, ?)',
-          [
-            progressData.userId,
-            progressData.moduleId,
-            new Date().toISOString(),
-            new Date().toISOString()
-          ]
-        )
-      } else {
-        // Update last_accessed time
-        await this.run(
-          'UPDATE user_progress SET last_accessed = ? WHERE user_id = ? AND module_id = ?',
-          [new Date().toISOString(), progressData.userId, progressData.moduleId]
-        )
+      const module = await this.getModuleById(progressData.moduleId)
+      if (!module?.content.lessons.some((lesson) => lesson.id === progressData.lessonId)) {
+        return { success: false, error: 'Lesson not found' }
       }
 
+      await this.touchModuleProgress(progressData.userId, progressData.moduleId)
+
       // Check if lesson progress record exists
       const existing = await this.get<LessonProgress>(
         'SELECT * FROM lesson_progress WHERE user_id = ? AND module_id = ? AND lesson_id = ?',
@@ -399,14 +1150,11 @@ class DatabaseManager {
       )
 
       if (existing) {
-        // Update existing record - ACCUMULATE time instead of overwriting
-        const newTimeSpent = (existing.time_spent || 0) + progressData.timeSpent
+        // Update existing record; time is recorded separately by recordTimeSpent
         await this.run(
-          'UPDATE lesson_progress SET completed = ?, time_spent = ?, quiz_score = ?, updated_at = CURRENT_TIMESTAMP, completed_at = ? WHERE user_id = ? AND module_id = ? AND lesson_id = ?',
+          'UPDATE lesson_progress SET completed = ?, updated_at = CURRENT_TIMESTAMP, completed_at = ? WHERE user_id = ? AND module_id = ? AND lesson_id = ?',
           [
             progressData.completed,
-            newTimeSpent,
-            progressData.quizScore !== undefined ? progressData.quizScore : existing.quiz_score,
             progressData.completed ? new Date().toISOString() : existing.completed_at,
             progressData.userId,
             progressData.moduleId,
@@ -416,14 +1164,12 @@ class DatabaseManager {
       } else {
         // Create new record
         await this.run(
-          'INSERT INTO lesson_progress (user_id, module_id, lesson_id, completed, time_spent, quiz_score, completed_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+          'INSERT INTO lesson_progress (user_id, module_id, lesson_id, completed, completed_at) VALUES (?, ?, ?, ?, ?)',
           [
             progressData.userId,
             progressData.moduleId,
             progressData.lessonId,
             progressData.completed,
-            progressData.timeSpent,
-            progressData.quizScore,
             progressData.completed ? new Date().toISOString() : null
           ]
         )
@@ -448,10 +1194,207 @@ class DatabaseManager {
     }
   }
 
+  /**
+   * Add tracked learning time for a lesson or quiz. Lesson time also builds up
+   * on the lesson's own row; every second counts towards the module's
+   * total_time_spent.
+   */
+  async recordTimeSpent(
+    userId: number,
+    moduleId: number,
+    itemId: string,
+    seconds: number
+  ): Promise<ApiResponse<UserProgress>> {
+    try {
+      const module = await this.getModuleById(moduleId)
+      if (!module) {
+        return { success: false, error: 'Module not found' }
+      }
+
+      const isLesson = module.content.lessons.some((lesson) => lesson.id === itemId)
+      const isQuiz = (module.content.quizzes || []).some((quiz) => quiz.id === itemId)
+      if (!isLesson && !isQuiz) {
+        return { success: false, error: 'Lesson or quiz not found' }
+      }
+
+      const credited = Math.min(
+        Math.max(Math.round(Number(seconds) || 0), 0),
+        MAX_TIME_ENTRY_SECONDS
+      )
+
+      await this.touchModuleProgress(userId, moduleId)
+      if (credited > 0) {
+        if (isLesson) {
+          await this.run(
+            `INSERT INTO lesson_progress (user_id, module_id, lesson_id, time_spent) VALUES (?, ?, ?, ?)
+             ON CONFLICT (user_id, module_id, lesson_id) DO UPDATE SET
+               time_spent = time_spent + excluded.time_spent,
+               updated_at = CURRENT_TIMESTAMP`,
+            [userId, moduleId, itemId, credited]
+          )
+        }
+        await this.addModuleTime(userId, moduleId, credited)
+      }
+
+      const progress = await this.get<UserProgress>(
+        'SELECT * FROM user_progress WHERE user_id = ? AND module_id = ?',
+        [userId, moduleId]
+      )
+      if (!progress) {
+        return { success: false, error: 'Failed to retrieve updated progress' }
+      }
+
+      return { success: true, data: progress }
+    } catch (error) {
+      return { success: false, error: `Failed to record time spent: ${error}` }
+    }
+  }
+
+  private async addModuleTime(userId: number, moduleId: number, seconds: number): Promise<void> {
+    await this.run(
+      'UPDATE user_progress SET total_time_spent = COALESCE(total_time_spent, 0) + ? WHERE user_id = ? AND module_id = ?',
+      [seconds, userId, moduleId]
+    )
+    await this.run(
+      `INSERT INTO learning_time (user_id, module_id, day, seconds) VALUES (?, ?, ?, ?)
+       ON CONFLICT (user_id, module_id, day) DO UPDATE SET seconds = seconds + excluded.seconds`,
+      [userId, moduleId, toDayKey(new Date()), seconds]
+    )
+  }
+
+  /**
+   * Aggregate a learner's activity for the analytics page. Daily series cover
+   * the last `days` days, including today, with empty days filled in.
+   */
+  async getLearnerAnalytics(userId: number, days = 30): Promise<LearnerAnalytics> {
+    const today = toDayKey(new Date())
+    const since = shiftDay(today, -(days - 1))
+
+    const timeRows = await this.query<{ day: string; seconds: number }>(
+      'SELECT day, SUM(seconds) as seconds FROM learning_time WHERE user_id = ? AND day >= ? GROUP BY day',
+      [userId, since]
+    )
+    const lessonRows = await this.query<{ day: string; count: number }>(
+      `SELECT date(completed_at, 'localtime') as day, COUNT(*) as count FROM lesson_progress
+       WHERE user_id = ? AND completed = 1 AND completed_at IS NOT NULL
+         AND date(completed_at, 'localtime') >= ?
+       GROUP BY day`,
+      [userId, since]
+    )
+    const timePerModule = await this.query<{ moduleId: number; title: string; seconds: number }>(
+      `SELECT m.id as moduleId, m.title, SUM(lt.seconds) as seconds FROM learning_time lt
+       JOIN modules m ON m.id = lt.module_id
+       WHERE lt.user_id = ?
+       GROUP BY m.id
+       HAVING seconds > 0
+       ORDER BY seconds DESC`,
+      [userId]
+    )
+    const attemptRows = await this.query<{
+      module_id: number
+      module_title: string
+      quiz_id: string
+      score: number
+      completed_at: string
+    }>(
+      `SELECT qa.module_id, m.title as module_title, qa.quiz_id, qa.score, qa.completed_at
+       FROM quiz_attempts qa JOIN modules m ON m.id = qa.module_id
+       WHERE qa.user_id = ?
+       ORDER BY qa.completed_at, qa.id`,
+      [userId]
+    )
+    // Questions answered wrongly most often, by share of correct answers
+    const questionRows = await this.query<{
+      module_id: number
+      quiz_id: string
+      question_id: string
+      answered: number
+      correct: number
+    }>(
+      `SELECT qa.module_id, qa.quiz_id, json_extract(answer.value, '$.questionId') as question_id,
+         COUNT(*) as answered, SUM(json_extract(answer.value, '$.correct')) as correct
+       FROM quiz_attempts qa, json_each(qa.answers) answer
+       WHERE qa.user_id = ?
+       GROUP BY qa.module_id, qa.quiz_id, question_id
+       HAVING correct < answered
+       ORDER BY CAST(correct AS REAL) / answered, answered DESC
+       LIMIT ?`,
+      [userId, HARDEST_QUESTION_LIMIT]
+    )
+    const activeDayRows = await this.query<{ day: string }>(
+      `SELECT day FROM learning_time WHERE user_id = ? AND seconds > 0
+       UNION SELECT date(completed_at, 'localtime') FROM lesson_progress
+         WHERE user_id = ? AND completed = 1 AND completed_at IS NOT NULL
+       UNION SELECT date(completed_at, 'localtime') FROM quiz_attempts WHERE user_id = ?`,
+      [userId, userId, userId]
+    )
+
+    // Quiz and question titles live in each module's content
+    const modules = new Map<number, Module | null>()
+    const findQuiz = async (moduleId: number, quizId: string): Promise<Quiz | undefined> => {
+      if (!modules.has(moduleId)) {
+        modules.set(moduleId, await this.getModuleById(moduleId))
+      }
+      return modules.get(moduleId)?.content.quizzes?.find((quiz) => quiz.id === quizId)
+    }
+
+    const quizScores: LearnerAnalytics['quizScores'] = []
+    for (const row of attemptRows) {
+      const quiz = await findQuiz(row.module_id, row.quiz_id)
+      quizScores.push({
+        moduleId: row.module_id,
+        moduleTitle: row.module_title,
+        quizId: row.quiz_id,
+        quizTitle: quiz?.title || row.quiz_id,
+        score: row.score,
+        passingScore: quiz?.passingScore ?? 0,
+        completedAt: row.completed_at
+      })
+    }
+
+    const hardestQuestions: LearnerAnalytics['hardestQuestions'] = []
+    for (const row of questionRows) {
+      const quiz = await findQuiz(row.module_id, row.quiz_id)
+      hardestQuestions.push({
+        moduleId: row.module_id,
+        moduleTitle: modules.get(row.module_id)?.title || '',
+        quizId: row.quiz_id,
+        quizTitle: quiz?.title || row.quiz_id,
+        questionId: row.question_id,
+        question:
+          quiz?.questions.find((question) => question.id === row.question_id)?.question ||
+          row.question_id,
+        answered: row.answered,
+        correct: row.correct
+      })
+    }
+
+    const secondsByDay = new Map(timeRows.map((row) => [row.day, row.seconds]))
+    const lessonsByDay = new Map(lessonRows.map((row) => [row.day, row.count]))
+    const series = Array.from({ length: days }, (_, index) => shiftDay(since, index))
+
+    return {
+      days,
+      timePerDay: series.map((day) => ({ day, seconds: secondsByDay.get(day) || 0 })),
+      lessonsCompletedPerDay: series.map((day) => ({ day, count: lessonsByDay.get(day) || 0 })),
+      timePerModule,
+      quizScores,
+      hardestQuestions,
+      streak: calculateStreak(
+        activeDayRows.map((row) => row.day),
+        today
+      )
+    }
+  }
+
   async getModuleProgress(
     userId: number,
     moduleId: number
-  ): Promise<{ moduleProgress: UserProgress | null; lessonProgress: LessonProgress[] }> {
+  ): Promise<{
+    moduleProgress: UserProgress | null
+    lessonProgress: LessonProgress[]
+    quizProgress: QuizProgress[]
+  }> {
     try {
       const moduleProgress = await this.get<UserProgress>(
         'SELECT * FROM user_progress WHERE user_id = ? AND module_id = ?',
@@ -461,19 +1404,37 @@ class DatabaseManager {
         'SELECT * FROM lesson_progress WHERE user_id = ? AND module_id = ?',
         [userId, moduleId]
       )
-      return { moduleProgress: moduleProgress || null, lessonProgress }
+      const quizProgress = await this.query<QuizProgress>(
+        'SELECT * FROM quiz_progress WHERE user_id = ? AND module_id = ?',
+        [userId, moduleId]
+      )
+      return { moduleProgress: moduleProgress || null, lessonProgress, quizProgress }
     } catch (error) {
       console.error('Failed to get module progress:', error)
-      return { moduleProgress: null, lessonProgress: [] }
+      return { moduleProgress: null, lessonProgress: [], quizProgress: [] }
     }
   }
 
-  async resetModuleProgress(userId: number, moduleId: number): Promise<ApiResponse<unknown>> {
+  async resetModuleProgress(
+    userId: number,
+    moduleId: number,
+    options: { clearQuizAttempts?: boolean } = {}
+  ): Promise<ApiResponse<unknown>> {
     try {
       await this.run('DELETE FROM user_progress WHERE user_id = ? AND module_id = ?', [
         userId,
         moduleId
       ])
+      await this.run('DELETE FROM quiz_progress WHERE user_id = ? AND module_id = ?', [
+        userId,
+        moduleId
+      ])
+      if (options.clearQuizAttempts) {
+        await this.run('DELETE FROM quiz_attempts WHERE user_id = ? AND module_id = ?', [
+          userId,
+          moduleId
+        ])
+      }
       const result = await this.run(
         'DELETE FROM lesson_progress WHERE user_id = ? AND module_id = ?',
         [userId, moduleId]
@@ -485,39 +1446,171 @@ class DatabaseManager {
     }
   }
 
-  private async updateModuleCompletionStatus(userId: number, moduleId: number): Promise<void> {
+  /**
+   * Grade a submitted quiz, record it as a new attempt and update the quiz's
+   * progress row with the score its scoring policy counts. Answers are graded
+   * here against the stored module so the renderer cannot report its own score.
+   */
+  async recordQuizAttempt(
+    userId: number,
+    submission: QuizAttemptSubmission
+  ): Promise<ApiResponse<QuizAttemptResult>> {
     try {
-      // Get the module to check total lessons and quizzes
-      const module = await this.get<ModuleRow>('SELECT * FROM modules WHERE id = ?', [moduleId])
-      if (!module) return
+      // Checking the attempt limit and recording the attempt in one transaction
+      // stops two quick submissions from both getting through
+      return await this.transaction(async () => {
+        const { moduleId, quizId } = submission
+        const module = await this.getModuleById(moduleId)
+        const quiz = module?.content.quizzes?.find((q) => q.id === quizId)
+
+        if (!quiz) {
+          return { success: false, error: 'Quiz not found' }
+        }
 
-      const parsedContent = module.content
-        ? JSON.parse(module.content)
-        : { lessons: [], quizzes: [] }
-      const totalLessons = parsedContent.lessons?.length || 0
-      const totalQuizzes = parsedContent.quizzes?.length || 0
-      const totalItems = totalLessons + totalQuizzes
+        if (
+          !Array.isArray(submission.answers) ||
+          submission.answers.length !== quiz.questions.length
+        ) {
+          return { success: false, error: 'An answer is required for every question' }
+        }
 
-      if (totalItems === 0) return
+        const previousAttempts = await this.getQuizAttempts(userId, moduleId, quizId)
+        const availability = getAttemptAvailability(quiz, previousAttempts)
+        if (!availability.allowed) {
+          return { success: false, error: availability.reason }
+        }
 
-      // Get completed lessons count (lesson IDs like "lesson-1", "lesson-2", etc.)
-      const completedLessonsResult = await this.query<{ count: number }>(
-        'SELECT COUNT(*) as count FROM lesson_progress WHERE user_id = ? AND module_id = ? AND completed = 1 AND lesson_id LIKE "lesson-%"',
-        [userId, moduleId]
+        const answers: QuizAttemptAnswer[] = quiz.questions.map((question, index) => {
+          const raw = submission.answers[index]
+          const answer =
+            typeof raw === 'number'
+              ? raw
+              : typeof raw === 'string'
+                ? raw.slice(0, MAX_TEXT_ANSWER_LENGTH)
+                : null
+          return {
+            questionId: question.id,
+            answer,
+            correct: isAnswerCorrect(question, answer ?? undefined)
+          }
+        })
+        const { score } = gradeQuiz(
+          quiz,
+          answers.map((a) => a.answer ?? undefined)
+        )
+
+        const durationSeconds = Math.max(0, Math.round(Number(submission.durationSeconds) || 0))
+        const completedAt = new Date()
+        const startedAt = new Date(completedAt.getTime() - durationSeconds * 1000)
+
+        const result = await this.run(
+          'INSERT INTO quiz_attempts (user_id, module_id, quiz_id, score, passed, answers, duration_seconds, started_at, completed_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+          [
+            userId,
+            moduleId,
+            quizId,
+            score,
+            score >= quiz.passingScore,
+            JSON.stringify(answers),
+            durationSeconds,
+            startedAt.toISOString(),
+            completedAt.toISOString()
+          ]
+        )
+
+        const attempts = await this.getQuizAttempts(userId, moduleId, quizId)
+        const attempt = attempts.find((a) => a.id === result.lastID)
+        const countedScore = getCountedScore(quiz, attempts) ?? score
+
+        await this.touchModuleProgress(userId, moduleId)
+        await this.run(
+          `INSERT INTO quiz_progress (user_id, module_id, quiz_id, score, attempts, last_attempt_at)
+           VALUES (?, ?, ?, ?, ?, ?)
+           ON CONFLICT (user_id, module_id, quiz_id) DO UPDATE SET
+             score = excluded.score,
+             attempts = excluded.attempts,
+             last_attempt_at = excluded.last_attempt_at,
+             updated_at = CURRENT_TIMESTAMP`,
+          [userId, moduleId, quizId, countedScore, attempts.length, completedAt.toISOString()]
+        )
+
+        await this.updateModuleCompletionStatus(userId, moduleId)
+
+        const quizProgress = await this.get<QuizProgress>(
+          'SELECT * FROM quiz_progress WHERE user_id = ? AND module_id = ? AND quiz_id = ?',
+          [userId, moduleId, quizId]
+        )
+        if (!attempt || !quizProgress) {
+          return { success: false, error: 'Failed to retrieve recorded quiz attempt' }
+        }
+
+        return { success: true, data: { attempt, countedScore, quizProgress } }
+      })
+    } catch (error) {
+      return { success: false, error: `Failed to record quiz attempt: ${error}` }
+    }
+  }
+
+  /**
+   * A learner's attempts at one quiz, newest first
+   */
+  async getQuizAttempts(userId: number, moduleId: number, quizId: string): Promise<QuizAttempt[]> {
+    const rows = await this.query<QuizAttemptRow>(
+      'SELECT * FROM quiz_attempts WHERE user_id = ? AND module_id = ? AND quiz_id = ? ORDER BY completed_at DESC, id DESC',
+      [userId, moduleId, quizId]
+    )
+
+    return rows.map((row) => ({
+      ...row,
+      passed: Boolean(row.passed),
+      answers: JSON.parse(row.answers)
+    }))
+  }
+
+  /**
+   * Record that the learner opened the module: the first call sets started_at,
+   * later calls move last_accessed
+   */
+  private async touchModuleProgress(userId: number, moduleId: number): Promise<void> {
+    const moduleProgress = await this.get<UserProgress>(
+      'SELECT * FROM user_progress WHERE user_id = ? AND module_id = ?',
+      [userId, moduleId]
+    )
+
+    if (!moduleProgress) {
+      // First time user interacts with this module - create module progress with started_at
+      await this.run(
+        'INSERT INTO user_progress (user_id, module_id, started_at, last_accessed) VALUES (?, ?, ?, ?)',
+        [userId, moduleId, new Date().toISOString(), new Date().toISOString()]
+      )
+    } else {
+      // Update last_accessed time
+      await this.run(
+        'UPDATE user_progress SET last_accessed = ? WHERE user_id = ? AND module_id = ?',
+        [new Date().toISOString(), userId, moduleId]
       )
+    }
+  }
 
-      // Get completed quizzes count (quiz IDs like "quiz-1", "quiz-2", etc.)
-      const completedQuizzesResult = await this.query<{ count: number }>(
-        'SELECT COUNT(*) as count FROM lesson_progress WHERE user_id = ? AND module_id = ? AND completed = 1 AND lesson_id LIKE "quiz-%" AND quiz_score IS NOT NULL',
+  private async updateModuleCompletionStatus(userId: number, moduleId: number): Promise<void> {
+    try {
+      const module = await this.getModuleById(moduleId)
+      if (!module) return
+
+      const lessonProgress = await this.query<{ lesson_id: string; completed: number }>(
+        'SELECT lesson_id, completed FROM lesson_progress WHERE user_id = ? AND module_id = ?',
+        [userId, moduleId]
+      )
+      const quizProgress = await this.query<{ quiz_id: string; score: number }>(
+        'SELECT quiz_id, score FROM quiz_progress WHERE user_id = ? AND module_id = ?',
         [userId, moduleId]
       )
 
-      const completedLessons = completedLessonsResult[0]?.count || 0
-      const completedQuizzes = completedQuizzesResult[0]?.count || 0
-      const totalCompleted = completedLessons + completedQuizzes
+      const completion = calculateModuleCompletion(module.content, lessonProgress, quizProgress)
+      if (completion.totalLessons + completion.totalQuizzes === 0) return
 
-      const progressPercentage = Math.round((totalCompleted / totalItems) * 100)
-      const isCompleted = completedLessons >= totalLessons && completedQuizzes >= totalQuizzes
+      const progressPercentage = completion.percentComplete
+      const isCompleted = completion.isCompleted
 
       // Get current module progress
       const currentProgress = await this.get<UserProgress>(
@@ -537,97 +1630,687 @@ class DatabaseManager {
           'UPDATE user_progress SET progress_percentage = ?, completed = ?, completion_date = ? WHERE user_id = ? AND module_id = ?',
           [progressPercentage, isCompleted, completionDate, userId, moduleId]
         )
+
+        // Completing a module earns its certificate
+        if (isCompleted && !wasAlreadyCompleted) {
+          await this.issueCertificate(userId, moduleId)
+        }
       }
     } catch (error) {
       console.error('Failed to update module completion status:', error)
     }
   }
 
+  /**
+   * The learner's certificate for a module. Certificates are issued when a
+   * module is completed; this also issues one for modules completed before
+   * issuance was automatic.
+   */
   async generateCertificate(userId: number, moduleId: number): Promise<ApiResponse<Certificate>> {
     try {
-      // Check if user has completed the module
-      const lessonProgress = await this.query<LessonProgress>(
-        'SELECT * FROM lesson_progress WHERE user_id = ? AND module_id = ? AND completed = 1',
+      // A learner holds one certificate per module
+      const existing = await this.get<CertificateRow>(
+        `${CERTIFICATE_SELECT} WHERE c.user_id = ? AND c.module_id = ?`,
         [userId, moduleId]
       )
+      if (existing) {
+        return { success: true, data: await this.toSignedCertificate(existing) }
+      }
 
-      const module = await this.get<ModuleRow>('SELECT * FROM modules WHERE id = ?', [moduleId])
-      const user = await this.get<User>('SELECT * FROM users WHERE id = ?', [userId])
+      const progress = await this.get<{ completed: number }>(
+        'SELECT completed FROM user_progress WHERE user_id = ? AND module_id = ?',
+        [userId, moduleId]
+      )
+      if (!progress?.completed) {
+        return { success: false, error: 'Complete every lesson and pass every quiz first' }
+      }
 
-      if (!module || !user) {
+      const certificate = await this.issueCertificate(userId, moduleId)
+      if (!certificate) {
         return { success: false, error: 'Module or user not found' }
       }
+      return { success: true, data: certificate }
+    } catch (error) {
+      return { success: false, error: `Failed to generate certificate: ${error}` }
+    }
+  }
 
-      // Parse module content to get lessons
-      const parsedContent = module.content
-        ? JSON.parse(module.content)
-        : { lessons: [], quizzes: [] }
-      const lessons = parsedContent.lessons || []
+  /**
+   * Record and sign a certificate for a completed module, capturing the
+   * completion date, time spent and quiz score as they stand now
+   */
+  private async issueCertificate(userId: number, moduleId: number): Promise<Certificate | null> {
+    const module = await this.get<ModuleRow>('SELECT * FROM modules WHERE id = ?', [moduleId])
+    const user = await this.get<User>('SELECT * FROM users WHERE id = ?', [userId])
+    if (!module || !user) return null
+
+    const progress = await this.get<{
+      completion_date: string | null
+      total_time_spent: number | null
+    }>(
+      'SELECT completion_date, total_time_spent FROM user_progress WHERE user_id = ? AND module_id = ?',
+      [userId, moduleId]
+    )
+    const lessonTime = await this.get<{ seconds: number | null }>(
+      'SELECT SUM(time_spent) as seconds FROM lesson_progress WHERE user_id = ? AND module_id = ?',
+      [userId, moduleId]
+    )
+    const quizScore = await this.get<{ score: number | null }>(
+      'SELECT AVG(score) as score FROM quiz_progress WHERE user_id = ? AND module_id = ?',
+      [userId, moduleId]
+    )
+
+    const certificateData: CertificateData = {
+      user: user.username,
+      module: module.title,
+      moduleVersion: module.version,
+      completionDate: progress?.completion_date || new Date().toISOString(),
+      timeSpent: progress?.total_time_spent || lessonTime?.seconds || 0,
+      score: quizScore?.score != null ? Math.round(quizScore.score) : null
+    }
+
+    // The UNIQUE (user_id, module_id) constraint keeps the first certificate issued
+    await this.run(
+      'INSERT OR IGNORE INTO certificates (user_id, module_id, certificate_code, certificate_data) VALUES (?, ?, ?, ?)',
+      [userId, moduleId, generateCertificateCode(), JSON.stringify(certificateData)]
+    )
+
+    const row = await this.get<CertificateRow>(
+      `${CERTIFICATE_SELECT} WHERE c.user_id = ? AND c.module_id = ?`,
+      [userId, moduleId]
+    )
+    return row ? this.toSignedCertificate(row) : null
+  }
 
-      if (lessonProgress.length < lessons.length * 0.8) {
-        return { success: false, error: 'Module not sufficiently completed' }
+  async getCertificateById(id: number): Promise<Certificate | null> {
+    const row = await this.get<CertificateRow>(`${CERTIFICATE_SELECT} WHERE c.id = ?`, [id])
+    return row ? this.toSignedCertificate(row) : null
+  }
+
+  async getUserCertificates(userId: number): Promise<Certificate[]> {
+    try {
+      const rows = await this.query<CertificateRow>(
+        `${CERTIFICATE_SELECT} WHERE c.user_id = ? ORDER BY c.issued_at DESC`,
+        [userId]
+      )
+      const certificates: Certificate[] = []
+      for (const row of rows) {
+        certificates.push(await this.toSignedCertificate(row))
       }
+      return certificates
+    } catch (error) {
+      console.error('Failed to get user certificates:', error)
+      return []
+    }
+  }
 
-      // Generate certificate code
-      const certificateCode = `CERT-${Date.now()}-${userId}-${moduleId}`
+  /**
+   * Verify a certificate from the token in its QR code, or from its printed
+   * code when the certificate was issued by this installation
+   */
+  async verifyCertificate(input: string): Promise<CertificateVerification> {
+    let token = input.trim()
+
+    if (!isCertificateToken(token)) {
+      const row = await this.get<CertificateRow>(
+        `${CERTIFICATE_SELECT} WHERE c.certificate_code = ?`,
+        [token.toUpperCase()]
+      )
+      if (!row) {
+        return {
+          valid: false,
+          error: 'No certificate with this code was issued by this installation',
+          issuedHere: false,
+          onRecord: false
+        }
+      }
+      token = (await this.toSignedCertificate(row)).verification_token!
+    }
 
-      // Create certificate data
-      const certificateData = {
-        user: user.username,
-        module: module.title,
-        completionDate: new Date().toISOString(),
-        timeSpent: lessonProgress.reduce((total, p) => total + (p.time_spent || 0), 0)
+    const result = verifyCertificateToken(token)
+    const payload = result.payload
+    if (!payload) {
+      return {
+        valid: false,
+        error: result.valid ? undefined : result.error,
+        issuedHere: false,
+        onRecord: false
       }
+    }
 
-      const result = await this.run(
-        'INSERT INTO certificates (user_id, module_id, certificate_code, certificate_data) VALUES (?, ?, ?, ?)',
-        [userId, moduleId, certificateCode, JSON.stringify(certificateData)]
+    const record = await this.get<{ certificate_data: string | null }>(
+      'SELECT certificate_data FROM certificates WHERE certificate_code = ?',
+      [payload.code]
+    )
+    const ownKey = getPublicKey(await this.getSigningKey())
+
+    return {
+      valid: result.valid,
+      error: result.valid ? undefined : result.error,
+      payload,
+      issuerFingerprint: getKeyFingerprint(payload.key),
+      issuedHere: payload.key === ownKey,
+      onRecord: parseCertificateData(record?.certificate_data ?? null).token === token
+    }
+  }
+
+  // The installation's signing key for certificates and learner profiles,
+  // created the first time it is needed
+  async getSigningKey(): Promise<string> {
+    const row = await this.get<{ value: string }>('SELECT value FROM app_settings WHERE key = ?', [
+      CERTIFICATE_KEY_SETTING
+    ])
+    if (row) return row.value
+
+    await this.run('INSERT OR IGNORE INTO app_settings (key, value) VALUES (?, ?)', [
+      CERTIFICATE_KEY_SETTING,
+      generateSigningKey()
+    ])
+    return this.getSigningKey()
+  }
+
+  // Map a certificate row, signing it first if it was issued before certificates were signed
+  private async toSignedCertificate(row: CertificateRow): Promise<Certificate> {
+    const data = parseCertificateData(row.certificate_data)
+    const completionDate = data.completionDate || row.issued_at
+
+    if (!data.token) {
+      const settings = await this.getSettings()
+      const module = await this.get<{ version: string }>(
+        'SELECT version FROM modules WHERE id = ?',
+        [row.module_id]
+      )
+      data.token = signCertificate(
+        {
+          code: row.certificate_code,
+          learner: data.user || row.username,
+          module: data.module || row.module_title,
+          moduleVersion: data.moduleVersion || module?.version || '',
+          completedAt: completionDate,
+          issuer: settings.institutionName
+        },
+        await this.getSigningKey()
       )
+      await this.run('UPDATE certificates SET certificate_data = ? WHERE id = ?', [
+        JSON.stringify(data),
+        row.id
+      ])
+    }
+
+    return {
+      id: row.id,
+      user_id: row.user_id,
+      module_id: row.module_id,
+      certificate_code: row.certificate_code,
+      generated_at: row.issued_at,
+      module_title: data.module || row.module_title,
+      user_name: data.user || row.username,
+      completion_date: completionDate,
+      score: typeof data.score === 'number' ? data.score : null,
+      time_spent: data.timeSpent || 0,
+      verification_token: data.token
+    }
+  }
+
+  /**
+   * Everything a learner has done, grouped by module, for moving their
+   * progress to another installation
+   */
+  async getLearnerProfileData(userId: number): Promise<LearnerProfileData | null> {
+    const user = await this.get<UserRow>('SELECT * FROM users WHERE id = ?', [userId])
+    if (!user) return null
+
+    const progressRows = await this.query<{
+      module_id: number
+      started_at: string | null
+      completion_date: string | null
+      total_time_spent: number | null
+      last_accessed: string | null
+    }>('SELECT * FROM user_progress WHERE user_id = ?', [userId])
+    const lessonRows = await this.query<{
+      module_id: number
+      lesson_id: string
+      completed: number
+      time_spent: number | null
+      completed_at: string | null
+    }>('SELECT * FROM lesson_progress WHERE user_id = ?', [userId])
+    const quizRows = await this.query<{
+      module_id: number
+      quiz_id: string
+      score: number
+      attempts: number
+      last_attempt_at: string | null
+    }>('SELECT * FROM quiz_progress WHERE user_id = ?', [userId])
+    const attemptRows = await this.query<QuizAttemptRow>(
+      'SELECT * FROM quiz_attempts WHERE user_id = ? ORDER BY completed_at',
+      [userId]
+    )
+    const certificateRows = await this.query<CertificateRow>(
+      `${CERTIFICATE_SELECT} WHERE c.user_id = ?`,
+      [userId]
+    )
+    const timeRows = await this.query<{ module_id: number; day: string; seconds: number }>(
+      'SELECT module_id, day, seconds FROM learning_time WHERE user_id = ? ORDER BY day',
+      [userId]
+    )
+    const modules = await this.query<{ id: number; title: string; version: string }>(
+      'SELECT id, title, version FROM modules'
+    )
+
+    const entries = new Map<number, LearnerProfileModule>()
+    const entryFor = (moduleId: number): LearnerProfileModule | null => {
+      const module = modules.find((m) => m.id === moduleId)
+      if (!module) return null
+      if (!entries.has(moduleId)) {
+        entries.set(moduleId, {
+          title: module.title,
+          version: module.version,
+          progress: null,
+          lessons: [],
+          quizzes: [],
+          quizAttempts: [],
+          certificate: null,
+          learningTime: []
+        })
+      }
+      return entries.get(moduleId)!
+    }
 
-      const newCertificate = await this.get<Certificate>(
-        'SELECT * FROM certificates WHERE id = ?',
-        [result.lastID]
+    progressRows.forEach((row) => {
+      const entry = entryFor(row.module_id)
+      if (!entry) return
+      entry.progress = {
+        startedAt: row.started_at,
+        completionDate: row.completion_date,
+        totalTimeSpent: row.total_time_spent || 0,
+        lastAccessed: row.last_accessed
+      }
+    })
+    lessonRows.forEach((row) =>
+      entryFor(row.module_id)?.lessons.push({
+        lessonId: row.lesson_id,
+        completed: Boolean(row.completed),
+        timeSpent: row.time_spent || 0,
+        completedAt: row.completed_at
+      })
+    )
+    quizRows.forEach((row) =>
+      entryFor(row.module_id)?.quizzes.push({
+        quizId: row.quiz_id,
+        score: row.score,
+        attempts: row.attempts,
+        lastAttemptAt: row.last_attempt_at
+      })
+    )
+    attemptRows.forEach((row) =>
+      entryFor(row.module_id)?.quizAttempts.push({
+        quizId: row.quiz_id,
+        score: row.score,
+        passed: Boolean(row.passed),
+        answers: row.answers,
+        durationSeconds: row.duration_seconds,
+        startedAt: row.started_at,
+        completedAt: row.completed_at
+      })
+    )
+    for (const row of certificateRows) {
+      const entry = entryFor(row.module_id)
+      if (!entry) continue
+      // Sign legacy certificates so the copy carries a verifiable token
+      await this.toSignedCertificate(row)
+      const stored = await this.get<{ certificate_data: string | null }>(
+        'SELECT certificate_data FROM certificates WHERE id = ?',
+        [row.id]
       )
+      entry.certificate = {
+        code: row.certificate_code,
+        data: stored?.certificate_data ?? null,
+        issuedAt: row.issued_at
+      }
+    }
+    timeRows.forEach((row) =>
+      entryFor(row.module_id)?.learningTime.push({ day: row.day, seconds: row.seconds })
+    )
+
+    return {
+      exportedAt: new Date().toISOString(),
+      user: { username: user.username, email: user.email, createdAt: user.created_at },
+      modules: Array.from(entries.values())
+    }
+  }
+
+  /**
+   * Merge a learner profile into an account, keeping whichever of the local
+   * and imported records is further along. Modules are matched by title and
+   * version; modules not installed here are skipped.
+   */
+  async mergeLearnerProfile(
+    userId: number,
+    profile: LearnerProfileData
+  ): Promise<{ modulesMerged: number; modulesSkipped: string[]; certificatesAdded: number }> {
+    const modules = await this.query<{ id: number; title: string; version: string }>(
+      'SELECT id, title, version FROM modules'
+    )
+    const result = { modulesMerged: 0, modulesSkipped: [] as string[], certificatesAdded: 0 }
+
+    await this.transaction(async () => {
+      for (const entry of profile.modules) {
+        const module = modules.find((m) => m.title === entry.title && m.version === entry.version)
+        if (!module) {
+          result.modulesSkipped.push(`${entry.title} (${entry.version})`)
+          continue
+        }
+        const moduleId = module.id
+
+        // A learner holds one certificate per module, so a local one is kept. An
+        // imported one is only taken with its signed token, and kept as it is so
+        // it still names the installation that issued it.
+        if (entry.certificate && hasTokenFor(entry.certificate)) {
+          const inserted = await this.run(
+            'INSERT OR IGNORE INTO certificates (user_id, module_id, certificate_code, certificate_data, issued_at) VALUES (?, ?, ?, ?, ?)',
+            [
+              userId,
+              moduleId,
+              entry.certificate.code,
+              entry.certificate.data,
+              entry.certificate.issuedAt
+            ]
+          )
+          result.certificatesAdded += inserted.changes
+        }
+
+        const progress = entry.progress
+        await this.run(
+          `INSERT INTO user_progress (user_id, module_id, started_at, total_time_spent, last_accessed)
+           VALUES (?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))
+           ON CONFLICT (user_id, module_id) DO UPDATE SET
+             started_at = COALESCE(MIN(started_at, excluded.started_at), started_at, excluded.started_at),
+             total_time_spent = MAX(COALESCE(total_time_spent, 0), excluded.total_time_spent),
+             last_accessed = COALESCE(MAX(last_accessed, excluded.last_accessed), last_accessed, excluded.last_accessed)`,
+          [
+            userId,
+            moduleId,
+            progress?.startedAt ?? null,
+            progress?.totalTimeSpent ?? 0,
+            progress?.lastAccessed ?? null
+          ]
+        )
+
+        for (const lesson of entry.lessons) {
+          await this.run(
+            `INSERT INTO lesson_progress (user_id, module_id, lesson_id, completed, time_spent, completed_at)
+             VALUES (?, ?, ?, ?, ?, ?)
+             ON CONFLICT (user_id, module_id, lesson_id) DO UPDATE SET
+               completed = MAX(completed, excluded.completed),
+               time_spent = MAX(COALESCE(time_spent, 0), excluded.time_spent),
+               completed_at = COALESCE(MIN(completed_at, excluded.completed_at), completed_at, excluded.completed_at),
+               updated_at = CURRENT_TIMESTAMP`,
+            [
+              userId,
+              moduleId,
+              lesson.lessonId,
+              lesson.completed ? 1 : 0,
+              lesson.timeSpent,
+              lesson.completedAt
+            ]
+          )
+        }
+
+        for (const quiz of entry.quizzes) {
+          await this.run(
+            `INSERT INTO quiz_progress (user_id, module_id, quiz_id, score, attempts, last_attempt_at)
+             VALUES (?, ?, ?, ?, ?, ?)
+             ON CONFLICT (user_id, module_id, quiz_id) DO UPDATE SET
+               score = MAX(score, excluded.score),
+               attempts = MAX(attempts, excluded.attempts),
+               last_attempt_at = COALESCE(MAX(last_attempt_at, excluded.last_attempt_at), last_attempt_at, excluded.last_attempt_at),
+               updated_at = CURRENT_TIMESTAMP`,
+            [userId, moduleId, quiz.quizId, quiz.score, quiz.attempts, quiz.lastAttemptAt]
+          )
+        }
+
+        // Attempts already copied by an earlier import are recognised by their times
+        for (const attempt of entry.quizAttempts) {
+          await this.run(
+            `INSERT INTO quiz_attempts (user_id, module_id, quiz_id, score, passed, answers, duration_seconds, started_at, completed_at)
+             SELECT ?, ?, ?, ?, ?, ?, ?, ?, ?
+             WHERE NOT EXISTS (
+               SELECT 1 FROM quiz_attempts
+               WHERE user_id = ? AND module_id = ? AND quiz_id = ? AND started_at = ? AND completed_at = ?
+             )`,
+            [
+              userId,
+              moduleId,
+              attempt.quizId,
+              attempt.score,
+              attempt.passed ? 1 : 0,
+              attempt.answers,
+              attempt.durationSeconds,
+              attempt.startedAt,
+              attempt.completedAt,
+              userId,
+              moduleId,
+              attempt.quizId,
+              attempt.startedAt,
+              attempt.completedAt
+            ]
+          )
+        }
 
-      if (newCertificate) {
-        return { success: true, data: newCertificate }
+        for (const time of entry.learningTime) {
+          await this.run(
+            `INSERT INTO learning_time (user_id, module_id, day, seconds) VALUES (?, ?, ?, ?)
+             ON CONFLICT (user_id, module_id, day) DO UPDATE SET seconds = MAX(seconds, excluded.seconds)`,
+            [userId, moduleId, time.day, time.seconds]
+          )
+        }
+
+        await this.updateModuleCompletionStatus(userId, moduleId)
+
+        // Keep the date the module was first completed, on whichever machine that was
+        const completionDate = progress?.completionDate
+        if (completionDate) {
+          await this.run(
+            `UPDATE user_progress SET completion_date = ?
+             WHERE user_id = ? AND module_id = ? AND completed = 1
+               AND (completion_date IS NULL OR completion_date > ?)`,
+            [completionDate, userId, moduleId, completionDate]
+          )
+        }
+
+        result.modulesMerged++
       }
+    })
 
-      return { success: false, error: 'Failed to retrieve generated certificate' }
-    } catch (error) {
-      return { success: false, error: `Failed to generate certificate: ${error}` }
+    return result
+  }
+
+  async getUserIdByUsername(username: string): Promise<number | null> {
+    const row = await this.get<{ id: number }>('SELECT id FROM users WHERE username = ?', [
+      username
+    ])
+    return row?.id ?? null
+  }
+
+  // Installations whose learner profiles an administrator has agreed to accept
+  async isTrustedInstallation(publicKey: string): Promise<boolean> {
+    const row = await this.get<{ public_key: string }>(
+      'SELECT public_key FROM trusted_installations WHERE public_key = ?',
+      [publicKey]
+    )
+    return !!row
+  }
+
+  async trustInstallation(publicKey: string, addedBy: number): Promise<void> {
+    await this.run(
+      'INSERT OR IGNORE INTO trusted_installations (public_key, added_by) VALUES (?, ?)',
+      [publicKey, addedBy]
+    )
+  }
+
+  /**
+   * Hold a learner's own profile import for an administrator to review,
+   * replacing any earlier one from the same learner
+   */
+  async submitProfileReview(
+    userId: number,
+    issuerKey: string,
+    trust: LearnerProfileTrust,
+    data: LearnerProfileData
+  ): Promise<void> {
+    await this.run(
+      `INSERT INTO profile_reviews (user_id, issuer_key, trust, profile_data) VALUES (?, ?, ?, ?)
+       ON CONFLICT (user_id) DO UPDATE SET
+         issuer_key = excluded.issuer_key,
+         trust = excluded.trust,
+         profile_data = excluded.profile_data,
+         submitted_at = CURRENT_TIMESTAMP`,
+      [userId, issuerKey, trust, JSON.stringify(data)]
+    )
+  }
+
+  async getProfileReviews(): Promise<StoredProfileReview[]> {
+    const rows = await this.query<ProfileReviewRow>(
+      'SELECT * FROM profile_reviews ORDER BY submitted_at'
+    )
+    return rows.map(toProfileReview)
+  }
+
+  async getProfileReview(id: number): Promise<StoredProfileReview | null> {
+    const row = await this.get<ProfileReviewRow>('SELECT * FROM profile_reviews WHERE id = ?', [id])
+    return row ? toProfileReview(row) : null
+  }
+
+  async deleteProfileReview(id: number): Promise<void> {
+    await this.run('DELETE FROM profile_reviews WHERE id = ?', [id])
+  }
+
+  // The classroom key shared by computers that sync over the local network
+  async getLanSyncKey(): Promise<string | null> {
+    const row = await this.get<{ value: string }>('SELECT value FROM app_settings WHERE key = ?', [
+      LAN_SYNC_KEY_SETTING
+    ])
+    return row?.value || null
+  }
+
+  async setLanSyncKey(key: string | null): Promise<void> {
+    if (key === null) {
+      await this.run('DELETE FROM app_settings WHERE key = ?', [LAN_SYNC_KEY_SETTING])
+      return
     }
+    await this.run(
+      `INSERT INTO app_settings (key, value, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)
+       ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`,
+      [LAN_SYNC_KEY_SETTING, key]
+    )
   }
 
-  async getUserCertificates(userId: number): Promise<Certificate[]> {
+  // Identifies this installation to others on the network, created the first time it is needed
+  async getInstanceId(): Promise<string> {
+    const row = await this.get<{ value: string }>('SELECT value FROM app_settings WHERE key = ?', [
+      INSTANCE_ID_SETTING
+    ])
+    if (row) return row.value
+
+    await this.run('INSERT OR IGNORE INTO app_settings (key, value) VALUES (?, ?)', [
+      INSTANCE_ID_SETTING,
+      randomUUID()
+    ])
+    return this.getInstanceId()
+  }
+
+  /**
+   * Write a consistent snapshot of the live database to a file with SQLite's
+   * online backup API, so learners can keep working while it is taken
+   */
+  backupTo(filePath: string): Promise<void> {
+    return this.copyPages(filePath, true)
+  }
+
+  /**
+   * Check that a file is a database this version of the app can restore and
+   * return its schema version. Older versions are migrated after restoring.
+   */
+  async inspectBackup(filePath: string): Promise<number> {
+    let file: Database
     try {
-      const certificates = await this.query<Certificate>(
-        'SELECT * FROM certificates WHERE user_id = ?',
-        [userId]
-      )
-      return certificates
-    } catch (error) {
-      console.error('Failed to get user certificates:', error)
-      return []
+      file = await openReadOnly(filePath)
+    } catch {
+      throw new Error('The backup file could not be opened')
     }
-  }
 
-  async verifyCertificate(code: string): Promise<Certificate | null> {
     try {
-      const certificate = await this.get<Certificate>(
-        'SELECT * FROM certificates WHERE certificate_code = ?',
-        [code]
+      const integrity = await getFrom<{ quick_check: string }>(file, 'PRAGMA quick_check')
+      if (integrity?.quick_check !== 'ok') {
+        throw new Error('The backup file is damaged')
+      }
+
+      const versionTable = await getFrom<{ name: string }>(
+        file,
+        "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'"
       )
-      return certificate || null
+      const row = versionTable
+        ? await getFrom<{ version: number | null }>(
+            file,
+            'SELECT MAX(version) as version FROM schema_version'
+          )
+        : undefined
+      const version = row?.version || 0
+
+      if (version < 1) {
+        throw new Error('This file is not an Our Africa backup')
+      }
+      if (version > LATEST_SCHEMA_VERSION) {
+        throw new Error(
+          `This backup was made by a newer version of Our Africa (schema ${version}, this app supports ${LATEST_SCHEMA_VERSION}). Please update Our Africa first.`
+        )
+      }
+      return version
     } catch (error) {
-      console.error('Failed to verify certificate:', error)
-      return null
+      // SQLite only notices a file is not a database when it first reads it
+      if (error instanceof Error && 'code' in error && error.code === 'SQLITE_NOTADB') {
+        throw new Error('This file is not an Our Africa backup')
+      }
+      throw error
+    } finally {
+      file.close()
     }
   }
 
+  /**
+   * Replace the contents of the live database with a backup checked by
+   * inspectBackup, then migrate it to the current schema
+   */
+  async restoreFrom(filePath: string): Promise<void> {
+    await this.copyPages(filePath, false)
+    await this.run('PRAGMA foreign_keys = ON')
+    await this.migrate()
+  }
+
+  // Copy every page between the live database and a file, in either direction
+  private copyPages(filePath: string, toFile: boolean): Promise<void> {
+    return this.statement((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'))
+        return
+      }
+      const backup = this.db.backup(filePath, 'main', 'main', toFile, (err) => {
+        if (err) {
+          reject(err)
+          return
+        }
+        backup.step(-1, (stepErr) => {
+          backup.finish(() => (stepErr ? reject(stepErr) : resolve()))
+        })
+      })
+    })
+  }
+
   close(): void {
     if (this.db) {
-      this.db.close((err) => {
+      const db = this.db
+      this.db = null
+      db.close((err) => {
         if (err) {
           console.error('Error closing database:', err)
         } else {
@@ -0,0 +1,192 @@
+// Ordered schema migrations for the local SQLite database.
+// Each migration runs exactly once per database file and is recorded in the
+// schema_version table. Never edit a migration that has already shipped -
+// append a new one instead.
+
+import { DATABASE_SCHEMA } from './schema'
+
+const PLACEHOLDER_ADMIN_HASH = '$2b$10$rZvKz8Y8qHqFj9K8GfF9.O8LxXvT9qEo8GXYZ.ABC123DEF456GHI'
+
+export interface Migration {
+  version: number
+  description: string
+  sql: string
+  // Recompute every learner's module completion once the SQL has run
+  recalculateProgress?: boolean
+  // Index every installed module for full-text search once the SQL has run
+  rebuildSearchIndex?: boolean
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial schema',
+    // CREATE TABLE IF NOT EXISTS keeps this safe for databases created before
+    // schema versioning existed, which already contain these tables
+    sql: DATABASE_SCHEMA
+  },
+  {
+    version: 2,
+    description: 'Track bundled media folder for packaged modules',
+    sql: 'ALTER TABLE modules ADD COLUMN media_key TEXT'
+  },
+  {
+    version: 3,
+    description: 'Allow administrators to deactivate user accounts',
+    sql: 'ALTER TABLE users ADD COLUMN is_active INTEGER NOT NULL DEFAULT 1'
+  },
+  {
+    version: 4,
+    description: 'Remove placeholder admin and add application settings',
+    // The initial schema seeded an admin whose password_hash was not a real bcrypt
+    // hash, so it could never sign in. The first-run setup creates a real one.
+    sql: `
+      DELETE FROM users WHERE id = 1 AND password_hash = '${PLACEHOLDER_ADMIN_HASH}';
+
+      CREATE TABLE IF NOT EXISTS app_settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+    `
+  },
+  {
+    version: 5,
+    description: 'Record every quiz attempt with its answers',
+    sql: `
+      CREATE TABLE IF NOT EXISTS quiz_attempts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        module_id INTEGER NOT NULL,
+        quiz_id TEXT NOT NULL,
+        score INTEGER NOT NULL, -- percentage
+        passed BOOLEAN NOT NULL,
+        answers TEXT NOT NULL, -- JSON array of QuizAttemptAnswer
+        duration_seconds INTEGER NOT NULL DEFAULT 0,
+        started_at DATETIME NOT NULL,
+        completed_at DATETIME NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+        FOREIGN KEY (module_id) REFERENCES modules (id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_quiz_attempts_user_quiz
+        ON quiz_attempts(user_id, module_id, quiz_id);
+    `
+  },
+  {
+    version: 6,
+    description: 'Store quiz progress separately from lesson progress',
+    // Quiz scores used to live in lesson_progress and completion was guessed from
+    // "lesson-"/"quiz-" ID prefixes. Rows whose ID is one of the module's quizzes
+    // move to quiz_progress; lesson_progress.quiz_score and quiz_attempts are no
+    // longer read.
+    sql: `
+      CREATE TABLE IF NOT EXISTS quiz_progress (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        module_id INTEGER NOT NULL,
+        quiz_id TEXT NOT NULL,
+        score INTEGER NOT NULL, -- percentage counted under the quiz's scoring policy
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_attempt_at DATETIME NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+        FOREIGN KEY (module_id) REFERENCES modules (id) ON DELETE CASCADE,
+        UNIQUE (user_id, module_id, quiz_id)
+      );
+
+      CREATE TEMP TABLE module_quiz_ids AS
+        SELECT m.id AS module_id, json_extract(q.value, '$.id') AS quiz_id
+        FROM modules m,
+          json_each(CASE WHEN json_valid(m.content) THEN m.content ELSE '{}' END, '$.quizzes') q;
+
+      INSERT OR IGNORE INTO quiz_progress
+        (user_id, module_id, quiz_id, score, attempts, last_attempt_at, created_at, updated_at)
+      SELECT lp.user_id, lp.module_id, lp.lesson_id, lp.quiz_score, MAX(lp.quiz_attempts, 1),
+        COALESCE(lp.completed_at, lp.updated_at), lp.created_at, lp.updated_at
+      FROM lesson_progress lp
+      JOIN module_quiz_ids mq ON mq.module_id = lp.module_id AND mq.quiz_id = lp.lesson_id
+      WHERE lp.quiz_score IS NOT NULL;
+
+      DELETE FROM lesson_progress WHERE EXISTS (
+        SELECT 1 FROM module_quiz_ids mq
+        WHERE mq.module_id = lesson_progress.module_id AND mq.quiz_id = lesson_progress.lesson_id
+      );
+
+      DROP TABLE module_quiz_ids;
+    `,
+    recalculateProgress: true
+  },
+  {
+    version: 7,
+    description: 'Record learning time per day for analytics',
+    sql: `
+      CREATE TABLE IF NOT EXISTS learning_time (
+        user_id INTEGER NOT NULL,
+        module_id INTEGER NOT NULL,
+        day TEXT NOT NULL, -- YYYY-MM-DD in local time
+        seconds INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (user_id, module_id, day),
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+        FOREIGN KEY (module_id) REFERENCES modules (id) ON DELETE CASCADE
+      );
+    `
+  },
+  {
+    version: 8,
+    description: 'Full-text search over module content',
+    // One row per module, lesson and quiz. Virtual tables cannot cascade, so a
+    // trigger removes a module's rows when it is deleted.
+    sql: `
+      CREATE VIRTUAL TABLE IF NOT EXISTS module_search USING fts5(
+        module_id UNINDEXED,
+        kind UNINDEXED, -- module, lesson or quiz
+        target_id UNINDEXED, -- lesson or quiz ID
+        title,
+        body,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS module_search_delete AFTER DELETE ON modules
+      BEGIN
+        DELETE FROM module_search WHERE module_id = OLD.id;
+      END;
+    `,
+    rebuildSearchIndex: true
+  },
+  {
+    version: 9,
+    description: 'Trusted installations and learner profiles awaiting review',
+    // Learner profiles are only accepted from installations an administrator
+    // trusts, and a learner's own import waits until an administrator approves it
+    sql: `
+      CREATE TABLE IF NOT EXISTS trusted_installations (
+        public_key TEXT PRIMARY KEY, -- Ed25519, base64url
+        added_by INTEGER,
+        added_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (added_by) REFERENCES users (id) ON DELETE SET NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS profile_reviews (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL UNIQUE, -- one waiting import per learner
+        issuer_key TEXT NOT NULL,
+        trust TEXT NOT NULL,
+        profile_data TEXT NOT NULL, -- LearnerProfileData JSON
+        submitted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+      );
+    `
+  }
+]
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+export const SCHEMA_VERSION_TABLE = `
+CREATE TABLE IF NOT EXISTS schema_version (
+  version INTEGER PRIMARY KEY,
+  description TEXT NOT NULL,
+  applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+)
+`
@@ -0,0 +1,87 @@
+// SQL for browsing modules by facet. Queries select FROM MODULE_QUERY_FROM,
+// which joins the current user's progress so modules can be filtered by status.
+
+import type { ModuleFilters, ModuleSort } from '../types'
+import {
+  LONG_MODULE_MINUTES,
+  MODULE_DIFFICULTIES,
+  SHORT_MODULE_MINUTES
+} from '../../shared/moduleFilters'
+
+export type ModuleFacet = Exclude<keyof ModuleFilters, 'sort'>
+
+// Bind the user ID first
+export const MODULE_QUERY_FROM = `modules m
+  LEFT JOIN user_progress up ON up.module_id = m.id AND up.user_id = ?`
+
+// A progress row is created the first time the learner opens the module
+export const STATUS_SQL = `CASE
+  WHEN up.completed THEN 'completed'
+  WHEN up.id IS NOT NULL THEN 'in-progress'
+  ELSE 'not-started'
+END`
+
+export const DURATION_SQL = `CASE
+  WHEN m.estimated_duration < ${SHORT_MODULE_MINUTES} THEN 'short'
+  WHEN m.estimated_duration <= ${LONG_MODULE_MINUTES} THEN 'medium'
+  ELSE 'long'
+END`
+
+const DIFFICULTY_RANK_SQL = `CASE m.difficulty_level
+  ${MODULE_DIFFICULTIES.map((difficulty, rank) => `WHEN '${difficulty}' THEN ${rank}`).join('\n  ')}
+  ELSE ${MODULE_DIFFICULTIES.length}
+END`
+
+const TITLE_ORDER = 'm.title COLLATE NOCASE, m.id'
+
+export const MODULE_ORDER_BY: Record<ModuleSort, string> = {
+  title: TITLE_ORDER,
+  newest: 'm.created_at DESC, m.id DESC',
+  shortest: `m.estimated_duration, ${TITLE_ORDER}`,
+  longest: `m.estimated_duration DESC, ${TITLE_ORDER}`,
+  difficulty: `${DIFFICULTY_RANK_SQL}, ${TITLE_ORDER}`
+}
+
+// "?, ?, ?" for an IN (...) list
+export const placeholders = (values: unknown[]): string => values.map(() => '?').join(', ')
+
+/**
+ * The WHERE clause for a set of filters. Facet counts leave out their own
+ * facet, so choosing one tag still shows how many modules the others have.
+ */
+export function buildModuleFilter(
+  filters: Required<ModuleFilters>,
+  exclude?: ModuleFacet
+): { where: string; params: unknown[] } {
+  const conditions: string[] = []
+  const params: unknown[] = []
+
+  const addCondition = (facet: ModuleFacet, values: string[], sql: string): void => {
+    if (facet === exclude || values.length === 0) return
+    conditions.push(sql)
+    params.push(...values)
+  }
+
+  addCondition(
+    'difficulties',
+    filters.difficulties,
+    `m.difficulty_level IN (${placeholders(filters.difficulties)})`
+  )
+  addCondition(
+    'tags',
+    filters.tags,
+    `EXISTS (SELECT 1 FROM json_each(m.tags) tag WHERE tag.value IN (${placeholders(filters.tags)}))`
+  )
+  addCondition('authors', filters.authors, `m.author IN (${placeholders(filters.authors)})`)
+  addCondition(
+    'durations',
+    filters.durations,
+    `${DURATION_SQL} IN (${placeholders(filters.durations)})`
+  )
+  addCondition('statuses', filters.statuses, `${STATUS_SQL} IN (${placeholders(filters.statuses)})`)
+
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    params
+  }
+}
@@ -0,0 +1,63 @@
+// Builds the rows of the module_search full-text index. Every module gets one
+// row for itself and one per lesson and quiz, so a match can link straight to
+// the lesson or quiz it was found in.
+
+import type { Module, SearchResultKind } from '../types'
+import { getSearchTerms } from '../../shared/search'
+
+export interface SearchDocument {
+  kind: SearchResultKind
+  targetId: string // lesson or quiz ID, empty for the module itself
+  title: string
+  body: string
+}
+
+const joinText = (parts: (string | undefined)[]): string =>
+  parts.filter((part): part is string => !!part && part.trim() !== '').join('\n\n')
+
+export function buildSearchDocuments(
+  module: Pick<Module, 'title' | 'description' | 'tags' | 'content'>
+): SearchDocument[] {
+  const documents: SearchDocument[] = [
+    {
+      kind: 'module',
+      targetId: '',
+      title: module.title,
+      body: joinText([module.description, ...(module.tags || [])])
+    }
+  ]
+
+  for (const lesson of module.content.lessons) {
+    documents.push({
+      kind: 'lesson',
+      targetId: lesson.id,
+      title: lesson.title,
+      body: joinText(
+        lesson.content
+          .filter((block) => block.type === 'text' || block.type === 'code')
+          .map((block) => block.content)
+      )
+    })
+  }
+
+  // Answers and explanations are left out so searching cannot give them away
+  for (const quiz of module.content.quizzes || []) {
+    documents.push({
+      kind: 'quiz',
+      targetId: quiz.id,
+      title: quiz.title,
+      body: joinText([quiz.description, ...quiz.questions.map((question) => question.question)])
+    })
+  }
+
+  return documents
+}
+
+/**
+ * Turn what the user typed into an FTS5 query matching every word as a prefix,
+ * or null when there is nothing to search for
+ */
+export function toMatchQuery(query: string): string | null {
+  const terms = getSearchTerms(query)
+  return terms.length > 0 ? terms.map((term) => `"${term}"*`).join(' ') : null
+}
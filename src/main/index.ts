@@ -1,8 +1,93 @@
-import { app, shell, BrowserWindow, ipcMain } from 'electron'
+import './userDataDir'
+import { app, shell, BrowserWindow, dialog } from 'electron'
 import { join } from 'path'
+import { writeFile } from 'fs/promises'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
 import icon from '../../resources/icon.png?asset'
 import { database } from './database/database'
+import {
+  checkPermission,
+  checkUserAccess,
+  handleWithSession,
+  isId,
+  isRecord,
+  requireUser
+} from './auth/access'
+import { sessions } from './auth/sessions'
+import { hasPermission, isUserRole } from '../shared/permissions'
+import {
+  isBackupInterval,
+  isBackupsToKeep,
+  isLanSyncRole,
+  isThemePreference,
+  MAX_BACKUPS_TO_KEEP,
+  MAX_INSTITUTION_NAME_LENGTH,
+  MIN_BACKUPS_TO_KEEP,
+  normalizeClassroomKey
+} from '../shared/settings'
+import {
+  confirmModuleUpgrade,
+  importModuleFiles,
+  importOpenedPackage,
+  inspectModulePackage,
+  validateModuleData
+} from './services/moduleImporter'
+import { removePackageMedia } from './services/modulePackage'
+import { importUsersFromCsv, MIN_PASSWORD_LENGTH, validateAccount } from './services/userImporter'
+import { handleMediaProtocol, registerMediaScheme } from './services/mediaProtocol'
+import { flushTimeBeforeQuit, flushTimeOnClose } from './services/timeFlush'
+import {
+  installCertificateTemplate,
+  listCertificateTemplates,
+  removeCertificateTemplate,
+  templateExists
+} from './services/certificateTemplates'
+import {
+  exportCertificates,
+  getCertificateFileName,
+  openCertificatePrintPreview,
+  renderCertificate
+} from './services/certificateExport'
+import {
+  closeOpenedProfile,
+  exportLearnerProfile,
+  getOpenedProfile,
+  getProfileFileName,
+  openLearnerProfile,
+  PROFILE_EXTENSION,
+  summarizeLearnerProfile
+} from './services/learnerProfile'
+import {
+  getDefaultBackupName,
+  listBackups,
+  resolveBackup,
+  restoreBackup,
+  scheduleAutomaticBackups
+} from './services/databaseBackup'
+import {
+  getLanSyncStatus,
+  getPeerModules,
+  pullModule,
+  startLanSync,
+  syncProgress
+} from './services/peerSync'
+import { DEFAULT_TEMPLATE_ID } from '../shared/certificateTemplate'
+import { parseModuleFilters } from '../shared/moduleFilters'
+
+const DEFAULT_ANALYTICS_DAYS = 30
+const MIN_ANALYTICS_DAYS = 7
+const MAX_ANALYTICS_DAYS = 365
+
+// Only these may be handed to the operating system from a link
+const EXTERNAL_PROTOCOLS = ['http:', 'https:', 'mailto:']
+
+function isExternalUrl(url: string): boolean {
+  try {
+    return EXTERNAL_PROTOCOLS.includes(new URL(url).protocol)
+  } catch {
+    return false
+  }
+}
 
 function createWindow(): void {
   // Create the browser window.
@@ -24,8 +109,14 @@ function createWindow(): void {
     mainWindow.show()
   })
 
+  // Save the learner's unsaved lesson and quiz time before the window goes away
+  flushTimeOnClose(mainWindow)
+
+  // Links in lessons open in the user's browser; the app never opens windows of its own
   mainWindow.webContents.setWindowOpenHandler((details) => {
-    shell.openExternal(details.url)
+    if (isExternalUrl(details.url)) {
+      shell.openExternal(details.url)
+    }
     return { action: 'deny' }
   })
 
@@ -42,7 +133,16 @@ function createWindow(): void {
 // Setup IPC handlers
 function setupIpcHandlers(): void {
   // Auth handlers
-  ipcMain.handle('auth:register', async (_, data) => {
+  handleWithSession('auth:register', async (context, data) => {
+    if (
+      !isRecord(data) ||
+      typeof data.username !== 'string' ||
+      typeof data.email !== 'string' ||
+      typeof data.password !== 'string'
+    ) {
+      return { success: false, error: 'Username, email and password are required' }
+    }
+
     try {
       const result = await database.createUser({
         username: data.username,
@@ -51,11 +151,13 @@ function setupIpcHandlers(): void {
       })
 
       if (result.success && result.data) {
+        sessions.destroy(context.token)
+        const session = sessions.create(result.data.id)
         return {
           success: true,
           data: {
             user: result.data,
-            token: 'local-session' // Simple token for offline app
+            token: session.token
           }
         }
       }
@@ -65,16 +167,22 @@ function setupIpcHandlers(): void {
     }
   })
 
-  ipcMain.handle('auth:login', async (_, data) => {
+  handleWithSession('auth:login', async (context, data) => {
+    if (!isRecord(data) || typeof data.email !== 'string' || typeof data.password !== 'string') {
+      return { success: false, error: 'Email and password are required' }
+    }
+
     try {
       const result = await database.authenticateUser(data.email, data.password)
 
       if (result.success && result.data) {
+        sessions.destroy(context.token)
+        const session = sessions.create(result.data.id)
         return {
           success: true,
           data: {
             user: result.data,
-            token: 'local-session'
+            token: session.token
           }
         }
       }
@@ -84,17 +192,97 @@ function setupIpcHandlers(): void {
     }
   })
 
-  ipcMain.handle('auth:logout', async () => {
+  handleWithSession('auth:logout', async (context) => {
+    sessions.destroy(context.token)
     return { success: true, message: 'Logged out successfully' }
   })
 
-  ipcMain.handle('auth:get-current-user', async () => {
-    // In a real app, this would get from session storage
-    return { success: false, error: 'No active session' }
+  handleWithSession('auth:get-current-user', async (context) => {
+    const unauthenticated = requireUser(context)
+    if (unauthenticated) return unauthenticated
+
+    return { success: true, data: context.user }
+  })
+
+  // First-run setup handlers
+  handleWithSession('setup:get-status', async () => {
+    try {
+      const [needsSetup, settings] = await Promise.all([
+        database.needsSetup(),
+        database.getSettings()
+      ])
+      return { success: true, data: { needsSetup, settings } }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to get setup status'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('setup:complete', async (context, data) => {
+    const input = isRecord(data) ? data : {}
+
+    try {
+      // Only reachable while no administrator exists, so it cannot be used to create more
+      if (!(await database.needsSetup())) {
+        return { success: false, error: 'Setup has already been completed' }
+      }
+
+      const username = String(input.username || '').trim()
+      const email = String(input.email || '').trim()
+      const password = String(input.password || '')
+      const institutionName = String(input.institutionName || '').trim()
+
+      const invalid = validateAccount(username, email, password)
+      if (invalid) {
+        return { success: false, error: invalid }
+      }
+      if (!institutionName || institutionName.length > MAX_INSTITUTION_NAME_LENGTH) {
+        return {
+          success: false,
+          error: `Institution name must be between 1 and ${MAX_INSTITUTION_NAME_LENGTH} characters`
+        }
+      }
+      if (!isThemePreference(input.defaultTheme)) {
+        return { success: false, error: 'Invalid theme' }
+      }
+
+      const result = await database.createUser({
+        username,
+        email,
+        password_hash: password,
+        role: 'admin'
+      })
+      if (!result.success || !result.data) {
+        return result
+      }
+
+      await database.updateSettings({ institutionName, defaultTheme: input.defaultTheme })
+
+      sessions.destroy(context.token)
+      const session = sessions.create(result.data.id)
+      return { success: true, data: { user: result.data, token: session.token } }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to complete setup'
+      return { success: false, error: message }
+    }
+  })
+
+  // Settings handlers
+  handleWithSession('settings:get', async () => {
+    try {
+      const settings = await database.getSettings()
+      return { success: true, data: settings }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to get settings'
+      return { success: false, error: message }
+    }
   })
 
   // User handlers
-  ipcMain.handle('user:get-all', async () => {
+  handleWithSession('user:get-all', async (context) => {
+    const denied = checkPermission(context, 'users:manage')
+    if (denied) return denied
+
     try {
       const users = await database.getAllUsers()
       return { success: true, data: users }
@@ -103,15 +291,28 @@ function setupIpcHandlers(): void {
     }
   })
 
-  ipcMain.handle('user:switch', async (_, userId) => {
+  handleWithSession('user:switch', async (context, userId) => {
+    const denied = checkPermission(context, 'users:manage')
+    if (denied) return denied
+
+    if (!isId(userId)) {
+      return { success: false, error: 'Invalid user' }
+    }
+
     try {
       const user = await database.getUserById(userId)
+      if (user && !user.is_active) {
+        return { success: false, error: 'This account has been deactivated' }
+      }
       if (user) {
+        // The administrator's session ends; the new one belongs to the target user
+        sessions.destroy(context.token)
+        const session = sessions.create(user.id)
         return {
           success: true,
           data: {
             user,
-            token: 'local-session'
+            token: session.token
           }
         }
       }
@@ -121,8 +322,145 @@ function setupIpcHandlers(): void {
     }
   })
 
+  handleWithSession('user:set-role', async (context, userId, role) => {
+    const denied = checkPermission(context, 'users:manage')
+    if (denied) return denied
+
+    if (!isId(userId)) {
+      return { success: false, error: 'Invalid user' }
+    }
+    if (!isUserRole(role)) {
+      return { success: false, error: 'Invalid role' }
+    }
+
+    try {
+      return await database.setUserRole(userId, role)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update user role'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('user:get-summaries', async (context) => {
+    const denied = checkPermission(context, 'users:manage')
+    if (denied) return denied
+
+    try {
+      const summaries = await database.getUserSummaries()
+      return { success: true, data: summaries }
+    } catch {
+      return { success: false, error: 'Failed to get users' }
+    }
+  })
+
+  handleWithSession('user:reset-password', async (context, userId, newPassword) => {
+    const denied = checkPermission(context, 'users:manage')
+    if (denied) return denied
+
+    if (!isId(userId)) {
+      return { success: false, error: 'Invalid user' }
+    }
+
+    if (typeof newPassword !== 'string' || newPassword.length < MIN_PASSWORD_LENGTH) {
+      return {
+        success: false,
+        error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+      }
+    }
+
+    try {
+      const result = await database.resetUserPassword(userId, newPassword)
+      if (result.success) {
+        // Sign the user out everywhere so the old password stops working immediately
+        sessions.destroyForUser(userId)
+      }
+      return result
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to reset password'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('user:set-active', async (context, userId, active) => {
+    const denied = checkPermission(context, 'users:manage')
+    if (denied) return denied
+
+    if (!isId(userId)) {
+      return { success: false, error: 'Invalid user' }
+    }
+
+    if (context.user!.id === userId && !active) {
+      return { success: false, error: 'You cannot deactivate your own account' }
+    }
+
+    try {
+      const result = await database.setUserActive(userId, Boolean(active))
+      if (result.success && !active) {
+        sessions.destroyForUser(userId)
+      }
+      return result
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update user'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('user:delete', async (context, userId) => {
+    const denied = checkPermission(context, 'users:manage')
+    if (denied) return denied
+
+    if (!isId(userId)) {
+      return { success: false, error: 'Invalid user' }
+    }
+
+    if (context.user!.id === userId) {
+      return { success: false, error: 'You cannot delete your own account' }
+    }
+
+    try {
+      const result = await database.deleteUser(userId)
+      if (result.success) {
+        sessions.destroyForUser(userId)
+      }
+      return result
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete user'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('user:import-csv', async (context) => {
+    const denied = checkPermission(context, 'users:manage')
+    if (denied) return denied
+
+    try {
+      const window = BrowserWindow.fromWebContents(context.event.sender)
+      const dialogOptions: Electron.OpenDialogOptions = {
+        title: 'Create Accounts from CSV',
+        properties: ['openFile'],
+        filters: [{ name: 'CSV Files', extensions: ['csv'] }]
+      }
+      const selection = window
+        ? await dialog.showOpenDialog(window, dialogOptions)
+        : await dialog.showOpenDialog(dialogOptions)
+
+      if (selection.canceled || selection.filePaths.length === 0) {
+        return { success: true, data: { canceled: true, created: 0, rows: [] } }
+      }
+
+      const report = await importUsersFromCsv(selection.filePaths[0])
+      return { success: true, data: report }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to import users'
+      return { success: false, error: message }
+    }
+  })
+
   // Module handlers
-  ipcMain.handle('modules:get-all', async () => {
+  handleWithSession('modules:get-all', async (context) => {
+    const unauthenticated = requireUser(context)
+    if (unauthenticated) return unauthenticated
+
     try {
       const modules = await database.getAllModules()
       return { success: true, data: modules }
@@ -131,7 +469,14 @@ function setupIpcHandlers(): void {
     }
   })
 
-  ipcMain.handle('modules:get-by-id', async (_, id) => {
+  handleWithSession('modules:get-by-id', async (context, id) => {
+    const unauthenticated = requireUser(context)
+    if (unauthenticated) return unauthenticated
+
+    if (!isId(id)) {
+      return { success: false, error: 'Module not found' }
+    }
+
     try {
       const module = await database.getModuleById(id)
       if (module) {
@@ -143,22 +488,152 @@ function setupIpcHandlers(): void {
     }
   })
 
-  ipcMain.handle('modules:import', async () => {
-    // TODO: Implement module import from file
-    return { success: false, error: 'Module import not implemented yet' }
+  handleWithSession('modules:import', async (context) => {
+    const denied = checkPermission(context, 'modules:manage')
+    if (denied) return denied
+
+    try {
+      const window = BrowserWindow.fromWebContents(context.event.sender)
+      const dialogOptions: Electron.OpenDialogOptions = {
+        title: 'Import Modules',
+        properties: ['openFile', 'multiSelections'],
+        filters: [{ name: 'Module Files', extensions: ['json', 'oamod'] }]
+      }
+      const selection = window
+        ? await dialog.showOpenDialog(window, dialogOptions)
+        : await dialog.showOpenDialog(dialogOptions)
+
+      if (selection.canceled || selection.filePaths.length === 0) {
+        return { success: true, data: { canceled: true, files: [], importedIds: [] } }
+      }
+
+      const report = await importModuleFiles(selection.filePaths)
+      return { success: true, data: report }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to import modules'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('modules:upgrade', async (context, id, moduleData) => {
+    const denied = checkPermission(context, 'modules:manage')
+    if (denied) return denied
+
+    if (!isId(id)) {
+      return { success: false, error: 'Module not found' }
+    }
+    if (!isRecord(moduleData)) {
+      return { success: false, error: 'Module data is required' }
+    }
+
+    try {
+      const validated = validateModuleData(moduleData)
+      if (!validated.success || !validated.data) {
+        return validated
+      }
+      const result = await database.upgradeModule(id, validated.data)
+      if (result.success && result.data?.previousMediaKey) {
+        await removePackageMedia(result.data.previousMediaKey)
+      }
+      return result
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to upgrade module'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('modules:inspect-package', async (context) => {
+    const denied = checkPermission(context, 'modules:manage')
+    if (denied) return denied
+
+    try {
+      const window = BrowserWindow.fromWebContents(context.event.sender)
+      const dialogOptions: Electron.OpenDialogOptions = {
+        title: 'Open Module Package',
+        properties: ['openFile'],
+        filters: [{ name: 'Module Packages', extensions: ['oamod'] }]
+      }
+      const selection = window
+        ? await dialog.showOpenDialog(window, dialogOptions)
+        : await dialog.showOpenDialog(dialogOptions)
+
+      if (selection.canceled || selection.filePaths.length === 0) {
+        return { success: true, data: { canceled: true } }
+      }
+
+      return inspectModulePackage(selection.filePaths[0])
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to open module package'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('modules:import-package', async (context, packageId) => {
+    const denied = checkPermission(context, 'modules:manage')
+    if (denied) return denied
+
+    if (typeof packageId !== 'string') {
+      return { success: false, error: 'Invalid module package' }
+    }
+
+    try {
+      return await importOpenedPackage(packageId)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to import module package'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('modules:confirm-upgrade', async (context, pendingId) => {
+    const denied = checkPermission(context, 'modules:manage')
+    if (denied) return denied
+
+    if (typeof pendingId !== 'string') {
+      return { success: false, error: 'Invalid module upgrade' }
+    }
+
+    try {
+      return await confirmModuleUpgrade(pendingId)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to upgrade module'
+      return { success: false, error: message }
+    }
   })
 
-  ipcMain.handle('modules:delete', async (_, id) => {
+  handleWithSession('modules:delete', async (context, id) => {
+    const denied = checkPermission(context, 'modules:manage')
+    if (denied) return denied
+
+    if (!isId(id)) {
+      return { success: false, error: 'Module not found' }
+    }
+
     try {
-      return await database.deleteModule(id)
+      const module = await database.getModuleById(id)
+      const result = await database.deleteModule(id)
+      if (result.success && module?.media_key) {
+        await removePackageMedia(module.media_key)
+      }
+      return result
     } catch {
       return { success: false, error: 'Failed to delete module' }
     }
   })
 
-  ipcMain.handle('modules:create', async (_, moduleData) => {
+  handleWithSession('modules:create', async (context, moduleData) => {
+    const denied = checkPermission(context, 'modules:manage')
+    if (denied) return denied
+
+    if (!isRecord(moduleData)) {
+      return { success: false, error: 'Module data is required' }
+    }
+
     try {
-      const result = await database.createModule(moduleData)
+      const validated = validateModuleData(moduleData)
+      if (!validated.success || !validated.data) {
+        return validated
+      }
+      const result = await database.createModule(validated.data)
       return result
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to create module'
@@ -166,8 +641,39 @@ function setupIpcHandlers(): void {
     }
   })
 
+  handleWithSession('modules:search', async (context, query) => {
+    const unauthenticated = requireUser(context)
+    if (unauthenticated) return unauthenticated
+
+    try {
+      const results = await database.searchModules(typeof query === 'string' ? query : '')
+      return { success: true, data: results }
+    } catch {
+      return { success: false, error: 'Failed to search modules' }
+    }
+  })
+
+  handleWithSession('modules:query', async (context, filters) => {
+    const unauthenticated = requireUser(context)
+    if (unauthenticated) return unauthenticated
+
+    try {
+      const result = await database.queryModules(context.user!.id, parseModuleFilters(filters))
+      return { success: true, data: result }
+    } catch {
+      return { success: false, error: 'Failed to filter modules' }
+    }
+  })
+
   // Progress handlers
-  ipcMain.handle('progress:get-user-progress', async (_, userId) => {
+  handleWithSession('progress:get-user-progress', async (context, userId) => {
+    const denied = checkUserAccess(context, userId, 'progress:view-others')
+    if (denied) return denied
+
+    if (!isId(userId)) {
+      return { success: false, error: 'Invalid user' }
+    }
+
     try {
       const progress = await database.getUserProgress(userId)
       return { success: true, data: progress }
@@ -177,7 +683,14 @@ function setupIpcHandlers(): void {
     }
   })
 
-  ipcMain.handle('progress:get-user-lesson-progress', async (_, userId) => {
+  handleWithSession('progress:get-user-lesson-progress', async (context, userId) => {
+    const denied = checkUserAccess(context, userId, 'progress:view-others')
+    if (denied) return denied
+
+    if (!isId(userId)) {
+      return { success: false, error: 'Invalid user' }
+    }
+
     try {
       const lessonProgress = await database.getUserLessonProgress(userId)
       return { success: true, data: lessonProgress }
@@ -187,16 +700,74 @@ function setupIpcHandlers(): void {
     }
   })
 
-  ipcMain.handle('progress:update-lesson', async (_, data) => {
+  handleWithSession('progress:get-user-quiz-progress', async (context, userId) => {
+    const denied = checkUserAccess(context, userId, 'progress:view-others')
+    if (denied) return denied
+
+    if (!isId(userId)) {
+      return { success: false, error: 'Invalid user' }
+    }
+
+    try {
+      const quizProgress = await database.getUserQuizProgress(userId)
+      return { success: true, data: quizProgress }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to get user quiz progress'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('progress:update-lesson', async (context, data) => {
+    const unauthenticated = requireUser(context)
+    if (unauthenticated) return unauthenticated
+
+    if (
+      !isRecord(data) ||
+      !isId(data.moduleId) ||
+      typeof data.lessonId !== 'string' ||
+      typeof data.completed !== 'boolean'
+    ) {
+      return { success: false, error: 'Invalid lesson progress' }
+    }
+
     try {
-      return await database.updateLessonProgress(data)
+      // Progress is always recorded for the signed-in user
+      return await database.updateLessonProgress({
+        userId: context.user!.id,
+        moduleId: data.moduleId,
+        lessonId: data.lessonId,
+        completed: data.completed
+      })
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to update lesson progress'
       return { success: false, error: message }
     }
   })
 
-  ipcMain.handle('progress:get-module-progress', async (_, userId, moduleId) => {
+  handleWithSession('progress:record-time', async (context, moduleId, itemId, seconds) => {
+    const unauthenticated = requireUser(context)
+    if (unauthenticated) return unauthenticated
+
+    if (!isId(moduleId) || typeof itemId !== 'string' || typeof seconds !== 'number') {
+      return { success: false, error: 'Invalid time entry' }
+    }
+
+    try {
+      return await database.recordTimeSpent(context.user!.id, moduleId, itemId, seconds)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to record time spent'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('progress:get-module-progress', async (context, userId, moduleId) => {
+    const denied = checkUserAccess(context, userId, 'progress:view-others')
+    if (denied) return denied
+
+    if (!isId(userId) || !isId(moduleId)) {
+      return { success: false, error: 'Invalid user or module' }
+    }
+
     try {
       const progress = await database.getModuleProgress(userId, moduleId)
       return { success: true, data: progress }
@@ -206,57 +777,752 @@ function setupIpcHandlers(): void {
     }
   })
 
-  ipcMain.handle('progress:reset-module', async (_, userId, moduleId) => {
+  handleWithSession('progress:reset-module', async (context, userId, moduleId) => {
+    const denied = checkUserAccess(context, userId, 'progress:reset-others')
+    if (denied) return denied
+
+    if (!isId(userId) || !isId(moduleId)) {
+      return { success: false, error: 'Invalid user or module' }
+    }
+
     try {
-      return await database.resetModuleProgress(userId, moduleId)
+      // Learners starting a module over keep their attempt history so quiz
+      // attempt limits still apply; a reset by staff gives a clean slate
+      return await database.resetModuleProgress(userId, moduleId, {
+        clearQuizAttempts: userId !== context.user!.id
+      })
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to reset module progress'
       return { success: false, error: message }
     }
   })
 
-  // Certificate handlers
-  ipcMain.handle('certificates:generate', async (_, userId, moduleId) => {
+  handleWithSession('progress:submit-quiz-attempt', async (context, submission) => {
+    const unauthenticated = requireUser(context)
+    if (unauthenticated) return unauthenticated
+
+    if (
+      !isRecord(submission) ||
+      !isId(submission.moduleId) ||
+      typeof submission.quizId !== 'string' ||
+      !Array.isArray(submission.answers) ||
+      typeof submission.durationSeconds !== 'number'
+    ) {
+      return { success: false, error: 'Invalid quiz attempt' }
+    }
+
     try {
-      return await database.generateCertificate(userId, moduleId)
+      return await database.recordQuizAttempt(context.user!.id, {
+        moduleId: submission.moduleId,
+        quizId: submission.quizId,
+        // Anything but a choice index or typed answer counts as unanswered
+        answers: submission.answers.map((answer: unknown) =>
+          typeof answer === 'number' || typeof answer === 'string' ? answer : null
+        ),
+        durationSeconds: submission.durationSeconds
+      })
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to generate certificate'
+      const message = error instanceof Error ? error.message : 'Failed to submit quiz attempt'
       return { success: false, error: message }
     }
   })
 
-  ipcMain.handle('certificates:get-user-certificates', async (_, userId) => {
+  handleWithSession('progress:get-quiz-attempts', async (context, userId, moduleId, quizId) => {
+    const denied = checkUserAccess(context, userId, 'progress:view-others')
+    if (denied) return denied
+
+    if (!isId(userId) || !isId(moduleId) || typeof quizId !== 'string') {
+      return { success: false, error: 'Invalid user, module or quiz' }
+    }
+
     try {
-      const certificates = await database.getUserCertificates(userId)
-      return { success: true, data: certificates }
+      const attempts = await database.getQuizAttempts(userId, moduleId, quizId)
+      return { success: true, data: attempts }
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to get certificates'
+      const message = error instanceof Error ? error.message : 'Failed to get quiz attempts'
       return { success: false, error: message }
     }
   })
 
-  ipcMain.handle('certificates:export', async () => {
-    // TODO: Implement PDF export
-    return { success: false, error: 'Certificate export not implemented yet' }
-  })
+  // Analytics handlers
+  handleWithSession('analytics:get-learner', async (context, userId, days) => {
+    const denied = checkUserAccess(context, userId, 'progress:view-others')
+    if (denied) return denied
+
+    if (!isId(userId)) {
+      return { success: false, error: 'Invalid user' }
+    }
 
-  ipcMain.handle('certificates:verify', async (_, code) => {
     try {
-      const certificate = await database.verifyCertificate(code)
-      if (certificate) {
-        return { success: true, data: certificate }
-      }
-      return { success: false, error: 'Certificate not found' }
+      const range =
+        typeof days === 'number' &&
+        Number.isInteger(days) &&
+        days >= MIN_ANALYTICS_DAYS &&
+        days <= MAX_ANALYTICS_DAYS
+          ? days
+          : DEFAULT_ANALYTICS_DAYS
+      const analytics = await database.getLearnerAnalytics(userId, range)
+      return { success: true, data: analytics }
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to verify certificate'
+      const message = error instanceof Error ? error.message : 'Failed to load analytics'
       return { success: false, error: message }
     }
   })
-}
 
-// This method will be called when Electron has finished
-// initialization and is ready to create browser windows.
-// Some APIs can only be used after this event occurs.
+  // Certificate handlers
+  handleWithSession('certificates:generate', async (context, moduleId) => {
+    const unauthenticated = requireUser(context)
+    if (unauthenticated) return unauthenticated
+
+    if (!isId(moduleId)) {
+      return { success: false, error: 'Module not found' }
+    }
+
+    try {
+      return await database.generateCertificate(context.user!.id, moduleId)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to generate certificate'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('certificates:get-user-certificates', async (context, userId) => {
+    const denied = checkUserAccess(context, userId, 'progress:view-others')
+    if (denied) return denied
+
+    if (!isId(userId)) {
+      return { success: false, error: 'Invalid user' }
+    }
+
+    try {
+      const certificates = await database.getUserCertificates(userId)
+      return { success: true, data: certificates }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to get certificates'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('certificates:export', async (context, certificateId) => {
+    const unauthenticated = requireUser(context)
+    if (unauthenticated) return unauthenticated
+
+    if (!isId(certificateId)) {
+      return { success: false, error: 'Certificate not found' }
+    }
+
+    try {
+      const certificate = await database.getCertificateById(certificateId)
+      if (!certificate) {
+        return { success: false, error: 'Certificate not found' }
+      }
+      const denied = checkUserAccess(context, certificate.user_id, 'progress:view-others')
+      if (denied) return denied
+
+      const window = BrowserWindow.fromWebContents(context.event.sender)
+      const dialogOptions: Electron.SaveDialogOptions = {
+        title: 'Save Certificate',
+        defaultPath: getCertificateFileName(certificate),
+        filters: [{ name: 'PDF Documents', extensions: ['pdf'] }]
+      }
+      const selection = window
+        ? await dialog.showSaveDialog(window, dialogOptions)
+        : await dialog.showSaveDialog(dialogOptions)
+
+      if (selection.canceled || !selection.filePath) {
+        return { success: true, data: { canceled: true } }
+      }
+
+      await writeFile(selection.filePath, await renderCertificate(certificate))
+
+      return { success: true, data: { canceled: false, filePath: selection.filePath } }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to export certificate'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('certificates:export-all', async (context, userId) => {
+    const denied = checkUserAccess(context, userId, 'progress:view-others')
+    if (denied) return denied
+
+    if (!isId(userId)) {
+      return { success: false, error: 'Invalid user' }
+    }
+
+    try {
+      const certificates = await database.getUserCertificates(userId)
+      if (certificates.length === 0) {
+        return { success: false, error: 'There are no certificates to export' }
+      }
+
+      const window = BrowserWindow.fromWebContents(context.event.sender)
+      const dialogOptions: Electron.OpenDialogOptions = {
+        title: 'Choose a Folder for the Certificates',
+        buttonLabel: 'Export Here',
+        properties: ['openDirectory', 'createDirectory']
+      }
+      const selection = window
+        ? await dialog.showOpenDialog(window, dialogOptions)
+        : await dialog.showOpenDialog(dialogOptions)
+
+      if (selection.canceled || selection.filePaths.length === 0) {
+        return { success: true, data: { canceled: true } }
+      }
+
+      const folderPath = selection.filePaths[0]
+      const files = await exportCertificates(certificates, folderPath)
+      return { success: true, data: { canceled: false, folderPath, count: files.length } }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to export certificates'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('certificates:print', async (context, certificateId) => {
+    const unauthenticated = requireUser(context)
+    if (unauthenticated) return unauthenticated
+
+    if (!isId(certificateId)) {
+      return { success: false, error: 'Certificate not found' }
+    }
+
+    try {
+      const certificate = await database.getCertificateById(certificateId)
+      if (!certificate) {
+        return { success: false, error: 'Certificate not found' }
+      }
+      const denied = checkUserAccess(context, certificate.user_id, 'progress:view-others')
+      if (denied) return denied
+
+      await openCertificatePrintPreview(
+        certificate,
+        BrowserWindow.fromWebContents(context.event.sender)
+      )
+      return { success: true }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to print certificate'
+      return { success: false, error: message }
+    }
+  })
+
+  // Anyone may verify a certificate, signed in or not
+  handleWithSession('certificates:verify', async (_, input) => {
+    if (typeof input !== 'string' || !input.trim()) {
+      return { success: false, error: 'Enter a certificate code or scan its QR code' }
+    }
+
+    try {
+      const verification = await database.verifyCertificate(input)
+      return { success: true, data: verification }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to verify certificate'
+      return { success: false, error: message }
+    }
+  })
+
+  // Certificate template handlers
+  handleWithSession('certificate-templates:get-all', async (context) => {
+    const unauthenticated = requireUser(context)
+    if (unauthenticated) return unauthenticated
+
+    try {
+      const templates = await listCertificateTemplates()
+      return { success: true, data: templates }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to get certificate templates'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('certificate-templates:install', async (context) => {
+    const denied = checkPermission(context, 'settings:manage')
+    if (denied) return denied
+
+    try {
+      const window = BrowserWindow.fromWebContents(context.event.sender)
+      const dialogOptions: Electron.OpenDialogOptions = {
+        title: 'Install Certificate Template',
+        properties: ['openFile'],
+        filters: [{ name: 'Certificate Templates', extensions: ['json'] }]
+      }
+      const selection = window
+        ? await dialog.showOpenDialog(window, dialogOptions)
+        : await dialog.showOpenDialog(dialogOptions)
+
+      if (selection.canceled || selection.filePaths.length === 0) {
+        return { success: true, data: { canceled: true } }
+      }
+
+      const template = await installCertificateTemplate(selection.filePaths[0])
+      return { success: true, data: { canceled: false, template } }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to install template'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('certificate-templates:remove', async (context, id) => {
+    const denied = checkPermission(context, 'settings:manage')
+    if (denied) return denied
+
+    if (typeof id !== 'string') {
+      return { success: false, error: 'Template not found' }
+    }
+
+    try {
+      await removeCertificateTemplate(id)
+      // Certificates go back to the classic layout when the selected template is removed
+      const settings = await database.getSettings()
+      if (settings.certificateTemplate === id) {
+        await database.updateSettings({ certificateTemplate: DEFAULT_TEMPLATE_ID })
+      }
+      return { success: true, data: await database.getSettings() }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to remove template'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('certificate-templates:select', async (context, id) => {
+    const denied = checkPermission(context, 'settings:manage')
+    if (denied) return denied
+
+    try {
+      if (typeof id !== 'string' || !(await templateExists(id))) {
+        return { success: false, error: 'Certificate template not found' }
+      }
+      const settings = await database.updateSettings({ certificateTemplate: id })
+      return { success: true, data: settings }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to select template'
+      return { success: false, error: message }
+    }
+  })
+
+  // Learner profile handlers
+  handleWithSession('profiles:export', async (context, userId) => {
+    const denied = checkUserAccess(context, userId, 'users:manage')
+    if (denied) return denied
+
+    if (!isId(userId)) {
+      return { success: false, error: 'User not found' }
+    }
+
+    try {
+      const user = await database.getUserById(userId)
+      if (!user) {
+        return { success: false, error: 'User not found' }
+      }
+
+      const window = BrowserWindow.fromWebContents(context.event.sender)
+      const dialogOptions: Electron.SaveDialogOptions = {
+        title: 'Export Learner Profile',
+        defaultPath: getProfileFileName(user.username),
+        filters: [{ name: 'Learner Profiles', extensions: [PROFILE_EXTENSION] }]
+      }
+      const selection = window
+        ? await dialog.showSaveDialog(window, dialogOptions)
+        : await dialog.showSaveDialog(dialogOptions)
+
+      if (selection.canceled || !selection.filePath) {
+        return { success: true, data: { canceled: true } }
+      }
+
+      const fingerprint = await exportLearnerProfile(user.id, selection.filePath)
+      return { success: true, data: { canceled: false, filePath: selection.filePath, fingerprint } }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to export profile'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('profiles:inspect', async (context) => {
+    const unauthenticated = requireUser(context)
+    if (unauthenticated) return unauthenticated
+
+    try {
+      const window = BrowserWindow.fromWebContents(context.event.sender)
+      const dialogOptions: Electron.OpenDialogOptions = {
+        title: 'Import Learner Profile',
+        properties: ['openFile'],
+        filters: [{ name: 'Learner Profiles', extensions: [PROFILE_EXTENSION] }]
+      }
+      const selection = window
+        ? await dialog.showOpenDialog(window, dialogOptions)
+        : await dialog.showOpenDialog(dialogOptions)
+
+      if (selection.canceled || selection.filePaths.length === 0) {
+        return { success: true, data: { canceled: true } }
+      }
+
+      const profile = await openLearnerProfile(selection.filePaths[0])
+      return { success: true, data: { canceled: false, profile } }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to read profile'
+      return { success: false, error: message }
+    }
+  })
+
+  // Administrators import any profile, and may choose to trust the installation
+  // it came from; they also set the password when the account does not exist
+  // here yet. Learners may import their own profile from a trusted source, and
+  // it is merged once an administrator approves it.
+  handleWithSession('profiles:import', async (context, profileId, password, trustIssuer) => {
+    const unauthenticated = requireUser(context)
+    if (unauthenticated) return unauthenticated
+
+    const profile = typeof profileId === 'string' ? getOpenedProfile(profileId) : null
+    if (typeof profileId !== 'string' || !profile) {
+      return { success: false, error: 'Open the learner profile again to import it' }
+    }
+
+    try {
+      const { username, email } = profile.data.user
+      const user = context.user!
+
+      if (!hasPermission(user.role, 'users:manage')) {
+        if (username !== user.username) {
+          return {
+            success: false,
+            error: `This profile belongs to ${username}. Sign in as ${username} or ask an administrator to import it.`
+          }
+        }
+        if (!profile.trust) {
+          return {
+            success: false,
+            error:
+              'This computer does not trust the computer this profile was exported from. Ask an administrator to import it.'
+          }
+        }
+
+        await database.submitProfileReview(user.id, profile.key, profile.trust, profile.data)
+        closeOpenedProfile(profileId)
+        return {
+          success: true,
+          data: {
+            username,
+            pendingReview: true,
+            accountCreated: false,
+            modulesMerged: 0,
+            modulesSkipped: [],
+            certificatesAdded: 0
+          }
+        }
+      }
+
+      if (!profile.trust && trustIssuer !== true) {
+        return {
+          success: false,
+          error: 'Confirm that you trust the computer this profile was exported from'
+        }
+      }
+
+      let userId = await database.getUserIdByUsername(username)
+      let accountCreated = false
+      if (userId === null) {
+        const newPassword = typeof password === 'string' ? password : ''
+        const invalid = validateAccount(username, email, newPassword)
+        if (invalid) {
+          return { success: false, error: invalid }
+        }
+        const created = await database.createUser({
+          username,
+          email,
+          password_hash: newPassword
+        })
+        if (!created.success || !created.data) {
+          return { success: false, error: created.error || 'Failed to create account' }
+        }
+        userId = created.data.id
+        accountCreated = true
+      }
+
+      if (!profile.trust) {
+        await database.trustInstallation(profile.key, user.id)
+      }
+      const merged = await database.mergeLearnerProfile(userId, profile.data)
+      closeOpenedProfile(profileId)
+      return { success: true, data: { username, pendingReview: false, accountCreated, ...merged } }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to import profile'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('profiles:get-reviews', async (context) => {
+    const denied = checkPermission(context, 'users:manage')
+    if (denied) return denied
+
+    try {
+      const reviews = await database.getProfileReviews()
+      const data = await Promise.all(
+        reviews.map(async (review) => ({
+          id: review.id,
+          submittedAt: review.submittedAt,
+          profile: await summarizeLearnerProfile({
+            data: review.data,
+            key: review.issuerKey,
+            trust: review.trust
+          })
+        }))
+      )
+      return { success: true, data }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to get profile imports'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('profiles:approve-review', async (context, reviewId) => {
+    const denied = checkPermission(context, 'users:manage')
+    if (denied) return denied
+
+    if (!isId(reviewId)) {
+      return { success: false, error: 'Profile import not found' }
+    }
+
+    try {
+      const review = await database.getProfileReview(reviewId)
+      if (!review) {
+        return { success: false, error: 'Profile import not found' }
+      }
+
+      const merged = await database.mergeLearnerProfile(review.userId, review.data)
+      await database.deleteProfileReview(review.id)
+      return {
+        success: true,
+        data: {
+          username: review.data.user.username,
+          pendingReview: false,
+          accountCreated: false,
+          ...merged
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to import profile'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('profiles:reject-review', async (context, reviewId) => {
+    const denied = checkPermission(context, 'users:manage')
+    if (denied) return denied
+
+    if (!isId(reviewId)) {
+      return { success: false, error: 'Profile import not found' }
+    }
+
+    try {
+      await database.deleteProfileReview(reviewId)
+      return { success: true, message: 'Profile import rejected' }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to reject profile import'
+      return { success: false, error: message }
+    }
+  })
+
+  // Backup handlers
+  handleWithSession('backup:get-all', async (context) => {
+    const denied = checkPermission(context, 'settings:manage')
+    if (denied) return denied
+
+    try {
+      const backups = await listBackups()
+      return { success: true, data: backups }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to get backups'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('backup:create', async (context) => {
+    const denied = checkPermission(context, 'settings:manage')
+    if (denied) return denied
+
+    try {
+      const window = BrowserWindow.fromWebContents(context.event.sender)
+      const dialogOptions: Electron.SaveDialogOptions = {
+        title: 'Save Backup',
+        defaultPath: getDefaultBackupName(),
+        filters: [{ name: 'Our Africa Backups', extensions: ['db'] }]
+      }
+      const selection = window
+        ? await dialog.showSaveDialog(window, dialogOptions)
+        : await dialog.showSaveDialog(dialogOptions)
+
+      if (selection.canceled || !selection.filePath) {
+        return { success: true, data: { canceled: true } }
+      }
+
+      await database.backupTo(selection.filePath)
+      return { success: true, data: { canceled: false, filePath: selection.filePath } }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to create backup'
+      return { success: false, error: message }
+    }
+  })
+
+  // Restores an automatic backup by name, or a file the administrator picks
+  handleWithSession('backup:restore', async (context, fileName) => {
+    const denied = checkPermission(context, 'settings:manage')
+    if (denied) return denied
+
+    try {
+      let filePath: string | null
+      if (fileName != null) {
+        filePath = typeof fileName === 'string' ? await resolveBackup(fileName) : null
+        if (!filePath) {
+          return { success: false, error: 'Backup not found' }
+        }
+      } else {
+        const window = BrowserWindow.fromWebContents(context.event.sender)
+        const dialogOptions: Electron.OpenDialogOptions = {
+          title: 'Restore Backup',
+          properties: ['openFile'],
+          filters: [{ name: 'Our Africa Backups', extensions: ['db'] }]
+        }
+        const selection = window
+          ? await dialog.showOpenDialog(window, dialogOptions)
+          : await dialog.showOpenDialog(dialogOptions)
+
+        if (selection.canceled || selection.filePaths.length === 0) {
+          return { success: true, data: { canceled: true } }
+        }
+        filePath = selection.filePaths[0]
+      }
+
+      const schemaVersion = await restoreBackup(filePath)
+      // The restored settings may use a different classroom role or key
+      await startLanSync()
+      return { success: true, data: { canceled: false, schemaVersion } }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to restore backup'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('backup:update-schedule', async (context, interval, backupsToKeep) => {
+    const denied = checkPermission(context, 'settings:manage')
+    if (denied) return denied
+
+    if (!isBackupInterval(interval)) {
+      return { success: false, error: 'Choose how often to back up' }
+    }
+    if (!isBackupsToKeep(backupsToKeep)) {
+      return {
+        success: false,
+        error: `Keep between ${MIN_BACKUPS_TO_KEEP} and ${MAX_BACKUPS_TO_KEEP} backups`
+      }
+    }
+
+    try {
+      const settings = await database.updateSettings({ backupInterval: interval, backupsToKeep })
+      // Take a backup straight away if one is now due
+      scheduleAutomaticBackups()
+      return { success: true, data: settings }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update backup schedule'
+      return { success: false, error: message }
+    }
+  })
+
+  // Classroom network handlers. Any signed-in user may see nearby computers and
+  // install their modules; the role and classroom key are for administrators.
+  handleWithSession('sync:get-status', async (context) => {
+    const unauthenticated = requireUser(context)
+    if (unauthenticated) return unauthenticated
+
+    try {
+      return { success: true, data: await getLanSyncStatus() }
+    } catch {
+      return { success: false, error: 'Failed to get classroom network status' }
+    }
+  })
+
+  handleWithSession('sync:get-key', async (context) => {
+    const denied = checkPermission(context, 'settings:manage')
+    if (denied) return denied
+
+    try {
+      return { success: true, data: await database.getLanSyncKey() }
+    } catch {
+      return { success: false, error: 'Failed to get classroom key' }
+    }
+  })
+
+  handleWithSession('sync:update', async (context, role, key) => {
+    const denied = checkPermission(context, 'settings:manage')
+    if (denied) return denied
+
+    if (!isLanSyncRole(role)) {
+      return { success: false, error: 'Choose a role for this computer' }
+    }
+    const classroomKey = normalizeClassroomKey(key)
+    if (role !== 'off' && !classroomKey) {
+      return { success: false, error: 'Enter the classroom key, e.g. ABCD-EFGH-JKLM-NPQR' }
+    }
+
+    try {
+      await database.updateSettings({ lanSyncRole: role })
+      if (classroomKey) {
+        await database.setLanSyncKey(classroomKey)
+      }
+      await startLanSync()
+      return { success: true, data: await getLanSyncStatus() }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update classroom network'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('sync:sync-progress', async (context) => {
+    const denied = checkPermission(context, 'settings:manage')
+    if (denied) return denied
+
+    try {
+      return { success: true, data: await syncProgress() }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to sync progress'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('sync:get-peer-modules', async (context, instanceId) => {
+    const unauthenticated = requireUser(context)
+    if (unauthenticated) return unauthenticated
+
+    try {
+      return { success: true, data: await getPeerModules(String(instanceId)) }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to list modules'
+      return { success: false, error: message }
+    }
+  })
+
+  handleWithSession('sync:pull-module', async (context, instanceId, moduleId) => {
+    const unauthenticated = requireUser(context)
+    if (unauthenticated) return unauthenticated
+
+    if (!isId(moduleId)) {
+      return { success: false, error: 'Choose a module to install' }
+    }
+
+    try {
+      return { success: true, data: await pullModule(String(instanceId), moduleId) }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to install module'
+      return { success: false, error: message }
+    }
+  })
+}
+
+// Custom protocols must be registered before the app is ready
+registerMediaScheme()
+
+// This method will be called when Electron has finished
+// initialization and is ready to create browser windows.
+// Some APIs can only be used after this event occurs.
 app.whenReady().then(async () => {
   // Initialize database
   try {
@@ -264,6 +1530,10 @@ app.whenReady().then(async () => {
     console.log('Database initialized successfully')
   } catch (error) {
     console.error('Failed to initialize database:', error)
+    dialog.showErrorBox(
+      'Our Africa could not start',
+      error instanceof Error ? error.message : 'Failed to initialize database'
+    )
     app.quit()
     return
   }
@@ -274,6 +1544,15 @@ app.whenReady().then(async () => {
   // Setup IPC handlers
   setupIpcHandlers()
 
+  // Back up the database on the schedule set in Settings
+  scheduleAutomaticBackups()
+
+  // Find other classroom computers and serve this one's modules and progress
+  startLanSync().catch((error) => console.error('Failed to start classroom sync:', error))
+
+  // Serve bundled module media
+  handleMediaProtocol()
+
   // Default open or close DevTools by F12 in development
   // and ignore CommandOrControl + R in production.
   app.on('browser-window-created', (_, window) => {
@@ -299,7 +1578,9 @@ app.on('window-all-closed', () => {
   }
 })
 
-// Clean up database connection on app quit
-app.on('before-quit', () => {
-  database.close()
+// Clean up database connection on app quit, once learning time has been saved
+app.on('before-quit', (event) => {
+  if (flushTimeBeforeQuit(event)) {
+    database.close()
+  }
 })
@@ -0,0 +1,90 @@
+import { app, BrowserWindow } from 'electron'
+import { existsSync } from 'fs'
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { pathToFileURL } from 'url'
+import { database } from '../database/database'
+import { loadCertificateTemplate } from './certificateTemplates'
+import type { LoadedCertificateTemplate } from './certificateTemplates'
+import { renderCertificatePdf } from './certificatePdf'
+import type { Certificate } from '../types'
+
+const toFileNamePart = (value: string): string => value.replace(/[^a-zA-Z0-9]/g, '_')
+
+export function getCertificateFileName(certificate: Certificate): string {
+  return `${toFileNamePart(certificate.module_title)}_Certificate.pdf`
+}
+
+// The selected template and issuer, loaded once for however many certificates are rendered
+async function loadRenderOptions(): Promise<{
+  template: LoadedCertificateTemplate
+  issuer: string
+}> {
+  const settings = await database.getSettings()
+  return {
+    template: await loadCertificateTemplate(settings.certificateTemplate),
+    issuer: settings.institutionName
+  }
+}
+
+export async function renderCertificate(certificate: Certificate): Promise<Buffer> {
+  const { template, issuer } = await loadRenderOptions()
+  return renderCertificatePdf(certificate, template, issuer)
+}
+
+/**
+ * Save each certificate as a PDF in `folderPath`. Files already in the folder
+ * are kept; a numbered name is used instead.
+ */
+export async function exportCertificates(
+  certificates: Certificate[],
+  folderPath: string
+): Promise<string[]> {
+  const { template, issuer } = await loadRenderOptions()
+  const written: string[] = []
+
+  for (const certificate of certificates) {
+    const baseName = `${toFileNamePart(certificate.user_name)}_${getCertificateFileName(certificate)}`
+    let filePath = join(folderPath, baseName)
+    for (let copy = 2; existsSync(filePath); copy++) {
+      filePath = join(folderPath, baseName.replace(/\.pdf$/, ` (${copy}).pdf`))
+    }
+
+    await writeFile(filePath, await renderCertificatePdf(certificate, template, issuer))
+    written.push(filePath)
+  }
+  return written
+}
+
+/**
+ * Open a certificate in a preview window whose PDF viewer can print it. The
+ * rendered file lives in a temporary folder removed when the window closes.
+ */
+export async function openCertificatePrintPreview(
+  certificate: Certificate,
+  parent: BrowserWindow | null
+): Promise<void> {
+  const pdf = await renderCertificate(certificate)
+  const folder = await mkdtemp(join(app.getPath('temp'), 'certificate-'))
+  const filePath = join(folder, getCertificateFileName(certificate))
+  await writeFile(filePath, pdf)
+
+  const preview = new BrowserWindow({
+    width: 1000,
+    height: 760,
+    parent: parent ?? undefined,
+    title: `Print ${certificate.module_title} Certificate`,
+    autoHideMenuBar: true,
+    webPreferences: {
+      plugins: true, // the built-in PDF viewer
+      sandbox: true,
+      contextIsolation: true
+    }
+  })
+  preview.on('closed', () => {
+    rm(folder, { recursive: true, force: true }).catch((error) =>
+      console.warn('Failed to remove certificate print preview:', error)
+    )
+  })
+  await preview.loadURL(pathToFileURL(filePath).toString())
+}
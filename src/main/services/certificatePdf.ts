@@ -0,0 +1,137 @@
+import { jsPDF } from 'jspdf'
+import QRCode from 'qrcode'
+import {
+  fillTemplateText,
+  getPageSize,
+  TemplateColor,
+  TemplatePlaceholder
+} from '../../shared/certificateTemplate'
+import type { LoadedCertificateTemplate } from './certificateTemplates'
+import { decodeCertificateToken } from './certificateSigning'
+import type { Certificate } from '../types'
+
+const SIGNATURE_LINE_WIDTH = 60
+const SIGNATURE_IMAGE = { width: 40, height: 15 }
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+function formatCompletionDate(date: string): string {
+  const parsed = new Date(date)
+  if (isNaN(parsed.getTime())) return date
+  return parsed.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })
+}
+
+/**
+ * Render a certificate as a PDF laid out by the given template. The issuer and
+ * module version come from the signed payload; `defaultIssuer` is only used
+ * for certificates without one.
+ */
+export async function renderCertificatePdf(
+  certificate: Certificate,
+  { template, images }: LoadedCertificateTemplate,
+  defaultIssuer: string
+): Promise<Buffer> {
+  const payload = certificate.verification_token
+    ? decodeCertificateToken(certificate.verification_token)
+    : null
+  const page = getPageSize(template.orientation)
+  const font = template.font || 'helvetica'
+  const doc = new jsPDF({ orientation: template.orientation, unit: 'mm', format: 'a4' })
+
+  const color = (name: TemplateColor): [number, number, number] => hexToRgb(template.colors[name])
+  const values: Record<TemplatePlaceholder, string> = {
+    learner: certificate.user_name,
+    module: certificate.module_title,
+    moduleVersion: payload?.moduleVersion || '',
+    completionDate: formatCompletionDate(certificate.completion_date),
+    issuer: payload?.issuer || defaultIssuer,
+    code: certificate.certificate_code
+  }
+
+  // Background and border
+  doc.setFillColor(...hexToRgb(template.colors.background))
+  doc.rect(0, 0, page.width, page.height, 'F')
+
+  if (template.border) {
+    const { inset, width } = template.border
+    doc.setDrawColor(...color(template.border.color || 'primary'))
+    doc.setLineWidth(width)
+    doc.rect(inset, inset, page.width - inset * 2, page.height - inset * 2)
+  }
+
+  for (const line of template.lines || []) {
+    doc.setDrawColor(...color(line.color || 'accent'))
+    doc.setLineWidth(line.width)
+    doc.line(line.x1, line.y1, line.x2, line.y2)
+  }
+
+  if (template.logo) {
+    const { file, width, height, y } = template.logo
+    const image = images[file]
+    const x = template.logo.x ?? (page.width - width) / 2
+    if (image) {
+      doc.addImage(image.data, image.format, x, y, width, height, undefined, 'FAST')
+    }
+  }
+
+  for (const field of template.fields) {
+    doc.setFont(font, field.style || 'normal')
+    doc.setFontSize(field.size)
+    doc.setTextColor(...color(field.color || 'text'))
+    doc.text(fillTemplateText(field.text, values), field.x ?? page.width / 2, field.y, {
+      align: field.align || 'center'
+    })
+  }
+
+  for (const signatory of template.signatories || []) {
+    const { x, y } = signatory
+    const image = signatory.signatureImage ? images[signatory.signatureImage] : undefined
+    if (image) {
+      doc.addImage(
+        image.data,
+        image.format,
+        x - SIGNATURE_IMAGE.width / 2,
+        y - SIGNATURE_IMAGE.height - 1,
+        SIGNATURE_IMAGE.width,
+        SIGNATURE_IMAGE.height,
+        undefined,
+        'FAST'
+      )
+    }
+
+    doc.setDrawColor(...color('muted'))
+    doc.setLineWidth(0.3)
+    doc.line(x - SIGNATURE_LINE_WIDTH / 2, y, x + SIGNATURE_LINE_WIDTH / 2, y)
+
+    doc.setFont(font, 'bold')
+    doc.setFontSize(11)
+    doc.setTextColor(...color('text'))
+    doc.text(signatory.name, x, y + 6, { align: 'center' })
+    if (signatory.title) {
+      doc.setFont(font, 'normal')
+      doc.setFontSize(9)
+      doc.setTextColor(...color('muted'))
+      doc.text(signatory.title, x, y + 11, { align: 'center' })
+    }
+  }
+
+  // The signed verification code, from the stored certificate
+  if (certificate.verification_token) {
+    const { x, y, size } = template.qrCode
+    const qrCode = await QRCode.toDataURL(certificate.verification_token, {
+      errorCorrectionLevel: 'M',
+      margin: 1,
+      width: 400
+    })
+    doc.addImage(qrCode, 'PNG', x, y, size, size)
+    doc.setFont(font, 'normal')
+    doc.setFontSize(8)
+    doc.setTextColor(...color('muted'))
+    doc.text('Scan to verify', x + size / 2, y + size + 4, { align: 'center' })
+  }
+
+  return Buffer.from(doc.output('arraybuffer'))
+}
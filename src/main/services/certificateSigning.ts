@@ -0,0 +1,147 @@
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  verify
+} from 'crypto'
+import type { CertificatePayload } from '../types'
+
+// Certificates (and learner profiles) are signed with an Ed25519 key generated
+// once per installation.
+// The QR code on a certificate holds a token laid out as:
+//   OAC1.<payload>.<signature>
+// where both parts are base64url encoded and the payload is JSON that carries
+// the issuer's public key, so the token can be checked without the database
+// that issued it.
+
+export const CERTIFICATE_TOKEN_PREFIX = 'OAC1'
+
+const MAX_TOKEN_LENGTH = 4096
+
+const PAYLOAD_FIELDS: (keyof CertificatePayload)[] = [
+  'code',
+  'learner',
+  'module',
+  'moduleVersion',
+  'completedAt',
+  'issuer',
+  'key'
+]
+
+export type TokenVerification =
+  | { valid: true; payload: CertificatePayload }
+  | { valid: false; error: string; payload?: CertificatePayload }
+
+/**
+ * Create a new signing key, returned as a PKCS#8 PEM string
+ */
+export function generateSigningKey(): string {
+  const { privateKey } = generateKeyPairSync('ed25519')
+  return privateKey.export({ format: 'pem', type: 'pkcs8' }).toString()
+}
+
+/**
+ * The raw public key for a signing key, base64url encoded
+ */
+export function getPublicKey(privateKeyPem: string): string {
+  const jwk = createPublicKey(createPrivateKey(privateKeyPem)).export({ format: 'jwk' })
+  return jwk.x as string
+}
+
+/**
+ * A short, readable fingerprint of a public key for people to compare
+ */
+export function getKeyFingerprint(publicKey: string): string {
+  const digest = createHash('sha256').update(publicKey).digest('hex').slice(0, 16).toUpperCase()
+  return digest.match(/.{4}/g)!.join('-')
+}
+
+/**
+ * Sign text with the installation key, returning a base64url signature
+ */
+export function signData(data: string, privateKeyPem: string): string {
+  return sign(null, Buffer.from(data), createPrivateKey(privateKeyPem)).toString('base64url')
+}
+
+/**
+ * Check a base64url signature against a base64url public key. Malformed keys
+ * and signatures count as a mismatch.
+ */
+export function verifyData(data: string, signature: string, publicKey: string): boolean {
+  try {
+    const key = createPublicKey({
+      key: { kty: 'OKP', crv: 'Ed25519', x: publicKey },
+      format: 'jwk'
+    })
+    return verify(null, Buffer.from(data), key, Buffer.from(signature, 'base64url'))
+  } catch {
+    return false
+  }
+}
+
+export function signCertificate(
+  payload: Omit<CertificatePayload, 'key'>,
+  privateKeyPem: string
+): string {
+  const signed: CertificatePayload = { ...payload, key: getPublicKey(privateKeyPem) }
+  const body = Buffer.from(JSON.stringify(signed)).toString('base64url')
+
+  return [CERTIFICATE_TOKEN_PREFIX, body, signData(body, privateKeyPem)].join('.')
+}
+
+export function isCertificateToken(value: string): boolean {
+  return value.trim().startsWith(`${CERTIFICATE_TOKEN_PREFIX}.`)
+}
+
+function parsePayload(body: string): CertificatePayload | null {
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'))
+    if (typeof payload !== 'object' || payload === null) return null
+    return PAYLOAD_FIELDS.every((field) => typeof payload[field] === 'string')
+      ? (payload as CertificatePayload)
+      : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Read a token's payload without checking its signature
+ */
+export function decodeCertificateToken(token: string): CertificatePayload | null {
+  const [prefix, body] = token.trim().split('.')
+  return prefix === CERTIFICATE_TOKEN_PREFIX && body ? parsePayload(body) : null
+}
+
+/**
+ * Check a token's signature against the public key it carries. A valid token
+ * proves the payload has not changed since it was signed; whether the key
+ * belongs to a trusted issuer is for the caller to decide.
+ */
+export function verifyCertificateToken(token: string): TokenVerification {
+  const trimmed = token.trim()
+  if (trimmed.length > MAX_TOKEN_LENGTH) {
+    return { valid: false, error: 'This is not a certificate code' }
+  }
+
+  const [prefix, body, signature, ...rest] = trimmed.split('.')
+  if (prefix !== CERTIFICATE_TOKEN_PREFIX || !body || !signature || rest.length > 0) {
+    return { valid: false, error: 'This is not a certificate code' }
+  }
+
+  const payload = parsePayload(body)
+  if (!payload) {
+    return { valid: false, error: 'The certificate details could not be read' }
+  }
+
+  if (!verifyData(body, signature, payload.key)) {
+    return {
+      valid: false,
+      error: 'The signature does not match. This certificate has been altered.',
+      payload
+    }
+  }
+  return { valid: true, payload }
+}
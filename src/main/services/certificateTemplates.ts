@@ -0,0 +1,190 @@
+import { app } from 'electron'
+import { copyFile, mkdir, readdir, readFile, rm } from 'fs/promises'
+import { existsSync } from 'fs'
+import { dirname, extname, join } from 'path'
+import defaultLogo from '../../renderer/src/assets/logo.png?asset'
+import {
+  CertificateTemplate,
+  DEFAULT_LOGO,
+  DEFAULT_TEMPLATE_ID,
+  getTemplateImages,
+  TEMPLATE_FILE,
+  validateCertificateTemplate
+} from '../../shared/certificateTemplate'
+import type { CertificateTemplateSummary } from '../types'
+
+// Installed templates live in userData/certificate-templates/<id>/, each a
+// template.json with the images it refers to alongside it
+
+export interface TemplateImage {
+  data: string // base64 data URL
+  format: 'PNG' | 'JPEG'
+}
+
+export interface LoadedCertificateTemplate {
+  template: CertificateTemplate
+  images: Record<string, TemplateImage>
+}
+
+// The layout certificates have always used
+const CLASSIC_TEMPLATE: CertificateTemplate = {
+  id: DEFAULT_TEMPLATE_ID,
+  name: 'Classic',
+  description: 'Centred text with a purple border and gold accent',
+  orientation: 'landscape',
+  colors: {
+    primary: '#4F2A6A',
+    accent: '#F9A826',
+    text: '#000000',
+    muted: '#444444',
+    background: '#FFFFFF'
+  },
+  border: { inset: 10, width: 1, color: 'primary' },
+  lines: [{ x1: 70, y1: 50, x2: 227, y2: 50, width: 1, color: 'accent' }],
+  fields: [
+    { text: 'Certificate of Completion', y: 40, size: 30, style: 'bold', color: 'primary' },
+    { text: 'This is to certify that', y: 70, size: 16, color: 'muted' },
+    { text: '{{learner}}', y: 85, size: 24, style: 'bold' },
+    { text: 'has successfully completed the course', y: 100, size: 16, color: 'muted' },
+    { text: '{{module}}', y: 115, size: 20, style: 'bold' },
+    { text: 'Issued on {{completionDate}}', y: 135, size: 14, color: 'muted' },
+    { text: 'Certificate ID: {{code}}', y: 150, size: 10, color: 'muted' },
+    { text: 'Issued by {{issuer}}', y: 185, size: 12, color: 'muted' }
+  ],
+  logo: { file: DEFAULT_LOGO, y: 155, width: 20, height: 20 },
+  qrCode: { x: 250, y: 154, size: 32 }
+}
+
+const BUILT_IN_TEMPLATES = [CLASSIC_TEMPLATE]
+
+export function getTemplatesRoot(): string {
+  return join(app.getPath('userData'), 'certificate-templates')
+}
+
+function toSummary(template: CertificateTemplate, builtIn: boolean): CertificateTemplateSummary {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    orientation: template.orientation,
+    builtIn
+  }
+}
+
+async function readTemplateFile(filePath: string): Promise<CertificateTemplate> {
+  let data: unknown
+  try {
+    data = JSON.parse(await readFile(filePath, 'utf-8'))
+  } catch {
+    throw new Error(`${TEMPLATE_FILE} is not valid JSON.`)
+  }
+
+  const { template, errors } = validateCertificateTemplate(data)
+  if (!template) {
+    throw new Error(`Invalid certificate template: ${errors.join('; ')}`)
+  }
+  return template
+}
+
+async function readInstalledTemplates(): Promise<CertificateTemplate[]> {
+  const root = getTemplatesRoot()
+  if (!existsSync(root)) return []
+
+  const templates: CertificateTemplate[] = []
+  for (const entry of await readdir(root, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue
+    try {
+      templates.push(await readTemplateFile(join(root, entry.name, TEMPLATE_FILE)))
+    } catch (error) {
+      console.warn(`Skipping certificate template "${entry.name}":`, error)
+    }
+  }
+  return templates
+}
+
+export async function listCertificateTemplates(): Promise<CertificateTemplateSummary[]> {
+  const installed = await readInstalledTemplates()
+  return [
+    ...BUILT_IN_TEMPLATES.map((template) => toSummary(template, true)),
+    ...installed.map((template) => toSummary(template, false))
+  ]
+}
+
+export async function templateExists(id: string): Promise<boolean> {
+  return (await listCertificateTemplates()).some((template) => template.id === id)
+}
+
+/**
+ * Install a template from its template.json, copying the images it refers to
+ * from the same folder. Installing a template with an existing id replaces it.
+ */
+export async function installCertificateTemplate(
+  filePath: string
+): Promise<CertificateTemplateSummary> {
+  const template = await readTemplateFile(filePath)
+  if (BUILT_IN_TEMPLATES.some((builtIn) => builtIn.id === template.id)) {
+    throw new Error(`"${template.id}" is the id of a built-in template. Choose another id.`)
+  }
+
+  const sourceDir = dirname(filePath)
+  const images = getTemplateImages(template)
+  const missing = images.filter((file) => !existsSync(join(sourceDir, file)))
+  if (missing.length > 0) {
+    throw new Error(`Template images not found next to ${TEMPLATE_FILE}: ${missing.join(', ')}`)
+  }
+
+  const targetDir = join(getTemplatesRoot(), template.id)
+  await rm(targetDir, { recursive: true, force: true })
+  await mkdir(targetDir, { recursive: true })
+  await copyFile(filePath, join(targetDir, TEMPLATE_FILE))
+  for (const file of images) {
+    await copyFile(join(sourceDir, file), join(targetDir, file))
+  }
+
+  return toSummary(template, false)
+}
+
+export async function removeCertificateTemplate(id: string): Promise<void> {
+  if (BUILT_IN_TEMPLATES.some((template) => template.id === id)) {
+    throw new Error('Built-in templates cannot be removed')
+  }
+  if (!/^[a-z0-9-]+$/.test(id)) return
+  await rm(join(getTemplatesRoot(), id), { recursive: true, force: true })
+}
+
+async function readImage(filePath: string): Promise<TemplateImage> {
+  const format = extname(filePath).toLowerCase() === '.png' ? 'PNG' : 'JPEG'
+  const mimeType = format === 'PNG' ? 'image/png' : 'image/jpeg'
+  const data = await readFile(filePath)
+  return { data: `data:${mimeType};base64,${data.toString('base64')}`, format }
+}
+
+/**
+ * Load a template and its images for rendering, falling back to the classic
+ * layout when the template is missing or no longer valid
+ */
+export async function loadCertificateTemplate(id: string): Promise<LoadedCertificateTemplate> {
+  const images: Record<string, TemplateImage> = {
+    [DEFAULT_LOGO]: await readImage(defaultLogo)
+  }
+
+  const builtIn = BUILT_IN_TEMPLATES.find((template) => template.id === id)
+  if (builtIn || !/^[a-z0-9-]+$/.test(id)) {
+    return { template: builtIn || CLASSIC_TEMPLATE, images }
+  }
+
+  const templateDir = join(getTemplatesRoot(), id)
+  try {
+    const template = await readTemplateFile(join(templateDir, TEMPLATE_FILE))
+    for (const file of getTemplateImages(template)) {
+      images[file] = await readImage(join(templateDir, file))
+    }
+    return { template, images }
+  } catch (error) {
+    console.warn(
+      `Certificate template "${id}" could not be loaded, using the classic layout:`,
+      error
+    )
+    return { template: CLASSIC_TEMPLATE, images }
+  }
+}
@@ -0,0 +1,139 @@
+import { app } from 'electron'
+import { existsSync } from 'fs'
+import { mkdir, readdir, rm, stat } from 'fs/promises'
+import { join } from 'path'
+import { database } from '../database/database'
+import { sessions } from '../auth/sessions'
+import type { BackupInterval, BackupSummary } from '../types'
+
+// Automatic backups are written to userData/backups as lms-<timestamp>.db and
+// rotated so only the newest few are kept. A copy of the live database is also
+// saved there before every restore, in case the restored file is the wrong one;
+// those copies are rotated too, keeping the last few restores.
+
+const AUTOMATIC_PREFIX = 'lms-'
+const BEFORE_RESTORE_PREFIX = 'before-restore-'
+const BACKUP_EXTENSION = '.db'
+const BEFORE_RESTORE_TO_KEEP = 3
+
+// How often the schedule is checked; backups themselves follow the interval
+const SCHEDULE_CHECK_MS = 60 * 60 * 1000
+
+const INTERVAL_MS: Record<Exclude<BackupInterval, 'off'>, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+}
+
+let scheduleTimer: NodeJS.Timeout | null = null
+
+export function getBackupsDir(): string {
+  return join(app.getPath('userData'), 'backups')
+}
+
+// 2025-03-14T09:05:00.000Z -> 2025-03-14T09-05-00, sortable and safe in file names
+function timestamp(): string {
+  return new Date().toISOString().slice(0, 19).replace(/:/g, '-')
+}
+
+export function getDefaultBackupName(): string {
+  return `our-africa-backup-${timestamp()}${BACKUP_EXTENSION}`
+}
+
+async function listBackupFiles(prefix: string): Promise<BackupSummary[]> {
+  const dir = getBackupsDir()
+  if (!existsSync(dir)) return []
+
+  const backups: BackupSummary[] = []
+  for (const fileName of await readdir(dir)) {
+    if (!fileName.startsWith(prefix) || !fileName.endsWith(BACKUP_EXTENSION)) continue
+    const info = await stat(join(dir, fileName))
+    backups.push({ fileName, createdAt: info.mtime.toISOString(), size: info.size })
+  }
+  return backups.sort((a, b) => b.fileName.localeCompare(a.fileName))
+}
+
+/**
+ * Automatic backups, newest first
+ */
+export function listBackups(): Promise<BackupSummary[]> {
+  return listBackupFiles(AUTOMATIC_PREFIX)
+}
+
+/**
+ * The path of an automatic backup, or null when no backup has that name
+ */
+export async function resolveBackup(fileName: string): Promise<string | null> {
+  const backups = await listBackups()
+  return backups.some((backup) => backup.fileName === fileName)
+    ? join(getBackupsDir(), fileName)
+    : null
+}
+
+async function writeToBackupsDir(prefix: string): Promise<string> {
+  await mkdir(getBackupsDir(), { recursive: true })
+  const filePath = join(getBackupsDir(), `${prefix}${timestamp()}${BACKUP_EXTENSION}`)
+  await database.backupTo(filePath)
+  return filePath
+}
+
+async function rotateBackups(prefix: string, keep: number): Promise<void> {
+  const backups = await listBackupFiles(prefix)
+  for (const backup of backups.slice(keep)) {
+    await rm(join(getBackupsDir(), backup.fileName), { force: true })
+  }
+}
+
+export async function createAutomaticBackup(): Promise<string> {
+  const filePath = await writeToBackupsDir(AUTOMATIC_PREFIX)
+  const { backupsToKeep } = await database.getSettings()
+  await rotateBackups(AUTOMATIC_PREFIX, backupsToKeep)
+  return filePath
+}
+
+/**
+ * Replace the live database with a backup. The file is checked first, the
+ * current database is saved alongside the automatic backups, and every
+ * session is ended because the accounts it held may have changed.
+ */
+export async function restoreBackup(filePath: string): Promise<number> {
+  const schemaVersion = await database.inspectBackup(filePath)
+  const safetyCopy = await writeToBackupsDir(BEFORE_RESTORE_PREFIX)
+  await rotateBackups(BEFORE_RESTORE_PREFIX, BEFORE_RESTORE_TO_KEEP)
+
+  try {
+    await database.restoreFrom(filePath)
+  } catch (error) {
+    console.error('Restore failed, putting the previous database back:', error)
+    await database.restoreFrom(safetyCopy)
+    throw error
+  }
+
+  sessions.destroyAll()
+  return schemaVersion
+}
+
+async function runScheduledBackup(): Promise<void> {
+  try {
+    const { backupInterval } = await database.getSettings()
+    if (backupInterval === 'off') return
+
+    const [latest] = await listBackups()
+    const age = latest ? Date.now() - new Date(latest.createdAt).getTime() : Infinity
+    if (age >= INTERVAL_MS[backupInterval]) {
+      const filePath = await createAutomaticBackup()
+      console.log(`Automatic backup written to ${filePath}`)
+    }
+  } catch (error) {
+    console.error('Automatic backup failed:', error)
+  }
+}
+
+/**
+ * Take automatic backups on the configured interval, checking now and then
+ * hourly so a backup that fell due while the app was closed is taken at launch
+ */
+export function scheduleAutomaticBackups(): void {
+  if (scheduleTimer) clearInterval(scheduleTimer)
+  runScheduledBackup()
+  scheduleTimer = setInterval(runScheduledBackup, SCHEDULE_CHECK_MS)
+}
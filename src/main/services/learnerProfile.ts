@@ -0,0 +1,281 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto'
+import { readFile, stat, writeFile } from 'fs/promises'
+import { database } from '../database/database'
+import { getKeyFingerprint, getPublicKey, signData, verifyData } from './certificateSigning'
+import type { LearnerProfileData, LearnerProfileSummary, LearnerProfileTrust } from '../types'
+
+// A learner profile carries one learner's progress between installations that
+// share no network. The file is JSON laid out as:
+//   { format, version, key, profile, signature, classroomSignature? }
+// where `profile` is the base64url encoded LearnerProfileData and `signature`
+// is the exporting installation's Ed25519 signature over it. When the exporting
+// computer has a classroom key, `classroomSignature` is an HMAC of that key over
+// `profile`. A valid signature only shows the file is intact; a profile is
+// imported when it was exported here, by an installation an administrator
+// trusts, or by a computer with the same classroom key. The password hash never
+// leaves the machine; imported accounts get a new password.
+
+export const PROFILE_EXTENSION = 'oaprofile'
+
+const PROFILE_FORMAT = 'our-africa-learner-profile'
+const PROFILE_VERSION = 1
+const MAX_PROFILE_BYTES = 20 * 1024 * 1024
+
+interface ProfileFile {
+  format: string
+  version: number
+  key: string
+  profile: string
+  signature: string
+  classroomSignature?: string
+}
+
+export interface LearnerProfile {
+  data: LearnerProfileData
+  key: string // public key of the exporting installation
+  trust: LearnerProfileTrust | null
+}
+
+// Profiles read from files picked in the native dialog, by the ID handed to the
+// renderer, so only the profile that was shown can be imported
+const openedProfiles = new Map<string, LearnerProfile>()
+
+function signWithClassroomKey(profile: string, classroomKey: string): string {
+  return createHmac('sha256', classroomKey)
+    .update(`our-africa-profile\n${profile}`)
+    .digest('base64url')
+}
+
+export function getProfileFileName(username: string): string {
+  return `${username.replace(/[^a-zA-Z0-9]/g, '_')}.${PROFILE_EXTENSION}`
+}
+
+/**
+ * Write a learner's profile to a file. Returns the fingerprint of this
+ * installation's key for the importing computer to compare.
+ */
+export async function exportLearnerProfile(userId: number, filePath: string): Promise<string> {
+  const data = await database.getLearnerProfileData(userId)
+  if (!data) {
+    throw new Error('User not found')
+  }
+
+  const signingKey = await database.getSigningKey()
+  const classroomKey = await database.getLanSyncKey()
+  const profile = Buffer.from(JSON.stringify(data)).toString('base64url')
+  const file: ProfileFile = {
+    format: PROFILE_FORMAT,
+    version: PROFILE_VERSION,
+    key: getPublicKey(signingKey),
+    profile,
+    signature: signData(profile, signingKey),
+    ...(classroomKey && { classroomSignature: signWithClassroomKey(profile, classroomKey) })
+  }
+  await writeFile(filePath, JSON.stringify(file))
+  return getKeyFingerprint(file.key)
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isString = (value: unknown): value is string => typeof value === 'string'
+const isOptionalString = (value: unknown): value is string | null =>
+  value === null || typeof value === 'string'
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0
+
+const everyRecord = (value: unknown, check: (item: Record<string, unknown>) => boolean): boolean =>
+  Array.isArray(value) && value.every((item) => isRecord(item) && check(item))
+
+// Attempt answers are stored as the JSON text of a QuizAttemptAnswer array
+function isAttemptAnswers(value: unknown): boolean {
+  if (!isString(value)) return false
+  let answers: unknown
+  try {
+    answers = JSON.parse(value)
+  } catch {
+    return false
+  }
+  return everyRecord(
+    answers,
+    (answer) =>
+      isString(answer.questionId) &&
+      (answer.answer === null || typeof answer.answer === 'string' || isCount(answer.answer)) &&
+      typeof answer.correct === 'boolean'
+  )
+}
+
+function isProfileModule(value: Record<string, unknown>): boolean {
+  const { progress, certificate } = value
+  return (
+    isString(value.title) &&
+    isString(value.version) &&
+    (progress === null ||
+      (isRecord(progress) &&
+        isOptionalString(progress.startedAt) &&
+        isOptionalString(progress.completionDate) &&
+        isCount(progress.totalTimeSpent) &&
+        isOptionalString(progress.lastAccessed))) &&
+    everyRecord(
+      value.lessons,
+      (lesson) =>
+        isString(lesson.lessonId) &&
+        typeof lesson.completed === 'boolean' &&
+        isCount(lesson.timeSpent) &&
+        isOptionalString(lesson.completedAt)
+    ) &&
+    everyRecord(
+      value.quizzes,
+      (quiz) =>
+        isString(quiz.quizId) &&
+        isCount(quiz.score) &&
+        isCount(quiz.attempts) &&
+        isOptionalString(quiz.lastAttemptAt)
+    ) &&
+    everyRecord(
+      value.quizAttempts,
+      (attempt) =>
+        isString(attempt.quizId) &&
+        isCount(attempt.score) &&
+        typeof attempt.passed === 'boolean' &&
+        isAttemptAnswers(attempt.answers) &&
+        isCount(attempt.durationSeconds) &&
+        isString(attempt.startedAt) &&
+        isString(attempt.completedAt)
+    ) &&
+    (certificate === null ||
+      (isRecord(certificate) &&
+        isString(certificate.code) &&
+        isOptionalString(certificate.data) &&
+        isString(certificate.issuedAt))) &&
+    everyRecord(value.learningTime, (time) => isString(time.day) && isCount(time.seconds))
+  )
+}
+
+/**
+ * Check the shape of profile data from another installation before it is merged
+ */
+export function isLearnerProfileData(data: unknown): data is LearnerProfileData {
+  return (
+    isRecord(data) &&
+    isString(data.exportedAt) &&
+    isRecord(data.user) &&
+    isString(data.user.username) &&
+    isString(data.user.email) &&
+    isString(data.user.createdAt) &&
+    everyRecord(data.modules, isProfileModule)
+  )
+}
+
+function parseProfileData(profile: string): LearnerProfileData | null {
+  let data: unknown
+  try {
+    data = JSON.parse(Buffer.from(profile, 'base64url').toString('utf8'))
+  } catch {
+    return null
+  }
+  return isLearnerProfileData(data) ? data : null
+}
+
+async function getProfileTrust(
+  key: string,
+  profile: string,
+  classroomSignature: unknown
+): Promise<LearnerProfileTrust | null> {
+  if (key === getPublicKey(await database.getSigningKey())) return 'here'
+  if (await database.isTrustedInstallation(key)) return 'installation'
+
+  const classroomKey = await database.getLanSyncKey()
+  if (classroomKey && isString(classroomSignature)) {
+    const expected = Buffer.from(signWithClassroomKey(profile, classroomKey))
+    const actual = Buffer.from(classroomSignature)
+    if (expected.length === actual.length && timingSafeEqual(expected, actual)) return 'classroom'
+  }
+  return null
+}
+
+/**
+ * Read a profile file, check its signature and work out whether this
+ * installation trusts where it came from. Throws a message fit to show to the
+ * person importing it.
+ */
+async function readLearnerProfile(filePath: string): Promise<LearnerProfile> {
+  if ((await stat(filePath)).size > MAX_PROFILE_BYTES) {
+    throw new Error('This file is too large to be a learner profile')
+  }
+
+  let file: unknown
+  try {
+    file = JSON.parse(await readFile(filePath, 'utf-8'))
+  } catch {
+    throw new Error('This file is not a learner profile')
+  }
+  if (!isRecord(file) || file.format !== PROFILE_FORMAT) {
+    throw new Error('This file is not a learner profile')
+  }
+  if (file.version !== PROFILE_VERSION) {
+    throw new Error('This learner profile was made by a newer version of Our Africa')
+  }
+
+  const { key, profile, signature, classroomSignature } = file as unknown as ProfileFile
+  if (!isString(key) || !isString(profile) || !isString(signature)) {
+    throw new Error('This file is not a learner profile')
+  }
+  if (!verifyData(profile, signature, key)) {
+    throw new Error('The profile signature does not match. The file has been altered or damaged.')
+  }
+
+  const data = parseProfileData(profile)
+  if (!data) {
+    throw new Error('The learner profile could not be read')
+  }
+  return { data, key, trust: await getProfileTrust(key, profile, classroomSignature) }
+}
+
+/**
+ * What importing a profile would do on this installation
+ */
+export async function summarizeLearnerProfile({
+  data,
+  key,
+  trust
+}: LearnerProfile): Promise<LearnerProfileSummary> {
+  const installed = await database.getAllModules()
+
+  return {
+    username: data.user.username,
+    email: data.user.email,
+    exportedAt: data.exportedAt,
+    issuerFingerprint: getKeyFingerprint(key),
+    trust,
+    accountExists: (await database.getUserIdByUsername(data.user.username)) !== null,
+    modules: data.modules.map((module) => ({
+      title: module.title,
+      version: module.version,
+      installed: installed.some((m) => m.title === module.title && m.version === module.version),
+      lessonsCompleted: module.lessons.filter((lesson) => lesson.completed).length,
+      certificate: module.certificate !== null
+    }))
+  }
+}
+
+/**
+ * Read a profile the user picked and keep it for importing, returning what
+ * importing it would do
+ */
+export async function openLearnerProfile(filePath: string): Promise<LearnerProfileSummary> {
+  const profile = await readLearnerProfile(filePath)
+  const profileId = randomUUID()
+  openedProfiles.clear()
+  openedProfiles.set(profileId, profile)
+
+  return { ...(await summarizeLearnerProfile(profile)), profileId }
+}
+
+export function getOpenedProfile(profileId: string): LearnerProfile | null {
+  return openedProfiles.get(profileId) ?? null
+}
+
+export function closeOpenedProfile(profileId: string): void {
+  openedProfiles.delete(profileId)
+}
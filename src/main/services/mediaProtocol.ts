@@ -0,0 +1,31 @@
+import { net, protocol } from 'electron'
+import { pathToFileURL } from 'url'
+import { resolveMediaPath } from './modulePackage'
+
+// Bundled module media is served to the renderer as oa-media://<mediaKey>/<path>
+export const MEDIA_PROTOCOL = 'oa-media'
+
+/**
+ * Must be called before the app is ready
+ */
+export function registerMediaScheme(): void {
+  protocol.registerSchemesAsPrivileged([
+    {
+      scheme: MEDIA_PROTOCOL,
+      privileges: { standard: true, secure: true, supportFetchAPI: true, stream: true }
+    }
+  ])
+}
+
+export function handleMediaProtocol(): void {
+  protocol.handle(MEDIA_PROTOCOL, (request) => {
+    const url = new URL(request.url)
+    const filePath = resolveMediaPath(url.hostname, decodeURIComponent(url.pathname.slice(1)))
+
+    if (!filePath) {
+      return new Response('Not found', { status: 404 })
+    }
+
+    return net.fetch(pathToFileURL(filePath).toString(), { headers: request.headers })
+  })
+}
@@ -0,0 +1,266 @@
+import { readFile, stat } from 'fs/promises'
+import { basename, extname } from 'path'
+import { randomUUID } from 'crypto'
+import { database } from '../database/database'
+import { ModuleValidator, RawModuleData } from '../../shared/moduleSchema'
+import { compareVersions, diffModuleContent } from '../../shared/moduleVersion'
+import {
+  MAX_PACKAGE_SIZE,
+  MODULE_PACKAGE_EXTENSION,
+  ModulePackage,
+  installPackageMedia,
+  readModulePackage,
+  removePackageMedia
+} from './modulePackage'
+import type {
+  ApiResponse,
+  Module,
+  ModuleImportFileReport,
+  ModuleImportReport,
+  ModulePackagePreview
+} from '../types'
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
+
+// Packages picked in the native dialog, by the ID handed to the renderer. The
+// renderer never sends a path, so it can only install a file the user chose.
+const openedPackages = new Map<string, string>()
+
+// Files that would upgrade an installed module, by the pendingId in their report
+const pendingUpgrades = new Map<string, string>()
+
+export interface ModuleImportOptions {
+  // Replace installed modules with newer versions straight away. Otherwise the
+  // report lists what would change and the upgrade waits for confirmModuleUpgrade.
+  allowUpgrade?: boolean
+}
+
+/**
+ * Import one or more module files (.json or .oamod packages) from disk. Every file is validated and
+ * sanitized here in the main process so nothing the renderer sends is trusted.
+ */
+export async function importModuleFiles(
+  filePaths: string[],
+  options: ModuleImportOptions = {}
+): Promise<ModuleImportReport> {
+  const files: ModuleImportFileReport[] = []
+
+  for (const filePath of filePaths) {
+    files.push(await importModuleFile(filePath, options))
+  }
+
+  return {
+    canceled: false,
+    files,
+    importedIds: files
+      .filter((file) => file.success && file.moduleId !== undefined)
+      .map((file) => file.moduleId as number)
+  }
+}
+
+async function importModuleFile(
+  filePath: string,
+  options: ModuleImportOptions
+): Promise<ModuleImportFileReport> {
+  const report: ModuleImportFileReport = {
+    filePath,
+    fileName: basename(filePath),
+    success: false,
+    errors: [],
+    warnings: []
+  }
+
+  try {
+    const isPackage = extname(filePath).toLowerCase() === MODULE_PACKAGE_EXTENSION
+    const maxSize = isPackage ? MAX_PACKAGE_SIZE : MAX_FILE_SIZE
+
+    const fileStats = await stat(filePath)
+    if (fileStats.size === 0) {
+      report.errors.push('File is empty.')
+      return report
+    }
+    if (fileStats.size > maxSize) {
+      report.errors.push(`File too large. Maximum size is ${maxSize / 1024 / 1024}MB.`)
+      return report
+    }
+
+    let moduleData: RawModuleData
+    let modulePackage: ModulePackage | null = null
+    if (isPackage) {
+      modulePackage = await readModulePackage(filePath)
+      moduleData = modulePackage.moduleData
+    } else {
+      try {
+        moduleData = JSON.parse(await readFile(filePath, 'utf-8'))
+      } catch {
+        report.errors.push('Invalid JSON format. Please check your file.')
+        return report
+      }
+    }
+
+    const validationResult = ModuleValidator.validate(moduleData, {
+      mediaFiles: modulePackage?.mediaFiles
+    })
+    report.errors.push(...validationResult.errors)
+    report.warnings.push(...validationResult.warnings)
+
+    if (!validationResult.isValid) {
+      return report
+    }
+
+    const sanitized = ModuleValidator.sanitizeModule(moduleData)
+    const existing = await database.getModuleByTitle(sanitized.title)
+    if (existing && compareVersions(sanitized.version, existing.version) <= 0) {
+      report.errors.push(
+        `"${existing.title}" version ${existing.version} is already installed. Only newer versions can be imported.`
+      )
+      return report
+    }
+
+    if (existing && !options.allowUpgrade) {
+      const pendingId = randomUUID()
+      pendingUpgrades.set(pendingId, filePath)
+      report.pendingUpgrade = {
+        pendingId,
+        moduleId: existing.id,
+        moduleTitle: existing.title,
+        fromVersion: existing.version,
+        toVersion: sanitized.version,
+        diff: diffModuleContent(existing.content, sanitized.content)
+      }
+      return report
+    }
+
+    const result = await saveModule(sanitized, modulePackage, existing?.id)
+    if (!result.success || !result.data) {
+      report.errors.push(result.error || 'Failed to save module')
+      return report
+    }
+
+    report.success = true
+    report.moduleId = result.data.id
+    report.moduleTitle = result.data.title
+    if (existing) {
+      report.upgradedFromVersion = existing.version
+    }
+    return report
+  } catch (error) {
+    report.errors.push(error instanceof Error ? error.message : 'Failed to read file.')
+    return report
+  }
+}
+
+/**
+ * Store a validated module, upgrading the given module in place when set.
+ * Package media is extracted first and relative media paths are pointed at it.
+ */
+export async function saveModule(
+  module: Module,
+  modulePackage: ModulePackage | null,
+  upgradeModuleId?: number
+): Promise<ApiResponse<Module>> {
+  const persist = async (data: Module): Promise<ApiResponse<Module>> => {
+    if (upgradeModuleId === undefined) {
+      return database.createModule(data)
+    }
+    const result = await database.upgradeModule(upgradeModuleId, data)
+    if (result.success && result.data?.previousMediaKey) {
+      await removePackageMedia(result.data.previousMediaKey)
+    }
+    return result.success && result.data
+      ? { success: true, data: result.data.module }
+      : { success: false, error: result.error }
+  }
+
+  if (!modulePackage) {
+    return persist(module)
+  }
+
+  const mediaKey = randomUUID()
+  try {
+    await installPackageMedia(modulePackage, mediaKey)
+    const result = await persist({
+      ...ModuleValidator.rewriteMediaSources(module, mediaKey),
+      media_key: mediaKey
+    })
+    if (!result.success) {
+      await removePackageMedia(mediaKey)
+    }
+    return result
+  } catch (error) {
+    await removePackageMedia(mediaKey)
+    throw error
+  }
+}
+
+/**
+ * Read a package picked in the native dialog for preview without installing it
+ */
+export async function inspectModulePackage(
+  filePath: string
+): Promise<ApiResponse<ModulePackagePreview>> {
+  if (extname(filePath).toLowerCase() !== MODULE_PACKAGE_EXTENSION) {
+    return { success: false, error: `Module packages must be ${MODULE_PACKAGE_EXTENSION} files.` }
+  }
+
+  try {
+    const { moduleData, mediaFiles } = await readModulePackage(filePath)
+
+    // Only the package being previewed can be installed
+    const packageId = randomUUID()
+    openedPackages.clear()
+    openedPackages.set(packageId, filePath)
+
+    return { success: true, data: { canceled: false, packageId, moduleData, mediaFiles } }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read module package.'
+    }
+  }
+}
+
+/**
+ * Install a package previously previewed with inspectModulePackage
+ */
+export async function importOpenedPackage(
+  packageId: string
+): Promise<ApiResponse<ModuleImportReport>> {
+  const filePath = openedPackages.get(packageId)
+  if (!filePath) {
+    return { success: false, error: 'Open the module package again to install it.' }
+  }
+
+  openedPackages.delete(packageId)
+  // The preview showed what an upgrade changes before the user confirmed it
+  return { success: true, data: await importModuleFiles([filePath], { allowUpgrade: true }) }
+}
+
+/**
+ * Upgrade an installed module from a file whose import report asked for confirmation
+ */
+export async function confirmModuleUpgrade(
+  pendingId: string
+): Promise<ApiResponse<ModuleImportReport>> {
+  const filePath = pendingUpgrades.get(pendingId)
+  if (!filePath) {
+    return { success: false, error: 'Import the module file again to upgrade it.' }
+  }
+
+  pendingUpgrades.delete(pendingId)
+  return { success: true, data: await importModuleFiles([filePath], { allowUpgrade: true }) }
+}
+
+/**
+ * Validate module data submitted by the renderer before it is stored
+ */
+export function validateModuleData(moduleData: RawModuleData): ApiResponse<Module> {
+  const validationResult = ModuleValidator.validate(moduleData)
+  if (!validationResult.isValid) {
+    return {
+      success: false,
+      error: `Module validation failed: ${validationResult.errors.join('; ')}`
+    }
+  }
+  return { success: true, data: ModuleValidator.sanitizeModule(moduleData) }
+}
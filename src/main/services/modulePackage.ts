@@ -0,0 +1,279 @@
+import AdmZip from 'adm-zip'
+import { app } from 'electron'
+import { createHash } from 'crypto'
+import { existsSync } from 'fs'
+import { mkdir, readdir, readFile, rm, writeFile } from 'fs/promises'
+import { dirname, join, resolve, sep } from 'path'
+import { ModuleValidator } from '../../shared/moduleSchema'
+import type { RawModuleData } from '../../shared/moduleSchema'
+import type { Module } from '../types'
+
+// Self-contained module packages (.oamod) are zip files laid out as:
+//   module.json    - the module definition, media referenced by relative path
+//   manifest.json  - SHA-256 checksum and size of every other file
+//   media/...      - images, videos and other bundled assets
+
+export const MODULE_PACKAGE_EXTENSION = '.oamod'
+export const MAX_PACKAGE_SIZE = 500 * 1024 * 1024 // 500MB
+
+// Limits on the unpacked contents, checked against the sizes the zip declares
+// before anything is decompressed
+const MAX_MANIFEST_SIZE = 1024 * 1024 // 1MB
+const MAX_PACKAGE_FILE_SIZE = 500 * 1024 * 1024 // 500MB
+const MAX_UNPACKED_SIZE = 1024 * 1024 * 1024 // 1GB
+const HASH_CHUNK_SIZE = 1024 * 1024
+
+const MODULE_FILE = 'module.json'
+const MANIFEST_FILE = 'manifest.json'
+const MEDIA_DIR = 'media/'
+
+export interface ModulePackageManifestEntry {
+  path: string
+  sha256: string
+  size: number
+}
+
+export interface ModulePackageManifest {
+  format: 'oamod'
+  formatVersion: number
+  files: ModulePackageManifestEntry[]
+}
+
+export interface ModulePackage {
+  moduleData: RawModuleData
+  manifest: ModulePackageManifest
+  mediaFiles: string[]
+  zip: AdmZip
+}
+
+function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+/**
+ * SHA-256 of a large buffer, a chunk at a time so other work can run in between
+ */
+async function sha256InChunks(data: Buffer): Promise<string> {
+  const hash = createHash('sha256')
+  for (let offset = 0; offset < data.length; offset += HASH_CHUNK_SIZE) {
+    hash.update(data.subarray(offset, offset + HASH_CHUNK_SIZE))
+    await new Promise((resolve) => setImmediate(resolve))
+  }
+  return hash.digest('hex')
+}
+
+/**
+ * Decompress an entry off the main thread. adm-zip stops at the size the entry
+ * declares, so callers check that size first.
+ */
+function readEntry(entry: AdmZip.IZipEntry): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    entry.getDataAsync((data, error) => {
+      if (error) reject(new Error(`Could not read "${entry.entryName}" from the package.`))
+      else resolve(data)
+    })
+  })
+}
+
+function isManifestEntry(value: unknown): value is ModulePackageManifestEntry {
+  if (!value || typeof value !== 'object') return false
+  const file = value as Record<string, unknown>
+  return (
+    typeof file.path === 'string' &&
+    typeof file.sha256 === 'string' &&
+    Number.isSafeInteger(file.size) &&
+    (file.size as number) >= 0
+  )
+}
+
+/**
+ * Open a .oamod package and verify it against its manifest. Throws when the
+ * package is malformed or any file does not match its recorded checksum.
+ */
+export async function readModulePackage(filePath: string): Promise<ModulePackage> {
+  let zip: AdmZip
+  try {
+    zip = new AdmZip(filePath)
+  } catch {
+    throw new Error('File is not a valid module package.')
+  }
+
+  const manifestEntry = zip.getEntry(MANIFEST_FILE)
+  const moduleEntry = zip.getEntry(MODULE_FILE)
+  if (!manifestEntry || !moduleEntry) {
+    throw new Error(`Package must contain ${MODULE_FILE} and ${MANIFEST_FILE}.`)
+  }
+
+  if (manifestEntry.header.size > MAX_MANIFEST_SIZE) {
+    throw new Error(`Package ${MANIFEST_FILE} is too large.`)
+  }
+
+  let manifest: ModulePackageManifest
+  try {
+    manifest = JSON.parse((await readEntry(manifestEntry)).toString('utf-8'))
+  } catch {
+    throw new Error(`Package ${MANIFEST_FILE} is not valid JSON.`)
+  }
+
+  if (
+    manifest.format !== 'oamod' ||
+    !Array.isArray(manifest.files) ||
+    !manifest.files.every(isManifestEntry)
+  ) {
+    throw new Error(`Package ${MANIFEST_FILE} is not a module package manifest.`)
+  }
+
+  const listedPaths = new Set(manifest.files.map((file) => file.path))
+  if (!listedPaths.has(MODULE_FILE)) {
+    throw new Error(`Package manifest does not list ${MODULE_FILE}.`)
+  }
+
+  const unlisted = zip
+    .getEntries()
+    .filter((entry) => !entry.isDirectory && entry.entryName !== MANIFEST_FILE)
+    .find((entry) => !listedPaths.has(entry.entryName))
+  if (unlisted) {
+    throw new Error(`Package contains "${unlisted.entryName}" which is not in its manifest.`)
+  }
+
+  const unpackedSize = manifest.files.reduce((total, file) => total + file.size, 0)
+  if (unpackedSize > MAX_UNPACKED_SIZE) {
+    throw new Error(
+      `Package contents are too large. Maximum unpacked size is ${MAX_UNPACKED_SIZE / 1024 / 1024}MB.`
+    )
+  }
+
+  const entries = manifest.files.map((file) => {
+    const entry = zip.getEntry(file.path)
+    if (!entry || entry.isDirectory) {
+      throw new Error(`Package is missing "${file.path}" listed in its manifest.`)
+    }
+    if (file.size > MAX_PACKAGE_FILE_SIZE) {
+      throw new Error(
+        `"${file.path}" is too large. Maximum file size is ${MAX_PACKAGE_FILE_SIZE / 1024 / 1024}MB.`
+      )
+    }
+    if (entry.header.size !== file.size) {
+      throw new Error(`Size mismatch for "${file.path}". The package may be corrupted.`)
+    }
+    return entry
+  })
+
+  for (const [index, file] of manifest.files.entries()) {
+    const data = await readEntry(entries[index])
+    if (data.length !== file.size || (await sha256InChunks(data)) !== file.sha256) {
+      throw new Error(`Checksum mismatch for "${file.path}". The package may be corrupted.`)
+    }
+  }
+
+  let moduleData: RawModuleData
+  try {
+    moduleData = JSON.parse((await readEntry(moduleEntry)).toString('utf-8'))
+  } catch {
+    throw new Error(`Package ${MODULE_FILE} is not valid JSON.`)
+  }
+
+  return {
+    moduleData,
+    manifest,
+    mediaFiles: manifest.files
+      .map((file) => file.path)
+      .filter((path) => path.startsWith(MEDIA_DIR)),
+    zip
+  }
+}
+
+/**
+ * Package an installed module as a .oamod again, reading its media back from
+ * userData/media/<mediaKey>, so it can be handed to another computer
+ */
+export async function writeModulePackage(module: Module): Promise<Buffer> {
+  const definition = module.media_key
+    ? ModuleValidator.restoreMediaSources(module, module.media_key)
+    : module
+  const files = new Map<string, Buffer>()
+  files.set(
+    MODULE_FILE,
+    Buffer.from(
+      JSON.stringify(
+        {
+          title: definition.title,
+          description: definition.description,
+          version: definition.version,
+          author: definition.author,
+          difficulty_level: definition.difficulty_level,
+          tags: definition.tags,
+          estimated_duration: definition.estimated_duration,
+          content: definition.content
+        },
+        null,
+        2
+      )
+    )
+  )
+
+  const mediaDir = module.media_key ? resolve(getMediaRoot(), module.media_key) : null
+  if (mediaDir && existsSync(mediaDir)) {
+    const entries = await readdir(mediaDir, { recursive: true, withFileTypes: true })
+    for (const entry of entries) {
+      if (!entry.isFile()) continue
+      const filePath = join(entry.parentPath, entry.name)
+      files.set(
+        filePath
+          .slice(mediaDir.length + 1)
+          .split(sep)
+          .join('/'),
+        await readFile(filePath)
+      )
+    }
+  }
+
+  const manifest: ModulePackageManifest = {
+    format: 'oamod',
+    formatVersion: 1,
+    files: [...files].map(([path, data]) => ({ path, sha256: sha256(data), size: data.length }))
+  }
+
+  const zip = new AdmZip()
+  for (const [path, data] of files) {
+    zip.addFile(path, data)
+  }
+  zip.addFile(MANIFEST_FILE, Buffer.from(JSON.stringify(manifest, null, 2)))
+  return zip.toBuffer()
+}
+
+export function getMediaRoot(): string {
+  return join(app.getPath('userData'), 'media')
+}
+
+/**
+ * Resolve a path inside a module's media folder, refusing anything that would
+ * escape it (e.g. "../" segments)
+ */
+export function resolveMediaPath(mediaKey: string, relativePath: string): string | null {
+  if (!/^[a-zA-Z0-9-]+$/.test(mediaKey)) return null
+
+  const baseDir = resolve(getMediaRoot(), mediaKey)
+  const target = resolve(baseDir, relativePath)
+  return target.startsWith(baseDir + sep) ? target : null
+}
+
+/**
+ * Extract the package's media files into userData/media/<mediaKey>
+ */
+export async function installPackageMedia(pkg: ModulePackage, mediaKey: string): Promise<void> {
+  for (const mediaPath of pkg.mediaFiles) {
+    const target = resolveMediaPath(mediaKey, mediaPath)
+    const entry = pkg.zip.getEntry(mediaPath)
+    if (!target || !entry) {
+      throw new Error(`Invalid media path "${mediaPath}" in package.`)
+    }
+    await mkdir(dirname(target), { recursive: true })
+    await writeFile(target, await readEntry(entry))
+  }
+}
+
+export async function removePackageMedia(mediaKey: string): Promise<void> {
+  if (!/^[a-zA-Z0-9-]+$/.test(mediaKey)) return
+  await rm(join(getMediaRoot(), mediaKey), { recursive: true, force: true })
+}
@@ -0,0 +1,127 @@
+import { createSocket, Socket } from 'dgram'
+import type { LanSyncRole, PeerSummary } from '../types'
+
+// Our Africa computers find each other by sending a small JSON announcement to
+// a UDP multicast group every few seconds. Multicast is looped back to the
+// sending computer, so two instances on one machine also see each other.
+
+const DISCOVERY_GROUP = '239.255.79.65'
+const DISCOVERY_PORT = 41479
+const ANNOUNCE_INTERVAL_MS = 5 * 1000
+const PEER_TIMEOUT_MS = 3 * ANNOUNCE_INTERVAL_MS
+const ANNOUNCEMENT_APP = 'our-africa'
+
+export interface Announcement {
+  instanceId: string
+  name: string
+  role: Exclude<LanSyncRole, 'off'>
+  port: number // the peer sync HTTP server
+  keyId: string // identifies the classroom key without revealing it
+}
+
+export interface DiscoveredPeer extends PeerSummary {
+  port: number
+}
+
+let socket: Socket | null = null
+let announceTimer: NodeJS.Timeout | null = null
+const peers = new Map<string, DiscoveredPeer>()
+
+function parseAnnouncement(message: Buffer): Announcement | null {
+  try {
+    const data = JSON.parse(message.toString('utf-8'))
+    const valid =
+      data.app === ANNOUNCEMENT_APP &&
+      typeof data.instanceId === 'string' &&
+      typeof data.name === 'string' &&
+      (data.role === 'learner' || data.role === 'teacher') &&
+      Number.isInteger(data.port) &&
+      typeof data.keyId === 'string'
+    return valid ? data : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Announce this computer and listen for others using the same classroom key.
+ * Calling it again replaces the previous announcement.
+ */
+export function startDiscovery(announcement: Announcement): Promise<void> {
+  stopDiscovery()
+
+  const discovery = createSocket({ type: 'udp4', reuseAddr: true })
+  socket = discovery
+  const message = Buffer.from(JSON.stringify({ app: ANNOUNCEMENT_APP, ...announcement }))
+  const announce = (): void => {
+    discovery.send(message, DISCOVERY_PORT, DISCOVERY_GROUP, (error) => {
+      if (error) console.warn('Failed to announce on the local network:', error.message)
+    })
+  }
+
+  discovery.on('message', (data, remote) => {
+    const peer = parseAnnouncement(data)
+    if (!peer || peer.instanceId === announcement.instanceId) return
+    if (peer.keyId !== announcement.keyId) return
+
+    // Answer newcomers straight away rather than at the next announcement
+    if (!peers.has(peer.instanceId)) announce()
+    peers.set(peer.instanceId, {
+      instanceId: peer.instanceId,
+      name: peer.name,
+      role: peer.role,
+      address: remote.address,
+      port: peer.port,
+      lastSeen: new Date().toISOString()
+    })
+  })
+
+  return new Promise((resolve, reject) => {
+    discovery.on('error', (error) => {
+      console.warn('Local network discovery stopped:', error.message)
+      if (socket === discovery) stopDiscovery()
+      reject(error)
+    })
+    discovery.bind(DISCOVERY_PORT, () => {
+      try {
+        // Fails when no network interface can carry multicast
+        discovery.addMembership(DISCOVERY_GROUP)
+        discovery.setMulticastLoopback(true)
+      } catch (error) {
+        stopDiscovery()
+        reject(error)
+        return
+      }
+      announce()
+      announceTimer = setInterval(announce, ANNOUNCE_INTERVAL_MS)
+      resolve()
+    })
+  })
+}
+
+export function stopDiscovery(): void {
+  if (announceTimer) clearInterval(announceTimer)
+  announceTimer = null
+  try {
+    socket?.close()
+  } catch {
+    // Already closed after an error
+  }
+  socket = null
+  peers.clear()
+}
+
+/**
+ * Peers heard from recently, by name
+ */
+export function getPeers(): DiscoveredPeer[] {
+  const cutoff = Date.now() - PEER_TIMEOUT_MS
+  for (const [instanceId, peer] of peers) {
+    if (new Date(peer.lastSeen).getTime() < cutoff) peers.delete(instanceId)
+  }
+  return [...peers.values()].sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export function getPeer(instanceId: string): DiscoveredPeer | null {
+  return getPeers().find((peer) => peer.instanceId === instanceId) || null
+}
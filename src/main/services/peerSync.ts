@@ -0,0 +1,571 @@
+import { app } from 'electron'
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http'
+import type { AddressInfo } from 'net'
+import { hostname } from 'os'
+import { join } from 'path'
+import { database } from '../database/database'
+import { importModuleFiles } from './moduleImporter'
+import { MAX_PACKAGE_SIZE, MODULE_PACKAGE_EXTENSION, writeModulePackage } from './modulePackage'
+import { isLearnerProfileData } from './learnerProfile'
+import { getPublicKey, signData, verifyData } from './certificateSigning'
+import { getPeer, getPeers, startDiscovery, stopDiscovery } from './peerDiscovery'
+import type { DiscoveredPeer } from './peerDiscovery'
+import type {
+  LanSyncStatus,
+  LearnerProfileData,
+  ModuleImportFileReport,
+  PeerModule,
+  ProgressSyncRecord
+} from '../types'
+
+// Computers in a classroom share a classroom key. Each one runs a small HTTP
+// server that offers its modules and, on the teacher computer, accepts
+// progress from learner computers. Every request carries an HMAC of the key
+// over its method, path, time, a random nonce and body, and every reply an
+// HMAC over the request signature and reply body. A request is accepted once,
+// and only while its time is close to this computer's clock. The key proves
+// who is talking; it does not hide the traffic from others on the network.
+// Progress goes only to learner accounts, and certificates from a learner
+// computer no administrator trusts wait for review like an imported profile.
+
+const API_PREFIX = '/our-africa/v1'
+const HEADER_INSTANCE = 'x-our-africa-instance'
+const HEADER_TIME = 'x-our-africa-time'
+const HEADER_NONCE = 'x-our-africa-nonce'
+const HEADER_SIGNATURE = 'x-our-africa-signature'
+const MODULE_PACKAGE_PATH = new RegExp(`^${API_PREFIX}/modules/(\\d+)/package$`)
+
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000
+const MAX_PROGRESS_BYTES = 50 * 1024 * 1024
+const REQUEST_TIMEOUT_MS = 30 * 1000
+const DOWNLOAD_TIMEOUT_MS = 10 * 60 * 1000
+const PROGRESS_SYNC_INTERVAL_MS = 5 * 60 * 1000
+
+// What a learner computer sends to the teacher computer: `learners` is the
+// base64url encoded LearnerProfileData of each learner, signed with the
+// learner computer's installation key like a learner profile file
+interface ProgressUpload {
+  name: string
+  key: string
+  learners: string
+  signature: string
+}
+
+interface PeerReply {
+  status: number
+  body: Buffer
+  contentType: string
+}
+
+let server: Server | null = null
+let syncTimer: NodeJS.Timeout | null = null
+let startError: string | null = null
+// The latest progress sync with each peer, by instance id
+const progressSyncs = new Map<string, ProgressSyncRecord>()
+// Nonces of accepted requests, with when each request's time leaves the clock
+// skew window; after that the time check alone turns a replay away
+const seenNonces = new Map<string, number>()
+
+const digest = (data: Buffer): string => createHash('sha256').update(data).digest('hex')
+
+function sign(key: string, ...parts: string[]): string {
+  return createHmac('sha256', key).update(parts.join('\n')).digest('base64url')
+}
+
+function signaturesMatch(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected)
+  const b = Buffer.from(actual)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+function isReplay(nonce: string, time: number): boolean {
+  const now = Date.now()
+  for (const [seen, expiresAt] of seenNonces) {
+    if (expiresAt < now) seenNonces.delete(seen)
+  }
+
+  if (!nonce || seenNonces.has(nonce)) return true
+  seenNonces.set(nonce, time + MAX_CLOCK_SKEW_MS)
+  return false
+}
+
+// Lets computers ignore announcements from other classrooms without revealing the key
+function getKeyId(key: string): string {
+  return digest(Buffer.from(`our-africa-classroom:${key}`)).slice(0, 16)
+}
+
+const json = (status: number, data: unknown): PeerReply => ({
+  status,
+  body: Buffer.from(JSON.stringify(data)),
+  contentType: 'application/json'
+})
+
+function readError(body: Buffer): string | null {
+  try {
+    const { error } = JSON.parse(body.toString('utf-8'))
+    return typeof error === 'string' ? error : null
+  } catch {
+    return null
+  }
+}
+
+function readBody(request: IncomingMessage, limit: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length
+      if (size > limit) {
+        request.destroy()
+        resolve(null)
+      } else {
+        chunks.push(chunk)
+      }
+    })
+    request.on('end', () => resolve(Buffer.concat(chunks)))
+    request.on('error', reject)
+  })
+}
+
+// Server side
+
+async function listLocalModules(): Promise<Omit<PeerModule, 'installedVersion'>[]> {
+  const modules = await database.getAllModules()
+  return modules.map((module) => ({
+    id: module.id,
+    title: module.title,
+    description: module.description,
+    version: module.version,
+    lessonCount: module.content.lessons.length,
+    quizCount: module.content.quizzes.length
+  }))
+}
+
+/**
+ * Whether a synced profile carries a certificate for an installed module the
+ * learner holds no certificate for yet
+ */
+async function hasNewCertificates(userId: number, profile: LearnerProfileData): Promise<boolean> {
+  const installed = await database.getAllModules()
+  const held = new Set(
+    (await database.getUserCertificates(userId)).map((certificate) => certificate.module_id)
+  )
+  return profile.modules.some((entry) => {
+    const module = installed.find((m) => m.title === entry.title && m.version === entry.version)
+    return entry.certificate !== null && module !== undefined && !held.has(module.id)
+  })
+}
+
+async function receiveProgress(instanceId: string, body: Buffer): Promise<PeerReply> {
+  let upload: ProgressUpload
+  try {
+    upload = JSON.parse(body.toString('utf-8'))
+  } catch {
+    return json(400, { error: 'Progress upload is not valid JSON' })
+  }
+  if (
+    typeof upload?.name !== 'string' ||
+    typeof upload.key !== 'string' ||
+    typeof upload.learners !== 'string' ||
+    typeof upload.signature !== 'string'
+  ) {
+    return json(400, { error: 'Progress upload is malformed' })
+  }
+  if (!verifyData(upload.learners, upload.signature, upload.key)) {
+    return json(400, { error: 'Progress upload signature does not match' })
+  }
+
+  let learners: unknown
+  try {
+    learners = JSON.parse(Buffer.from(upload.learners, 'base64url').toString('utf-8'))
+  } catch {
+    return json(400, { error: 'Progress upload is malformed' })
+  }
+  if (!Array.isArray(learners) || !learners.every(isLearnerProfileData)) {
+    return json(400, { error: 'Progress upload is malformed' })
+  }
+
+  const trusted =
+    upload.key === getPublicKey(await database.getSigningKey()) ||
+    (await database.isTrustedInstallation(upload.key))
+  const record: ProgressSyncRecord = {
+    peerName: upload.name,
+    at: new Date().toISOString(),
+    learners: 0,
+    modulesMerged: 0,
+    accountsCreated: 0,
+    awaitingReview: 0
+  }
+
+  for (const profile of learners) {
+    const { username, email } = profile.user
+    let userId = await database.getUserIdByUsername(username)
+    if (userId === null) {
+      // Passwords never leave a computer; an administrator sets one here
+      // before the learner signs in on the teacher computer
+      const created = await database.createUser({
+        username,
+        email,
+        password_hash: randomBytes(24).toString('base64url'),
+        role: 'student'
+      })
+      if (!created.success || !created.data) {
+        console.warn(`Skipped synced progress for ${username}:`, created.error)
+        continue
+      }
+      userId = created.data.id
+      record.accountsCreated++
+    } else if ((await database.getUserById(userId))?.role !== 'student') {
+      console.warn(`Skipped synced progress for ${username}: not a learner account here`)
+      continue
+    }
+
+    let merged: { modulesMerged: number }
+    if (trusted) {
+      merged = await database.mergeLearnerProfile(userId, profile)
+    } else {
+      merged = await database.mergeLearnerProfile(userId, {
+        ...profile,
+        modules: profile.modules.map((entry) => ({ ...entry, certificate: null }))
+      })
+      if (await hasNewCertificates(userId, profile)) {
+        await database.submitProfileReview(userId, upload.key, 'classroom', profile)
+        record.awaitingReview++
+      }
+    }
+    record.learners++
+    record.modulesMerged += merged.modulesMerged
+  }
+
+  progressSyncs.set(instanceId, record)
+  return json(200, record)
+}
+
+async function routeRequest(
+  method: string,
+  pathname: string,
+  instanceId: string,
+  body: Buffer
+): Promise<PeerReply> {
+  if (method === 'GET' && pathname === `${API_PREFIX}/modules`) {
+    return json(200, await listLocalModules())
+  }
+
+  const packageMatch = pathname.match(MODULE_PACKAGE_PATH)
+  if (method === 'GET' && packageMatch) {
+    const module = await database.getModuleById(Number(packageMatch[1]))
+    if (!module) {
+      return json(404, { error: 'That module is no longer installed' })
+    }
+    return { status: 200, body: await writeModulePackage(module), contentType: 'application/zip' }
+  }
+
+  if (method === 'POST' && pathname === `${API_PREFIX}/progress`) {
+    const { lanSyncRole } = await database.getSettings()
+    if (lanSyncRole !== 'teacher') {
+      return json(403, { error: 'This computer is not the teacher computer' })
+    }
+    return receiveProgress(instanceId, body)
+  }
+
+  return json(404, { error: 'Not found' })
+}
+
+async function handleRequest(request: IncomingMessage, response: ServerResponse): Promise<void> {
+  const method = request.method || 'GET'
+  const path = request.url || '/'
+  const signature = String(request.headers[HEADER_SIGNATURE] || '')
+  const instanceId = String(request.headers[HEADER_INSTANCE] || '')
+  const time = String(request.headers[HEADER_TIME] || '')
+  const nonce = String(request.headers[HEADER_NONCE] || '')
+
+  let reply: PeerReply
+  // Only replies to requests signed with the classroom key are signed
+  let replyKey: string | null = null
+  try {
+    const body = await readBody(request, MAX_PROGRESS_BYTES)
+    const key = await database.getLanSyncKey()
+
+    if (!body) {
+      reply = json(413, { error: 'Upload too large' })
+    } else if (!key) {
+      reply = json(503, { error: 'Classroom sync is turned off on this computer' })
+    } else if (
+      !signaturesMatch(
+        sign(key, 'request', method, path, time, nonce, instanceId, digest(body)),
+        signature
+      )
+    ) {
+      reply = json(401, { error: 'The two computers have different classroom keys' })
+    } else {
+      replyKey = key
+      const skew = Math.abs(Date.now() - Number(time))
+      if (!Number.isFinite(skew) || skew > MAX_CLOCK_SKEW_MS) {
+        reply = json(401, { error: 'The clocks on the two computers are too far apart' })
+      } else if (isReplay(nonce, Number(time))) {
+        reply = json(401, { error: 'This request was already received' })
+      } else {
+        reply = await routeRequest(method, path.split('?')[0], instanceId, body)
+      }
+    }
+  } catch (error) {
+    console.error('Peer sync request failed:', error)
+    reply = json(500, { error: error instanceof Error ? error.message : 'Request failed' })
+  }
+
+  if (response.destroyed) return
+  response.writeHead(reply.status, {
+    'Content-Type': reply.contentType,
+    'Content-Length': reply.body.length,
+    ...(replyKey && {
+      [HEADER_SIGNATURE]: sign(
+        replyKey,
+        'reply',
+        signature,
+        String(reply.status),
+        digest(reply.body)
+      )
+    })
+  })
+  response.end(reply.body)
+}
+
+// Client side
+
+function requirePeer(instanceId: string): DiscoveredPeer {
+  const peer = getPeer(instanceId)
+  if (!peer) {
+    throw new Error('That computer is no longer on the network')
+  }
+  return peer
+}
+
+async function callPeer(
+  peer: DiscoveredPeer,
+  method: 'GET' | 'POST',
+  path: string,
+  body: Buffer = Buffer.alloc(0),
+  timeoutMs = REQUEST_TIMEOUT_MS
+): Promise<Buffer> {
+  const key = await database.getLanSyncKey()
+  if (!key) {
+    throw new Error('Classroom sync is turned off on this computer')
+  }
+
+  const instanceId = await database.getInstanceId()
+  const fullPath = `${API_PREFIX}${path}`
+  const time = String(Date.now())
+  const nonce = randomBytes(16).toString('base64url')
+  const signature = sign(key, 'request', method, fullPath, time, nonce, instanceId, digest(body))
+
+  let response: Response
+  try {
+    response = await fetch(`http://${peer.address}:${peer.port}${fullPath}`, {
+      method,
+      headers: {
+        [HEADER_INSTANCE]: instanceId,
+        [HEADER_TIME]: time,
+        [HEADER_NONCE]: nonce,
+        [HEADER_SIGNATURE]: signature,
+        ...(method === 'POST' && { 'Content-Type': 'application/json' })
+      },
+      body: method === 'POST' ? body : undefined,
+      signal: AbortSignal.timeout(timeoutMs)
+    })
+  } catch {
+    throw new Error(`Could not reach ${peer.name}`)
+  }
+
+  const reply = Buffer.from(await response.arrayBuffer())
+  const replySignature = response.headers.get(HEADER_SIGNATURE) || ''
+  const verified = signaturesMatch(
+    sign(key, 'reply', signature, String(response.status), digest(reply)),
+    replySignature
+  )
+
+  if (verified && response.ok) return reply
+  if (!verified && response.ok) {
+    throw new Error(`The reply from ${peer.name} could not be verified`)
+  }
+  throw new Error(readError(reply) || `${peer.name} could not complete the request`)
+}
+
+/**
+ * The modules a peer offers, with the version of each installed here
+ */
+export async function getPeerModules(instanceId: string): Promise<PeerModule[]> {
+  const peer = requirePeer(instanceId)
+  const offered: Omit<PeerModule, 'installedVersion'>[] = JSON.parse(
+    (await callPeer(peer, 'GET', '/modules')).toString('utf-8')
+  )
+  const installed = await database.getAllModules()
+
+  return offered.map((module) => ({
+    ...module,
+    installedVersion: installed.find((m) => m.title === module.title)?.version ?? null
+  }))
+}
+
+/**
+ * Download a module package from a peer and import it like a package from
+ * disk, so it is validated and only installed when newer
+ */
+export async function pullModule(
+  instanceId: string,
+  moduleId: number
+): Promise<ModuleImportFileReport> {
+  const peer = requirePeer(instanceId)
+  const data = await callPeer(
+    peer,
+    'GET',
+    `/modules/${moduleId}/package`,
+    undefined,
+    DOWNLOAD_TIMEOUT_MS
+  )
+  if (data.length > MAX_PACKAGE_SIZE) {
+    throw new Error('The module package is too large')
+  }
+
+  const folder = await mkdtemp(join(app.getPath('temp'), 'peer-module-'))
+  try {
+    const filePath = join(folder, `module-${moduleId}${MODULE_PACKAGE_EXTENSION}`)
+    await writeFile(filePath, data)
+    // The learner chose this module from the peer's list, which shows its version
+    const report = await importModuleFiles([filePath], { allowUpgrade: true })
+    return report.files[0]
+  } finally {
+    await rm(folder, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Send every learner's progress on this computer to the teacher computers on
+ * the network. The teacher merges it, so sending the same progress twice is harmless.
+ */
+export async function syncProgress(): Promise<ProgressSyncRecord[]> {
+  const teachers = getPeers().filter((peer) => peer.role === 'teacher')
+  if (teachers.length === 0) {
+    throw new Error('No teacher computer found on the network')
+  }
+
+  const learners: LearnerProfileData[] = []
+  for (const user of await database.getAllUsers()) {
+    if (user.role !== 'student' || !user.is_active) continue
+    const profile = await database.getLearnerProfileData(user.id)
+    if (profile && profile.modules.length > 0) learners.push(profile)
+  }
+  const signingKey = await database.getSigningKey()
+  const profiles = Buffer.from(JSON.stringify(learners)).toString('base64url')
+  const upload: ProgressUpload = {
+    name: hostname(),
+    key: getPublicKey(signingKey),
+    learners: profiles,
+    signature: signData(profiles, signingKey)
+  }
+  const body = Buffer.from(JSON.stringify(upload))
+
+  const records: ProgressSyncRecord[] = []
+  for (const teacher of teachers) {
+    const record: ProgressSyncRecord = {
+      peerName: teacher.name,
+      at: new Date().toISOString(),
+      learners: 0,
+      modulesMerged: 0,
+      accountsCreated: 0,
+      awaitingReview: 0
+    }
+    try {
+      const reply: ProgressSyncRecord = JSON.parse(
+        (await callPeer(teacher, 'POST', '/progress', body)).toString('utf-8')
+      )
+      record.learners = reply.learners
+      record.modulesMerged = reply.modulesMerged
+      record.accountsCreated = reply.accountsCreated
+      record.awaitingReview = reply.awaitingReview
+    } catch (error) {
+      record.error = error instanceof Error ? error.message : 'Progress sync failed'
+    }
+    progressSyncs.set(teacher.instanceId, record)
+    records.push(record)
+  }
+  return records
+}
+
+async function runScheduledSync(): Promise<void> {
+  if (!getPeers().some((peer) => peer.role === 'teacher')) return
+  try {
+    await syncProgress()
+  } catch (error) {
+    console.error('Scheduled progress sync failed:', error)
+  }
+}
+
+export function stopLanSync(): void {
+  if (syncTimer) clearInterval(syncTimer)
+  syncTimer = null
+  server?.close()
+  server = null
+  stopDiscovery()
+}
+
+/**
+ * Start or stop classroom sync to match the settings. Called at launch and
+ * again whenever the role or classroom key changes.
+ */
+export async function startLanSync(): Promise<void> {
+  stopLanSync()
+  startError = null
+  progressSyncs.clear()
+
+  try {
+    const { lanSyncRole } = await database.getSettings()
+    const key = await database.getLanSyncKey()
+    if (lanSyncRole === 'off' || !key) return
+
+    const peerServer = createServer((request, response) => {
+      handleRequest(request, response)
+    })
+    server = peerServer
+    // Any free port; it is announced with the rest of this computer's details
+    const port = await new Promise<number>((resolve, reject) => {
+      peerServer.once('error', reject)
+      peerServer.listen(0, () => resolve((peerServer.address() as AddressInfo).port))
+    })
+
+    await startDiscovery({
+      instanceId: await database.getInstanceId(),
+      name: hostname(),
+      role: lanSyncRole,
+      port,
+      keyId: getKeyId(key)
+    })
+
+    if (lanSyncRole === 'learner') {
+      syncTimer = setInterval(runScheduledSync, PROGRESS_SYNC_INTERVAL_MS)
+    }
+  } catch (error) {
+    console.error('Failed to start classroom sync:', error)
+    startError = error instanceof Error ? error.message : 'Failed to start classroom sync'
+    stopLanSync()
+  }
+}
+
+export async function getLanSyncStatus(): Promise<LanSyncStatus> {
+  const { lanSyncRole } = await database.getSettings()
+  return {
+    role: lanSyncRole,
+    keyConfigured: (await database.getLanSyncKey()) !== null,
+    computerName: hostname(),
+    error: startError,
+    peers: getPeers().map((peer) => ({
+      instanceId: peer.instanceId,
+      name: peer.name,
+      role: peer.role,
+      address: peer.address,
+      lastSeen: peer.lastSeen
+    })),
+    progressSyncs: [...progressSyncs.values()].sort((a, b) => b.at.localeCompare(a.at))
+  }
+}
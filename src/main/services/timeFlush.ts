@@ -0,0 +1,66 @@
+import { app, BrowserWindow, ipcMain, IpcMainEvent } from 'electron'
+import { TIME_FLUSH_CHANNEL, TIME_FLUSHED_CHANNEL } from '../../shared/timeFlush'
+
+// Learning time is tracked in the renderer and saved every few seconds. Before a
+// window closes or the app quits, the main process asks the renderer to save
+// whatever it has not saved yet and waits for it to confirm.
+
+// A hung renderer must never stop the app from closing
+const FLUSH_TIMEOUT_MS = 3000
+
+let flushedForQuit = false
+
+function flushWindowTime(window: BrowserWindow): Promise<void> {
+  if (window.isDestroyed() || window.webContents.isDestroyed()) {
+    return Promise.resolve()
+  }
+
+  const { webContents } = window
+  return new Promise((resolve) => {
+    const done = (): void => {
+      clearTimeout(timer)
+      ipcMain.removeListener(TIME_FLUSHED_CHANNEL, onFlushed)
+      resolve()
+    }
+    const onFlushed = (event: IpcMainEvent): void => {
+      if (event.sender === webContents) done()
+    }
+    const timer = setTimeout(done, FLUSH_TIMEOUT_MS)
+
+    ipcMain.on(TIME_FLUSHED_CHANNEL, onFlushed)
+    webContents.send(TIME_FLUSH_CHANNEL)
+  })
+}
+
+/**
+ * Keep a window open until its renderer has saved unsaved learning time
+ */
+export function flushTimeOnClose(window: BrowserWindow): void {
+  let flushed = false
+
+  window.on('close', (event) => {
+    // When quitting, every window was already flushed in before-quit
+    if (flushed || flushedForQuit) return
+
+    event.preventDefault()
+    flushWindowTime(window).finally(() => {
+      flushed = true
+      window.close()
+    })
+  })
+}
+
+/**
+ * Call from the app's before-quit handler. Returns true once every window has
+ * saved its learning time; until then the quit is postponed and retried.
+ */
+export function flushTimeBeforeQuit(event: Electron.Event): boolean {
+  if (flushedForQuit) return true
+
+  event.preventDefault()
+  Promise.all(BrowserWindow.getAllWindows().map(flushWindowTime)).finally(() => {
+    flushedForQuit = true
+    app.quit()
+  })
+  return false
+}
@@ -0,0 +1,139 @@
+import { readFile, stat } from 'fs/promises'
+import { database } from '../database/database'
+import { isUserRole } from '../../shared/permissions'
+import type { UserImportReport, UserImportRowResult } from '../types'
+
+const MAX_CSV_SIZE = 1024 * 1024 // 1MB
+const REQUIRED_COLUMNS = ['username', 'email', 'password']
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Same rules as the registration form
+export const MIN_USERNAME_LENGTH = 3
+export const MIN_PASSWORD_LENGTH = 6
+
+/**
+ * Returns a message describing the first invalid field, or null when the
+ * account details are acceptable
+ */
+export function validateAccount(username: string, email: string, password: string): string | null {
+  if (username.length < MIN_USERNAME_LENGTH) {
+    return `Username must be at least ${MIN_USERNAME_LENGTH} characters`
+  }
+  if (!EMAIL_PATTERN.test(email)) {
+    return 'Invalid email address'
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+  }
+  return null
+}
+
+/**
+ * Split CSV text into rows of fields. Supports quoted fields containing
+ * commas, newlines and doubled quotes.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+/**
+ * Create accounts from a CSV file with a header row of
+ * username,email,password and an optional role column. Each row is created
+ * independently so one bad row does not stop the rest of the class.
+ */
+export async function importUsersFromCsv(filePath: string): Promise<UserImportReport> {
+  const fileStats = await stat(filePath)
+  if (fileStats.size > MAX_CSV_SIZE) {
+    throw new Error(`File too large. Maximum size is ${MAX_CSV_SIZE / 1024 / 1024}MB.`)
+  }
+
+  const text = (await readFile(filePath, 'utf-8')).replace(/^\uFEFF/, '')
+  const [header, ...records] = parseCsv(text)
+  if (!header) {
+    throw new Error('The CSV file is empty.')
+  }
+
+  const columns = header.map((column) => column.trim().toLowerCase())
+  const missing = REQUIRED_COLUMNS.filter((column) => !columns.includes(column))
+  if (missing.length > 0) {
+    throw new Error(`The CSV header is missing: ${missing.join(', ')}`)
+  }
+
+  const rows: UserImportRowResult[] = []
+
+  for (let index = 0; index < records.length; index++) {
+    const record = records[index]
+    // Skip blank lines
+    if (record.every((value) => value.trim() === '')) continue
+
+    const value = (column: string): string => (record[columns.indexOf(column)] || '').trim()
+    const username = value('username')
+    const email = value('email')
+    const password = record[columns.indexOf('password')] || ''
+    const role = value('role').toLowerCase() || 'student'
+    // Line numbers are 1-based and include the header
+    const result: UserImportRowResult = { line: index + 2, username, success: false }
+
+    const invalid = validateAccount(username, email, password)
+    if (invalid) {
+      result.error = invalid
+    } else if (!isUserRole(role)) {
+      result.error = `Unknown role "${role}"`
+    } else {
+      const created = await database.createUser({
+        username,
+        email,
+        password_hash: password,
+        role
+      })
+      result.success = created.success
+      result.error = created.error
+    }
+
+    rows.push(result)
+  }
+
+  return {
+    canceled: false,
+    created: rows.filter((row) => row.success).length,
+    rows
+  }
+}
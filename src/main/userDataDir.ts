@@ -0,0 +1,10 @@
+import { app } from 'electron'
+import { resolve } from 'path'
+
+// OA_USER_DATA_DIR gives this instance its own data folder, so two copies of
+// the app can run side by side on one computer, e.g. to try classroom sync.
+// It is imported before any module that reads the userData path.
+const userDataDir = process.env.OA_USER_DATA_DIR
+if (userDataDir) {
+  app.setPath('userData', resolve(userDataDir))
+}
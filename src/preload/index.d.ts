@@ -5,36 +5,123 @@ interface LMSApi {
   auth: {
     register: (data: { username: string; email: string; password: string }) => Promise<unknown>
     login: (data: { email: string; password: string }) => Promise<unknown>
-    logout: () => Promise<unknown>
-    getCurrentUser: () => Promise<unknown>
+    logout: (token: string) => Promise<unknown>
+    getCurrentUser: (token: string) => Promise<unknown>
+  }
+  setup: {
+    getStatus: () => Promise<unknown>
+    complete: (data: {
+      username: string
+      email: string
+      password: string
+      institutionName: string
+      defaultTheme: string
+    }) => Promise<unknown>
+  }
+  settings: {
+    get: (token: string) => Promise<unknown>
   }
   users: {
-    getAll: () => Promise<unknown>
-    switch: (userId: number) => Promise<unknown>
+    getAll: (token: string) => Promise<unknown>
+    switch: (token: string, userId: number) => Promise<unknown>
+    setRole: (token: string, userId: number, role: string) => Promise<unknown>
+    getSummaries: (token: string) => Promise<unknown>
+    resetPassword: (token: string, userId: number, newPassword: string) => Promise<unknown>
+    setActive: (token: string, userId: number, active: boolean) => Promise<unknown>
+    delete: (token: string, userId: number) => Promise<unknown>
+    importCsv: (token: string) => Promise<unknown>
   }
   modules: {
-    getAll: () => Promise<unknown>
-    getById: (id: number) => Promise<unknown>
-    import: () => Promise<unknown>
-    delete: (id: number) => Promise<unknown>
+    getAll: (token: string) => Promise<unknown>
+    getById: (token: string, id: number) => Promise<unknown>
+    import: (token: string) => Promise<unknown>
+    inspectPackage: (token: string) => Promise<unknown>
+    importPackage: (token: string, packageId: string) => Promise<unknown>
+    confirmUpgrade: (token: string, pendingId: string) => Promise<unknown>
+    upgrade: (token: string, id: number, moduleData: unknown) => Promise<unknown>
+    delete: (token: string, id: number) => Promise<unknown>
+    search: (token: string, query: string) => Promise<unknown>
+    query: (token: string, filters: unknown) => Promise<unknown>
   }
   progress: {
-    getUserProgress: (userId: number) => Promise<unknown>
-    updateLesson: (data: {
-      userId: number
-      moduleId: number
-      lessonId: string
-      completed: boolean
-      timeSpent: number
-    }) => Promise<unknown>
-    getModuleProgress: (userId: number, moduleId: number) => Promise<unknown>
-    resetModule: (userId: number, moduleId: number) => Promise<unknown>
+    getUserProgress: (token: string, userId: number) => Promise<unknown>
+    getUserQuizProgress: (token: string, userId: number) => Promise<unknown>
+    updateLesson: (
+      token: string,
+      data: {
+        userId: number
+        moduleId: number
+        lessonId: string
+        completed: boolean
+      }
+    ) => Promise<unknown>
+    recordTime: (
+      token: string,
+      moduleId: number,
+      itemId: string,
+      seconds: number
+    ) => Promise<unknown>
+    getModuleProgress: (token: string, userId: number, moduleId: number) => Promise<unknown>
+    resetModule: (token: string, userId: number, moduleId: number) => Promise<unknown>
+    submitQuizAttempt: (
+      token: string,
+      submission: {
+        moduleId: number
+        quizId: string
+        answers: (number | string | null)[]
+        durationSeconds: number
+      }
+    ) => Promise<unknown>
+    getQuizAttempts: (
+      token: string,
+      userId: number,
+      moduleId: number,
+      quizId: string
+    ) => Promise<unknown>
+  }
+  analytics: {
+    getLearner: (token: string, userId: number, days?: number) => Promise<unknown>
   }
   certificates: {
-    generate: (userId: number, moduleId: number) => Promise<unknown>
-    getUserCertificates: (userId: number) => Promise<unknown>
-    export: (certificateId: number) => Promise<unknown>
-    verify: (code: string) => Promise<unknown>
+    generate: (token: string, moduleId: number) => Promise<unknown>
+    getUserCertificates: (token: string, userId: number) => Promise<unknown>
+    export: (token: string, certificateId: number) => Promise<unknown>
+    exportAll: (token: string, userId: number) => Promise<unknown>
+    print: (token: string, certificateId: number) => Promise<unknown>
+    verify: (token: string, codeOrToken: string) => Promise<unknown>
+  }
+  certificateTemplates: {
+    getAll: (token: string) => Promise<unknown>
+    install: (token: string) => Promise<unknown>
+    remove: (token: string, id: string) => Promise<unknown>
+    select: (token: string, id: string) => Promise<unknown>
+  }
+  profiles: {
+    export: (token: string, userId: number) => Promise<unknown>
+    inspect: (token: string) => Promise<unknown>
+    import: (
+      token: string,
+      profileId: string,
+      password?: string,
+      trustIssuer?: boolean
+    ) => Promise<unknown>
+    getReviews: (token: string) => Promise<unknown>
+    approveReview: (token: string, reviewId: number) => Promise<unknown>
+    rejectReview: (token: string, reviewId: number) => Promise<unknown>
+  }
+  backup: {
+    getAll: (token: string) => Promise<unknown>
+    create: (token: string) => Promise<unknown>
+    restore: (token: string, fileName?: string) => Promise<unknown>
+    updateSchedule: (token: string, interval: string, backupsToKeep: number) => Promise<unknown>
+  }
+  sync: {
+    getStatus: (token: string) => Promise<unknown>
+    getKey: (token: string) => Promise<unknown>
+    update: (token: string, role: string, key: string) => Promise<unknown>
+    syncProgress: (token: string) => Promise<unknown>
+    getPeerModules: (token: string, instanceId: string) => Promise<unknown>
+    pullModule: (token: string, instanceId: string, moduleId: number) => Promise<unknown>
   }
 }
 
@@ -1,56 +1,163 @@
 import { contextBridge, ipcRenderer } from 'electron'
 import { electronAPI } from '@electron-toolkit/preload'
 
+// Every IPC call carries the session token issued by the main process as its
+// first argument; calls made before signing in pass null
+const invoke = (channel: string, token: string | null, ...args: unknown[]): Promise<unknown> =>
+  ipcRenderer.invoke(channel, token, ...args)
+
 // Custom APIs for renderer
 const api = {
   // Auth APIs
   auth: {
     register: (data: { username: string; email: string; password: string }) =>
-      ipcRenderer.invoke('auth:register', data),
-    login: (data: { email: string; password: string }) => ipcRenderer.invoke('auth:login', data),
-    logout: () => ipcRenderer.invoke('auth:logout'),
-    getCurrentUser: () => ipcRenderer.invoke('auth:get-current-user')
+      invoke('auth:register', null, data),
+    login: (data: { email: string; password: string }) => invoke('auth:login', null, data),
+    logout: (token: string) => invoke('auth:logout', token),
+    getCurrentUser: (token: string) => invoke('auth:get-current-user', token)
+  },
+
+  // Setup and settings APIs
+  setup: {
+    getStatus: () => invoke('setup:get-status', null),
+    complete: (data: {
+      username: string
+      email: string
+      password: string
+      institutionName: string
+      defaultTheme: string
+    }) => invoke('setup:complete', null, data)
+  },
+  settings: {
+    get: (token: string) => invoke('settings:get', token)
   },
 
   // User APIs
   users: {
-    getAll: () => ipcRenderer.invoke('user:get-all'),
-    switch: (userId: number) => ipcRenderer.invoke('user:switch', userId)
+    getAll: (token: string) => invoke('user:get-all', token),
+    switch: (token: string, userId: number) => invoke('user:switch', token, userId),
+    setRole: (token: string, userId: number, role: string) =>
+      invoke('user:set-role', token, userId, role),
+    getSummaries: (token: string) => invoke('user:get-summaries', token),
+    resetPassword: (token: string, userId: number, newPassword: string) =>
+      invoke('user:reset-password', token, userId, newPassword),
+    setActive: (token: string, userId: number, active: boolean) =>
+      invoke('user:set-active', token, userId, active),
+    delete: (token: string, userId: number) => invoke('user:delete', token, userId),
+    importCsv: (token: string) => invoke('user:import-csv', token)
   },
 
   // Module APIs
   modules: {
-    getAll: () => ipcRenderer.invoke('modules:get-all'),
-    getById: (id: number) => ipcRenderer.invoke('modules:get-by-id', id),
-    import: () => ipcRenderer.invoke('modules:import'),
-    delete: (id: number) => ipcRenderer.invoke('modules:delete', id)
+    getAll: (token: string) => invoke('modules:get-all', token),
+    getById: (token: string, id: number) => invoke('modules:get-by-id', token, id),
+    import: (token: string) => invoke('modules:import', token),
+    inspectPackage: (token: string) => invoke('modules:inspect-package', token),
+    importPackage: (token: string, packageId: string) =>
+      invoke('modules:import-package', token, packageId),
+    confirmUpgrade: (token: string, pendingId: string) =>
+      invoke('modules:confirm-upgrade', token, pendingId),
+    upgrade: (token: string, id: number, moduleData: unknown) =>
+      invoke('modules:upgrade', token, id, moduleData),
+    delete: (token: string, id: number) => invoke('modules:delete', token, id),
+    search: (token: string, query: string) => invoke('modules:search', token, query),
+    query: (token: string, filters: unknown) => invoke('modules:query', token, filters)
   },
 
   // Progress APIs
   progress: {
-    getUserProgress: (userId: number) => ipcRenderer.invoke('progress:get-user-progress', userId),
-    updateLesson: (data: {
-      userId: number
-      moduleId: number
-      lessonId: string
-      completed: boolean
-      timeSpent: number
-      quizScore?: number
-    }) => ipcRenderer.invoke('progress:update-lesson', data),
-    getModuleProgress: (userId: number, moduleId: number) =>
-      ipcRenderer.invoke('progress:get-module-progress', userId, moduleId),
-    resetModule: (userId: number, moduleId: number) =>
-      ipcRenderer.invoke('progress:reset-module', userId, moduleId)
+    getUserProgress: (token: string, userId: number) =>
+      invoke('progress:get-user-progress', token, userId),
+    getUserQuizProgress: (token: string, userId: number) =>
+      invoke('progress:get-user-quiz-progress', token, userId),
+    updateLesson: (
+      token: string,
+      data: {
+        userId: number
+        moduleId: number
+        lessonId: string
+        completed: boolean
+      }
+    ) => invoke('progress:update-lesson', token, data),
+    recordTime: (token: string, moduleId: number, itemId: string, seconds: number) =>
+      invoke('progress:record-time', token, moduleId, itemId, seconds),
+    getModuleProgress: (token: string, userId: number, moduleId: number) =>
+      invoke('progress:get-module-progress', token, userId, moduleId),
+    resetModule: (token: string, userId: number, moduleId: number) =>
+      invoke('progress:reset-module', token, userId, moduleId),
+    submitQuizAttempt: (
+      token: string,
+      submission: {
+        moduleId: number
+        quizId: string
+        answers: (number | string | null)[]
+        durationSeconds: number
+      }
+    ) => invoke('progress:submit-quiz-attempt', token, submission),
+    getQuizAttempts: (token: string, userId: number, moduleId: number, quizId: string) =>
+      invoke('progress:get-quiz-attempts', token, userId, moduleId, quizId)
+  },
+
+  // Analytics APIs
+  analytics: {
+    getLearner: (token: string, userId: number, days?: number) =>
+      invoke('analytics:get-learner', token, userId, days)
   },
 
   // Certificate APIs
   certificates: {
-    generate: (userId: number, moduleId: number) =>
-      ipcRenderer.invoke('certificates:generate', userId, moduleId),
-    getUserCertificates: (userId: number) =>
-      ipcRenderer.invoke('certificates:get-user-certificates', userId),
-    export: (certificateId: number) => ipcRenderer.invoke('certificates:export', certificateId),
-    verify: (code: string) => ipcRenderer.invoke('certificates:verify', code)
+    generate: (token: string, moduleId: number) => invoke('certificates:generate', token, moduleId),
+    getUserCertificates: (token: string, userId: number) =>
+      invoke('certificates:get-user-certificates', token, userId),
+    export: (token: string, certificateId: number) =>
+      invoke('certificates:export', token, certificateId),
+    exportAll: (token: string, userId: number) => invoke('certificates:export-all', token, userId),
+    print: (token: string, certificateId: number) =>
+      invoke('certificates:print', token, certificateId),
+    verify: (token: string, codeOrToken: string) =>
+      invoke('certificates:verify', token, codeOrToken)
+  },
+
+  // Certificate template APIs
+  certificateTemplates: {
+    getAll: (token: string) => invoke('certificate-templates:get-all', token),
+    install: (token: string) => invoke('certificate-templates:install', token),
+    remove: (token: string, id: string) => invoke('certificate-templates:remove', token, id),
+    select: (token: string, id: string) => invoke('certificate-templates:select', token, id)
+  },
+
+  // Learner profile APIs
+  profiles: {
+    export: (token: string, userId: number) => invoke('profiles:export', token, userId),
+    inspect: (token: string) => invoke('profiles:inspect', token),
+    import: (token: string, profileId: string, password?: string, trustIssuer?: boolean) =>
+      invoke('profiles:import', token, profileId, password, trustIssuer),
+    getReviews: (token: string) => invoke('profiles:get-reviews', token),
+    approveReview: (token: string, reviewId: number) =>
+      invoke('profiles:approve-review', token, reviewId),
+    rejectReview: (token: string, reviewId: number) =>
+      invoke('profiles:reject-review', token, reviewId)
+  },
+
+  // Backup APIs
+  backup: {
+    getAll: (token: string) => invoke('backup:get-all', token),
+    create: (token: string) => invoke('backup:create', token),
+    restore: (token: string, fileName?: string) => invoke('backup:restore', token, fileName),
+    updateSchedule: (token: string, interval: string, backupsToKeep: number) =>
+      invoke('backup:update-schedule', token, interval, backupsToKeep)
+  },
+
+  // Classroom network APIs
+  sync: {
+    getStatus: (token: string) => invoke('sync:get-status', token),
+    getKey: (token: string) => invoke('sync:get-key', token),
+    update: (token: string, role: string, key: string) => invoke('sync:update', token, role, key),
+    syncProgress: (token: string) => invoke('sync:sync-progress', token),
+    getPeerModules: (token: string, instanceId: string) =>
+      invoke('sync:get-peer-modules', token, instanceId),
+    pullModule: (token: string, instanceId: string, moduleId: number) =>
+      invoke('sync:pull-module', token, instanceId, moduleId)
   }
 }
 
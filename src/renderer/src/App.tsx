@@ -1,3 +1,4 @@
+import { useEffect } from 'react'
 import { RootRoute, Route, Router, RouterProvider, redirect } from '@tanstack/react-router'
 
 import Layout from './components/layout/Layout'
@@ -8,11 +9,73 @@ import ModuleBrowsePage from './pages/dashboard/ModuleBrowsePage'
 import ModuleDetailsPage from './pages/modules/ModuleDetailsPage'
 import LessonPage from './pages/modules/LessonPage'
 import QuizPage from './pages/modules/QuizPage'
+import NearbyModulesPage from './pages/modules/NearbyModulesPage'
+import UserManagementPage from './pages/admin/UserManagementPage'
+import UserDetailsPage from './pages/admin/UserDetailsPage'
+import CertificateTemplatesPage from './pages/admin/CertificateTemplatesPage'
+import SettingsPage from './pages/admin/SettingsPage'
+import SetupPage from './pages/setup/SetupPage'
+import AnalyticsPage from './pages/analytics/AnalyticsPage'
+import CertificatesPage from './pages/certificates/CertificatesPage'
+import VerifyCertificatePage from './pages/certificates/VerifyCertificatePage'
+import ProfilePage from './pages/profile/ProfilePage'
 import { useDataRefresher } from './hooks/useDataRefresher'
+import { useAuth } from './hooks/useAuth'
+import { useSettings } from './hooks/useSettings'
+import { apiClient } from './lib/apiClient'
+import { listenForTimeFlushRequests } from './lib/timeTracking'
+import { hasPermission } from '../../shared/permissions'
+import { User } from './types'
+
+// Ask the main process who is signed in; the persisted auth store alone is not trusted
+async function requireSession(redirectTo: string): Promise<User> {
+  const result = await apiClient.getCurrentUser()
+  useAuth.getState().syncSession(result.success && result.data ? result.data : null)
+
+  if (!result.success || !result.data) {
+    throw redirect({
+      to: '/auth/login',
+      search: {
+        redirect: redirectTo
+      }
+    })
+  }
+  return result.data
+}
+
+// Until an administrator exists, every route leads to the first-run setup wizard
+let isSetupComplete = false
+
+async function checkSetup(pathname: string): Promise<void> {
+  if (isSetupComplete) return
+
+  const result = await apiClient.getSetupStatus()
+  if (!result.success || !result.data) return
+
+  if (!result.data.needsSetup) {
+    isSetupComplete = true
+  } else if (pathname !== '/setup') {
+    throw redirect({ to: '/setup' })
+  }
+}
 
 // Create root route
 const rootRoute = new RootRoute({
-  component: Layout
+  component: Layout,
+  beforeLoad: async ({ location }) => {
+    await checkSetup(location.pathname)
+  }
+})
+
+const setupRoute = new Route({
+  getParentRoute: () => rootRoute,
+  path: 'setup',
+  component: SetupPage,
+  beforeLoad: async () => {
+    if (isSetupComplete) {
+      throw redirect({ to: '/' })
+    }
+  }
 })
 
 // Create routes for the application
@@ -21,17 +84,7 @@ const indexRoute = new Route({
   path: '/',
   component: DashboardPage,
   beforeLoad: async ({ location }) => {
-    // This is a client-side only implementation for demo purposes
-    const isAuthenticated = localStorage.getItem('auth-storage') !== null
-
-    if (!isAuthenticated) {
-      throw redirect({
-        to: '/auth/login',
-        search: {
-          redirect: location.href
-        }
-      })
-    }
+    await requireSession(location.href)
   }
 })
 
@@ -58,17 +111,7 @@ const modulesRoute = new Route({
   getParentRoute: () => rootRoute,
   path: 'modules',
   beforeLoad: async ({ location }) => {
-    // This is a client-side only implementation for demo purposes
-    const isAuthenticated = localStorage.getItem('auth-storage') !== null
-
-    if (!isAuthenticated) {
-      throw redirect({
-        to: '/auth/login',
-        search: {
-          redirect: location.href
-        }
-      })
-    }
+    await requireSession(location.href)
   }
 })
 
@@ -78,6 +121,12 @@ const modulesBrowseRoute = new Route({
   component: ModuleBrowsePage
 })
 
+const modulesNearbyRoute = new Route({
+  getParentRoute: () => modulesRoute,
+  path: 'nearby',
+  component: NearbyModulesPage
+})
+
 const moduleDetailsRoute = new Route({
   getParentRoute: () => modulesRoute,
   path: '$moduleId',
@@ -87,7 +136,10 @@ const moduleDetailsRoute = new Route({
 const moduleLessonRoute = new Route({
   getParentRoute: () => modulesRoute,
   path: '$moduleId/learn/$lessonId',
-  component: LessonPage
+  component: LessonPage,
+  // ?q= highlights the words a search matched in the lesson
+  validateSearch: (search: Record<string, unknown>): { q?: string } =>
+    typeof search.q === 'string' && search.q ? { q: search.q } : {}
 })
 
 const moduleQuizRoute = new Route({
@@ -96,15 +148,104 @@ const moduleQuizRoute = new Route({
   component: QuizPage
 })
 
+// Analytics route
+const analyticsRoute = new Route({
+  getParentRoute: () => rootRoute,
+  path: 'analytics',
+  component: AnalyticsPage,
+  beforeLoad: async ({ location }) => {
+    await requireSession(location.href)
+  }
+})
+
+// Certificate routes; verification is open to anyone holding a certificate
+const certificatesRoute = new Route({
+  getParentRoute: () => rootRoute,
+  path: 'certificates'
+})
+
+const certificatesGalleryRoute = new Route({
+  getParentRoute: () => certificatesRoute,
+  path: '/',
+  component: CertificatesPage,
+  beforeLoad: async ({ location }) => {
+    await requireSession(location.href)
+  }
+})
+
+const verifyCertificateRoute = new Route({
+  getParentRoute: () => certificatesRoute,
+  path: 'verify',
+  component: VerifyCertificatePage
+})
+
+// Profile route
+const profileRoute = new Route({
+  getParentRoute: () => rootRoute,
+  path: 'profile',
+  component: ProfilePage,
+  beforeLoad: async ({ location }) => {
+    await requireSession(location.href)
+  }
+})
+
+// Admin routes
+const adminRoute = new Route({
+  getParentRoute: () => rootRoute,
+  path: 'admin',
+  beforeLoad: async ({ location }) => {
+    const user = await requireSession(location.href)
+    // The main process enforces permissions; this only keeps the page out of reach
+    if (!hasPermission(user.role, 'users:manage')) {
+      throw redirect({ to: '/' })
+    }
+  }
+})
+
+const adminUsersRoute = new Route({
+  getParentRoute: () => adminRoute,
+  path: 'users',
+  component: UserManagementPage
+})
+
+const adminUserDetailsRoute = new Route({
+  getParentRoute: () => adminRoute,
+  path: 'users/$userId',
+  component: UserDetailsPage
+})
+
+const adminCertificateTemplatesRoute = new Route({
+  getParentRoute: () => adminRoute,
+  path: 'certificate-templates',
+  component: CertificateTemplatesPage
+})
+
+const adminSettingsRoute = new Route({
+  getParentRoute: () => adminRoute,
+  path: 'settings',
+  component: SettingsPage
+})
+
 // Create the route tree using the routes
 const routeTree = rootRoute.addChildren([
   indexRoute,
+  setupRoute,
   authRoute.addChildren([loginRoute, registerRoute]),
   modulesRoute.addChildren([
     modulesBrowseRoute,
+    modulesNearbyRoute,
     moduleDetailsRoute,
     moduleLessonRoute,
     moduleQuizRoute
+  ]),
+  analyticsRoute,
+  certificatesRoute.addChildren([certificatesGalleryRoute, verifyCertificateRoute]),
+  profileRoute,
+  adminRoute.addChildren([
+    adminUsersRoute,
+    adminUserDetailsRoute,
+    adminCertificateTemplatesRoute,
+    adminSettingsRoute
   ])
 ])
 
@@ -121,6 +262,15 @@ declare module '@tanstack/react-router' {
 // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
 function App() {
   useDataRefresher()
+
+  const loadSettings = useSettings((state) => state.loadSettings)
+  useEffect(() => {
+    loadSettings()
+  }, [loadSettings])
+
+  // Save unsaved lesson and quiz time when the window closes or the app quits
+  useEffect(() => listenForTimeFlushRequests(), [])
+
   return <RouterProvider router={router} />
 }
 
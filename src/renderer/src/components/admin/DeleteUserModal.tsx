@@ -0,0 +1,91 @@
+import React, { useState } from 'react'
+import { AlertTriangle, Trash2 } from 'lucide-react'
+import Button from '../ui/Button'
+import Input from '../ui/Input'
+import Modal from '../ui/Modal'
+import { apiClient } from '../../lib/apiClient'
+import { UserSummary } from '../../types'
+
+interface DeleteUserModalProps {
+  user: UserSummary | null
+  onClose: () => void
+  onDeleted: (user: UserSummary) => void
+}
+
+/**
+ * Deleting an account also removes its progress and certificates, so the
+ * administrator has to type the username to confirm
+ */
+const DeleteUserModal: React.FC<DeleteUserModalProps> = ({ user, onClose, onDeleted }) => {
+  const [confirmation, setConfirmation] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  const handleClose = (): void => {
+    setConfirmation('')
+    setError(null)
+    onClose()
+  }
+
+  const handleDelete = async (): Promise<void> => {
+    if (!user) return
+
+    setIsDeleting(true)
+    const result = await apiClient.deleteUser(user.id)
+    setIsDeleting(false)
+
+    if (!result.success) {
+      setError(result.error || 'Failed to delete user')
+      return
+    }
+
+    onDeleted(user)
+    handleClose()
+  }
+
+  return (
+    <Modal isOpen={user !== null} onClose={handleClose} title="Delete User" size="sm">
+      <div className="p-6 space-y-4">
+        <div className="flex items-start space-x-3 p-3 rounded-md bg-error/10 text-error dark:text-error-dark">
+          <AlertTriangle size={20} className="shrink-0 mt-0.5" />
+          <p className="text-sm">
+            This permanently deletes <strong>{user?.username}</strong> along with progress in{' '}
+            {user?.modulesStarted || 0} module{user?.modulesStarted === 1 ? '' : 's'} and{' '}
+            {user?.certificateCount || 0} certificate{user?.certificateCount === 1 ? '' : 's'}. This
+            cannot be undone.
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-2 text-text dark:text-text-dark">
+            Type <strong>{user?.username}</strong> to confirm
+          </label>
+          <Input
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            error={error !== null}
+            helperText={error || undefined}
+            autoFocus
+          />
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button
+            variant="danger"
+            onClick={handleDelete}
+            isLoading={isDeleting}
+            disabled={confirmation !== user?.username}
+            leftIcon={<Trash2 size={16} />}
+          >
+            Delete User
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
+
+export default DeleteUserModal
@@ -0,0 +1,95 @@
+import React, { useState } from 'react'
+import { Lock } from 'lucide-react'
+import Button from '../ui/Button'
+import Input from '../ui/Input'
+import Modal from '../ui/Modal'
+import { apiClient } from '../../lib/apiClient'
+import { User } from '../../types'
+
+const MIN_PASSWORD_LENGTH = 6
+
+interface ResetPasswordModalProps {
+  user: User | null
+  onClose: () => void
+  onReset: (user: User) => void
+}
+
+const ResetPasswordModal: React.FC<ResetPasswordModalProps> = ({ user, onClose, onReset }) => {
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleClose = (): void => {
+    setPassword('')
+    setConfirmPassword('')
+    setError(null)
+    onClose()
+  }
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault()
+    if (!user) return
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+      return
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match')
+      return
+    }
+
+    setIsSaving(true)
+    const result = await apiClient.resetUserPassword(user.id, password)
+    setIsSaving(false)
+
+    if (!result.success) {
+      setError(result.error || 'Failed to reset password')
+      return
+    }
+
+    onReset(user)
+    handleClose()
+  }
+
+  return (
+    <Modal isOpen={user !== null} onClose={handleClose} title="Reset Password" size="sm">
+      <form onSubmit={handleSubmit} className="p-6 space-y-4">
+        <p className="text-sm text-text-secondary dark:text-text-secondary-dark">
+          Set a new password for <strong>{user?.username}</strong>. They will be signed out and need
+          the new password to sign in again.
+        </p>
+
+        <Input
+          type="password"
+          placeholder="New password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          leftIcon={<Lock size={16} className="text-text-secondary" />}
+          autoFocus
+        />
+        <Input
+          type="password"
+          placeholder="Confirm new password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          leftIcon={<Lock size={16} className="text-text-secondary" />}
+          error={error !== null}
+          helperText={error || undefined}
+        />
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <Button type="button" variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button type="submit" isLoading={isSaving}>
+            Reset Password
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
+
+export default ResetPasswordModal
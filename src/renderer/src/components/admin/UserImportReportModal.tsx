@@ -0,0 +1,52 @@
+import React from 'react'
+import { CheckCircle, XCircle } from 'lucide-react'
+import Button from '../ui/Button'
+import Modal from '../ui/Modal'
+import { UserImportReport } from '../../types'
+
+interface UserImportReportModalProps {
+  report: UserImportReport | null
+  onClose: () => void
+}
+
+const UserImportReportModal: React.FC<UserImportReportModalProps> = ({ report, onClose }) => {
+  const failed = report ? report.rows.length - report.created : 0
+
+  return (
+    <Modal isOpen={report !== null} onClose={onClose} title="Account Import" size="lg">
+      <div className="p-6 space-y-4">
+        <p className="text-sm text-text-secondary dark:text-text-secondary-dark">
+          Created {report?.created || 0} account{report?.created === 1 ? '' : 's'}
+          {failed > 0 && `, ${failed} row${failed === 1 ? '' : 's'} skipped`}.
+        </p>
+
+        {report && report.rows.length > 0 && (
+          <ul className="divide-y divide-border dark:divide-border-dark text-sm">
+            {report.rows.map((row) => (
+              <li key={row.line} className="py-2 flex items-start space-x-3">
+                {row.success ? (
+                  <CheckCircle size={16} className="text-success shrink-0 mt-0.5" />
+                ) : (
+                  <XCircle size={16} className="text-error shrink-0 mt-0.5" />
+                )}
+                <div>
+                  <span className="font-medium">Line {row.line}</span>
+                  {row.username && <span className="ml-2">{row.username}</span>}
+                  {row.error && (
+                    <p className="text-error dark:text-error-dark text-xs mt-0.5">{row.error}</p>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-end pt-2">
+          <Button onClick={onClose}>Done</Button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
+
+export default UserImportReportModal
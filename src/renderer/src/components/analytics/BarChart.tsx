@@ -0,0 +1,65 @@
+import React from 'react'
+
+export interface ChartPoint {
+  label: string
+  value: number
+}
+
+interface BarChartProps {
+  data: ChartPoint[]
+  formatValue?: (value: number) => string
+  labelEvery?: number // show every nth label under the bars
+  emptyMessage?: string
+}
+
+// Vertical bars for a daily series, scaled to the largest value
+const BarChart: React.FC<BarChartProps> = ({
+  data,
+  formatValue = (value) => value.toString(),
+  labelEvery = 1,
+  emptyMessage = 'No activity yet'
+}) => {
+  const max = Math.max(0, ...data.map((point) => point.value))
+
+  if (max === 0) {
+    return (
+      <p className="h-40 flex items-center justify-center text-sm text-text-secondary dark:text-text-secondary-dark">
+        {emptyMessage}
+      </p>
+    )
+  }
+
+  return (
+    <div>
+      <div className="flex items-end h-40 gap-px border-b border-border dark:border-border-dark">
+        {data.map((point) => (
+          <div
+            key={point.label}
+            className="flex-1 h-full flex items-end group"
+            title={`${point.label}: ${formatValue(point.value)}`}
+          >
+            <div
+              className="w-full rounded-t bg-primary/80 group-hover:bg-primary dark:bg-primary-dark/80 dark:group-hover:bg-primary-dark"
+              style={{ height: `${(point.value / max) * 100}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-px mt-1">
+        {data.map((point, index) => (
+          <span
+            key={point.label}
+            className="flex-1 text-[10px] text-center text-text-secondary dark:text-text-secondary-dark overflow-visible whitespace-nowrap"
+          >
+            {index % labelEvery === 0 ? point.label : ''}
+          </span>
+        ))}
+      </div>
+      <p className="mt-2 text-xs text-text-secondary dark:text-text-secondary-dark">
+        Highest: {formatValue(max)}
+      </p>
+    </div>
+  )
+}
+
+export default BarChart
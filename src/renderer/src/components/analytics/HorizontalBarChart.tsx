@@ -0,0 +1,48 @@
+import React from 'react'
+import type { ChartPoint } from './BarChart'
+
+interface HorizontalBarChartProps {
+  data: ChartPoint[]
+  formatValue?: (value: number) => string
+  emptyMessage?: string
+}
+
+// One labelled row per item, for comparisons such as time per module
+const HorizontalBarChart: React.FC<HorizontalBarChartProps> = ({
+  data,
+  formatValue = (value) => value.toString(),
+  emptyMessage = 'No activity yet'
+}) => {
+  const max = Math.max(0, ...data.map((point) => point.value))
+
+  if (max === 0) {
+    return (
+      <p className="py-8 text-center text-sm text-text-secondary dark:text-text-secondary-dark">
+        {emptyMessage}
+      </p>
+    )
+  }
+
+  return (
+    <ul className="space-y-3">
+      {data.map((point) => (
+        <li key={point.label}>
+          <div className="flex justify-between text-sm mb-1">
+            <span className="truncate mr-2 text-text dark:text-text-dark">{point.label}</span>
+            <span className="text-text-secondary dark:text-text-secondary-dark">
+              {formatValue(point.value)}
+            </span>
+          </div>
+          <div className="h-2 rounded-full bg-background dark:bg-background-dark">
+            <div
+              className="h-full rounded-full bg-secondary dark:bg-secondary-dark"
+              style={{ width: `${(point.value / max) * 100}%` }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export default HorizontalBarChart
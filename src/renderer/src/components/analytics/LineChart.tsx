@@ -0,0 +1,89 @@
+import React from 'react'
+import type { ChartPoint } from './BarChart'
+
+interface LineChartProps {
+  data: ChartPoint[]
+  max?: number
+  threshold?: number // drawn as a dashed reference line, e.g. a passing score
+  formatValue?: (value: number) => string
+}
+
+const WIDTH = 600
+const HEIGHT = 200
+const PADDING = 24
+const AXIS_WIDTH = 40 // room for the value labels on the left
+
+// A line through the points in order, on a 0..max scale
+const LineChart: React.FC<LineChartProps> = ({
+  data,
+  max = 100,
+  threshold,
+  formatValue = (value) => value.toString()
+}) => {
+  const x = (index: number): number =>
+    data.length === 1
+      ? (AXIS_WIDTH + WIDTH - PADDING) / 2
+      : AXIS_WIDTH + (index / (data.length - 1)) * (WIDTH - AXIS_WIDTH - PADDING)
+  const y = (value: number): number =>
+    HEIGHT - PADDING - (Math.min(value, max) / max) * (HEIGHT - PADDING * 2)
+
+  const path = data
+    .map((point, index) => `${index === 0 ? 'M' : 'L'} ${x(index)} ${y(point.value)}`)
+    .join(' ')
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img">
+      {[0, max / 2, max].map((tick) => (
+        <g key={tick}>
+          <line
+            x1={AXIS_WIDTH}
+            x2={WIDTH - PADDING}
+            y1={y(tick)}
+            y2={y(tick)}
+            className="stroke-border dark:stroke-border-dark"
+            strokeWidth={1}
+          />
+          <text
+            x={AXIS_WIDTH - 6}
+            y={y(tick) + 4}
+            textAnchor="end"
+            className="fill-text-secondary dark:fill-text-secondary-dark text-[10px]"
+          >
+            {formatValue(tick)}
+          </text>
+        </g>
+      ))}
+      {threshold !== undefined && (
+        <line
+          x1={AXIS_WIDTH}
+          x2={WIDTH - PADDING}
+          y1={y(threshold)}
+          y2={y(threshold)}
+          className="stroke-warning dark:stroke-warning-dark"
+          strokeWidth={1.5}
+          strokeDasharray="6 4"
+        />
+      )}
+      <path
+        d={path}
+        fill="none"
+        className="stroke-primary dark:stroke-primary-dark"
+        strokeWidth={2.5}
+        strokeLinejoin="round"
+      />
+      {data.map((point, index) => (
+        <circle
+          key={index}
+          cx={x(index)}
+          cy={y(point.value)}
+          r={4}
+          className="fill-primary dark:fill-primary-dark"
+        >
+          <title>{`${point.label}: ${formatValue(point.value)}`}</title>
+        </circle>
+      ))}
+    </svg>
+  )
+}
+
+export default LineChart
@@ -4,11 +4,12 @@ import { User, LogOut } from 'lucide-react'
 import { useAuth } from '../../hooks/useAuth'
 import Button from '../ui/Button'
 import logoImage from '../../assets/logo.png'
-// import ThemeToggle from "../ui/ThemeToggle";
+import ThemeToggle from '../ui/ThemeToggle'
+import SearchBox from './SearchBox'
 
 const Header: React.FC = () => {
   const navigate = useNavigate()
-  const { user, logout } = useAuth()
+  const { user, logout, can } = useAuth()
 
   return (
     <header className="bg-surface dark:bg-surface-dark shadow-sm border-b border-border dark:border-border-dark">
@@ -47,23 +48,85 @@ const Header: React.FC = () => {
                 >
                   Browse Modules
                 </a>
+                <a
+                  href="#"
+                  onClick={(e) => {
+                    e.preventDefault()
+                    navigate({ to: '/analytics' })
+                  }}
+                  className="inline-flex items-center px-1 pt-1 text-sm font-medium text-text-secondary dark:text-text-secondary-dark border-b-2 border-transparent hover:border-primary-dark"
+                >
+                  Analytics
+                </a>
+                <a
+                  href="#"
+                  onClick={(e) => {
+                    e.preventDefault()
+                    navigate({ to: '/certificates' })
+                  }}
+                  className="inline-flex items-center px-1 pt-1 text-sm font-medium text-text-secondary dark:text-text-secondary-dark border-b-2 border-transparent hover:border-primary-dark"
+                >
+                  Certificates
+                </a>
+                {can('users:manage') && (
+                  <a
+                    href="#"
+                    onClick={(e) => {
+                      e.preventDefault()
+                      navigate({ to: '/admin/users' })
+                    }}
+                    className="inline-flex items-center px-1 pt-1 text-sm font-medium text-text-secondary dark:text-text-secondary-dark border-b-2 border-transparent hover:border-primary-dark"
+                  >
+                    Users
+                  </a>
+                )}
+                {can('settings:manage') && (
+                  <a
+                    href="#"
+                    onClick={(e) => {
+                      e.preventDefault()
+                      navigate({ to: '/admin/certificate-templates' })
+                    }}
+                    className="inline-flex items-center px-1 pt-1 text-sm font-medium text-text-secondary dark:text-text-secondary-dark border-b-2 border-transparent hover:border-primary-dark"
+                  >
+                    Templates
+                  </a>
+                )}
+                {can('settings:manage') && (
+                  <a
+                    href="#"
+                    onClick={(e) => {
+                      e.preventDefault()
+                      navigate({ to: '/admin/settings' })
+                    }}
+                    className="inline-flex items-center px-1 pt-1 text-sm font-medium text-text-secondary dark:text-text-secondary-dark border-b-2 border-transparent hover:border-primary-dark"
+                  >
+                    Settings
+                  </a>
+                )}
               </nav>
             )}
           </div>
 
           <div className="flex items-center space-x-4">
-            {/* <ThemeToggle /> */}
+            {user && <SearchBox />}
+            <ThemeToggle />
 
             {user ? (
               <div className="flex items-center space-x-4">
-                <div className="flex items-center space-x-2">
+                <button
+                  type="button"
+                  onClick={() => navigate({ to: '/profile' })}
+                  className="flex items-center space-x-2 rounded-md hover:opacity-80"
+                  title="My profile"
+                >
                   <div className="h-8 w-8 rounded-full bg-primary/10 dark:bg-primary-dark/20 flex items-center justify-center">
                     <User className="h-4 w-4 text-primary dark:text-primary-dark" />
                   </div>
                   <span className="text-sm font-medium text-text-secondary dark:text-text-secondary-dark hidden md:inline-block">
                     {user.username}
                   </span>
-                </div>
+                </button>
 
                 <Button
                   variant="ghost"
@@ -0,0 +1,175 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { useNavigate } from '@tanstack/react-router'
+import { BookOpen, FileQuestion, Layers, Search } from 'lucide-react'
+import { apiClient } from '../../lib/apiClient'
+import { getSearchTerms, splitSnippet } from '../../../../shared/search'
+import { SearchResult, SearchResultKind } from '../../types'
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 200
+
+const KIND_ICONS: Record<SearchResultKind, React.ReactNode> = {
+  module: <Layers size={16} />,
+  lesson: <BookOpen size={16} />,
+  quiz: <FileQuestion size={16} />
+}
+
+const KIND_LABELS: Record<SearchResultKind, string> = {
+  module: 'Module',
+  lesson: 'Lesson',
+  quiz: 'Quiz'
+}
+
+const SearchBox: React.FC = () => {
+  const navigate = useNavigate()
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [searchedQuery, setSearchedQuery] = useState('')
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [isOpen, setIsOpen] = useState(false)
+
+  const hasTerms = getSearchTerms(query).length > 0
+
+  useEffect(() => {
+    if (!hasTerms) return
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      const result = await apiClient.searchModules(query)
+      if (cancelled) return
+      setResults(result.success && result.data ? result.data : [])
+      setSearchedQuery(query)
+      setActiveIndex(0)
+    }, SEARCH_DELAY_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query, hasTerms])
+
+  // Close the results when clicking anywhere else
+  useEffect(() => {
+    const handleMouseDown = (event: MouseEvent): void => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false)
+    }
+    document.addEventListener('mousedown', handleMouseDown)
+    return () => document.removeEventListener('mousedown', handleMouseDown)
+  }, [])
+
+  const openResult = (result: SearchResult): void => {
+    setIsOpen(false)
+    const moduleId = String(result.moduleId)
+
+    if (result.kind === 'lesson' && result.targetId) {
+      navigate({
+        to: '/modules/$moduleId/learn/$lessonId',
+        params: { moduleId, lessonId: result.targetId },
+        search: { q: searchedQuery }
+      })
+    } else if (result.kind === 'quiz' && result.targetId) {
+      navigate({ to: `/modules/${moduleId}/quiz/${result.targetId}` })
+    } else {
+      navigate({ to: `/modules/${moduleId}` })
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>): void => {
+    if (e.key === 'Escape') {
+      setIsOpen(false)
+    } else if (e.key === 'ArrowDown' && results.length > 0) {
+      e.preventDefault()
+      setIsOpen(true)
+      setActiveIndex((index) => (index + 1) % results.length)
+    } else if (e.key === 'ArrowUp' && results.length > 0) {
+      e.preventDefault()
+      setActiveIndex((index) => (index - 1 + results.length) % results.length)
+    } else if (e.key === 'Enter' && isOpen && results[activeIndex]) {
+      e.preventDefault()
+      openResult(results[activeIndex])
+    }
+  }
+
+  const showResults = isOpen && hasTerms && searchedQuery !== ''
+
+  return (
+    <div ref={containerRef} className="relative w-40 lg:w-64">
+      <Search
+        size={16}
+        className="absolute left-3 top-1/2 -translate-y-1/2 text-text-secondary dark:text-text-secondary-dark pointer-events-none"
+      />
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value)
+          setIsOpen(true)
+        }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search lessons..."
+        aria-label="Search modules, lessons and quizzes"
+        className="h-9 w-full rounded-md border border-border bg-background pl-9 pr-3 text-sm placeholder:text-text-secondary focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary dark:border-border-dark dark:bg-background-dark dark:placeholder:text-text-secondary-dark dark:focus-visible:ring-primary-dark"
+      />
+
+      {showResults && (
+        <div className="absolute right-0 mt-2 w-96 max-h-[28rem] overflow-y-auto rounded-md border border-border bg-surface shadow-lg z-50 dark:border-border-dark dark:bg-surface-dark">
+          {results.length === 0 ? (
+            <p className="p-4 text-sm text-text-secondary dark:text-text-secondary-dark">
+              Nothing matches &ldquo;{searchedQuery}&rdquo;
+            </p>
+          ) : (
+            <ul role="listbox">
+              {results.map((result, index) => (
+                <li
+                  key={`${result.moduleId}:${result.kind}:${result.targetId}`}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                >
+                  <button
+                    type="button"
+                    onClick={() => openResult(result)}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    className={`w-full flex items-start p-3 text-left ${
+                      index === activeIndex ? 'bg-primary/5 dark:bg-primary-dark/10' : ''
+                    }`}
+                  >
+                    <span className="mr-3 mt-0.5 shrink-0 text-primary dark:text-primary-dark">
+                      {KIND_ICONS[result.kind]}
+                    </span>
+                    <span className="min-w-0">
+                      <span className="block text-sm font-medium text-text dark:text-text-dark truncate">
+                        {result.title}
+                      </span>
+                      <span className="block text-xs text-text-secondary dark:text-text-secondary-dark truncate">
+                        {KIND_LABELS[result.kind]}
+                        {result.kind !== 'module' && ` · ${result.moduleTitle}`}
+                      </span>
+                      <span className="block mt-1 text-xs text-text-secondary dark:text-text-secondary-dark line-clamp-2">
+                        {splitSnippet(result.snippet).map((part, partIndex) =>
+                          part.match ? (
+                            <mark
+                              key={partIndex}
+                              className="bg-warning/30 text-text dark:text-text-dark rounded-sm"
+                            >
+                              {part.text}
+                            </mark>
+                          ) : (
+                            <React.Fragment key={partIndex}>{part.text}</React.Fragment>
+                          )
+                        )}
+                      </span>
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SearchBox
@@ -0,0 +1,66 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { Check, Copy } from 'lucide-react'
+import { cn } from '../../lib/utils'
+import { isLineInRanges, parseLineRanges } from '../../../../shared/codeBlocks'
+import { highlightCodeLines } from '../../utils/codeHighlighting'
+
+interface CodeBlockProps {
+  code: string
+  language?: string
+  highlightLines?: string // e.g. "2-4, 7"
+}
+
+const CodeBlock: React.FC<CodeBlockProps> = ({ code, language, highlightLines }) => {
+  const [copied, setCopied] = useState(false)
+
+  const lines = useMemo(() => highlightCodeLines(code, language), [code, language])
+  const ranges = useMemo(
+    () => (highlightLines && parseLineRanges(highlightLines)) || [],
+    [highlightLines]
+  )
+
+  useEffect(() => {
+    if (!copied) return
+    const timer = setTimeout(() => setCopied(false), 2000)
+    return () => clearTimeout(timer)
+  }, [copied])
+
+  const copyCode = async (): Promise<void> => {
+    try {
+      await navigator.clipboard.writeText(code)
+      setCopied(true)
+    } catch (error) {
+      console.error('Failed to copy code:', error)
+    }
+  }
+
+  return (
+    <div className="rounded-lg overflow-hidden border border-border dark:border-border-dark bg-background dark:bg-background-dark">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-border dark:border-border-dark text-xs text-text-secondary dark:text-text-secondary-dark">
+        <span className="font-mono">{language || 'code'}</span>
+        <button
+          type="button"
+          onClick={copyCode}
+          className="flex items-center gap-1 hover:text-text dark:hover:text-text-dark transition-colors"
+        >
+          {copied ? <Check size={14} /> : <Copy size={14} />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre className="py-4 overflow-x-auto text-sm text-text dark:text-text-dark">
+        {/* Line numbers are drawn by CSS so they are left out when code is selected */}
+        <code className="hljs code-lines">
+          {lines.map((html, index) => (
+            <span
+              key={index}
+              className={cn('code-line', isLineInRanges(index + 1, ranges) && 'code-line-marked')}
+              dangerouslySetInnerHTML={{ __html: html }}
+            />
+          ))}
+        </code>
+      </pre>
+    </div>
+  )
+}
+
+export default CodeBlock
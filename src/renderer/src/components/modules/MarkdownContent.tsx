@@ -0,0 +1,170 @@
+import React from 'react'
+import Markdown, { Components, defaultUrlTransform, UrlTransform } from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import rehypeKatex from 'rehype-katex'
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize'
+import 'katex/dist/katex.min.css'
+import { cn } from '../../lib/utils'
+import { ModuleValidator } from '../../../../shared/moduleSchema'
+
+// Everything else is unwrapped to its text. Raw HTML in the source is never rendered.
+// Formulas are rendered by KaTeX after sanitizing, so its markup is not listed here.
+const ALLOWED_ELEMENTS = [
+  'p',
+  'br',
+  'hr',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'strong',
+  'em',
+  'del',
+  'blockquote',
+  'ul',
+  'ol',
+  'li',
+  'input', // task list checkboxes, always disabled
+  'a',
+  'img',
+  'code',
+  'pre',
+  'table',
+  'thead',
+  'tbody',
+  'tr',
+  'th',
+  'td',
+  'section', // footnotes
+  'sup'
+]
+
+// Footnote IDs are already prefixed with "user-content-" when the Markdown is
+// converted, so the sanitizer must not prefix them again and break their links
+const SANITIZE_SCHEMA = {
+  ...defaultSchema,
+  tagNames: ALLOWED_ELEMENTS,
+  attributes: {
+    ...defaultSchema.attributes,
+    // Marks $inline$ and $$display$$ formulas for KaTeX
+    code: [['className', /^language-./, 'math-inline', 'math-display']]
+  },
+  clobber: []
+}
+
+const components: Components = {
+  h1: ({ children }) => <h1 className="text-2xl font-bold mt-6 mb-3">{children}</h1>,
+  // The footnotes heading is only for screen readers
+  h2: ({ children, className }) => (
+    <h2 className={className === 'sr-only' ? className : 'text-xl font-bold mt-6 mb-3'}>
+      {children}
+    </h2>
+  ),
+  h3: ({ children }) => <h3 className="text-lg font-semibold mt-5 mb-2">{children}</h3>,
+  h4: ({ children }) => <h4 className="font-semibold mt-4 mb-2">{children}</h4>,
+  h5: ({ children }) => <h5 className="font-semibold mt-4 mb-2">{children}</h5>,
+  h6: ({ children }) => <h6 className="font-semibold mt-4 mb-2">{children}</h6>,
+  p: ({ children }) => <p className="mb-4">{children}</p>,
+  ul: ({ children, className }) => (
+    <ul
+      className={`mb-4 pl-6 space-y-1 ${className === 'contains-task-list' ? 'list-none' : 'list-disc'}`}
+    >
+      {children}
+    </ul>
+  ),
+  ol: ({ children, start }) => (
+    <ol start={start} className="mb-4 pl-6 space-y-1 list-decimal">
+      {children}
+    </ol>
+  ),
+  blockquote: ({ children }) => (
+    <blockquote className="mb-4 pl-4 border-l-4 border-border dark:border-border-dark text-text-secondary dark:text-text-secondary-dark">
+      {children}
+    </blockquote>
+  ),
+  // New windows are handed to the main process, which opens web links in the browser
+  a: ({ children, href, id }) =>
+    href?.startsWith('#') ? (
+      <a href={href} id={id} className="text-primary dark:text-primary-dark underline">
+        {children}
+      </a>
+    ) : (
+      <a
+        href={href}
+        target="_blank"
+        rel="noreferrer"
+        className="text-primary dark:text-primary-dark underline"
+      >
+        {children}
+      </a>
+    ),
+  img: ({ src, alt, title }) => (
+    <img src={src} alt={alt} title={title} className="max-w-full h-auto rounded-lg my-4" />
+  ),
+  hr: () => <hr className="my-6 border-border dark:border-border-dark" />,
+  pre: ({ children }) => (
+    <pre className="mb-4 p-4 bg-surface-dark text-text-dark rounded-lg overflow-x-auto [&_code]:bg-transparent [&_code]:p-0">
+      {children}
+    </pre>
+  ),
+  code: ({ children, className }) => (
+    <code
+      className={cn(
+        'font-mono text-sm px-1 py-0.5 rounded bg-surface-dark/10 dark:bg-surface/10',
+        className
+      )}
+    >
+      {children}
+    </code>
+  ),
+  table: ({ children }) => (
+    <div className="mb-4 overflow-x-auto">
+      <table className="min-w-full text-sm border-collapse">{children}</table>
+    </div>
+  ),
+  th: ({ children, style }) => (
+    <th
+      style={style}
+      className="px-3 py-2 border border-border dark:border-border-dark font-semibold text-left"
+    >
+      {children}
+    </th>
+  ),
+  td: ({ children, style }) => (
+    <td style={style} className="px-3 py-2 border border-border dark:border-border-dark">
+      {children}
+    </td>
+  ),
+  input: ({ checked }) => (
+    <input type="checkbox" checked={checked} readOnly disabled className="mr-2" />
+  )
+}
+
+interface MarkdownContentProps {
+  children: string
+  mediaKey?: string | null // resolves images bundled in a .oamod package
+}
+
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ children, mediaKey }) => {
+  const urlTransform: UrlTransform = (url, key) =>
+    key === 'src' && mediaKey && ModuleValidator.isRelativeMediaPath(url)
+      ? ModuleValidator.toMediaUrl(url, mediaKey)
+      : defaultUrlTransform(url)
+
+  return (
+    <Markdown
+      remarkPlugins={[remarkGfm, remarkMath]}
+      rehypePlugins={[[rehypeSanitize, SANITIZE_SCHEMA], rehypeKatex]}
+      skipHtml
+      urlTransform={urlTransform}
+      components={components}
+    >
+      {children}
+    </Markdown>
+  )
+}
+
+export default MarkdownContent
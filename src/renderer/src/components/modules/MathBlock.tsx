@@ -0,0 +1,22 @@
+import React, { useMemo } from 'react'
+import katex from 'katex'
+import 'katex/dist/katex.min.css'
+
+interface MathBlockProps {
+  latex: string
+}
+
+const MathBlock: React.FC<MathBlockProps> = ({ latex }) => {
+  // KaTeX escapes the source and, without the `trust` option, never emits links
+  // or raw HTML. Invalid LaTeX is shown in red instead of throwing.
+  const html = useMemo(
+    () => katex.renderToString(latex, { displayMode: true, throwOnError: false }),
+    [latex]
+  )
+
+  return (
+    <div className="overflow-x-auto overflow-y-hidden" dangerouslySetInnerHTML={{ __html: html }} />
+  )
+}
+
+export default MathBlock
@@ -1,11 +1,10 @@
 import React, { useState } from 'react'
 import { Award, Download, CheckCircle, Clock } from 'lucide-react'
 import { useAuth } from '../../hooks/useAuth'
-import { useProgress } from '../../hooks/useProgress'
+import { useCertificateDownload } from '../../hooks/useCertificateDownload'
 import Button from '../ui/Button'
 import Modal from '../ui/Modal'
 import { Module, UserProgress } from '../../types'
-import { generateCertificate, saveCertificate } from '../../services/certificateService'
 import { formatDuration, formatDateShort } from '../../lib/utils'
 
 interface ModuleCompletionModalProps {
@@ -24,30 +23,16 @@ const ModuleCompletionModal: React.FC<ModuleCompletionModalProps> = ({
   onContinue
 }) => {
   const { user } = useAuth()
-  const { generateCertificate: saveCertificateToStore } = useProgress()
-  const [isGeneratingCertificate, setIsGeneratingCertificate] = useState(false)
+  const { downloadCertificate, isGenerating: isGeneratingCertificate } = useCertificateDownload()
   const [certificateGenerated, setCertificateGenerated] = useState(false)
 
   const handleGenerateCertificate = async (): Promise<void> => {
     if (!user) return
 
-    setIsGeneratingCertificate(true)
     try {
-      // Generate certificate record in backend and get certificate code
-      await saveCertificateToStore(user.id, module.id)
-
-      // Generate the PDF certificate
-      const certificateDataUrl = await generateCertificate(user, module)
-
-      // Download the certificate
-      const fileName = `${module.title.replace(/[^a-zA-Z0-9]/g, '_')}_Certificate.pdf`
-      saveCertificate(certificateDataUrl, fileName)
-
-      setCertificateGenerated(true)
-    } catch (error) {
-      console.error('Failed to generate certificate:', error)
-    } finally {
-      setIsGeneratingCertificate(false)
+      setCertificateGenerated(await downloadCertificate(user, module))
+    } catch {
+      // Already logged by the hook; the learner can try again
     }
   }
 
@@ -0,0 +1,154 @@
+import React from 'react'
+import { X } from 'lucide-react'
+import Button from '../ui/Button'
+import { Card, CardContent } from '../ui/Card'
+import {
+  DIFFICULTY_LABELS,
+  DURATION_LABELS,
+  hasActiveFilters,
+  STATUS_LABELS
+} from '../../../../shared/moduleFilters'
+import {
+  FacetCount,
+  ModuleDifficulty,
+  ModuleDuration,
+  ModuleFacets,
+  ModuleFilters,
+  ModuleStatus
+} from '../../types'
+
+type Facet = Exclude<keyof ModuleFilters, 'sort'>
+
+interface ModuleFilterPanelProps {
+  facets: ModuleFacets | null
+  filters: ModuleFilters
+  onChange: (filters: ModuleFilters) => void
+}
+
+interface FacetSectionProps {
+  title: string
+  counts: FacetCount[]
+  selected: string[]
+  getLabel?: (value: string) => string
+  onToggle: (value: string) => void
+}
+
+const FacetSection: React.FC<FacetSectionProps> = ({
+  title,
+  counts,
+  selected,
+  getLabel = (value) => value,
+  onToggle
+}) => {
+  // Keep chosen values visible even when the other filters leave them no modules
+  const options = [
+    ...counts,
+    ...selected
+      .filter((value) => !counts.some((count) => count.value === value))
+      .map((value) => ({ value, count: 0 }))
+  ]
+  if (options.length === 0) return null
+
+  return (
+    <fieldset>
+      <legend className="text-sm font-semibold mb-2 text-text dark:text-text-dark">{title}</legend>
+      <ul className="space-y-1 max-h-48 overflow-y-auto">
+        {options.map(({ value, count }) => (
+          <li key={value}>
+            <label className="flex items-center justify-between text-sm cursor-pointer">
+              <span className="flex items-center min-w-0">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(value)}
+                  onChange={() => onToggle(value)}
+                  className="mr-2 shrink-0 accent-primary dark:accent-primary-dark"
+                />
+                <span
+                  className={`truncate ${count === 0 && !selected.includes(value) ? 'text-text-secondary dark:text-text-secondary-dark' : ''}`}
+                >
+                  {getLabel(value)}
+                </span>
+              </span>
+              <span className="ml-2 text-xs text-text-secondary dark:text-text-secondary-dark">
+                {count}
+              </span>
+            </label>
+          </li>
+        ))}
+      </ul>
+    </fieldset>
+  )
+}
+
+const ModuleFilterPanel: React.FC<ModuleFilterPanelProps> = ({ facets, filters, onChange }) => {
+  const toggle = (facet: Facet, value: string): void => {
+    const selected: string[] = filters[facet] || []
+    onChange({
+      ...filters,
+      [facet]: selected.includes(value)
+        ? selected.filter((item) => item !== value)
+        : [...selected, value]
+    })
+  }
+
+  const clearFilters = (): void => {
+    onChange({ sort: filters.sort })
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-5">
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold text-text dark:text-text-dark">Filters</h2>
+          {hasActiveFilters(filters) && (
+            <Button variant="ghost" size="sm" onClick={clearFilters} leftIcon={<X size={14} />}>
+              Clear
+            </Button>
+          )}
+        </div>
+
+        {!facets ? (
+          <p className="text-sm text-text-secondary dark:text-text-secondary-dark">Loading...</p>
+        ) : (
+          <>
+            <FacetSection
+              title="Status"
+              counts={facets.statuses}
+              selected={filters.statuses || []}
+              getLabel={(value) => STATUS_LABELS[value as ModuleStatus]}
+              onToggle={(value) => toggle('statuses', value)}
+            />
+            <FacetSection
+              title="Difficulty"
+              counts={facets.difficulties}
+              selected={filters.difficulties || []}
+              getLabel={(value) => DIFFICULTY_LABELS[value as ModuleDifficulty]}
+              onToggle={(value) => toggle('difficulties', value)}
+            />
+            <FacetSection
+              title="Duration"
+              counts={facets.durations}
+              selected={filters.durations || []}
+              getLabel={(value) => DURATION_LABELS[value as ModuleDuration]}
+              onToggle={(value) => toggle('durations', value)}
+            />
+            <FacetSection
+              title="Tags"
+              counts={facets.tags}
+              selected={filters.tags || []}
+              onToggle={(value) => toggle('tags', value)}
+            />
+            <FacetSection
+              title="Author"
+              counts={facets.authors}
+              selected={filters.authors || []}
+              onToggle={(value) => toggle('authors', value)}
+            />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default ModuleFilterPanel
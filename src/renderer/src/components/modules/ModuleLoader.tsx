@@ -1,19 +1,37 @@
 /* eslint-disable @typescript-eslint/explicit-function-return-type */
 import React, { useState } from 'react'
-import { Upload, AlertCircle, CheckCircle, Clock, BookOpen, Lock } from 'lucide-react'
+import {
+  Upload,
+  AlertCircle,
+  CheckCircle,
+  Clock,
+  BookOpen,
+  Lock,
+  FolderOpen,
+  XCircle,
+  ArrowUpCircle,
+  Package
+} from 'lucide-react'
 import Modal from '../ui/Modal'
 import Button from '../ui/Button'
 import Input from '../ui/Input'
 import FileUpload from '../ui/FileUpload'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/Card'
 import { ModuleLoaderService, ModuleLoadResult } from '../../services/moduleLoader'
-import { Module } from '../../types'
+import { Module, ModuleImportReport, ModulePendingUpgrade } from '../../types'
 import { formatTime } from '../../lib/utils'
+import {
+  ModuleContentDiff,
+  ModuleItemRef,
+  hasContentChanges
+} from '../../../../shared/moduleVersion'
 
 interface ModuleLoaderProps {
   isOpen: boolean
   onClose: () => void
-  onModuleLoaded: (module: Module) => void
+  onModuleLoaded: (module: Module, packageId?: string) => void
+  onModulesImported?: (moduleIds: number[]) => void
+  onModuleUpgrade?: (moduleId: number, module: Module, packageId?: string) => void
   existingModules: Module[]
 }
 
@@ -24,6 +42,8 @@ const ModuleLoader: React.FC<ModuleLoaderProps> = ({
   isOpen,
   onClose,
   onModuleLoaded,
+  onModulesImported,
+  onModuleUpgrade,
   existingModules
 }) => {
   const [activeTab, setActiveTab] = useState<LoadMethod>('file')
@@ -31,12 +51,14 @@ const ModuleLoader: React.FC<ModuleLoaderProps> = ({
   const [loadingState, setLoadingState] = useState<LoadingState>('idle')
   const [loadResult, setLoadResult] = useState<ModuleLoadResult | null>(null)
   const [loadedModule, setLoadedModule] = useState<Module | null>(null)
+  const [importReport, setImportReport] = useState<ModuleImportReport | null>(null)
 
   const resetState = () => {
     setUrl('')
     setLoadingState('idle')
     setLoadResult(null)
     setLoadedModule(null)
+    setImportReport(null)
   }
 
   const handleClose = () => {
@@ -89,12 +111,105 @@ const ModuleLoader: React.FC<ModuleLoaderProps> = ({
     }
   }
 
+  const handleOpenPackage = async () => {
+    setLoadingState('loading')
+    setImportReport(null)
+
+    try {
+      const result = await ModuleLoaderService.openPackage()
+      if (!result) {
+        setLoadingState('idle')
+        return
+      }
+
+      setLoadResult(result)
+      if (result.success && result.module) {
+        setLoadedModule(result.module)
+        setLoadingState('success')
+      } else {
+        setLoadingState('error')
+      }
+    } catch (error) {
+      setLoadResult({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to open module package'
+      })
+      setLoadingState('error')
+    }
+  }
+
+  const handleImportFromDisk = async () => {
+    setLoadingState('loading')
+    setLoadResult(null)
+    setImportReport(null)
+
+    const { report, error } = await ModuleLoaderService.importFromDisk()
+
+    if (error || !report) {
+      setLoadResult({ success: false, error: error || 'Failed to import modules' })
+      setLoadingState('error')
+      return
+    }
+
+    if (report.canceled) {
+      setLoadingState('idle')
+      return
+    }
+
+    setImportReport(report)
+    setLoadingState('idle')
+
+    if (report.importedIds.length > 0) {
+      onModulesImported?.(report.importedIds)
+    }
+  }
+
+  const handleConfirmUpgrade = async (pendingId: string) => {
+    setLoadingState('loading')
+    const { report, error } = await ModuleLoaderService.confirmUpgrade(pendingId)
+
+    if (error || !report) {
+      setLoadResult({ success: false, error: error || 'Failed to upgrade module' })
+      setLoadingState('error')
+      return
+    }
+
+    // Swap the held-back file for the outcome of its upgrade
+    setImportReport(
+      (current) =>
+        current && {
+          ...current,
+          files: current.files.map((file) =>
+            file.pendingUpgrade?.pendingId === pendingId ? report.files[0] : file
+          ),
+          importedIds: [...current.importedIds, ...report.importedIds]
+        }
+    )
+    setLoadingState('idle')
+
+    if (report.importedIds.length > 0) {
+      onModulesImported?.(report.importedIds)
+    }
+  }
+
+  const duplicateCheck = loadedModule
+    ? ModuleLoaderService.checkForDuplicates(loadedModule, existingModules)
+    : null
+  const isTitleDuplicate = duplicateCheck?.duplicateType === 'title'
+
   const handleConfirmLoad = () => {
     if (loadedModule) {
-      // Check for duplicates
-      const duplicateCheck = ModuleLoaderService.checkForDuplicates(loadedModule, existingModules)
+      // Same title means a new version of an installed module
+      if (isTitleDuplicate) {
+        if (duplicateCheck?.isUpgrade && duplicateCheck.existingModule && onModuleUpgrade) {
+          onModuleUpgrade(duplicateCheck.existingModule.id, loadedModule, loadResult?.packageId)
+          handleClose()
+        }
+        return
+      }
 
-      if (duplicateCheck.isDuplicate) {
+      // Check for duplicates
+      if (duplicateCheck?.isDuplicate) {
         const confirmMessage = `A module with the same ${duplicateCheck.duplicateType} already exists: "${duplicateCheck.existingModule?.title}". Do you want to replace it?`
 
         if (!confirm(confirmMessage)) {
@@ -102,11 +217,105 @@ const ModuleLoader: React.FC<ModuleLoaderProps> = ({
         }
       }
 
-      onModuleLoaded(loadedModule)
+      onModuleLoaded(loadedModule, loadResult?.packageId)
       handleClose()
     }
   }
 
+  const renderDiffList = (label: string, items: ModuleItemRef[], marker: string) => {
+    if (items.length === 0) return null
+
+    return (
+      <div>
+        <p className="font-medium">{label}</p>
+        <ul className="text-gray-600 dark:text-gray-400 space-y-1">
+          {items.map((item) => (
+            <li key={item.id}>
+              {marker} {item.title}
+            </li>
+          ))}
+        </ul>
+      </div>
+    )
+  }
+
+  const renderUpgradeDetails = () => {
+    if (!isTitleDuplicate || !duplicateCheck?.existingModule || !loadedModule) return null
+
+    const { existingModule, diff, isUpgrade } = duplicateCheck
+
+    if (!isUpgrade) {
+      return (
+        <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4">
+          <div className="flex items-center mb-2">
+            <AlertCircle className="text-yellow-500 mr-2" size={16} />
+            <h4 className="text-sm font-medium text-yellow-800 dark:text-yellow-200">
+              Already Installed
+            </h4>
+          </div>
+          <p className="text-sm text-yellow-700 dark:text-yellow-300">
+            Version {existingModule.version} of &quot;{existingModule.title}&quot; is installed.
+            Only a newer version (this file is {loadedModule.version}) can replace it.
+          </p>
+        </div>
+      )
+    }
+
+    return (
+      <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4 space-y-3">
+        <div className="flex items-center">
+          <ArrowUpCircle className="text-blue-500 mr-2" size={16} />
+          <h4 className="text-sm font-medium text-blue-800 dark:text-blue-200">
+            Upgrade {existingModule.version} → {loadedModule.version}
+          </h4>
+        </div>
+        {renderUpgradeDiff(diff)}
+      </div>
+    )
+  }
+
+  const renderUpgradeDiff = (diff?: ModuleContentDiff) => {
+    const removedCount = (diff?.lessons.removed.length || 0) + (diff?.quizzes.removed.length || 0)
+
+    return (
+      <>
+        <p className="text-sm text-blue-700 dark:text-blue-300">
+          Learner progress is kept for every lesson and quiz that is still in the module.
+          {removedCount > 0 && ` Progress for ${removedCount} removed item(s) will be discarded.`}
+        </p>
+        {diff && hasContentChanges(diff) ? (
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            {renderDiffList('Lessons added', diff.lessons.added, '+')}
+            {renderDiffList('Lessons removed', diff.lessons.removed, '−')}
+            {renderDiffList('Lessons changed', diff.lessons.changed, '~')}
+            {renderDiffList('Quizzes added', diff.quizzes.added, '+')}
+            {renderDiffList('Quizzes removed', diff.quizzes.removed, '−')}
+            {renderDiffList('Quizzes changed', diff.quizzes.changed, '~')}
+          </div>
+        ) : (
+          <p className="text-sm text-blue-700 dark:text-blue-300">No lessons or quizzes changed.</p>
+        )}
+      </>
+    )
+  }
+
+  const renderPendingUpgrade = (upgrade: ModulePendingUpgrade) => (
+    <div className="space-y-3">
+      <p className="text-sm font-medium text-blue-800 dark:text-blue-200">
+        Upgrade {upgrade.fromVersion} → {upgrade.toVersion}
+      </p>
+      {renderUpgradeDiff(upgrade.diff)}
+      <Button
+        size="sm"
+        onClick={() => handleConfirmUpgrade(upgrade.pendingId)}
+        disabled={loadingState === 'loading'}
+        leftIcon={<ArrowUpCircle size={14} />}
+      >
+        Upgrade to {upgrade.toVersion}
+      </Button>
+    </div>
+  )
+
   const renderValidationResults = () => {
     if (!loadResult?.validationResult) return null
 
@@ -149,6 +358,58 @@ const ModuleLoader: React.FC<ModuleLoaderProps> = ({
     )
   }
 
+  const renderImportReport = () => {
+    if (!importReport) return null
+
+    const pendingCount = importReport.files.filter((file) => file.pendingUpgrade).length
+
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Imported {importReport.importedIds.length} of {importReport.files.length} file
+          {importReport.files.length === 1 ? '' : 's'}.
+          {pendingCount > 0 && ` ${pendingCount} upgrade(s) waiting for your confirmation.`}
+        </p>
+        {importReport.files.map((file) => (
+          <div
+            key={file.filePath}
+            className="border border-border dark:border-border-dark rounded-lg p-4 space-y-2"
+          >
+            <div className="flex items-center">
+              {file.success ? (
+                <CheckCircle className="text-green-500 mr-2 shrink-0" size={16} />
+              ) : file.pendingUpgrade ? (
+                <ArrowUpCircle className="text-blue-500 mr-2 shrink-0" size={16} />
+              ) : (
+                <XCircle className="text-red-500 mr-2 shrink-0" size={16} />
+              )}
+              <span className="text-sm font-medium truncate">
+                {file.success
+                  ? file.moduleTitle
+                  : file.pendingUpgrade?.moduleTitle || file.fileName}
+              </span>
+            </div>
+            {file.pendingUpgrade && renderPendingUpgrade(file.pendingUpgrade)}
+            {file.errors.length > 0 && (
+              <ul className="text-sm text-red-700 dark:text-red-300 space-y-1">
+                {file.errors.map((error, index) => (
+                  <li key={index}>• {error}</li>
+                ))}
+              </ul>
+            )}
+            {file.warnings.length > 0 && (
+              <ul className="text-sm text-yellow-700 dark:text-yellow-300 space-y-1">
+                {file.warnings.map((warning, index) => (
+                  <li key={index}>• {warning}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+    )
+  }
+
   const renderModulePreview = () => {
     if (!loadedModule) return null
 
@@ -267,6 +528,31 @@ const ModuleLoader: React.FC<ModuleLoaderProps> = ({
                 Module File
               </label>
               <FileUpload onFileSelect={handleLoadFromFile} disabled={loadingState === 'loading'} />
+              <div className="flex items-center my-4">
+                <div className="flex-1 border-t border-border dark:border-border-dark" />
+                <span className="px-3 text-xs text-gray-500 dark:text-gray-400">or</span>
+                <div className="flex-1 border-t border-border dark:border-border-dark" />
+              </div>
+              <div className="flex space-x-3">
+                <Button
+                  variant="outline"
+                  onClick={handleOpenPackage}
+                  disabled={loadingState === 'loading'}
+                  leftIcon={<Package size={16} />}
+                  className="flex-1"
+                >
+                  Open Package
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={handleImportFromDisk}
+                  disabled={loadingState === 'loading'}
+                  leftIcon={<FolderOpen size={16} />}
+                  className="flex-1"
+                >
+                  Import Several Files
+                </Button>
+              </div>
             </div>
           )}
 
@@ -296,18 +582,30 @@ const ModuleLoader: React.FC<ModuleLoaderProps> = ({
             </div>
           )}
 
+          {/* Import Report */}
+          {importReport && renderImportReport()}
+
           {/* Success State */}
           {loadingState === 'success' && loadedModule && (
             <div className="space-y-4">
               {renderValidationResults()}
+              {renderUpgradeDetails()}
               {renderModulePreview()}
 
               <div className="flex space-x-3 pt-4">
                 <Button variant="outline" onClick={handleClose} className="flex-1">
                   Cancel
                 </Button>
-                <Button onClick={handleConfirmLoad} className="flex-1">
-                  Add Module
+                <Button
+                  onClick={handleConfirmLoad}
+                  className="flex-1"
+                  disabled={isTitleDuplicate && !duplicateCheck?.isUpgrade}
+                >
+                  {isTitleDuplicate
+                    ? duplicateCheck?.isUpgrade
+                      ? `Upgrade to ${loadedModule.version}`
+                      : 'Already Installed'
+                    : 'Add Module'}
                 </Button>
               </div>
             </div>
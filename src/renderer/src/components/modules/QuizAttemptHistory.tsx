@@ -0,0 +1,61 @@
+import React from 'react'
+import { Check, Clock, X } from 'lucide-react'
+import { Quiz, QuizAttempt } from '../../types'
+import { formatDateShort, formatSeconds } from '../../lib/utils'
+
+interface QuizAttemptHistoryProps {
+  quiz: Quiz
+  attempts: QuizAttempt[] // newest first
+}
+
+const QuizAttemptHistory: React.FC<QuizAttemptHistoryProps> = ({ quiz, attempts }) => {
+  if (attempts.length === 0) return null
+
+  return (
+    <div className="text-left">
+      <div className="flex justify-between items-baseline mb-2">
+        <h4 className="text-sm font-semibold text-text dark:text-text-dark">Previous Attempts</h4>
+        <span className="text-xs text-text-secondary dark:text-text-secondary-dark">
+          {quiz.scoring === 'latest' ? 'Latest score counts' : 'Best score counts'}
+          {quiz.maxAttempts ? ` · ${attempts.length} of ${quiz.maxAttempts} used` : ''}
+        </span>
+      </div>
+      <ul className="divide-y divide-border dark:divide-border-dark rounded-lg border border-border dark:border-border-dark max-h-48 overflow-y-auto">
+        {attempts.map((attempt, index) => (
+          <li key={attempt.id} className="flex items-center justify-between px-3 py-2 text-sm">
+            <div className="flex items-center space-x-2">
+              {attempt.passed ? (
+                <Check size={14} className="text-success dark:text-success-dark" />
+              ) : (
+                <X size={14} className="text-error dark:text-error-dark" />
+              )}
+              <span className="text-text dark:text-text-dark">
+                Attempt {attempts.length - index}
+              </span>
+              <span className="text-xs text-text-secondary dark:text-text-secondary-dark">
+                {formatDateShort(attempt.completed_at)}
+              </span>
+            </div>
+            <div className="flex items-center space-x-3">
+              <span className="flex items-center text-xs text-text-secondary dark:text-text-secondary-dark">
+                <Clock size={12} className="mr-1" />
+                {formatSeconds(attempt.duration_seconds)}
+              </span>
+              <span
+                className={`font-medium ${
+                  attempt.passed
+                    ? 'text-success dark:text-success-dark'
+                    : 'text-error dark:text-error-dark'
+                }`}
+              >
+                {attempt.score}%
+              </span>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export default QuizAttemptHistory
@@ -0,0 +1,272 @@
+import React, { useState } from 'react'
+import { CheckCircle, Clock, Lock, ShieldAlert, ShieldCheck, XCircle } from 'lucide-react'
+import Button from '../ui/Button'
+import Input from '../ui/Input'
+import Modal from '../ui/Modal'
+import { apiClient } from '../../lib/apiClient'
+import { useAuth } from '../../hooks/useAuth'
+import { formatDateShort } from '../../lib/utils'
+import { LearnerProfileImportResult, LearnerProfileSummary } from '../../types'
+
+interface ProfileImportModalProps {
+  profile: LearnerProfileSummary | null
+  reviewId?: number // set when an administrator reviews a learner's own import
+  onClose: () => void
+  onImported: (result: LearnerProfileImportResult) => void
+  onRejected?: () => void
+}
+
+const TRUST_LABELS = {
+  here: 'Exported from this computer',
+  installation: 'Exported from a trusted installation',
+  classroom: 'Exported from a computer in this classroom'
+}
+
+const ProfileImportModal: React.FC<ProfileImportModalProps> = ({
+  profile,
+  reviewId,
+  onClose,
+  onImported,
+  onRejected
+}) => {
+  const { can } = useAuth()
+  const [password, setPassword] = useState('')
+  const [trustIssuer, setTrustIssuer] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const [isRejecting, setIsRejecting] = useState(false)
+  const [result, setResult] = useState<LearnerProfileImportResult | null>(null)
+
+  const isReview = reviewId !== undefined
+  // Administrators import straight away; a learner's import waits for their review
+  const canManage = can('users:manage')
+  const needsPassword = canManage && !isReview && profile !== null && !profile.accountExists
+  const blocked = profile !== null && !profile.trust && !canManage
+  const installedCount = profile ? profile.modules.filter((module) => module.installed).length : 0
+
+  const handleClose = (): void => {
+    setPassword('')
+    setTrustIssuer(false)
+    setError(null)
+    setResult(null)
+    onClose()
+  }
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault()
+    if (!profile) return
+
+    setIsImporting(true)
+    const imported = isReview
+      ? await apiClient.approveLearnerProfileReview(reviewId)
+      : await apiClient.importLearnerProfile(
+          profile.profileId!,
+          needsPassword ? password : undefined,
+          trustIssuer
+        )
+    setIsImporting(false)
+
+    if (!imported.success || !imported.data) {
+      setError(imported.error || 'Failed to import profile')
+      return
+    }
+
+    setResult(imported.data)
+    onImported(imported.data)
+  }
+
+  const handleReject = async (): Promise<void> => {
+    if (!isReview) return
+
+    setIsRejecting(true)
+    const rejected = await apiClient.rejectLearnerProfileReview(reviewId)
+    setIsRejecting(false)
+
+    if (!rejected.success) {
+      setError(rejected.error || 'Failed to reject profile import')
+      return
+    }
+
+    onRejected?.()
+    handleClose()
+  }
+
+  if (result?.pendingReview) {
+    return (
+      <Modal
+        isOpen={profile !== null}
+        onClose={handleClose}
+        title="Profile Sent for Review"
+        size="md"
+      >
+        <div className="p-6 space-y-4 text-sm">
+          <p className="flex items-start">
+            <Clock size={16} className="mr-2 mt-0.5 text-primary dark:text-primary-dark shrink-0" />
+            An administrator will check your profile. Your progress and certificates are added once
+            they approve it.
+          </p>
+          <div className="flex justify-end pt-2">
+            <Button onClick={handleClose}>Done</Button>
+          </div>
+        </div>
+      </Modal>
+    )
+  }
+
+  if (result) {
+    const modules = `${result.modulesMerged} module${result.modulesMerged === 1 ? '' : 's'}`
+    return (
+      <Modal isOpen={profile !== null} onClose={handleClose} title="Profile Imported" size="md">
+        <div className="p-6 space-y-4 text-sm">
+          <p className="flex items-start">
+            <CheckCircle size={16} className="mr-2 mt-0.5 text-success shrink-0" />
+            {result.accountCreated
+              ? `Created the account ${result.username} with progress in ${modules}.`
+              : `Added progress in ${modules} to ${result.username}.`}
+            {result.certificatesAdded > 0 &&
+              ` ${result.certificatesAdded} certificate${result.certificatesAdded === 1 ? ' was' : 's were'} added.`}
+          </p>
+          {result.modulesSkipped.length > 0 && (
+            <p className="text-text-secondary dark:text-text-secondary-dark">
+              Skipped because they are not installed here: {result.modulesSkipped.join(', ')}.
+              Import the profile again after installing them.
+            </p>
+          )}
+          <div className="flex justify-end pt-2">
+            <Button onClick={handleClose}>Done</Button>
+          </div>
+        </div>
+      </Modal>
+    )
+  }
+
+  return (
+    <Modal
+      isOpen={profile !== null}
+      onClose={handleClose}
+      title={isReview ? 'Review Learner Profile' : 'Import Learner Profile'}
+      size="lg"
+    >
+      <form onSubmit={handleSubmit} className="p-6 space-y-4">
+        <div className="text-sm space-y-1">
+          <p>
+            <strong>{profile?.username}</strong>
+            <span className="ml-2 text-text-secondary dark:text-text-secondary-dark">
+              {profile?.email}
+            </span>
+          </p>
+          <p className="text-text-secondary dark:text-text-secondary-dark">
+            Exported {profile && formatDateShort(profile.exportedAt)}
+          </p>
+          <p className="flex items-center text-text-secondary dark:text-text-secondary-dark">
+            {profile?.trust ? (
+              <ShieldCheck size={14} className="mr-1 text-success" />
+            ) : (
+              <ShieldAlert size={14} className="mr-1 text-warning dark:text-warning-dark" />
+            )}
+            {profile?.trust ? TRUST_LABELS[profile.trust] : 'Exported from an unknown installation'}
+            {profile?.trust !== 'here' && (
+              <span className="ml-1 font-mono">{profile?.issuerFingerprint}</span>
+            )}
+          </p>
+        </div>
+
+        {profile && !profile.trust && canManage && !isReview && (
+          <label className="flex items-start text-sm">
+            <input
+              type="checkbox"
+              checked={trustIssuer}
+              onChange={(e) => setTrustIssuer(e.target.checked)}
+              className="mr-2 mt-0.5 shrink-0 accent-primary dark:accent-primary-dark"
+              required
+            />
+            The fingerprint matches the one shown on the computer the profile was exported from.
+            Trust profiles from that installation.
+          </label>
+        )}
+        {blocked && (
+          <p className="text-sm text-text-secondary dark:text-text-secondary-dark">
+            This computer does not accept profiles from that installation. Ask an administrator to
+            import it.
+          </p>
+        )}
+        {profile && !blocked && !canManage && (
+          <p className="text-sm text-text-secondary dark:text-text-secondary-dark">
+            An administrator checks your profile before your progress and certificates are added.
+          </p>
+        )}
+
+        {profile && profile.modules.length > 0 ? (
+          <div>
+            <p className="text-sm mb-2">
+              Progress in {installedCount} of {profile.modules.length} module
+              {profile.modules.length === 1 ? '' : 's'} will be added. Modules that are not
+              installed here are skipped.
+            </p>
+            <ul className="divide-y divide-border dark:divide-border-dark text-sm max-h-56 overflow-y-auto">
+              {profile.modules.map((module) => (
+                <li
+                  key={`${module.title}@${module.version}`}
+                  className="py-2 flex items-center space-x-3"
+                >
+                  {module.installed ? (
+                    <CheckCircle size={16} className="text-success shrink-0" />
+                  ) : (
+                    <XCircle size={16} className="text-error shrink-0" />
+                  )}
+                  <span className="font-medium">{module.title}</span>
+                  <span className="text-text-secondary dark:text-text-secondary-dark">
+                    v{module.version}
+                    {!module.installed && ' · not installed'}
+                    {module.lessonsCompleted > 0 &&
+                      ` · ${module.lessonsCompleted} lesson${module.lessonsCompleted === 1 ? '' : 's'} completed`}
+                    {module.certificate && ' · certificate'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : (
+          <p className="text-sm text-text-secondary dark:text-text-secondary-dark">
+            This profile has no module progress yet.
+          </p>
+        )}
+
+        {needsPassword && (
+          <div>
+            <p className="text-sm mb-2">
+              There is no account named <strong>{profile.username}</strong> here. Set a password to
+              create it.
+            </p>
+            <Input
+              type="password"
+              placeholder="Password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              leftIcon={<Lock size={16} className="text-text-secondary" />}
+              required
+            />
+          </div>
+        )}
+
+        {error && <p className="text-sm text-error dark:text-error-dark">{error}</p>}
+
+        <div className="flex justify-end space-x-2 pt-2">
+          <Button type="button" variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          {isReview && (
+            <Button type="button" variant="danger" onClick={handleReject} isLoading={isRejecting}>
+              Reject
+            </Button>
+          )}
+          <Button type="submit" isLoading={isImporting} disabled={blocked}>
+            {isReview ? 'Approve' : 'Import'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
+
+export default ProfileImportModal
@@ -19,6 +19,7 @@ const FileUpload: React.FC<FileUploadProps> = ({
   className = ''
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const extensions = accept.split(',').map((ext) => ext.trim().toLowerCase())
   const [dragActive, setDragActive] = useState(false)
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
 
@@ -36,8 +37,8 @@ const FileUpload: React.FC<FileUploadProps> = ({
       return
     }
 
-    // Validate file type
-    if (accept && !file.name.toLowerCase().endsWith(accept.replace('.', ''))) {
+    // Validate file type (accept may list several extensions, e.g. ".json,.oamod")
+    if (accept && !extensions.some((ext) => file.name.toLowerCase().endsWith(ext))) {
       alert(`Invalid file type. Expected ${accept} file.`)
       return
     }
@@ -144,7 +145,7 @@ const FileUpload: React.FC<FileUploadProps> = ({
             {dragActive ? 'Drop your file here' : 'Upload a module file'}
           </p>
           <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
-            Drag and drop your {accept} file here, or click to browse
+            Drag and drop your {extensions.join(' or ')} file here, or click to browse
           </p>
           <Button variant="outline" disabled={disabled}>
             Choose File
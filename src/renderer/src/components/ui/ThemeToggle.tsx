@@ -1,48 +1,34 @@
-import React, { useEffect, useState } from 'react';
-import { Moon, Sun } from 'lucide-react';
-import Button from './Button';
+import React, { useEffect, useState } from 'react'
+import { Moon, Sun } from 'lucide-react'
+import Button from './Button'
+import { useSettings } from '../../hooks/useSettings'
+import { getThemeOverride, resolveTheme, setThemeOverride, ThemeMode } from '../../lib/theme'
 
 const ThemeToggle: React.FC = () => {
-  const [isDarkMode, setIsDarkMode] = useState<boolean>(false);
+  const { settings } = useSettings()
+  const [mode, setMode] = useState<ThemeMode>('light')
 
   useEffect(() => {
-    // Check for dark mode preference
-    const isDark = localStorage.getItem('theme') === 'dark' || 
-      (!localStorage.getItem('theme') && window.matchMedia('(prefers-color-scheme: dark)').matches);
-    
-    setIsDarkMode(isDark);
-    
-    // Apply the theme class to the document element
-    if (isDark) {
-      document.documentElement.classList.add('dark');
-    } else {
-      document.documentElement.classList.remove('dark');
-    }
-  }, []);
+    // Follow the installation default until the learner picks a theme themselves
+    setMode(getThemeOverride() || resolveTheme(settings?.defaultTheme || 'system'))
+  }, [settings])
 
-  const toggleTheme = () => {
-    const newMode = !isDarkMode;
-    setIsDarkMode(newMode);
-    
-    if (newMode) {
-      document.documentElement.classList.add('dark');
-      localStorage.setItem('theme', 'dark');
-    } else {
-      document.documentElement.classList.remove('dark');
-      localStorage.setItem('theme', 'light');
-    }
-  };
+  const toggleTheme = (): void => {
+    const newMode = mode === 'dark' ? 'light' : 'dark'
+    setMode(newMode)
+    setThemeOverride(newMode)
+  }
 
   return (
     <Button
       variant="ghost"
       size="sm"
       onClick={toggleTheme}
-      aria-label={isDarkMode ? 'Switch to light mode' : 'Switch to dark mode'}
+      aria-label={mode === 'dark' ? 'Switch to light mode' : 'Switch to dark mode'}
     >
-      {isDarkMode ? <Sun size={20} /> : <Moon size={20} />}
+      {mode === 'dark' ? <Sun size={20} /> : <Moon size={20} />}
     </Button>
-  );
-};
+  )
+}
 
-export default ThemeToggle;
\ No newline at end of file
+export default ThemeToggle
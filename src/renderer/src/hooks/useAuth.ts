@@ -1,7 +1,8 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import { AuthUser } from '../types'
+import { AuthUser, SetupData, User } from '../types'
 import { apiClient } from '../lib/apiClient'
+import { hasPermission, Permission } from '../../../shared/permissions'
 
 interface AuthState {
   user: AuthUser | null
@@ -10,8 +11,11 @@ interface AuthState {
   error: string | null
   login: (email: string, password: string) => Promise<boolean>
   register: (username: string, email: string, password: string) => Promise<boolean>
+  completeSetup: (data: SetupData) => Promise<boolean>
   logout: () => void
+  syncSession: (user: User | null) => void
   clearError: () => void
+  can: (permission: Permission) => boolean
   getAuthHeaders: () => Record<string, string>
 }
 
@@ -34,10 +38,7 @@ export const useAuth = create<AuthState>()(
           }
 
           const authUser: AuthUser = {
-            id: result.data!.user.id,
-            username: result.data!.user.username,
-            email: result.data!.user.email,
-            created_at: result.data!.user.created_at,
+            ...result.data!.user,
             token: result.data!.token
           }
 
@@ -63,10 +64,7 @@ export const useAuth = create<AuthState>()(
           }
 
           const authUser: AuthUser = {
-            id: result.data!.user.id,
-            username: result.data!.user.username,
-            email: result.data!.user.email,
-            created_at: result.data!.user.created_at,
+            ...result.data!.user,
             token: result.data!.token
           }
 
@@ -81,15 +79,58 @@ export const useAuth = create<AuthState>()(
         }
       },
 
+      completeSetup: async (data: SetupData) => {
+        set({ isLoading: true, error: null })
+
+        try {
+          const result = await apiClient.completeSetup(data)
+
+          if (!result.success) {
+            throw new Error(result.error || 'Setup failed')
+          }
+
+          const authUser: AuthUser = {
+            ...result.data!.user,
+            token: result.data!.token
+          }
+
+          set({ user: authUser, isAuthenticated: true, isLoading: false })
+          return true
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : 'An error occurred during setup',
+            isLoading: false
+          })
+          return false
+        }
+      },
+
       logout: () => {
         apiClient.logout()
         set({ user: null, isAuthenticated: false })
       },
 
+      syncSession: (user: User | null) => {
+        const current = get().user
+        if (!user) {
+          if (current) set({ user: null, isAuthenticated: false })
+          return
+        }
+        // Keep the stored token, but take profile and role from the main process
+        set({
+          user: { ...user, token: current?.token || '' },
+          isAuthenticated: true
+        })
+      },
+
       clearError: () => {
         set({ error: null })
       },
 
+      can: (permission: Permission) => {
+        return hasPermission(get().user?.role, permission)
+      },
+
       getAuthHeaders: () => {
         const user = get().user
         const headers: Record<string, string> = {
@@ -108,3 +149,11 @@ export const useAuth = create<AuthState>()(
     }
   )
 )
+
+apiClient.onSessionExpired(() => {
+  useAuth.setState({
+    user: null,
+    isAuthenticated: false,
+    error: 'Your session has expired. Please sign in again.'
+  })
+})
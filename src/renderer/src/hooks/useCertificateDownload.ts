@@ -1,32 +1,33 @@
 import { useState } from 'react'
 import { useProgress } from './useProgress'
-import { generateCertificate, saveCertificate } from '../services/certificateService'
+import { apiClient } from '../lib/apiClient'
 import type { User, Module } from '../types'
 
 export const useCertificateDownload = (): {
-  downloadCertificate: (user: User, module: Module) => Promise<void>
+  downloadCertificate: (user: User, module: Module) => Promise<boolean>
   isGenerating: boolean
 } => {
   const [isGenerating, setIsGenerating] = useState(false)
-  const { getCertificate, generateCertificate: saveCertificateToStore } = useProgress()
+  const { getCertificate, generateCertificate } = useProgress()
 
-  const downloadCertificate = async (user: User, module: Module): Promise<void> => {
-    if (!user || !module) return
+  // Resolves to false when the learner cancels the save dialog
+  const downloadCertificate = async (user: User, module: Module): Promise<boolean> => {
+    if (!user || !module) return false
 
     setIsGenerating(true)
     try {
-      // Generate the PDF certificate
-      const certificateDataUrl = await generateCertificate(user, module)
+      // The certificate is issued when the module is completed; the PDF is
+      // rendered from that record so its date and code never change. Modules
+      // completed before issuance was automatic get theirs issued here.
+      const certificate =
+        getCertificate(user.id, module.id) || (await generateCertificate(user.id, module.id))
 
-      // Generate certificate code if it doesn't exist
-      const existingCertificate = getCertificate(user.id, module.id)
-      if (!existingCertificate) {
-        await saveCertificateToStore(user.id, module.id)
+      // The main process renders the PDF and writes it where the learner chooses
+      const result = await apiClient.exportCertificate(certificate.id)
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Failed to export certificate')
       }
-
-      // Download the certificate
-      const fileName = `${module.title.replace(/[^a-zA-Z0-9]/g, '_')}_Certificate.pdf`
-      saveCertificate(certificateDataUrl, fileName)
+      return !result.data.canceled
     } catch (error) {
       console.error('Failed to generate certificate:', error)
       throw error // Re-throw so components can handle it if needed
@@ -13,7 +13,9 @@ interface ModulesState {
   downloadModule: (moduleId: number) => Promise<void>
   addModule: (module: Module) => void
   removeModule: (moduleId: number) => void
+  deleteModule: (moduleId: number) => Promise<void>
   saveModule: (module: Module) => Promise<Module>
+  upgradeModule: (moduleId: number, module: Module) => Promise<Module>
 }
 
 export const useModules = create<ModulesState>()(
@@ -107,6 +109,35 @@ export const useModules = create<ModulesState>()(
         }
       },
 
+      upgradeModule: async (moduleId: number, module: Module) => {
+        set({ isLoading: true, error: null })
+
+        try {
+          const result = await apiClient.upgradeModule(moduleId, module)
+
+          if (!result.success) {
+            throw new Error(result.error || 'Failed to upgrade module')
+          }
+
+          const upgradedModule = result.data!.module
+
+          set((state) => ({
+            modules: state.modules.map((m) => (m.id === upgradedModule.id ? upgradedModule : m)),
+            currentModule:
+              state.currentModule?.id === upgradedModule.id ? upgradedModule : state.currentModule,
+            isLoading: false
+          }))
+
+          return upgradedModule
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : 'Failed to upgrade module',
+            isLoading: false
+          })
+          throw error
+        }
+      },
+
       addModule: (module: Module) => {
         set((state) => {
           // Check if module already exists (by ID)
@@ -124,6 +155,17 @@ export const useModules = create<ModulesState>()(
         })
       },
 
+      deleteModule: async (moduleId: number) => {
+        const result = await apiClient.deleteModule(moduleId)
+
+        if (!result.success) {
+          set({ error: result.error || 'Failed to delete module' })
+          throw new Error(result.error || 'Failed to delete module')
+        }
+
+        useModules.getState().removeModule(moduleId)
+      },
+
       removeModule: (moduleId: number) => {
         set((state) => ({
           modules: state.modules.filter((m) => m.id !== moduleId),
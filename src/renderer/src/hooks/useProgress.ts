@@ -5,51 +5,44 @@ import {
   ModuleProgress,
   UserProgress,
   Certificate,
-  LessonProgressData
+  LessonProgressData,
+  Module,
+  QuizAttemptResult,
+  QuizAttemptSubmission,
+  QuizProgress
 } from '../types'
-import { calculateProgress } from '../lib/utils'
+import { calculateModuleCompletion } from '../../../shared/moduleProgress'
 import { apiClient } from '../lib/apiClient'
 
 interface ProgressState {
   progress: UserProgress[]
   lessonProgress: LessonProgressData[]
+  quizProgress: QuizProgress[]
   certificates: Certificate[]
   isLoading: boolean
   error: string | null
   loadProgress: (userId: number) => Promise<void>
-  getModuleProgress: (
-    userId: number,
-    moduleId: number,
-    totalLessons: number,
-    totalQuizzes: number
-  ) => ModuleProgress | null
+  getModuleProgress: (userId: number, module: Module) => ModuleProgress | null
   getLessonProgress: (userId: number, moduleId: number, lessonId: string) => LessonProgress | null
+  getQuizProgress: (userId: number, moduleId: number, quizId: string) => QuizProgress | null
+  getNextLessonId: (userId: number, module: Module) => string | null
   updateLessonProgress: (
     userId: number,
     moduleId: number,
     lessonId: string,
     progressData: {
       completed?: boolean
-      timeSpent?: number
-      quizScore?: number
     }
   ) => Promise<void>
-  saveQuizScore: (
-    userId: number,
-    moduleId: number,
-    lessonId: string,
-    score: number
-  ) => Promise<void>
-  isModuleCompleted: (
+  submitQuizAttempt: (
     userId: number,
-    moduleId: number,
-    totalLessons: number,
-    totalQuizzes: number
-  ) => boolean
+    submission: QuizAttemptSubmission
+  ) => Promise<QuizAttemptResult>
+  isModuleCompleted: (userId: number, module: Module) => boolean
   getCertificate: (userId: number, moduleId: number) => Certificate | null
   getCertificateCount: (userId: number) => number
   getUserModuleProgress: (userId: number, moduleId: number) => UserProgress | null
-  generateCertificate: (userId: number, moduleId: number) => Promise<void>
+  generateCertificate: (userId: number, moduleId: number) => Promise<Certificate>
 }
 
 export const useProgress = create<ProgressState>()(
@@ -57,6 +50,7 @@ export const useProgress = create<ProgressState>()(
     (set, get) => ({
       progress: [],
       lessonProgress: [],
+      quizProgress: [],
       certificates: [],
       isLoading: false,
       error: null,
@@ -70,12 +64,16 @@ export const useProgress = create<ProgressState>()(
           // Load lesson progress for all modules
           const lessonProgressResult = await apiClient.getUserLessonProgress(userId)
 
+          // Load quiz progress for all modules
+          const quizProgressResult = await apiClient.getUserQuizProgress(userId)
+
           // Load certificates
           const certificatesResult = await apiClient.getUserCertificates(userId)
 
           if (
             !progressResult.success ||
             !lessonProgressResult.success ||
+            !quizProgressResult.success ||
             !certificatesResult.success
           ) {
             throw new Error('Failed to fetch progress')
@@ -86,6 +84,7 @@ export const useProgress = create<ProgressState>()(
             lessonProgress: Array.isArray(lessonProgressResult.data)
               ? lessonProgressResult.data
               : [],
+            quizProgress: Array.isArray(quizProgressResult.data) ? quizProgressResult.data : [],
             certificates: Array.isArray(certificatesResult.data) ? certificatesResult.data : [],
             isLoading: false
           })
@@ -97,50 +96,37 @@ export const useProgress = create<ProgressState>()(
         }
       },
 
-      getModuleProgress: (
-        userId: number,
-        moduleId: number,
-        totalLessons: number,
-        totalQuizzes: number
-      ) => {
-        // Get module-level progress
-        const moduleProgress = get().progress.find(
-          (p) => p && p.user_id === userId && p.module_id === moduleId
-        )
-
-        // Get lesson-level progress for this module
+      getModuleProgress: (userId: number, module: Module) => {
+        // Get lesson- and quiz-level progress for this module
         const lessonProgressData = get().lessonProgress.filter(
-          (lp) => lp && lp.user_id === userId && lp.module_id === moduleId
+          (lp) => lp && lp.user_id === userId && lp.module_id === module.id
+        )
+        const quizProgressData = get().quizProgress.filter(
+          (qp) => qp && qp.user_id === userId && qp.module_id === module.id
         )
 
-        // Count completed lessons (lesson IDs like "lesson-1", "lesson-2", etc.)
-        const lessonsCompleted = lessonProgressData.filter(
-          (lp) => lp && lp.completed && lp.lesson_id.startsWith('lesson-')
-        ).length
-
-        // Count completed quizzes (quiz IDs like "quiz-1", "quiz-2", etc.)
-        const quizzesCompleted = lessonProgressData.filter(
-          (lp) => lp && lp.completed && lp.lesson_id.startsWith('quiz-') && lp.quiz_score !== null
-        ).length
-
-        const totalTimeSpent = lessonProgressData.reduce(
-          (acc, lp) => acc + (lp ? lp.time_spent : 0),
-          0
+        const completion = calculateModuleCompletion(
+          module.content,
+          lessonProgressData,
+          quizProgressData
         )
 
-        // Use the database-calculated percentage if available, otherwise calculate locally
-        const percentComplete =
-          moduleProgress?.progress_percentage ||
-          calculateProgress(lessonsCompleted + quizzesCompleted, totalLessons + totalQuizzes)
+        // Module time includes quizzes, which have no lesson row of their own
+        const moduleProgress = get().progress.find(
+          (p) => p && p.user_id === userId && p.module_id === module.id
+        )
+        const totalTimeSpent =
+          moduleProgress?.total_time_spent ??
+          lessonProgressData.reduce((acc, lp) => acc + (lp ? lp.time_spent : 0), 0)
 
         return {
-          moduleId,
-          lessonsCompleted,
-          totalLessons,
-          quizzesCompleted,
-          totalQuizzes,
+          moduleId: module.id,
+          lessonsCompleted: completion.lessonsCompleted,
+          totalLessons: completion.totalLessons,
+          quizzesCompleted: completion.quizzesPassed,
+          totalQuizzes: completion.totalQuizzes,
           totalTimeSpent,
-          percentComplete
+          percentComplete: completion.percentComplete
         }
       },
 
@@ -160,14 +146,29 @@ export const useProgress = create<ProgressState>()(
         }
       },
 
+      getQuizProgress: (userId: number, moduleId: number, quizId: string) => {
+        return (
+          get().quizProgress.find(
+            (qp) => qp.user_id === userId && qp.module_id === moduleId && qp.quiz_id === quizId
+          ) || null
+        )
+      },
+
+      getNextLessonId: (userId: number, module: Module) => {
+        // The first lesson, in module order, that the learner has not completed yet
+        const lessons = module.content.lessons
+        const nextLesson = lessons.find(
+          (lesson) => !get().getLessonProgress(userId, module.id, lesson.id)?.completed
+        )
+        return (nextLesson || lessons[0])?.id || null
+      },
+
       updateLessonProgress: async (
         userId: number,
         moduleId: number,
         lessonId: string,
         progressData: {
           completed?: boolean
-          timeSpent?: number
-          quizScore?: number
         }
       ) => {
         set({ isLoading: true, error: null })
@@ -176,9 +177,7 @@ export const useProgress = create<ProgressState>()(
             userId,
             moduleId,
             lessonId,
-            completed: progressData.completed || false,
-            timeSpent: progressData.timeSpent || 0,
-            quizScore: progressData.quizScore
+            completed: progressData.completed || false
           })
 
           if (!result.success) {
@@ -219,36 +218,38 @@ export const useProgress = create<ProgressState>()(
         }
       },
 
-      saveQuizScore: async (userId: number, moduleId: number, lessonId: string, score: number) => {
-        await get().updateLessonProgress(userId, moduleId, lessonId, {
-          completed: true,
-          quizScore: score
-        })
+      submitQuizAttempt: async (userId: number, submission: QuizAttemptSubmission) => {
+        set({ isLoading: true, error: null })
+        try {
+          const result = await apiClient.submitQuizAttempt(submission)
+
+          if (!result.success) {
+            throw new Error(result.error || 'Failed to submit quiz')
+          }
+
+          // Reload all progress to get updated module-level progress
+          await get().loadProgress(userId)
+          return result.data!
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : 'Failed to submit quiz',
+            isLoading: false
+          })
+          throw error // Re-throw to allow calling code to handle the error
+        }
       },
 
-      isModuleCompleted: (
-        userId: number,
-        moduleId: number,
-        totalLessons: number,
-        totalQuizzes: number
-      ) => {
-        // Get lesson-level progress for this module
+      isModuleCompleted: (userId: number, module: Module) => {
         const lessonProgressData = get().lessonProgress.filter(
-          (lp) => lp.user_id === userId && lp.module_id === moduleId
+          (lp) => lp.user_id === userId && lp.module_id === module.id
+        )
+        const quizProgressData = get().quizProgress.filter(
+          (qp) => qp.user_id === userId && qp.module_id === module.id
         )
 
-        // Count completed lessons (entries with lesson IDs like "lesson-1", "lesson-2", etc.)
-        const completedLessons = lessonProgressData.filter(
-          (lp) => lp.completed && lp.lesson_id.startsWith('lesson-')
-        ).length
-
-        // Count completed quizzes (entries with quiz IDs like "quiz-1", "quiz-2", etc.)
-        const completedQuizzes = lessonProgressData.filter(
-          (lp) => lp.completed && lp.lesson_id.startsWith('quiz-') && lp.quiz_score !== null
-        ).length
-
-        // Module is completed when all lessons and all quizzes are completed
-        return completedLessons === totalLessons && completedQuizzes === totalQuizzes
+        // Module is completed when every lesson is done and every quiz is passed
+        return calculateModuleCompletion(module.content, lessonProgressData, quizProgressData)
+          .isCompleted
       },
 
       getCertificate: (userId: number, moduleId: number) => {
@@ -272,9 +273,9 @@ export const useProgress = create<ProgressState>()(
       generateCertificate: async (userId: number, moduleId: number) => {
         set({ isLoading: true, error: null })
         try {
-          const result = await apiClient.generateCertificate(userId, moduleId)
+          const result = await apiClient.generateCertificate(moduleId)
 
-          if (!result.success) {
+          if (!result.success || !result.data) {
             throw new Error(result.error || 'Failed to generate certificate')
           }
 
@@ -289,6 +290,7 @@ export const useProgress = create<ProgressState>()(
           } else {
             set({ isLoading: false })
           }
+          return result.data
         } catch (error) {
           set({
             error: error instanceof Error ? error.message : 'Failed to generate certificate',
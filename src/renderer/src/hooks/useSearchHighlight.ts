@@ -0,0 +1,41 @@
+import { RefObject, useEffect } from 'react'
+import { findSearchMatches, getSearchTerms } from '../../../shared/search'
+
+// Styled by ::highlight(search-match) in main.css
+const SEARCH_HIGHLIGHT = 'search-match'
+
+/**
+ * Highlight the words of a search query inside an element and scroll the first
+ * match into view. Uses the CSS Custom Highlight API, so the rendered content
+ * is left untouched. Runs again whenever `contentKey` changes.
+ */
+export const useSearchHighlight = (
+  containerRef: RefObject<HTMLElement | null>,
+  query: string | undefined,
+  contentKey: unknown
+): void => {
+  useEffect(() => {
+    const container = containerRef.current
+    const terms = getSearchTerms(query || '')
+    if (!container || terms.length === 0) return
+
+    const ranges: Range[] = []
+    const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT)
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      for (const [start, end] of findSearchMatches(node.textContent || '', terms)) {
+        const range = document.createRange()
+        range.setStart(node, start)
+        range.setEnd(node, end)
+        ranges.push(range)
+      }
+    }
+    if (ranges.length === 0) return
+
+    CSS.highlights.set(SEARCH_HIGHLIGHT, new Highlight(...ranges))
+    ranges[0].startContainer.parentElement?.scrollIntoView({ block: 'center' })
+
+    return () => {
+      CSS.highlights.delete(SEARCH_HIGHLIGHT)
+    }
+  }, [containerRef, query, contentKey])
+}
@@ -0,0 +1,27 @@
+import { create } from 'zustand'
+import { AppSettings } from '../types'
+import { apiClient } from '../lib/apiClient'
+import { applyTheme } from '../lib/theme'
+
+interface SettingsState {
+  settings: AppSettings | null
+  loadSettings: () => Promise<void>
+  setSettings: (settings: AppSettings) => void
+}
+
+export const useSettings = create<SettingsState>()((set) => ({
+  settings: null,
+
+  loadSettings: async () => {
+    const result = await apiClient.getSettings()
+    if (result.success && result.data) {
+      set({ settings: result.data })
+      applyTheme(result.data.defaultTheme)
+    }
+  },
+
+  setSettings: (settings: AppSettings) => {
+    set({ settings })
+    applyTheme(settings.defaultTheme)
+  }
+}))
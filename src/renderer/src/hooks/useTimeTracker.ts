@@ -1,98 +1,170 @@
 import { useEffect, useRef, useState, useCallback } from 'react'
+import { apiClient } from '../lib/apiClient'
+import { registerTimeFlushHandler } from '../lib/timeTracking'
 
 interface TimeTrackerOptions {
   onSave?: (timeSpent: number) => Promise<void>
   autoSaveInterval?: number // in milliseconds, default 30 seconds
+  idleTimeout?: number // in milliseconds without keyboard or mouse input, default 2 minutes
 }
 
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'wheel', 'touchstart'] as const
+
 export const useTimeTracker = (
   options: TimeTrackerOptions = {}
 ): {
   sessionTime: number
   isActive: boolean
+  isIdle: boolean
   hasUnsavedTime: boolean
   saveProgress: () => Promise<void>
   resetTracker: () => void
   cleanup: () => Promise<void>
 } => {
-  const { onSave, autoSaveInterval = 30000 } = options
+  const { onSave, autoSaveInterval = 30000, idleTimeout = 120000 } = options
 
   // Track timing state
   const [isActive, setIsActive] = useState(true)
-  const [sessionTime, setSessionTime] = useState(0) // Current session time in seconds
-  const startTimeRef = useRef<Date>(new Date())
-  const lastSaveTimeRef = useRef<Date>(new Date())
-  const intervalRef = useRef<NodeJS.Timeout | null>(null)
-  const autoSaveIntervalRef = useRef<NodeJS.Timeout | null>(null)
-  const hasUnsavedTimeRef = useRef(false)
-
-  // Calculate time since last save
-  const calculateSessionTime = useCallback(() => {
-    if (!isActive) return 0
-
-    const now = new Date()
-    const timeSinceLastSave = Math.round((now.getTime() - lastSaveTimeRef.current.getTime()) / 1000)
-    return Math.max(0, timeSinceLastSave)
-  }, [isActive])
-
-  // Update session time every second
+  const [isIdle, setIsIdle] = useState(false)
+  const [sessionTime, setSessionTime] = useState(0) // Time counted this session in seconds
+
+  // Counted time lives in refs so the timers and event handlers never read stale state.
+  // activeSinceRef is null while paused (window hidden, blurred or idle).
+  const countedMsRef = useRef(0)
+  const unsavedMsRef = useRef(0)
+  const activeSinceRef = useRef<number | null>(Date.now())
+  const lastActivityRef = useRef(Date.now())
+  const focusedRef = useRef(true)
+  const onSaveRef = useRef(onSave)
+
+  // Move the running stretch into the counted totals, ending it at `until`
+  const commitRunningTime = useCallback((until: number) => {
+    if (activeSinceRef.current === null) return
+
+    const elapsed = Math.max(0, until - activeSinceRef.current)
+    countedMsRef.current += elapsed
+    unsavedMsRef.current += elapsed
+    activeSinceRef.current = until
+  }, [])
+
+  const pause = useCallback(
+    (until: number = Date.now()) => {
+      commitRunningTime(until)
+      activeSinceRef.current = null
+      setIsActive(false)
+    },
+    [commitRunningTime]
+  )
+
+  const resume = useCallback(() => {
+    const now = Date.now()
+    lastActivityRef.current = now
+    if (activeSinceRef.current === null) {
+      activeSinceRef.current = now
+    }
+    setIsActive(true)
+    setIsIdle(false)
+  }, [])
+
+  // Save whole seconds not yet saved; fractions carry over to the next save
+  const flush = useCallback(
+    async (save?: (timeSpent: number) => Promise<void>): Promise<void> => {
+      commitRunningTime(Date.now())
+      const seconds = Math.floor(unsavedMsRef.current / 1000)
+      if (!save || seconds === 0) return
+
+      unsavedMsRef.current -= seconds * 1000
+      try {
+        await save(seconds)
+      } catch (error) {
+        // Keep the time so the next save retries it
+        unsavedMsRef.current += seconds * 1000
+        throw error
+      }
+    },
+    [commitRunningTime]
+  )
+
+  // Update session time and check for inactivity every second
   useEffect(() => {
-    intervalRef.current = setInterval(() => {
-      if (isActive) {
-        const newSessionTime = calculateSessionTime()
-        setSessionTime(newSessionTime)
-        hasUnsavedTimeRef.current = newSessionTime > 0
+    const interval = setInterval(() => {
+      const now = Date.now()
+
+      if (activeSinceRef.current !== null && now - lastActivityRef.current > idleTimeout) {
+        // Nobody has touched the keyboard or mouse: stop counting from the last input
+        pause(lastActivityRef.current)
+        setIsIdle(true)
       }
+
+      const running = activeSinceRef.current !== null ? now - activeSinceRef.current : 0
+      setSessionTime(Math.floor((countedMsRef.current + running) / 1000))
     }, 1000)
 
+    return () => clearInterval(interval)
+  }, [idleTimeout, pause])
+
+  // Auto-save progress periodically
+  useEffect(() => {
+    if (autoSaveInterval <= 0) return
+
+    const interval = setInterval(() => {
+      flush(onSaveRef.current).catch((error) => console.error('Auto-save failed:', error))
+    }, autoSaveInterval)
+
+    return () => clearInterval(interval)
+  }, [autoSaveInterval, flush])
+
+  // Save the time spent so far whenever the save target changes (for example
+  // moving to the next lesson), when the component unmounts on a route change,
+  // and when the main process closes the window
+  useEffect(() => {
+    onSaveRef.current = onSave
+    const unregister = registerTimeFlushHandler(() => flush(onSave))
+
     return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current)
-      }
+      unregister()
+      flush(onSave).catch((error) => console.error('Failed to save time spent:', error))
     }
-  }, [isActive, calculateSessionTime])
+  }, [onSave, flush])
 
-  // Auto-save progress periodically
+  // Keyboard and mouse input keeps the tracker active
   useEffect(() => {
-    if (onSave && autoSaveInterval > 0) {
-      autoSaveIntervalRef.current = setInterval(async () => {
-        if (hasUnsavedTimeRef.current && sessionTime > 0) {
-          try {
-            await onSave(sessionTime)
-            lastSaveTimeRef.current = new Date()
-            hasUnsavedTimeRef.current = false
-          } catch (error) {
-            console.error('Auto-save failed:', error)
-          }
-        }
-      }, autoSaveInterval)
+    const handleActivity = (): void => {
+      lastActivityRef.current = Date.now()
+      if (activeSinceRef.current === null && focusedRef.current && !document.hidden) {
+        resume()
+      }
     }
 
+    ACTIVITY_EVENTS.forEach((type) =>
+      window.addEventListener(type, handleActivity, { passive: true })
+    )
+    // Scrolling inside a lesson does not bubble to window, so listen while capturing
+    document.addEventListener('scroll', handleActivity, { capture: true, passive: true })
+
     return () => {
-      if (autoSaveIntervalRef.current) {
-        clearInterval(autoSaveIntervalRef.current)
-      }
+      ACTIVITY_EVENTS.forEach((type) => window.removeEventListener(type, handleActivity))
+      document.removeEventListener('scroll', handleActivity, { capture: true })
     }
-  }, [onSave, autoSaveInterval, sessionTime])
+  }, [resume])
 
   // Handle window focus/blur for activity detection
   useEffect(() => {
     const handleFocus = (): void => {
-      setIsActive(true)
-      // Reset the "last save time" to now to prevent counting inactive time
-      lastSaveTimeRef.current = new Date()
+      focusedRef.current = true
+      resume()
     }
 
     const handleBlur = (): void => {
-      setIsActive(false)
+      focusedRef.current = false
+      pause()
     }
 
     const handleVisibilityChange = (): void => {
       if (document.hidden) {
-        setIsActive(false)
-      } else {
-        setIsActive(true)
-        lastSaveTimeRef.current = new Date()
+        pause()
+      } else if (focusedRef.current) {
+        resume()
       }
     }
 
@@ -106,61 +178,63 @@ export const useTimeTracker = (
       window.removeEventListener('blur', handleBlur)
       document.removeEventListener('visibilitychange', handleVisibilityChange)
     }
-  }, [])
+  }, [pause, resume])
 
   // Manual save function
   const saveProgress = useCallback(async (): Promise<void> => {
-    if (onSave && hasUnsavedTimeRef.current && sessionTime > 0) {
-      try {
-        await onSave(sessionTime)
-        lastSaveTimeRef.current = new Date()
-        hasUnsavedTimeRef.current = false
-      } catch (error) {
-        console.error('Manual save failed:', error)
-        throw error
-      }
-    }
-  }, [onSave, sessionTime])
+    await flush(onSaveRef.current)
+  }, [flush])
 
-  // Reset the tracker (for new lesson/session)
+  // Reset the tracker (for new lesson/session), discarding unsaved time
   const resetTracker = useCallback(() => {
-    startTimeRef.current = new Date()
-    lastSaveTimeRef.current = new Date()
+    countedMsRef.current = 0
+    unsavedMsRef.current = 0
+    if (activeSinceRef.current !== null) {
+      activeSinceRef.current = Date.now()
+    }
     setSessionTime(0)
-    hasUnsavedTimeRef.current = false
   }, [])
 
-  // Cleanup function for component unmount
+  // Save whatever is left, e.g. right before leaving the page
   const cleanup = useCallback(async (): Promise<void> => {
-    // Clear all intervals
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current)
-    }
-    if (autoSaveIntervalRef.current) {
-      clearInterval(autoSaveIntervalRef.current)
+    try {
+      await flush(onSaveRef.current)
+    } catch (error) {
+      console.error('Cleanup save failed:', error)
     }
-
-    // Save any unsaved progress - use current values from refs instead of state
-    const currentSessionTime = calculateSessionTime()
-    if (hasUnsavedTimeRef.current && currentSessionTime > 0 && onSave) {
-      try {
-        await onSave(currentSessionTime)
-      } catch (error) {
-        console.error('Cleanup save failed:', error)
-      }
-    }
-  }, [onSave, calculateSessionTime])
+  }, [flush])
 
   return {
     sessionTime,
     isActive,
-    hasUnsavedTime: hasUnsavedTimeRef.current,
+    isIdle,
+    hasUnsavedTime: unsavedMsRef.current >= 1000,
     saveProgress,
     resetTracker,
     cleanup
   }
 }
 
+/**
+ * Track time spent on a lesson or quiz and save it for the signed-in user
+ */
+export const useLearningTimer = (
+  moduleId: number,
+  itemId: string
+): ReturnType<typeof useTimeTracker> => {
+  const onSave = useCallback(
+    async (timeSpent: number): Promise<void> => {
+      const result = await apiClient.recordTimeSpent(moduleId, itemId, timeSpent)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to record time spent')
+      }
+    },
+    [moduleId, itemId]
+  )
+
+  return useTimeTracker({ onSave })
+}
+
 // Utility function to format time display
 export const formatTime = (seconds: number): string => {
   const hours = Math.floor(seconds / 3600)
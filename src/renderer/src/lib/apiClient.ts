@@ -1,12 +1,45 @@
 // Electron IPC-based API client for desktop LMS
 import type {
+  AppSettings,
+  BackupInterval,
+  BackupResult,
+  BackupSummary,
+  RestoreResult,
+  SetupData,
+  SetupStatus,
   User,
   Module,
   UserProgress,
   Certificate,
+  CertificateTemplateInstallResult,
+  CertificateTemplateSummary,
+  CertificateVerification,
   LessonProgressData,
+  LearnerAnalytics,
+  LearnerProfileExportResult,
+  LearnerProfileImportResult,
+  LearnerProfileInspectResult,
+  LearnerProfileReview,
+  LanSyncRole,
+  LanSyncStatus,
+  ModuleImportFileReport,
+  ModuleFilters,
+  ModuleImportReport,
+  ModulePackagePreview,
+  ModuleQueryResult,
+  ModuleUpgradeResult,
+  QuizAttempt,
+  QuizAttemptResult,
+  QuizAttemptSubmission,
+  QuizProgress,
+  PeerModule,
+  ProgressSyncRecord,
+  SearchResult,
+  UserSummary,
+  UserImportReport,
   IpcChannels
 } from '../types'
+import type { UserRole } from '../../../shared/permissions'
 
 export interface ApiError {
   error: string
@@ -19,10 +52,17 @@ export interface ApiResponse<T> {
   error?: string
   success: boolean
   message?: string
+  code?: string
 }
 
+// Returned by the main process when the session token has expired or is unknown
+export const SESSION_EXPIRED = 'SESSION_EXPIRED'
+
+const SESSION_TOKEN_KEY = 'session-token'
+
 class ElectronApiClient {
   private electronAPI: typeof window.electron.ipcRenderer
+  private sessionExpiredHandler: (() => void) | null = null
 
   constructor() {
     // Access the Electron API through the preload script
@@ -37,8 +77,19 @@ class ElectronApiClient {
 
   private async invoke<T>(channel: keyof IpcChannels, ...args: unknown[]): Promise<ApiResponse<T>> {
     try {
-      const result = await this.electronAPI.invoke(channel, ...args)
-      return result as ApiResponse<T>
+      // The main process resolves the acting user from this token
+      const result = (await this.electronAPI.invoke(
+        channel,
+        this.getToken(),
+        ...args
+      )) as ApiResponse<T>
+
+      if (result?.code === SESSION_EXPIRED) {
+        this.removeToken()
+        this.sessionExpiredHandler?.()
+      }
+
+      return result
     } catch (error) {
       return {
         success: false,
@@ -47,13 +98,24 @@ class ElectronApiClient {
     }
   }
 
+  private getToken(): string | null {
+    return localStorage.getItem(SESSION_TOKEN_KEY)
+  }
+
   private setToken(token: string): void {
-    // Store auth token in localStorage for session management
-    localStorage.setItem('auth-storage', JSON.stringify({ token }))
+    // Store the session token issued by the main process
+    localStorage.setItem(SESSION_TOKEN_KEY, token)
   }
 
   private removeToken(): void {
-    localStorage.removeItem('auth-storage')
+    localStorage.removeItem(SESSION_TOKEN_KEY)
+  }
+
+  /**
+   * Called whenever the main process reports that the session has ended
+   */
+  onSessionExpired(handler: () => void): void {
+    this.sessionExpiredHandler = handler
   }
 
   // Authentication methods
@@ -94,6 +156,25 @@ class ElectronApiClient {
     return result
   }
 
+  // Setup and settings methods
+  async getSetupStatus(): Promise<ApiResponse<SetupStatus>> {
+    return this.invoke<SetupStatus>('setup:get-status')
+  }
+
+  async completeSetup(data: SetupData): Promise<ApiResponse<{ user: User; token: string }>> {
+    const result = await this.invoke<{ user: User; token: string }>('setup:complete', data)
+
+    if (result.success && result.data?.token) {
+      this.setToken(result.data.token)
+    }
+
+    return result
+  }
+
+  async getSettings(): Promise<ApiResponse<AppSettings>> {
+    return this.invoke<AppSettings>('settings:get')
+  }
+
   // User management methods
   async getAllUsers(): Promise<ApiResponse<User[]>> {
     return this.invoke<User[]>('user:get-all')
@@ -109,6 +190,30 @@ class ElectronApiClient {
     return result
   }
 
+  async setUserRole(userId: number, role: UserRole): Promise<ApiResponse<User>> {
+    return this.invoke<User>('user:set-role', userId, role)
+  }
+
+  async getUserSummaries(): Promise<ApiResponse<UserSummary[]>> {
+    return this.invoke<UserSummary[]>('user:get-summaries')
+  }
+
+  async resetUserPassword(userId: number, newPassword: string): Promise<ApiResponse<unknown>> {
+    return this.invoke('user:reset-password', userId, newPassword)
+  }
+
+  async setUserActive(userId: number, active: boolean): Promise<ApiResponse<User>> {
+    return this.invoke<User>('user:set-active', userId, active)
+  }
+
+  async deleteUser(userId: number): Promise<ApiResponse<unknown>> {
+    return this.invoke('user:delete', userId)
+  }
+
+  async importUsersFromCsv(): Promise<ApiResponse<UserImportReport>> {
+    return this.invoke<UserImportReport>('user:import-csv')
+  }
+
   // Module methods
   async getModules(): Promise<ApiResponse<Module[]>> {
     return this.invoke<Module[]>('modules:get-all')
@@ -118,8 +223,27 @@ class ElectronApiClient {
     return this.invoke<Module>('modules:get-by-id', id)
   }
 
-  async importModule(): Promise<ApiResponse<Module>> {
-    return this.invoke<Module>('modules:import')
+  async importModule(): Promise<ApiResponse<ModuleImportReport>> {
+    return this.invoke<ModuleImportReport>('modules:import')
+  }
+
+  async inspectModulePackage(): Promise<ApiResponse<ModulePackagePreview>> {
+    return this.invoke<ModulePackagePreview>('modules:inspect-package')
+  }
+
+  async importModulePackage(packageId: string): Promise<ApiResponse<ModuleImportReport>> {
+    return this.invoke<ModuleImportReport>('modules:import-package', packageId)
+  }
+
+  async confirmModuleUpgrade(pendingId: string): Promise<ApiResponse<ModuleImportReport>> {
+    return this.invoke<ModuleImportReport>('modules:confirm-upgrade', pendingId)
+  }
+
+  async upgradeModule(
+    id: number,
+    moduleData: Omit<Module, 'id' | 'created_at' | 'updated_at'>
+  ): Promise<ApiResponse<ModuleUpgradeResult>> {
+    return this.invoke<ModuleUpgradeResult>('modules:upgrade', id, moduleData)
   }
 
   async deleteModule(id: number): Promise<ApiResponse<{ message: string }>> {
@@ -132,6 +256,14 @@ class ElectronApiClient {
     return this.invoke<Module>('modules:create', moduleData)
   }
 
+  async searchModules(query: string): Promise<ApiResponse<SearchResult[]>> {
+    return this.invoke<SearchResult[]>('modules:search', query)
+  }
+
+  async queryModules(filters: ModuleFilters): Promise<ApiResponse<ModuleQueryResult>> {
+    return this.invoke<ModuleQueryResult>('modules:query', filters)
+  }
+
   // Progress methods
   async getUserProgress(userId: number): Promise<ApiResponse<UserProgress[]>> {
     return this.invoke<UserProgress[]>('progress:get-user-progress', userId)
@@ -141,11 +273,19 @@ class ElectronApiClient {
     return this.invoke<LessonProgressData[]>('progress:get-user-lesson-progress', userId)
   }
 
+  async getUserQuizProgress(userId: number): Promise<ApiResponse<QuizProgress[]>> {
+    return this.invoke<QuizProgress[]>('progress:get-user-quiz-progress', userId)
+  }
+
   async getModuleProgress(
     userId: number,
     moduleId: number
   ): Promise<
-    ApiResponse<{ moduleProgress: UserProgress | null; lessonProgress: LessonProgressData[] }>
+    ApiResponse<{
+      moduleProgress: UserProgress | null
+      lessonProgress: LessonProgressData[]
+      quizProgress: QuizProgress[]
+    }>
   > {
     return this.invoke('progress:get-module-progress', userId, moduleId)
   }
@@ -155,12 +295,21 @@ class ElectronApiClient {
     moduleId: number
     lessonId: string
     completed: boolean
-    timeSpent: number
-    quizScore?: number
   }): Promise<ApiResponse<LessonProgressData>> {
     return this.invoke<LessonProgressData>('progress:update-lesson', data)
   }
 
+  /**
+   * Add tracked learning time to a lesson or quiz of the signed-in user
+   */
+  async recordTimeSpent(
+    moduleId: number,
+    itemId: string,
+    seconds: number
+  ): Promise<ApiResponse<UserProgress>> {
+    return this.invoke<UserProgress>('progress:record-time', moduleId, itemId, seconds)
+  }
+
   async resetModuleProgress(
     userId: number,
     moduleId: number
@@ -168,21 +317,174 @@ class ElectronApiClient {
     return this.invoke<{ message: string }>('progress:reset-module', userId, moduleId)
   }
 
+  async submitQuizAttempt(
+    submission: QuizAttemptSubmission
+  ): Promise<ApiResponse<QuizAttemptResult>> {
+    return this.invoke<QuizAttemptResult>('progress:submit-quiz-attempt', submission)
+  }
+
+  async getQuizAttempts(
+    userId: number,
+    moduleId: number,
+    quizId: string
+  ): Promise<ApiResponse<QuizAttempt[]>> {
+    return this.invoke<QuizAttempt[]>('progress:get-quiz-attempts', userId, moduleId, quizId)
+  }
+
+  // Analytics methods
+  async getLearnerAnalytics(userId: number, days?: number): Promise<ApiResponse<LearnerAnalytics>> {
+    return this.invoke<LearnerAnalytics>('analytics:get-learner', userId, days)
+  }
+
   // Certificate methods
-  async generateCertificate(userId: number, moduleId: number): Promise<ApiResponse<Certificate>> {
-    return this.invoke<Certificate>('certificates:generate', userId, moduleId)
+  async generateCertificate(moduleId: number): Promise<ApiResponse<Certificate>> {
+    return this.invoke<Certificate>('certificates:generate', moduleId)
   }
 
   async getUserCertificates(userId: number): Promise<ApiResponse<Certificate[]>> {
     return this.invoke<Certificate[]>('certificates:get-user-certificates', userId)
   }
 
-  async exportCertificate(certificateId: number): Promise<ApiResponse<{ filePath: string }>> {
-    return this.invoke<{ filePath: string }>('certificates:export', certificateId)
+  // Asks where to save, then writes the PDF from the main process
+  async exportCertificate(
+    certificateId: number
+  ): Promise<ApiResponse<{ canceled: boolean; filePath?: string }>> {
+    return this.invoke<{ canceled: boolean; filePath?: string }>(
+      'certificates:export',
+      certificateId
+    )
+  }
+
+  // Asks for a folder, then writes a PDF for each of the learner's certificates
+  async exportAllCertificates(
+    userId: number
+  ): Promise<ApiResponse<{ canceled: boolean; folderPath?: string; count?: number }>> {
+    return this.invoke<{ canceled: boolean; folderPath?: string; count?: number }>(
+      'certificates:export-all',
+      userId
+    )
+  }
+
+  // Opens the certificate in a window the learner can print from
+  async printCertificate(certificateId: number): Promise<ApiResponse<unknown>> {
+    return this.invoke('certificates:print', certificateId)
+  }
+
+  // Accepts the printed certificate code or the token from its QR code
+  async verifyCertificate(codeOrToken: string): Promise<ApiResponse<CertificateVerification>> {
+    return this.invoke<CertificateVerification>('certificates:verify', codeOrToken)
+  }
+
+  // Certificate template methods
+  async getCertificateTemplates(): Promise<ApiResponse<CertificateTemplateSummary[]>> {
+    return this.invoke<CertificateTemplateSummary[]>('certificate-templates:get-all')
+  }
+
+  async installCertificateTemplate(): Promise<ApiResponse<CertificateTemplateInstallResult>> {
+    return this.invoke<CertificateTemplateInstallResult>('certificate-templates:install')
+  }
+
+  async removeCertificateTemplate(id: string): Promise<ApiResponse<AppSettings>> {
+    return this.invoke<AppSettings>('certificate-templates:remove', id)
+  }
+
+  async selectCertificateTemplate(id: string): Promise<ApiResponse<AppSettings>> {
+    return this.invoke<AppSettings>('certificate-templates:select', id)
+  }
+
+  // Learner profile methods
+  async exportLearnerProfile(userId: number): Promise<ApiResponse<LearnerProfileExportResult>> {
+    return this.invoke<LearnerProfileExportResult>('profiles:export', userId)
+  }
+
+  // Asks for a profile file and describes what importing it would do
+  async inspectLearnerProfile(): Promise<ApiResponse<LearnerProfileInspectResult>> {
+    return this.invoke<LearnerProfileInspectResult>('profiles:inspect')
+  }
+
+  // The password is only needed when an administrator imports a profile for
+  // an account that does not exist here yet, and trustIssuer when the profile
+  // comes from an installation this one does not trust yet
+  async importLearnerProfile(
+    profileId: string,
+    password?: string,
+    trustIssuer?: boolean
+  ): Promise<ApiResponse<LearnerProfileImportResult>> {
+    return this.invoke<LearnerProfileImportResult>(
+      'profiles:import',
+      profileId,
+      password,
+      trustIssuer
+    )
+  }
+
+  // Learners' own profile imports waiting for an administrator
+  async getLearnerProfileReviews(): Promise<ApiResponse<LearnerProfileReview[]>> {
+    return this.invoke<LearnerProfileReview[]>('profiles:get-reviews')
+  }
+
+  async approveLearnerProfileReview(
+    reviewId: number
+  ): Promise<ApiResponse<LearnerProfileImportResult>> {
+    return this.invoke<LearnerProfileImportResult>('profiles:approve-review', reviewId)
+  }
+
+  async rejectLearnerProfileReview(reviewId: number): Promise<ApiResponse<{ message: string }>> {
+    return this.invoke<{ message: string }>('profiles:reject-review', reviewId)
+  }
+
+  // Backup methods
+  async getBackups(): Promise<ApiResponse<BackupSummary[]>> {
+    return this.invoke<BackupSummary[]>('backup:get-all')
+  }
+
+  // Asks where to save, then writes a snapshot of the live database
+  async createBackup(): Promise<ApiResponse<BackupResult>> {
+    return this.invoke<BackupResult>('backup:create')
+  }
+
+  // Restores the named automatic backup, or asks for a backup file. Every
+  // session ends afterwards, so the caller must sign in again.
+  async restoreBackup(fileName?: string): Promise<ApiResponse<RestoreResult>> {
+    return this.invoke<RestoreResult>('backup:restore', fileName)
   }
 
-  async verifyCertificate(certificateCode: string): Promise<ApiResponse<Certificate>> {
-    return this.invoke<Certificate>('certificates:verify', certificateCode)
+  async updateBackupSchedule(
+    interval: BackupInterval,
+    backupsToKeep: number
+  ): Promise<ApiResponse<AppSettings>> {
+    return this.invoke<AppSettings>('backup:update-schedule', interval, backupsToKeep)
+  }
+
+  // Classroom network methods
+  async getLanSyncStatus(): Promise<ApiResponse<LanSyncStatus>> {
+    return this.invoke<LanSyncStatus>('sync:get-status')
+  }
+
+  async getClassroomKey(): Promise<ApiResponse<string | null>> {
+    return this.invoke<string | null>('sync:get-key')
+  }
+
+  // Restarts classroom sync with the new role and key
+  async updateLanSync(role: LanSyncRole, key: string): Promise<ApiResponse<LanSyncStatus>> {
+    return this.invoke<LanSyncStatus>('sync:update', role, key)
+  }
+
+  // Sends every learner's progress to the teacher computers now
+  async syncProgress(): Promise<ApiResponse<ProgressSyncRecord[]>> {
+    return this.invoke<ProgressSyncRecord[]>('sync:sync-progress')
+  }
+
+  async getPeerModules(instanceId: string): Promise<ApiResponse<PeerModule[]>> {
+    return this.invoke<PeerModule[]>('sync:get-peer-modules', instanceId)
+  }
+
+  // Downloads a module from a nearby computer and imports it
+  async pullPeerModule(
+    instanceId: string,
+    moduleId: number
+  ): Promise<ApiResponse<ModuleImportFileReport>> {
+    return this.invoke<ModuleImportFileReport>('sync:pull-module', instanceId, moduleId)
   }
 
   // Utility methods
@@ -0,0 +1,37 @@
+import { ThemePreference } from '../types'
+
+// The learner's own choice from ThemeToggle. When unset, the installation's
+// default theme from the setup wizard applies.
+const THEME_STORAGE_KEY = 'theme'
+
+export type ThemeMode = 'light' | 'dark'
+
+export function getThemeOverride(): ThemeMode | null {
+  const stored = localStorage.getItem(THEME_STORAGE_KEY)
+  return stored === 'light' || stored === 'dark' ? stored : null
+}
+
+export function setThemeOverride(mode: ThemeMode): void {
+  localStorage.setItem(THEME_STORAGE_KEY, mode)
+  applyThemeMode(mode)
+}
+
+export function resolveTheme(preference: ThemePreference): ThemeMode {
+  if (preference === 'system') {
+    return window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light'
+  }
+  return preference
+}
+
+export function applyThemeMode(mode: ThemeMode): void {
+  document.documentElement.classList.toggle('dark', mode === 'dark')
+}
+
+/**
+ * Apply the learner's override if there is one, otherwise the default theme
+ */
+export function applyTheme(defaultTheme: ThemePreference): ThemeMode {
+  const mode = getThemeOverride() || resolveTheme(defaultTheme)
+  applyThemeMode(mode)
+  return mode
+}
@@ -0,0 +1,27 @@
+import { TIME_FLUSH_CHANNEL, TIME_FLUSHED_CHANNEL } from '../../../shared/timeFlush'
+
+// Time trackers register here so their unsaved time can be saved when the
+// main process is about to close the window or quit the app
+
+type FlushHandler = () => Promise<void>
+
+const flushHandlers = new Set<FlushHandler>()
+
+export function registerTimeFlushHandler(handler: FlushHandler): () => void {
+  flushHandlers.add(handler)
+  return () => {
+    flushHandlers.delete(handler)
+  }
+}
+
+/**
+ * Answer the main process's flush requests. Returns a function that stops listening.
+ */
+export function listenForTimeFlushRequests(): () => void {
+  const ipcRenderer = window.electron.ipcRenderer
+
+  return ipcRenderer.on(TIME_FLUSH_CHANNEL, async () => {
+    await Promise.allSettled(Array.from(flushHandlers, (handler) => handler()))
+    ipcRenderer.send(TIME_FLUSHED_CHANNEL)
+  })
+}
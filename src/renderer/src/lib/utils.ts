@@ -72,3 +72,11 @@ export function formatDateShort(date: string): string {
     year: 'numeric'
   }).format(new Date(date))
 }
+
+export function formatSeconds(seconds: number): string {
+  const mins = Math.floor(seconds / 60)
+  const secs = seconds % 60
+
+  if (mins === 0) return `${secs}s`
+  return `${mins}m ${secs.toString().padStart(2, '0')}s`
+}
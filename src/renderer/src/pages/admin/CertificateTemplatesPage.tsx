@@ -0,0 +1,201 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { Check, FileText, Trash2, Upload } from 'lucide-react'
+import { apiClient } from '../../lib/apiClient'
+import { useSettings } from '../../hooks/useSettings'
+import Button from '../../components/ui/Button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/Card'
+import { DEFAULT_TEMPLATE_ID, TEMPLATE_PLACEHOLDERS } from '../../../../shared/certificateTemplate'
+import { AppSettings, CertificateTemplateSummary } from '../../types'
+
+const CertificateTemplatesPage: React.FC = () => {
+  const { settings, setSettings } = useSettings()
+  const [templates, setTemplates] = useState<CertificateTemplateSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isInstalling, setIsInstalling] = useState(false)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const selectedId = settings?.certificateTemplate || DEFAULT_TEMPLATE_ID
+
+  const loadTemplates = useCallback(async () => {
+    const result = await apiClient.getCertificateTemplates()
+    if (result.success && result.data) {
+      setTemplates(result.data)
+    } else {
+      setError(result.error || 'Failed to load certificate templates')
+    }
+    setIsLoading(false)
+  }, [])
+
+  useEffect(() => {
+    loadTemplates()
+  }, [loadTemplates])
+
+  const showResult = (
+    result: { success: boolean; error?: string; data?: AppSettings },
+    message: string
+  ): void => {
+    if (result.success) {
+      if (result.data) setSettings(result.data)
+      setError(null)
+      setNotice(message)
+    } else {
+      setNotice(null)
+      setError(result.error || 'Something went wrong')
+    }
+  }
+
+  const handleInstall = async (): Promise<void> => {
+    setIsInstalling(true)
+    const result = await apiClient.installCertificateTemplate()
+    setIsInstalling(false)
+
+    if (result.success && result.data?.canceled) return
+    showResult(
+      { success: result.success, error: result.error },
+      `Installed "${result.data?.template?.name}"`
+    )
+    await loadTemplates()
+  }
+
+  const handleSelect = async (template: CertificateTemplateSummary): Promise<void> => {
+    setUpdatingId(template.id)
+    const result = await apiClient.selectCertificateTemplate(template.id)
+    showResult(result, `Certificates will now use "${template.name}"`)
+    setUpdatingId(null)
+  }
+
+  const handleRemove = async (template: CertificateTemplateSummary): Promise<void> => {
+    if (!confirm(`Remove the "${template.name}" certificate template?`)) return
+
+    setUpdatingId(template.id)
+    const result = await apiClient.removeCertificateTemplate(template.id)
+    showResult(result, `Removed "${template.name}"`)
+    await loadTemplates()
+    setUpdatingId(null)
+  }
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto animate-fadeIn">
+      <header className="mb-8 flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold mb-2 text-text dark:text-text-dark">
+            Certificate Templates
+          </h1>
+          <p className="text-text-secondary dark:text-text-secondary-dark">
+            Choose the layout used when learners save or print their certificates.
+          </p>
+        </div>
+        <Button onClick={handleInstall} isLoading={isInstalling} leftIcon={<Upload size={16} />}>
+          Install Template
+        </Button>
+      </header>
+
+      {error && (
+        <div className="mb-6 p-3 rounded-md bg-error/10 text-error dark:text-error-dark text-sm">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="mb-6 p-3 rounded-md bg-success/10 text-success dark:text-success-dark text-sm">
+          {notice}
+        </div>
+      )}
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Templates</CardTitle>
+          <CardDescription>
+            Every template includes the signed QR code learners use to verify certificates.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-text-secondary">Loading templates...</p>
+          ) : (
+            <ul className="divide-y divide-border dark:divide-border-dark">
+              {templates.map((template) => {
+                const isSelected = template.id === selectedId
+
+                return (
+                  <li key={template.id} className="py-4 flex items-center justify-between gap-4">
+                    <div className="flex items-start space-x-3">
+                      <FileText
+                        size={20}
+                        className="mt-0.5 shrink-0 text-primary dark:text-primary-dark"
+                      />
+                      <div>
+                        <p className="font-medium">
+                          {template.name}
+                          {template.builtIn && (
+                            <span className="ml-2 text-xs text-text-secondary">Built in</span>
+                          )}
+                        </p>
+                        <p className="text-xs text-text-secondary dark:text-text-secondary-dark">
+                          {template.description || template.id} ·{' '}
+                          {template.orientation === 'landscape' ? 'Landscape' : 'Portrait'}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {isSelected ? (
+                        <span className="flex items-center text-sm text-success dark:text-success-dark">
+                          <Check size={16} className="mr-1" /> In use
+                        </span>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={updatingId === template.id}
+                          onClick={() => handleSelect(template)}
+                        >
+                          Use
+                        </Button>
+                      )}
+                      {!template.builtIn && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={updatingId === template.id}
+                          onClick={() => handleRemove(template)}
+                          aria-label={`Remove ${template.name}`}
+                        >
+                          <Trash2 size={16} />
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Creating a Template</CardTitle>
+          <CardDescription>
+            A template is a template.json file with its logo and signature images in the same
+            folder.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="text-sm space-y-2 text-text-secondary dark:text-text-secondary-dark">
+          <p>
+            Positions and sizes are in millimetres on an A4 page. Text fields may use these
+            placeholders:{' '}
+            {TEMPLATE_PLACEHOLDERS.map((name) => (
+              <code key={name} className="mx-0.5 font-mono text-text dark:text-text-dark">
+                {`{{${name}}}`}
+              </code>
+            ))}
+          </p>
+          <p>Installing a template with the id of an installed one replaces it.</p>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default CertificateTemplatesPage
@@ -0,0 +1,457 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { useNavigate } from '@tanstack/react-router'
+import { Database, History, KeyRound, Monitor, RotateCcw, Save, Send, Upload } from 'lucide-react'
+import { apiClient } from '../../lib/apiClient'
+import { useAuth } from '../../hooks/useAuth'
+import { useSettings } from '../../hooks/useSettings'
+import Button from '../../components/ui/Button'
+import Input from '../../components/ui/Input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/Card'
+import {
+  BACKUP_INTERVALS,
+  DEFAULT_BACKUPS_TO_KEEP,
+  generateClassroomKey,
+  isBackupsToKeep,
+  LAN_SYNC_ROLES,
+  MAX_BACKUPS_TO_KEEP,
+  MIN_BACKUPS_TO_KEEP,
+  normalizeClassroomKey
+} from '../../../../shared/settings'
+import { BackupInterval, BackupSummary, LanSyncRole, LanSyncStatus } from '../../types'
+
+const INTERVAL_LABELS: Record<BackupInterval, string> = {
+  off: 'Never',
+  daily: 'Every day',
+  weekly: 'Every week'
+}
+
+const LAN_SYNC_ROLE_LABELS: Record<LanSyncRole, string> = {
+  off: 'Not connected',
+  learner: 'Learner computer',
+  teacher: 'Teacher computer'
+}
+
+const formatSize = (bytes: number): string =>
+  bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`
+
+const formatDateTime = (date: string): string =>
+  new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeStyle: 'short' }).format(
+    new Date(date)
+  )
+
+const SettingsPage: React.FC = () => {
+  const navigate = useNavigate()
+  const { logout } = useAuth()
+  const { settings, setSettings, loadSettings } = useSettings()
+  const [backups, setBackups] = useState<BackupSummary[]>([])
+  const [backupInterval, setBackupInterval] = useState<BackupInterval>('daily')
+  const [backupsToKeep, setBackupsToKeep] = useState(String(DEFAULT_BACKUPS_TO_KEEP))
+  const [syncRole, setSyncRole] = useState<LanSyncRole>('off')
+  const [classroomKey, setClassroomKey] = useState('')
+  const [syncStatus, setSyncStatus] = useState<LanSyncStatus | null>(null)
+  const [busy, setBusy] = useState<
+    'schedule' | 'backup' | 'restore' | 'network' | 'progress' | null
+  >(null)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const loadBackups = useCallback(async () => {
+    const result = await apiClient.getBackups()
+    if (result.success && result.data) {
+      setBackups(result.data)
+    } else {
+      setError(result.error || 'Failed to load backups')
+    }
+  }, [])
+
+  useEffect(() => {
+    loadBackups()
+  }, [loadBackups])
+
+  const loadSyncStatus = useCallback(async () => {
+    const result = await apiClient.getLanSyncStatus()
+    if (result.success && result.data) {
+      setSyncStatus(result.data)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadSyncStatus()
+    apiClient.getClassroomKey().then((result) => {
+      if (result.success && result.data) setClassroomKey(result.data)
+    })
+  }, [loadSyncStatus])
+
+  useEffect(() => {
+    if (!settings) return
+    setBackupInterval(settings.backupInterval)
+    setBackupsToKeep(String(settings.backupsToKeep))
+    setSyncRole(settings.lanSyncRole)
+  }, [settings])
+
+  const showError = (message: string): void => {
+    setNotice(null)
+    setError(message)
+  }
+
+  const showNotice = (message: string): void => {
+    setError(null)
+    setNotice(message)
+  }
+
+  const handleSaveSchedule = async (): Promise<void> => {
+    const keep = Number(backupsToKeep)
+    if (!isBackupsToKeep(keep)) {
+      showError(`Keep between ${MIN_BACKUPS_TO_KEEP} and ${MAX_BACKUPS_TO_KEEP} backups`)
+      return
+    }
+
+    setBusy('schedule')
+    const result = await apiClient.updateBackupSchedule(backupInterval, keep)
+    setBusy(null)
+
+    if (result.success && result.data) {
+      setSettings(result.data)
+      showNotice('Backup schedule saved')
+      await loadBackups()
+    } else {
+      showError(result.error || 'Failed to save backup schedule')
+    }
+  }
+
+  const handleBackup = async (): Promise<void> => {
+    setBusy('backup')
+    const result = await apiClient.createBackup()
+    setBusy(null)
+
+    if (!result.success || !result.data) {
+      showError(result.error || 'Failed to create backup')
+    } else if (!result.data.canceled) {
+      showNotice(`Backup saved to ${result.data.filePath}`)
+    }
+  }
+
+  const handleRestore = async (backup?: BackupSummary): Promise<void> => {
+    const source = backup ? `the backup from ${formatDateTime(backup.createdAt)}` : 'a backup file'
+    if (
+      !confirm(
+        `Replace all learning data with ${source}? Progress and accounts created since the backup will be lost. A copy of the current data is kept with the automatic backups.`
+      )
+    ) {
+      return
+    }
+
+    setBusy('restore')
+    const result = await apiClient.restoreBackup(backup?.fileName)
+    setBusy(null)
+
+    if (!result.success || !result.data) {
+      showError(result.error || 'Failed to restore backup')
+    } else if (!result.data.canceled) {
+      // Every session ended with the restore; accounts now come from the backup
+      alert('The backup was restored. Sign in again to continue.')
+      logout()
+      navigate({ to: '/auth/login' })
+    }
+  }
+
+  const handleSaveNetwork = async (): Promise<void> => {
+    const key = normalizeClassroomKey(classroomKey)
+    if (syncRole !== 'off' && !key) {
+      showError('Enter the classroom key in the form ABCD-EFGH-JKLM-NPQR, or generate a new one')
+      return
+    }
+
+    setBusy('network')
+    const result = await apiClient.updateLanSync(syncRole, key || '')
+    setBusy(null)
+
+    if (result.success && result.data) {
+      setSyncStatus(result.data)
+      if (key) setClassroomKey(key)
+      await loadSettings()
+      showNotice(
+        result.data.error
+          ? `Settings saved, but the classroom network could not start: ${result.data.error}`
+          : 'Classroom network settings saved'
+      )
+    } else {
+      showError(result.error || 'Failed to save classroom network settings')
+    }
+  }
+
+  const handleSyncProgress = async (): Promise<void> => {
+    setBusy('progress')
+    const result = await apiClient.syncProgress()
+    setBusy(null)
+
+    if (!result.success || !result.data) {
+      showError(result.error || 'Failed to sync progress')
+      return
+    }
+    const failed = result.data.find((record) => record.error)
+    if (failed) {
+      showError(`Could not sync with ${failed.peerName}: ${failed.error}`)
+    } else {
+      showNotice('Progress sent to the teacher computer')
+    }
+    await loadSyncStatus()
+  }
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto animate-fadeIn">
+      <header className="mb-8">
+        <h1 className="text-3xl font-bold mb-2 text-text dark:text-text-dark">Settings</h1>
+        <p className="text-text-secondary dark:text-text-secondary-dark">
+          Protect this installation&apos;s learning data with backups and connect it to the
+          classroom network.
+        </p>
+      </header>
+
+      {error && (
+        <div className="mb-6 p-3 rounded-md bg-error/10 text-error dark:text-error-dark text-sm">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="mb-6 p-3 rounded-md bg-success/10 text-success dark:text-success-dark text-sm">
+          {notice}
+        </div>
+      )}
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Backup and Restore</CardTitle>
+          <CardDescription>
+            A backup holds every account, module, progress record and certificate. It can be taken
+            while learners are using the app.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap gap-3">
+          <Button
+            onClick={handleBackup}
+            isLoading={busy === 'backup'}
+            disabled={busy !== null}
+            leftIcon={<Save size={16} />}
+          >
+            Back Up Now
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => handleRestore()}
+            isLoading={busy === 'restore'}
+            disabled={busy !== null}
+            leftIcon={<Upload size={16} />}
+          >
+            Restore from File
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Automatic Backups</CardTitle>
+          <CardDescription>
+            Automatic backups are kept in the app&apos;s data folder. The oldest are deleted once
+            there are more than you choose to keep.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-end gap-4 mb-6">
+            <label className="text-sm">
+              <span className="block mb-1 font-medium">Back up</span>
+              <select
+                value={backupInterval}
+                onChange={(e) => setBackupInterval(e.target.value as BackupInterval)}
+                className="h-10 rounded-md border border-border bg-surface px-2 text-sm dark:border-border-dark dark:bg-surface-dark"
+              >
+                {BACKUP_INTERVALS.map((value) => (
+                  <option key={value} value={value}>
+                    {INTERVAL_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm w-32">
+              <span className="block mb-1 font-medium">Backups to keep</span>
+              <Input
+                type="number"
+                min={MIN_BACKUPS_TO_KEEP}
+                max={MAX_BACKUPS_TO_KEEP}
+                value={backupsToKeep}
+                onChange={(e) => setBackupsToKeep(e.target.value)}
+              />
+            </label>
+            <Button
+              variant="outline"
+              onClick={handleSaveSchedule}
+              isLoading={busy === 'schedule'}
+              disabled={busy !== null}
+            >
+              Save Schedule
+            </Button>
+          </div>
+
+          {backups.length === 0 ? (
+            <p className="text-sm text-text-secondary dark:text-text-secondary-dark">
+              No automatic backups yet.
+            </p>
+          ) : (
+            <ul className="divide-y divide-border dark:divide-border-dark">
+              {backups.map((backup) => (
+                <li key={backup.fileName} className="py-3 flex items-center justify-between gap-4">
+                  <div className="flex items-center space-x-3">
+                    <Database
+                      size={18}
+                      className="shrink-0 text-primary dark:text-primary-dark"
+                      aria-hidden
+                    />
+                    <div>
+                      <p className="text-sm font-medium">{formatDateTime(backup.createdAt)}</p>
+                      <p className="text-xs text-text-secondary dark:text-text-secondary-dark">
+                        {formatSize(backup.size)}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleRestore(backup)}
+                    disabled={busy !== null}
+                    leftIcon={<RotateCcw size={14} />}
+                  >
+                    Restore
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <p className="flex items-center text-xs text-text-secondary dark:text-text-secondary-dark">
+        <History size={14} className="mr-1" />
+        Backups made by a newer version of Our Africa cannot be restored until this app is updated.
+      </p>
+
+      <Card className="mt-8">
+        <CardHeader>
+          <CardTitle>Classroom Network</CardTitle>
+          <CardDescription>
+            Computers on the same local network that share a classroom key can install modules from
+            each other. Learner computers also send progress to the teacher computer every few
+            minutes. Accounts created this way need a new password on the teacher computer.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-end gap-4 mb-6">
+            <label className="text-sm">
+              <span className="block mb-1 font-medium">This computer is</span>
+              <select
+                value={syncRole}
+                onChange={(e) => setSyncRole(e.target.value as LanSyncRole)}
+                className="h-10 rounded-md border border-border bg-surface px-2 text-sm dark:border-border-dark dark:bg-surface-dark"
+              >
+                {LAN_SYNC_ROLES.map((value) => (
+                  <option key={value} value={value}>
+                    {LAN_SYNC_ROLE_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm w-64">
+              <span className="block mb-1 font-medium">Classroom key</span>
+              <Input
+                value={classroomKey}
+                onChange={(e) => setClassroomKey(e.target.value)}
+                placeholder="ABCD-EFGH-JKLM-NPQR"
+                className="font-mono"
+                leftIcon={<KeyRound size={16} className="text-text-secondary" />}
+              />
+            </label>
+            <Button variant="ghost" onClick={() => setClassroomKey(generateClassroomKey())}>
+              Generate Key
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleSaveNetwork}
+              isLoading={busy === 'network'}
+              disabled={busy !== null}
+            >
+              Save
+            </Button>
+          </div>
+
+          {syncStatus && syncStatus.role !== 'off' && (
+            <div className="space-y-4">
+              <div>
+                <p className="text-sm font-medium mb-2">
+                  Nearby computers seen from {syncStatus.computerName}
+                </p>
+                {syncStatus.peers.length === 0 ? (
+                  <p className="text-sm text-text-secondary dark:text-text-secondary-dark">
+                    None yet. Check that the other computers use the same classroom key.
+                  </p>
+                ) : (
+                  <ul className="divide-y divide-border dark:divide-border-dark">
+                    {syncStatus.peers.map((peer) => (
+                      <li key={peer.instanceId} className="py-2 flex items-center space-x-3">
+                        <Monitor size={16} className="text-primary dark:text-primary-dark" />
+                        <span className="text-sm font-medium">{peer.name}</span>
+                        <span className="text-xs text-text-secondary dark:text-text-secondary-dark">
+                          {LAN_SYNC_ROLE_LABELS[peer.role]} · {peer.address}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-sm font-medium">
+                    {syncStatus.role === 'teacher'
+                      ? 'Progress received'
+                      : 'Progress sent to the teacher computer'}
+                  </p>
+                  {syncStatus.role === 'learner' && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={handleSyncProgress}
+                      isLoading={busy === 'progress'}
+                      disabled={busy !== null}
+                      leftIcon={<Send size={14} />}
+                    >
+                      Sync Now
+                    </Button>
+                  )}
+                </div>
+                {syncStatus.progressSyncs.length === 0 ? (
+                  <p className="text-sm text-text-secondary dark:text-text-secondary-dark">
+                    Nothing synced since the app started.
+                  </p>
+                ) : (
+                  <ul className="divide-y divide-border dark:divide-border-dark text-sm">
+                    {syncStatus.progressSyncs.map((record) => (
+                      <li key={`${record.peerName}-${record.at}`} className="py-2">
+                        <span className="font-medium">{record.peerName}</span>
+                        <span className="ml-2 text-text-secondary dark:text-text-secondary-dark">
+                          {formatDateTime(record.at)} ·{' '}
+                          {record.error ||
+                            `${record.learners} learner${record.learners === 1 ? '' : 's'}, ${record.modulesMerged} module${record.modulesMerged === 1 ? '' : 's'} updated${record.accountsCreated > 0 ? `, ${record.accountsCreated} new account${record.accountsCreated === 1 ? '' : 's'}` : ''}${record.awaitingReview > 0 ? `, ${record.awaitingReview} awaiting review` : ''}`}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default SettingsPage
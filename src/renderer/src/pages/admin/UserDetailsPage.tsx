@@ -0,0 +1,208 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { useNavigate, useParams } from '@tanstack/react-router'
+import { ArrowLeft, Award, Download, RotateCcw } from 'lucide-react'
+import { apiClient } from '../../lib/apiClient'
+import { useModules } from '../../hooks/useModules'
+import Button from '../../components/ui/Button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/Card'
+import Progress from '../../components/ui/Progress'
+import { formatDateShort, formatTime } from '../../lib/utils'
+import { ROLE_LABELS } from '../../../../shared/permissions'
+import { Certificate, UserProgress, UserSummary } from '../../types'
+
+const UserDetailsPage: React.FC = () => {
+  const { userId } = useParams({ from: '/admin/users/$userId' })
+  const navigate = useNavigate()
+  const { modules } = useModules()
+  const [user, setUser] = useState<UserSummary | null>(null)
+  const [progress, setProgress] = useState<UserProgress[]>([])
+  const [certificates, setCertificates] = useState<Certificate[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [isExporting, setIsExporting] = useState(false)
+
+  const id = parseInt(userId, 10)
+
+  const loadUser = useCallback(async () => {
+    const [summaries, progressResult, certificatesResult] = await Promise.all([
+      apiClient.getUserSummaries(),
+      apiClient.getUserProgress(id),
+      apiClient.getUserCertificates(id)
+    ])
+
+    setUser(summaries.data?.find((summary) => summary.id === id) || null)
+    setProgress(progressResult.data || [])
+    setCertificates(certificatesResult.data || [])
+    setError(summaries.error || progressResult.error || certificatesResult.error || null)
+    setIsLoading(false)
+  }, [id])
+
+  useEffect(() => {
+    loadUser()
+  }, [loadUser])
+
+  const handleResetModule = async (moduleId: number, title: string): Promise<void> => {
+    if (!user || !confirm(`Reset ${user.username}'s progress in "${title}"?`)) {
+      return
+    }
+    const result = await apiClient.resetModuleProgress(user.id, moduleId)
+    if (!result.success) {
+      setError(result.error || 'Failed to reset progress')
+      return
+    }
+    await loadUser()
+  }
+
+  const handleExportProfile = async (): Promise<void> => {
+    if (!user) return
+
+    setIsExporting(true)
+    const result = await apiClient.exportLearnerProfile(user.id)
+    setIsExporting(false)
+
+    if (!result.success || !result.data) {
+      setNotice(null)
+      setError(result.error || 'Failed to export profile')
+    } else if (!result.data.canceled) {
+      setError(null)
+      setNotice(`Profile saved to ${result.data.filePath}`)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="p-6 max-w-7xl mx-auto text-center">
+        <p>Loading user...</p>
+      </div>
+    )
+  }
+
+  if (!user) {
+    return (
+      <div className="p-6 max-w-7xl mx-auto text-center">
+        <p className="mb-4">{error || 'User not found'}</p>
+        <Button variant="outline" onClick={() => navigate({ to: '/admin/users' })}>
+          Back to Users
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto animate-fadeIn">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="mb-4"
+        onClick={() => navigate({ to: '/admin/users' })}
+        leftIcon={<ArrowLeft size={16} />}
+      >
+        Back to Users
+      </Button>
+
+      <header className="mb-8 flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold mb-2 text-text dark:text-text-dark">{user.username}</h1>
+          <p className="text-text-secondary dark:text-text-secondary-dark">
+            {user.email} · {ROLE_LABELS[user.role]} · Joined {formatDateShort(user.created_at)}
+            {!user.is_active && ' · Deactivated'}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={handleExportProfile}
+          isLoading={isExporting}
+          leftIcon={<Download size={16} />}
+        >
+          Export Profile
+        </Button>
+      </header>
+
+      {error && (
+        <div className="mb-6 p-3 rounded-md bg-error/10 text-error dark:text-error-dark text-sm">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="mb-6 p-3 rounded-md bg-success/10 text-success dark:text-success-dark text-sm">
+          {notice}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Module Progress</CardTitle>
+            <CardDescription>
+              {user.modulesCompleted} of {user.modulesStarted} started modules completed,{' '}
+              {formatTime(Math.round(user.totalTimeSpent / 60))} spent learning
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-5">
+            {progress.length === 0 && (
+              <p className="text-sm text-text-secondary">This user has not started any modules.</p>
+            )}
+            {progress.map((entry) => {
+              const module = modules.find((m) => m.id === entry.module_id)
+              const title = module?.title || `Module ${entry.module_id}`
+
+              return (
+                <div key={entry.id}>
+                  <div className="flex justify-between items-center mb-2">
+                    <div>
+                      <p className="font-medium">{title}</p>
+                      <p className="text-xs text-text-secondary">
+                        {entry.completed && entry.completion_date
+                          ? `Completed ${formatDateShort(entry.completion_date)}`
+                          : `Last accessed ${formatDateShort(entry.last_accessed)}`}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleResetModule(entry.module_id, title)}
+                      leftIcon={<RotateCcw size={14} />}
+                    >
+                      Reset
+                    </Button>
+                  </div>
+                  <Progress
+                    value={entry.progress_percentage}
+                    variant={entry.completed ? 'success' : 'default'}
+                    showValue
+                  />
+                </div>
+              )
+            })}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Certificates</CardTitle>
+            <CardDescription>{certificates.length} issued</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {certificates.map((certificate) => (
+              <div key={certificate.id} className="flex items-start space-x-3">
+                <Award size={18} className="text-primary dark:text-primary-dark shrink-0" />
+                <div>
+                  <p className="text-sm font-medium">
+                    {modules.find((m) => m.id === certificate.module_id)?.title ||
+                      `Module ${certificate.module_id}`}
+                  </p>
+                  <p className="text-xs text-text-secondary font-mono">
+                    {certificate.certificate_code}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
+
+export default UserDetailsPage
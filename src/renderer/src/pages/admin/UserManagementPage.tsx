@@ -0,0 +1,389 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { useNavigate } from '@tanstack/react-router'
+import {
+  Award,
+  BookOpen,
+  ClipboardCheck,
+  FileUp,
+  KeyRound,
+  Trash2,
+  Upload,
+  UserCheck,
+  UserX,
+  Users
+} from 'lucide-react'
+import { apiClient } from '../../lib/apiClient'
+import { useAuth } from '../../hooks/useAuth'
+import Button from '../../components/ui/Button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/Card'
+import ResetPasswordModal from '../../components/admin/ResetPasswordModal'
+import DeleteUserModal from '../../components/admin/DeleteUserModal'
+import UserImportReportModal from '../../components/admin/UserImportReportModal'
+import ProfileImportModal from '../../components/profile/ProfileImportModal'
+import { formatDateShort, formatTime } from '../../lib/utils'
+import { ROLE_LABELS, USER_ROLES, UserRole } from '../../../../shared/permissions'
+import {
+  LearnerProfileReview,
+  LearnerProfileSummary,
+  UserImportReport,
+  UserSummary
+} from '../../types'
+
+const UserManagementPage: React.FC = () => {
+  const navigate = useNavigate()
+  const { user: currentUser, syncSession } = useAuth()
+  const [users, setUsers] = useState<UserSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [updatingUserId, setUpdatingUserId] = useState<number | null>(null)
+  const [passwordUser, setPasswordUser] = useState<UserSummary | null>(null)
+  const [userToDelete, setUserToDelete] = useState<UserSummary | null>(null)
+  const [importReport, setImportReport] = useState<UserImportReport | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const [profile, setProfile] = useState<LearnerProfileSummary | null>(null)
+  const [isReadingProfile, setIsReadingProfile] = useState(false)
+  const [reviews, setReviews] = useState<LearnerProfileReview[]>([])
+  const [review, setReview] = useState<LearnerProfileReview | null>(null)
+
+  const loadUsers = useCallback(async () => {
+    const result = await apiClient.getUserSummaries()
+    if (result.success && result.data) {
+      setUsers(result.data)
+    } else {
+      setError(result.error || 'Failed to load users')
+    }
+    setIsLoading(false)
+  }, [])
+
+  // Profiles learners imported themselves, merged once an administrator approves them
+  const loadReviews = useCallback(async () => {
+    const result = await apiClient.getLearnerProfileReviews()
+    if (result.success && result.data) {
+      setReviews(result.data)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadUsers()
+    loadReviews()
+  }, [loadUsers, loadReviews])
+
+  const showResult = (result: { success: boolean; error?: string }, message: string): void => {
+    if (result.success) {
+      setError(null)
+      setNotice(message)
+    } else {
+      setNotice(null)
+      setError(result.error || 'Something went wrong')
+    }
+  }
+
+  const handleRoleChange = async (userId: number, role: UserRole): Promise<void> => {
+    setUpdatingUserId(userId)
+    const result = await apiClient.setUserRole(userId, role)
+    if (result.success && result.data && currentUser?.id === userId) {
+      syncSession(result.data)
+    }
+    showResult(result, `Role changed to ${ROLE_LABELS[role]}`)
+    await loadUsers()
+    setUpdatingUserId(null)
+  }
+
+  const handleToggleActive = async (user: UserSummary): Promise<void> => {
+    setUpdatingUserId(user.id)
+    const result = await apiClient.setUserActive(user.id, !user.is_active)
+    showResult(
+      result,
+      user.is_active ? `${user.username} has been deactivated` : `${user.username} is active again`
+    )
+    await loadUsers()
+    setUpdatingUserId(null)
+  }
+
+  const handleImport = async (): Promise<void> => {
+    setIsImporting(true)
+    const result = await apiClient.importUsersFromCsv()
+    setIsImporting(false)
+
+    if (!result.success || !result.data) {
+      showResult(result, '')
+      return
+    }
+    if (!result.data.canceled) {
+      setImportReport(result.data)
+      await loadUsers()
+    }
+  }
+
+  const handleChooseProfile = async (): Promise<void> => {
+    setIsReadingProfile(true)
+    const result = await apiClient.inspectLearnerProfile()
+    setIsReadingProfile(false)
+
+    if (!result.success || !result.data) {
+      showResult(result, '')
+    } else if (result.data.profile) {
+      setProfile(result.data.profile)
+    }
+  }
+
+  const activeCount = users.filter((u) => u.is_active).length
+  const completedTotal = users.reduce((total, u) => total + u.modulesCompleted, 0)
+  const certificateTotal = users.reduce((total, u) => total + u.certificateCount, 0)
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto animate-fadeIn">
+      <header className="mb-8 flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold mb-2 text-text dark:text-text-dark">Users</h1>
+          <p className="text-text-secondary dark:text-text-secondary-dark">
+            Manage the learners and staff who share this computer.
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <Button
+            variant="outline"
+            onClick={handleChooseProfile}
+            isLoading={isReadingProfile}
+            leftIcon={<FileUp size={16} />}
+          >
+            Import Profile
+          </Button>
+          <Button onClick={handleImport} isLoading={isImporting} leftIcon={<Upload size={16} />}>
+            Import from CSV
+          </Button>
+        </div>
+      </header>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <Card>
+          <CardContent className="p-6 flex items-center space-x-4">
+            <Users className="text-primary dark:text-primary-dark" size={24} />
+            <div>
+              <p className="text-2xl font-bold">{activeCount}</p>
+              <p className="text-sm text-text-secondary">Active accounts</p>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6 flex items-center space-x-4">
+            <BookOpen className="text-primary dark:text-primary-dark" size={24} />
+            <div>
+              <p className="text-2xl font-bold">{completedTotal}</p>
+              <p className="text-sm text-text-secondary">Modules completed</p>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6 flex items-center space-x-4">
+            <Award className="text-primary dark:text-primary-dark" size={24} />
+            <div>
+              <p className="text-2xl font-bold">{certificateTotal}</p>
+              <p className="text-sm text-text-secondary">Certificates issued</p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-3 rounded-md bg-error/10 text-error dark:text-error-dark text-sm">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="mb-6 p-3 rounded-md bg-success/10 text-success dark:text-success-dark text-sm">
+          {notice}
+        </div>
+      )}
+
+      {reviews.length > 0 && (
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle>Profiles Awaiting Review</CardTitle>
+            <CardDescription>
+              Learners imported these profiles from other computers. Their progress and certificates
+              are added once you approve them.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y divide-border dark:divide-border-dark text-sm">
+              {reviews.map((r) => {
+                const certificates = r.profile.modules.filter((m) => m.certificate).length
+                return (
+                  <li key={r.id} className="py-3 flex items-center justify-between">
+                    <div>
+                      <p className="font-medium">{r.profile.username}</p>
+                      <p className="text-xs text-text-secondary">
+                        Sent {formatDateShort(r.submittedAt)} · {r.profile.modules.length} module
+                        {r.profile.modules.length === 1 ? '' : 's'} · {certificates} certificate
+                        {certificates === 1 ? '' : 's'}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setReview(r)}
+                      leftIcon={<ClipboardCheck size={16} />}
+                    >
+                      Review
+                    </Button>
+                  </li>
+                )
+              })}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Accounts</CardTitle>
+          <CardDescription>
+            Students can only learn. Instructors can also manage modules and view progress.
+            Administrators can additionally manage users, reset progress and choose certificate
+            templates.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          {isLoading ? (
+            <p className="text-sm text-text-secondary">Loading users...</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-text-secondary dark:text-text-secondary-dark border-b border-border dark:border-border-dark">
+                  <th className="py-2 font-medium">User</th>
+                  <th className="py-2 font-medium">Role</th>
+                  <th className="py-2 font-medium">Progress</th>
+                  <th className="py-2 font-medium">Certificates</th>
+                  <th className="py-2 font-medium">Last active</th>
+                  <th className="py-2 font-medium text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {users.map((u) => {
+                  const isSelf = currentUser?.id === u.id
+                  const isUpdating = updatingUserId === u.id
+
+                  return (
+                    <tr
+                      key={u.id}
+                      className={`border-b border-border dark:border-border-dark last:border-0 ${
+                        u.is_active ? '' : 'opacity-60'
+                      }`}
+                    >
+                      <td className="py-3">
+                        <button
+                          className="font-medium hover:underline text-left"
+                          onClick={() => navigate({ to: `/admin/users/${u.id}` })}
+                        >
+                          {u.username}
+                        </button>
+                        {isSelf && <span className="ml-2 text-xs text-text-secondary">(you)</span>}
+                        {!u.is_active && (
+                          <span className="ml-2 text-xs text-error dark:text-error-dark">
+                            Deactivated
+                          </span>
+                        )}
+                        <p className="text-xs text-text-secondary">{u.email}</p>
+                      </td>
+                      <td className="py-3">
+                        <select
+                          value={u.role}
+                          disabled={isUpdating}
+                          onChange={(e) => handleRoleChange(u.id, e.target.value as UserRole)}
+                          className="h-9 rounded-md border border-border bg-surface px-2 dark:border-border-dark dark:bg-surface-dark"
+                        >
+                          {USER_ROLES.map((role) => (
+                            <option key={role} value={role}>
+                              {ROLE_LABELS[role]}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-3">
+                        {u.modulesCompleted} of {u.modulesStarted} modules completed
+                        <p className="text-xs text-text-secondary">
+                          {formatTime(Math.round(u.totalTimeSpent / 60))} spent learning
+                        </p>
+                      </td>
+                      <td className="py-3">{u.certificateCount}</td>
+                      <td className="py-3">
+                        {u.lastActive ? formatDateShort(u.lastActive) : 'Never'}
+                      </td>
+                      <td className="py-3">
+                        <div className="flex justify-end space-x-1">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setPasswordUser(u)}
+                            title="Reset password"
+                            aria-label={`Reset password for ${u.username}`}
+                          >
+                            <KeyRound size={16} />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={isSelf || isUpdating}
+                            onClick={() => handleToggleActive(u)}
+                            title={u.is_active ? 'Deactivate' : 'Reactivate'}
+                            aria-label={`${u.is_active ? 'Deactivate' : 'Reactivate'} ${u.username}`}
+                          >
+                            {u.is_active ? <UserX size={16} /> : <UserCheck size={16} />}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={isSelf}
+                            onClick={() => setUserToDelete(u)}
+                            title="Delete"
+                            aria-label={`Delete ${u.username}`}
+                          >
+                            <Trash2 size={16} />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      <ResetPasswordModal
+        user={passwordUser}
+        onClose={() => setPasswordUser(null)}
+        onReset={(u) => showResult({ success: true }, `Password reset for ${u.username}`)}
+      />
+      <DeleteUserModal
+        user={userToDelete}
+        onClose={() => setUserToDelete(null)}
+        onDeleted={(u) => {
+          showResult({ success: true }, `${u.username} has been deleted`)
+          loadUsers()
+        }}
+      />
+      <UserImportReportModal report={importReport} onClose={() => setImportReport(null)} />
+      <ProfileImportModal
+        profile={profile}
+        onClose={() => setProfile(null)}
+        onImported={loadUsers}
+      />
+      <ProfileImportModal
+        profile={review?.profile ?? null}
+        reviewId={review?.id}
+        onClose={() => setReview(null)}
+        onImported={() => {
+          loadUsers()
+          loadReviews()
+        }}
+        onRejected={loadReviews}
+      />
+    </div>
+  )
+}
+
+export default UserManagementPage
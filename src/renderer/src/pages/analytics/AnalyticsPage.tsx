@@ -0,0 +1,280 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { BookOpen, Clock, Flame, Trophy } from 'lucide-react'
+import { useAuth } from '../../hooks/useAuth'
+import { apiClient } from '../../lib/apiClient'
+import Button from '../../components/ui/Button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/Card'
+import BarChart from '../../components/analytics/BarChart'
+import HorizontalBarChart from '../../components/analytics/HorizontalBarChart'
+import LineChart from '../../components/analytics/LineChart'
+import { formatDateShort, formatTime } from '../../lib/utils'
+import { LearnerAnalytics } from '../../types'
+
+const RANGES = [7, 30, 90]
+
+// "2025-03-14" -> "Mar 14"
+const formatDay = (day: string): string =>
+  new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric' }).format(
+    new Date(`${day}T00:00:00`)
+  )
+
+const formatMinutes = (minutes: number): string => formatTime(Math.round(minutes))
+
+const AnalyticsPage: React.FC = () => {
+  const { user } = useAuth()
+  const [days, setDays] = useState(30)
+  const [analytics, setAnalytics] = useState<LearnerAnalytics | null>(null)
+  const [selectedQuiz, setSelectedQuiz] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!user) return
+
+    let cancelled = false
+    apiClient.getLearnerAnalytics(user.id, days).then((result) => {
+      if (cancelled) return
+      if (result.success && result.data) {
+        setAnalytics(result.data)
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to load analytics')
+      }
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [user, days])
+
+  // One entry per quiz that has attempts, keyed by module and quiz ID
+  const quizzes = useMemo(() => {
+    const byKey = new Map<string, string>()
+    analytics?.quizScores.forEach((score) =>
+      byKey.set(`${score.moduleId}:${score.quizId}`, `${score.moduleTitle} · ${score.quizTitle}`)
+    )
+    return Array.from(byKey, ([key, title]) => ({ key, title }))
+  }, [analytics])
+
+  const quizKey = quizzes.some((quiz) => quiz.key === selectedQuiz)
+    ? selectedQuiz
+    : quizzes[0]?.key || ''
+  const quizScores =
+    analytics?.quizScores.filter((score) => `${score.moduleId}:${score.quizId}` === quizKey) || []
+
+  if (error) {
+    return (
+      <div className="p-6 max-w-7xl mx-auto text-center">
+        <p className="text-error dark:text-error-dark">{error}</p>
+      </div>
+    )
+  }
+
+  if (!user || !analytics) {
+    return (
+      <div className="p-6 max-w-7xl mx-auto text-center">
+        <p>Loading analytics...</p>
+      </div>
+    )
+  }
+
+  const totalSeconds = analytics.timePerDay.reduce((sum, entry) => sum + entry.seconds, 0)
+  const totalLessons = analytics.lessonsCompletedPerDay.reduce((sum, entry) => sum + entry.count, 0)
+  const labelEvery = Math.ceil(analytics.days / 10)
+
+  const stats = [
+    {
+      label: `Time in the last ${analytics.days} days`,
+      value: formatTime(Math.round(totalSeconds / 60)),
+      icon: <Clock className="h-6 w-6 text-primary dark:text-primary-dark" />
+    },
+    {
+      label: 'Lessons completed',
+      value: totalLessons.toString(),
+      icon: <BookOpen className="h-6 w-6 text-primary dark:text-primary-dark" />
+    },
+    {
+      label: 'Current streak',
+      value: `${analytics.streak.current} day${analytics.streak.current !== 1 ? 's' : ''}`,
+      icon: <Flame className="h-6 w-6 text-accent dark:text-accent-dark" />
+    },
+    {
+      label: 'Longest streak',
+      value: `${analytics.streak.longest} day${analytics.streak.longest !== 1 ? 's' : ''}`,
+      icon: <Trophy className="h-6 w-6 text-accent dark:text-accent-dark" />
+    }
+  ]
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto animate-fadeIn">
+      <header className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2 text-text dark:text-text-dark">
+            Learning Analytics
+          </h1>
+          <p className="text-text-secondary dark:text-text-secondary-dark">
+            How you have been learning, and where to focus next.
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          {RANGES.map((range) => (
+            <Button
+              key={range}
+              size="sm"
+              variant={range === days ? 'primary' : 'outline'}
+              onClick={() => setDays(range)}
+            >
+              {range} days
+            </Button>
+          ))}
+        </div>
+      </header>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+        {stats.map((stat) => (
+          <Card key={stat.label}>
+            <CardContent className="p-6">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="text-sm font-medium text-text-secondary dark:text-text-secondary-dark">
+                    {stat.label}
+                  </p>
+                  <h3 className="text-2xl font-bold mt-1">{stat.value}</h3>
+                </div>
+                <div className="p-2 bg-primary/10 rounded-full dark:bg-primary-dark/20">
+                  {stat.icon}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Time per Day</CardTitle>
+            <CardDescription>Active learning time in lessons and quizzes</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <BarChart
+              data={analytics.timePerDay.map((entry) => ({
+                label: formatDay(entry.day),
+                value: entry.seconds / 60
+              }))}
+              formatValue={formatMinutes}
+              labelEvery={labelEvery}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Lessons Completed</CardTitle>
+            <CardDescription>Lessons finished each day</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <BarChart
+              data={analytics.lessonsCompletedPerDay.map((entry) => ({
+                label: formatDay(entry.day),
+                value: entry.count
+              }))}
+              labelEvery={labelEvery}
+              emptyMessage="No lessons completed in this period"
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Time per Module</CardTitle>
+            <CardDescription>All learning time recorded for each module</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <HorizontalBarChart
+              data={analytics.timePerModule.map((entry) => ({
+                label: entry.title,
+                value: entry.seconds / 60
+              }))}
+              formatValue={formatMinutes}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle>Quiz Scores</CardTitle>
+                <CardDescription>Every attempt, with the passing score dashed</CardDescription>
+              </div>
+              {quizzes.length > 1 && (
+                <select
+                  value={quizKey}
+                  onChange={(e) => setSelectedQuiz(e.target.value)}
+                  className="h-9 max-w-[50%] rounded-md border border-border bg-surface px-2 text-sm dark:border-border-dark dark:bg-surface-dark"
+                >
+                  {quizzes.map((quiz) => (
+                    <option key={quiz.key} value={quiz.key}>
+                      {quiz.title}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {quizScores.length > 0 ? (
+              <LineChart
+                data={quizScores.map((score) => ({
+                  label: formatDateShort(score.completedAt),
+                  value: score.score
+                }))}
+                threshold={quizScores[0].passingScore}
+                formatValue={(value) => `${Math.round(value)}%`}
+              />
+            ) : (
+              <p className="py-8 text-center text-sm text-text-secondary dark:text-text-secondary-dark">
+                No quiz attempts yet
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Questions to Review</CardTitle>
+          <CardDescription>The quiz questions you have found hardest so far</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {analytics.hardestQuestions.length > 0 ? (
+            <ul className="divide-y divide-border dark:divide-border-dark">
+              {analytics.hardestQuestions.map((entry) => (
+                <li
+                  key={`${entry.moduleId}:${entry.quizId}:${entry.questionId}`}
+                  className="py-3 flex items-start justify-between gap-4"
+                >
+                  <div>
+                    <p className="font-medium text-text dark:text-text-dark">{entry.question}</p>
+                    <p className="text-xs text-text-secondary dark:text-text-secondary-dark">
+                      {entry.moduleTitle} · {entry.quizTitle}
+                    </p>
+                  </div>
+                  <span className="text-sm whitespace-nowrap text-text-secondary dark:text-text-secondary-dark">
+                    {entry.correct} of {entry.answered} correct
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-text-secondary dark:text-text-secondary-dark">
+              Questions you answer incorrectly will appear here.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default AnalyticsPage
@@ -110,6 +110,14 @@ const LoginPage: React.FC = () => {
                 Sign up
               </a>
             </div>
+            <div className="text-sm text-center text-text-secondary">
+              <a
+                onClick={() => navigate({ to: '/certificates/verify' })}
+                className="text-primary hover:underline cursor-pointer dark:text-primary-dark"
+              >
+                Verify a certificate
+              </a>
+            </div>
           </CardFooter>
         </Card>
       </div>
@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react'
+import { useNavigate } from '@tanstack/react-router'
+import { Award, Calendar, Clock, Download, FolderDown, Printer, Target } from 'lucide-react'
+import { useAuth } from '../../hooks/useAuth'
+import { useProgress } from '../../hooks/useProgress'
+import { apiClient } from '../../lib/apiClient'
+import { formatDateShort, formatTime } from '../../lib/utils'
+import Button from '../../components/ui/Button'
+import { Card, CardContent, CardFooter } from '../../components/ui/Card'
+import { Certificate } from '../../types'
+
+type CertificateAction = 'download' | 'print'
+
+const CertificatesPage: React.FC = () => {
+  const navigate = useNavigate()
+  const { user } = useAuth()
+  const { certificates, isLoading, loadProgress } = useProgress()
+  const [busy, setBusy] = useState<{ id: number; action: CertificateAction } | null>(null)
+  const [isExportingAll, setIsExportingAll] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (user) loadProgress(user.id)
+  }, [user, loadProgress])
+
+  const earned = certificates
+    .filter((certificate) => certificate.user_id === user?.id)
+    .sort((a, b) => b.generated_at.localeCompare(a.generated_at))
+
+  const showError = (message: string): void => {
+    setNotice(null)
+    setError(message)
+  }
+
+  const handleDownload = async (certificate: Certificate): Promise<void> => {
+    setBusy({ id: certificate.id, action: 'download' })
+    const result = await apiClient.exportCertificate(certificate.id)
+    setBusy(null)
+
+    if (!result.success || !result.data) {
+      showError(result.error || 'Failed to save certificate')
+    } else if (!result.data.canceled) {
+      setError(null)
+      setNotice(`Saved to ${result.data.filePath}`)
+    }
+  }
+
+  const handlePrint = async (certificate: Certificate): Promise<void> => {
+    setBusy({ id: certificate.id, action: 'print' })
+    const result = await apiClient.printCertificate(certificate.id)
+    setBusy(null)
+
+    if (!result.success) showError(result.error || 'Failed to print certificate')
+  }
+
+  const handleExportAll = async (): Promise<void> => {
+    if (!user) return
+
+    setIsExportingAll(true)
+    const result = await apiClient.exportAllCertificates(user.id)
+    setIsExportingAll(false)
+
+    if (!result.success || !result.data) {
+      showError(result.error || 'Failed to export certificates')
+    } else if (!result.data.canceled) {
+      setError(null)
+      setNotice(
+        `Saved ${result.data.count} certificate${result.data.count === 1 ? '' : 's'} to ${result.data.folderPath}`
+      )
+    }
+  }
+
+  if (!user || (isLoading && earned.length === 0)) {
+    return (
+      <div className="p-6 max-w-7xl mx-auto text-center">
+        <p>Loading certificates...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto animate-fadeIn">
+      <header className="mb-8 flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold mb-2 text-text dark:text-text-dark">My Certificates</h1>
+          <p className="text-text-secondary dark:text-text-secondary-dark">
+            Every certificate you have earned, ready to save or print.
+          </p>
+        </div>
+        {earned.length > 0 && (
+          <Button
+            variant="outline"
+            onClick={handleExportAll}
+            isLoading={isExportingAll}
+            leftIcon={<FolderDown size={16} />}
+          >
+            Export All
+          </Button>
+        )}
+      </header>
+
+      {error && (
+        <div className="mb-6 p-3 rounded-md bg-error/10 text-error dark:text-error-dark text-sm">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="mb-6 p-3 rounded-md bg-success/10 text-success dark:text-success-dark text-sm">
+          {notice}
+        </div>
+      )}
+
+      {earned.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <Award className="h-10 w-10 mx-auto mb-3 text-accent dark:text-accent-dark" />
+            <p className="font-medium mb-1">No certificates yet</p>
+            <p className="text-sm text-text-secondary dark:text-text-secondary-dark mb-4">
+              Complete a module to earn your first certificate.
+            </p>
+            <Button onClick={() => navigate({ to: '/modules/browse' })}>Browse Modules</Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {earned.map((certificate) => (
+            <Card key={certificate.id} className="flex flex-col">
+              <CardContent className="p-6 flex-1">
+                <div className="flex items-start space-x-3 mb-4">
+                  <div className="p-2 bg-accent/10 rounded-full dark:bg-accent-dark/20 shrink-0">
+                    <Award className="h-5 w-5 text-accent dark:text-accent-dark" />
+                  </div>
+                  <div>
+                    <h3 className="font-semibold text-text dark:text-text-dark">
+                      {certificate.module_title}
+                    </h3>
+                    <p className="text-xs font-mono text-text-secondary dark:text-text-secondary-dark">
+                      {certificate.certificate_code}
+                    </p>
+                  </div>
+                </div>
+
+                <dl className="space-y-2 text-sm text-text-secondary dark:text-text-secondary-dark">
+                  <div className="flex items-center">
+                    <Calendar size={14} className="mr-2" />
+                    <dt className="sr-only">Issued</dt>
+                    <dd>Issued {formatDateShort(certificate.generated_at)}</dd>
+                  </div>
+                  <div className="flex items-center">
+                    <Target size={14} className="mr-2" />
+                    <dt className="sr-only">Score</dt>
+                    <dd>
+                      {certificate.score === null
+                        ? 'No quizzes in this module'
+                        : `Average quiz score ${certificate.score}%`}
+                    </dd>
+                  </div>
+                  <div className="flex items-center">
+                    <Clock size={14} className="mr-2" />
+                    <dt className="sr-only">Time spent</dt>
+                    <dd>
+                      {certificate.time_spent > 0
+                        ? `${formatTime(Math.round(certificate.time_spent / 60))} spent`
+                        : 'Time spent not recorded'}
+                    </dd>
+                  </div>
+                </dl>
+              </CardContent>
+              <CardFooter className="flex space-x-2">
+                <Button
+                  size="sm"
+                  onClick={() => handleDownload(certificate)}
+                  isLoading={busy?.id === certificate.id && busy.action === 'download'}
+                  disabled={busy !== null}
+                  leftIcon={<Download size={14} />}
+                >
+                  Download
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handlePrint(certificate)}
+                  isLoading={busy?.id === certificate.id && busy.action === 'print'}
+                  disabled={busy !== null}
+                  leftIcon={<Printer size={14} />}
+                >
+                  Print
+                </Button>
+              </CardFooter>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default CertificatesPage
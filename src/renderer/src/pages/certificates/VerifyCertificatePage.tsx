@@ -0,0 +1,147 @@
+import React, { useState } from 'react'
+import { AlertTriangle, QrCode, ShieldCheck, ShieldX } from 'lucide-react'
+import { apiClient } from '../../lib/apiClient'
+import Button from '../../components/ui/Button'
+import Input from '../../components/ui/Input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/Card'
+import { formatDateShort } from '../../lib/utils'
+import { CertificateVerification } from '../../types'
+
+const VerifyCertificatePage: React.FC = () => {
+  const [input, setInput] = useState('')
+  const [verification, setVerification] = useState<CertificateVerification | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isVerifying, setIsVerifying] = useState(false)
+
+  // QR scanners type the code and press Enter, which submits the form
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault()
+    if (!input.trim()) return
+
+    setIsVerifying(true)
+    const result = await apiClient.verifyCertificate(input)
+    setIsVerifying(false)
+
+    if (result.success && result.data) {
+      setVerification(result.data)
+      setError(null)
+    } else {
+      setVerification(null)
+      setError(result.error || 'Failed to verify certificate')
+    }
+  }
+
+  const payload = verification?.payload
+
+  return (
+    <div className="p-6 max-w-3xl mx-auto animate-fadeIn">
+      <header className="mb-8">
+        <h1 className="text-3xl font-bold mb-2 text-text dark:text-text-dark">
+          Verify a Certificate
+        </h1>
+        <p className="text-text-secondary dark:text-text-secondary-dark">
+          Scan the QR code on a certificate, or paste its contents or certificate ID. The signature
+          is checked on this computer, without needing the database that issued it.
+        </p>
+      </header>
+
+      <Card className="mb-6">
+        <CardContent className="p-6">
+          <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-3">
+            <div className="flex-1">
+              <Input
+                autoFocus
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                placeholder="OAC1.… or OA-XXXX-XXXX-XXXX"
+                leftIcon={<QrCode size={18} className="text-text-secondary" />}
+                className="font-mono"
+              />
+            </div>
+            <Button type="submit" isLoading={isVerifying} disabled={!input.trim()}>
+              Verify
+            </Button>
+          </form>
+          {error && <p className="mt-3 text-sm text-error dark:text-error-dark">{error}</p>}
+        </CardContent>
+      </Card>
+
+      {verification && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-start space-x-3">
+              {!verification.valid ? (
+                <ShieldX className="h-8 w-8 shrink-0 text-error dark:text-error-dark" />
+              ) : verification.issuedHere ? (
+                <ShieldCheck className="h-8 w-8 shrink-0 text-success dark:text-success-dark" />
+              ) : (
+                <AlertTriangle className="h-8 w-8 shrink-0 text-warning dark:text-warning-dark" />
+              )}
+              <div>
+                <CardTitle>
+                  {!verification.valid
+                    ? 'Certificate could not be verified'
+                    : verification.issuedHere
+                      ? 'Authentic certificate'
+                      : 'Valid signature from another installation'}
+                </CardTitle>
+                <CardDescription>
+                  {!verification.valid
+                    ? verification.error
+                    : verification.issuedHere
+                      ? 'Signed by this installation and unchanged since it was issued.'
+                      : 'The certificate is unchanged since it was signed. Compare the key fingerprint below with the one published by the issuing institution.'}
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          {payload && (
+            <CardContent>
+              <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+                <div>
+                  <dt className="text-text-secondary dark:text-text-secondary-dark">Learner</dt>
+                  <dd className="font-medium">{payload.learner}</dd>
+                </div>
+                <div>
+                  <dt className="text-text-secondary dark:text-text-secondary-dark">Module</dt>
+                  <dd className="font-medium">
+                    {payload.module}
+                    {payload.moduleVersion && ` (v${payload.moduleVersion})`}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-text-secondary dark:text-text-secondary-dark">Completed</dt>
+                  <dd className="font-medium">{formatDateShort(payload.completedAt)}</dd>
+                </div>
+                <div>
+                  <dt className="text-text-secondary dark:text-text-secondary-dark">Issued by</dt>
+                  <dd className="font-medium">{payload.issuer}</dd>
+                </div>
+                <div>
+                  <dt className="text-text-secondary dark:text-text-secondary-dark">
+                    Certificate ID
+                  </dt>
+                  <dd className="font-mono">{payload.code}</dd>
+                </div>
+                <div>
+                  <dt className="text-text-secondary dark:text-text-secondary-dark">
+                    Signing key fingerprint
+                  </dt>
+                  <dd className="font-mono">{verification.issuerFingerprint}</dd>
+                </div>
+              </dl>
+              {verification.valid && verification.onRecord && (
+                <p className="mt-4 text-xs text-text-secondary dark:text-text-secondary-dark">
+                  This certificate also matches the record held in this installation&apos;s
+                  database.
+                </p>
+              )}
+            </CardContent>
+          )}
+        </Card>
+      )}
+    </div>
+  )
+}
+
+export default VerifyCertificatePage
@@ -20,7 +20,12 @@ const DashboardPage: React.FC = () => {
   const navigate = useNavigate()
   const { user } = useAuth()
   const { modules } = useModules()
-  const { getModuleProgress, getCertificateCount, isLoading: isProgressLoading } = useProgress()
+  const {
+    getModuleProgress,
+    getNextLessonId,
+    getCertificateCount,
+    isLoading: isProgressLoading
+  } = useProgress()
 
   if (!user || isProgressLoading) {
     return (
@@ -114,14 +119,7 @@ const DashboardPage: React.FC = () => {
           </Card>
         ) : (
           modules.map((module) => {
-            const progress = user
-              ? getModuleProgress(
-                  user.id,
-                  module.id,
-                  module.content.lessons.length,
-                  module.content.quizzes?.length || 0
-                )
-              : null
+            const progress = user ? getModuleProgress(user.id, module) : null
             const percentComplete = progress?.percentComplete || 0
             const isCompleted = percentComplete === 100
 
@@ -168,11 +166,7 @@ const DashboardPage: React.FC = () => {
                         navigate({ to: `/modules/${module.id}` })
                       } else {
                         navigate({
-                          to: `/modules/${module.id}/learn/${
-                            progress && progress.lessonsCompleted > 0
-                              ? `lesson-${progress.lessonsCompleted + 1}`
-                              : 'lesson-1'
-                          }`
+                          to: `/modules/${module.id}/learn/${getNextLessonId(user.id, module)}`
                         })
                       }
                     }}
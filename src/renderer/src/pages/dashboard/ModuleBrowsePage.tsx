@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react'
 import { useNavigate } from '@tanstack/react-router'
-import { Clock, CheckCircle, Info, Plus } from 'lucide-react'
+import { BarChart, Clock, CheckCircle, Info, Plus, Trash2, User, Wifi } from 'lucide-react'
 import { useModules } from '../../hooks/useModules'
 import { useAuth } from '../../hooks/useAuth'
 import { useProgress } from '../../hooks/useProgress'
+import { useSettings } from '../../hooks/useSettings'
 import Button from '../../components/ui/Button'
 import {
   Card,
@@ -15,23 +16,71 @@ import {
 } from '../../components/ui/Card'
 import { formatTime } from '../../lib/utils'
 import ModuleLoader from '../../components/modules/ModuleLoader'
-import { Module } from '../../types'
+import ModuleFilterPanel from '../../components/modules/ModuleFilterPanel'
+import { ModuleLoaderService } from '../../services/moduleLoader'
+import { apiClient } from '../../lib/apiClient'
+import {
+  DIFFICULTY_LABELS,
+  isModuleDifficulty,
+  MODULE_SORTS,
+  SORT_LABELS
+} from '../../../../shared/moduleFilters'
+import { Module, ModuleFilters, ModuleQueryResult, ModuleSort } from '../../types'
 
 const ModuleBrowsePage: React.FC = () => {
   const navigate = useNavigate()
-  const { modules, loadModules, saveModule } = useModules()
-  const { user } = useAuth()
-  const { getModuleProgress, isLoading: isProgressLoading } = useProgress()
+  const { modules, loadModules, saveModule, upgradeModule, deleteModule } = useModules()
+  const { user, can } = useAuth()
+  const canManageModules = can('modules:manage')
+  const { settings } = useSettings()
+  const isOnClassroomNetwork = settings !== null && settings.lanSyncRole !== 'off'
+  const { getModuleProgress, loadProgress, isLoading: isProgressLoading } = useProgress()
   const [isModuleLoaderOpen, setIsModuleLoaderOpen] = useState(false)
+  const [filters, setFilters] = useState<ModuleFilters>({ sort: 'title' })
+  const [queryResult, setQueryResult] = useState<ModuleQueryResult | null>(null)
 
   // Load modules when component mounts
   useEffect(() => {
     loadModules()
   }, [loadModules])
 
-  const handleModuleLoaded = async (module: Module): Promise<void> => {
+  // Filtering and sorting happen in the main process; run again when modules change
+  useEffect(() => {
+    let cancelled = false
+    const runQuery = async (): Promise<void> => {
+      const result = await apiClient.queryModules(filters)
+      if (cancelled) return
+      if (result.success && result.data) {
+        setQueryResult(result.data)
+      } else {
+        console.error('Failed to filter modules:', result.error)
+      }
+    }
+    runQuery()
+    return () => {
+      cancelled = true
+    }
+  }, [filters, modules])
+
+  // Until the first query returns, show every module
+  const modulesById = new Map(modules.map((module) => [module.id, module]))
+  const visibleModules = queryResult
+    ? queryResult.moduleIds
+        .map((id) => modulesById.get(id))
+        .filter((module): module is Module => !!module)
+    : modules
+
+  const handleModuleLoaded = async (module: Module, packageId?: string): Promise<void> => {
     try {
-      await saveModule(module)
+      if (packageId) {
+        const result = await ModuleLoaderService.installPackage(packageId)
+        if (!result.success) {
+          throw new Error(result.error)
+        }
+        await loadModules()
+      } else {
+        await saveModule(module)
+      }
       setIsModuleLoaderOpen(false)
     } catch (error) {
       console.error('Failed to save module:', error)
@@ -39,6 +88,52 @@ const ModuleBrowsePage: React.FC = () => {
     }
   }
 
+  // Imports from the native dialog may have upgraded modules, which recomputes progress
+  const handleModulesImported = async (): Promise<void> => {
+    await loadModules()
+    if (user) {
+      await loadProgress(user.id)
+    }
+  }
+
+  const handleModuleUpgrade = async (
+    moduleId: number,
+    module: Module,
+    packageId?: string
+  ): Promise<void> => {
+    try {
+      if (packageId) {
+        // Packages are matched to the installed module by title in the main process
+        const result = await ModuleLoaderService.installPackage(packageId)
+        if (!result.success) {
+          throw new Error(result.error)
+        }
+        await loadModules()
+      } else {
+        await upgradeModule(moduleId, module)
+      }
+      if (user) {
+        await loadProgress(user.id)
+      }
+      setIsModuleLoaderOpen(false)
+    } catch (error) {
+      console.error('Failed to upgrade module:', error)
+    }
+  }
+
+  const handleModuleDelete = async (module: Module): Promise<void> => {
+    if (
+      !confirm(`Delete "${module.title}"? Progress for this module will be removed for all users.`)
+    ) {
+      return
+    }
+    try {
+      await deleteModule(module.id)
+    } catch (error) {
+      console.error('Failed to delete module:', error)
+    }
+  }
+
   if (isProgressLoading) {
     return (
       <div className="p-6 max-w-7xl mx-auto text-center">
@@ -56,104 +151,206 @@ const ModuleBrowsePage: React.FC = () => {
             Discover and download new learning modules to expand your knowledge.
           </p>
         </div>
-        <Button onClick={() => setIsModuleLoaderOpen(true)} leftIcon={<Plus size={16} />}>
-          Load Module
-        </Button>
+        <div className="flex space-x-2">
+          {isOnClassroomNetwork && (
+            <Button
+              variant="outline"
+              onClick={() => navigate({ to: '/modules/nearby' })}
+              leftIcon={<Wifi size={16} />}
+            >
+              Nearby Computers
+            </Button>
+          )}
+          {canManageModules && (
+            <Button onClick={() => setIsModuleLoaderOpen(true)} leftIcon={<Plus size={16} />}>
+              Load Module
+            </Button>
+          )}
+        </div>
       </header>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6 mb-8">
-        {modules.map((module: Module) => {
-          const progress = user
-            ? getModuleProgress(
-                user.id,
-                module.id,
-                module.content.lessons.length,
-                module.content.quizzes?.length || 0
-              )
-            : null
-          const isCompleted = progress?.percentComplete === 100
-          // All modules in the store are already downloaded/loaded
-          const isDownloaded = true
-
-          return (
-            <Card
-              key={module.id}
-              className="overflow-hidden group hover:shadow-md transition-shadow duration-300"
-            >
-              <CardHeader className="p-6 pb-0">
-                <CardTitle className="text-xl">
-                  {module.title}
-                  {isDownloaded && (
-                    <CheckCircle
-                      className="inline-block ml-2 text-success dark:text-success-dark"
-                      size={16}
-                    />
-                  )}
-                </CardTitle>
-                <CardDescription className="line-clamp-2">{module.description}</CardDescription>
-              </CardHeader>
-              <CardContent className="p-6">
-                <div className="space-y-4">
-                  <div className="flex items-center text-sm text-text-secondary">
-                    <Clock size={16} className="mr-1" />
-                    <span>
-                      {formatTime(module.content.estimatedTime || module.estimated_duration || 0)}{' '}
-                      estimated
-                    </span>
-                  </div>
-
-                  <div className="flex items-start space-x-2 text-sm">
-                    <Info size={16} className="text-text-secondary mt-0.5 shrink-0" />
-                    <p className="text-text-secondary">
-                      This module includes {module.content.lessons?.length || 0} lessons and{' '}
-                      {module.content.quizzes?.length || 0} quiz
-                      {module.content.quizzes?.length === 1 ? '' : 'zes'}.
-                    </p>
-                  </div>
-                </div>
-              </CardContent>
-              <CardFooter className="p-6 pt-0 flex justify-between">
+      <div className="grid grid-cols-1 lg:grid-cols-[16rem_1fr] gap-6 mb-8">
+        <aside>
+          <ModuleFilterPanel
+            facets={queryResult?.facets || null}
+            filters={filters}
+            onChange={setFilters}
+          />
+        </aside>
+
+        <div>
+          <div className="mb-4 flex items-center justify-between">
+            <p className="text-sm text-text-secondary dark:text-text-secondary-dark">
+              Showing {visibleModules.length} of {modules.length} module
+              {modules.length === 1 ? '' : 's'}
+            </p>
+            <label className="flex items-center text-sm text-text-secondary dark:text-text-secondary-dark">
+              Sort by
+              <select
+                value={filters.sort}
+                onChange={(e) => setFilters({ ...filters, sort: e.target.value as ModuleSort })}
+                className="ml-2 h-9 rounded-md border border-border bg-surface px-2 text-sm text-text dark:border-border-dark dark:bg-surface-dark dark:text-text-dark"
+              >
+                {MODULE_SORTS.map((sort) => (
+                  <option key={sort} value={sort}>
+                    {SORT_LABELS[sort]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {visibleModules.length === 0 && modules.length > 0 && (
+            <Card>
+              <CardContent className="p-8 text-center">
+                <p className="font-medium mb-3">No modules match these filters</p>
                 <Button
-                  size="sm"
                   variant="outline"
-                  onClick={() => navigate({ to: `/modules/${module.id}` })}
-                >
-                  View Details
-                </Button>
-                <Button
                   size="sm"
-                  onClick={() => {
-                    if (isCompleted) {
-                      navigate({ to: `/modules/${module.id}` })
-                    } else if (module.content.lessons && module.content.lessons.length > 0) {
-                      // Navigate to the first lesson or the next incomplete lesson
-                      const firstLesson = module.content.lessons[0]
-                      navigate({
-                        to: `/modules/${module.id}/learn/${firstLesson.id}`
-                      })
-                    } else {
-                      navigate({ to: `/modules/${module.id}` })
-                    }
-                  }}
+                  onClick={() => setFilters({ sort: filters.sort })}
                 >
-                  {isCompleted
-                    ? 'Review'
-                    : progress && progress.lessonsCompleted > 0
-                      ? 'Continue'
-                      : 'Start Learning'}
+                  Clear Filters
                 </Button>
-              </CardFooter>
+              </CardContent>
             </Card>
-          )
-        })}
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+            {visibleModules.map((module: Module) => {
+              const progress = user ? getModuleProgress(user.id, module) : null
+              const isCompleted = progress?.percentComplete === 100
+              // All modules in the store are already downloaded/loaded
+              const isDownloaded = true
+
+              return (
+                <Card
+                  key={module.id}
+                  className="overflow-hidden group hover:shadow-md transition-shadow duration-300"
+                >
+                  <CardHeader className="p-6 pb-0">
+                    <CardTitle className="text-xl">
+                      {module.title}
+                      {isDownloaded && (
+                        <CheckCircle
+                          className="inline-block ml-2 text-success dark:text-success-dark"
+                          size={16}
+                        />
+                      )}
+                    </CardTitle>
+                    <CardDescription className="line-clamp-2">{module.description}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="p-6">
+                    <div className="space-y-4">
+                      <div className="flex items-center text-sm text-text-secondary">
+                        <Clock size={16} className="mr-1" />
+                        <span>
+                          {formatTime(
+                            module.content.estimatedTime || module.estimated_duration || 0
+                          )}{' '}
+                          estimated
+                        </span>
+                      </div>
+
+                      {(isModuleDifficulty(module.difficulty_level) || module.author) && (
+                        <div className="flex items-center flex-wrap gap-x-4 gap-y-1 text-sm text-text-secondary">
+                          {isModuleDifficulty(module.difficulty_level) && (
+                            <span className="flex items-center">
+                              <BarChart size={16} className="mr-1" />
+                              {DIFFICULTY_LABELS[module.difficulty_level]}
+                            </span>
+                          )}
+                          {module.author && (
+                            <span className="flex items-center">
+                              <User size={16} className="mr-1" />
+                              {module.author}
+                            </span>
+                          )}
+                        </div>
+                      )}
+
+                      {module.tags && module.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {module.tags.map((tag) => (
+                            <span
+                              key={tag}
+                              className="px-2 py-0.5 rounded-full bg-primary/10 text-primary dark:bg-primary-dark/20 dark:text-primary-dark text-xs"
+                            >
+                              {tag}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+
+                      <div className="flex items-start space-x-2 text-sm">
+                        <Info size={16} className="text-text-secondary mt-0.5 shrink-0" />
+                        <p className="text-text-secondary">
+                          This module includes {module.content.lessons?.length || 0} lessons and{' '}
+                          {module.content.quizzes?.length || 0} quiz
+                          {module.content.quizzes?.length === 1 ? '' : 'zes'}.
+                        </p>
+                      </div>
+                    </div>
+                  </CardContent>
+                  <CardFooter className="p-6 pt-0 flex justify-between">
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => navigate({ to: `/modules/${module.id}` })}
+                      >
+                        View Details
+                      </Button>
+                      {canManageModules && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleModuleDelete(module)}
+                          aria-label={`Delete ${module.title}`}
+                        >
+                          <Trash2 size={16} />
+                        </Button>
+                      )}
+                    </div>
+                    <Button
+                      size="sm"
+                      onClick={() => {
+                        if (isCompleted) {
+                          navigate({ to: `/modules/${module.id}` })
+                        } else if (module.content.lessons && module.content.lessons.length > 0) {
+                          // Navigate to the first lesson or the next incomplete lesson
+                          const firstLesson = module.content.lessons[0]
+                          navigate({
+                            to: `/modules/${module.id}/learn/${firstLesson.id}`
+                          })
+                        } else {
+                          navigate({ to: `/modules/${module.id}` })
+                        }
+                      }}
+                    >
+                      {isCompleted
+                        ? 'Review'
+                        : progress && progress.lessonsCompleted > 0
+                          ? 'Continue'
+                          : 'Start Learning'}
+                    </Button>
+                  </CardFooter>
+                </Card>
+              )
+            })}
+          </div>
+        </div>
       </div>
 
-      <ModuleLoader
-        isOpen={isModuleLoaderOpen}
-        onClose={() => setIsModuleLoaderOpen(false)}
-        onModuleLoaded={handleModuleLoaded}
-        existingModules={modules}
-      />
+      {canManageModules && (
+        <ModuleLoader
+          isOpen={isModuleLoaderOpen}
+          onClose={() => setIsModuleLoaderOpen(false)}
+          onModuleLoaded={handleModuleLoaded}
+          onModulesImported={handleModulesImported}
+          onModuleUpgrade={handleModuleUpgrade}
+          existingModules={modules}
+        />
+      )}
     </div>
   )
 }
@@ -1,27 +1,43 @@
-import React, { useEffect, useState } from 'react'
-import { useParams, useNavigate } from '@tanstack/react-router'
+import React, { useEffect, useRef, useState } from 'react'
+import { useParams, useNavigate, useSearch } from '@tanstack/react-router'
 import { ChevronLeft, ChevronRight, MoreHorizontal } from 'lucide-react'
 import { useAuth } from '../../hooks/useAuth'
 import { useModules } from '../../hooks/useModules'
 import { useProgress } from '../../hooks/useProgress'
+import { useLearningTimer } from '../../hooks/useTimeTracker'
+import { useSearchHighlight } from '../../hooks/useSearchHighlight'
 import Button from '../../components/ui/Button'
 import Progress from '../../components/ui/Progress'
 import { ContentBlock, UserProgress } from '../../types'
 import ModuleCompletionModal from '../../components/modules/ModuleCompletionModal'
+import MarkdownContent from '../../components/modules/MarkdownContent'
+import MathBlock from '../../components/modules/MathBlock'
+import CodeBlock from '../../components/modules/CodeBlock'
 import { apiClient } from '../../lib/apiClient'
+import { MEDIA_PROTOCOL } from '../../../../shared/moduleSchema'
 
 const LessonPage: React.FC = () => {
   const { moduleId, lessonId } = useParams({
     from: '/modules/$moduleId/learn/$lessonId'
   })
+  const { q: searchQuery } = useSearch({ from: '/modules/$moduleId/learn/$lessonId' })
   const navigate = useNavigate()
   const { user } = useAuth()
   const { currentModule, loadModuleById, isLoading: moduleLoading } = useModules()
   const { updateLessonProgress, isModuleCompleted } = useProgress()
+  const { saveProgress: saveTimeSpent } = useLearningTimer(parseInt(moduleId), lessonId)
 
   const [showCompletionModal, setShowCompletionModal] = useState<boolean>(false)
   const [saving, setSaving] = useState<boolean>(false)
   const [moduleProgressData, setModuleProgressData] = useState<UserProgress | null>(null)
+  const contentRef = useRef<HTMLDivElement>(null)
+
+  // Coming from a search result: show where the lesson matched
+  useSearchHighlight(
+    contentRef,
+    searchQuery,
+    currentModule?.content.lessons.find((l) => l.id === lessonId)
+  )
 
   useEffect(() => {
     if (moduleId) {
@@ -34,10 +50,13 @@ const LessonPage: React.FC = () => {
 
     if (currentModule && user) {
       try {
+        // Time on the lesson is saved by the learning timer; make sure it is
+        // up to date before completion reloads the learner's progress
+        await saveTimeSpent().catch((error) => console.error('Failed to save time spent:', error))
+
         // Mark lesson as completed
         await updateLessonProgress(user.id, currentModule.id, lessonId, {
-          completed: true,
-          timeSpent: 0 // Simplified - no detailed time tracking
+          completed: true
         })
 
         setSaving(false)
@@ -60,12 +79,7 @@ const LessonPage: React.FC = () => {
             navigate({ to: `/modules/${moduleId}/learn/${nextLesson.id}` })
           } else {
             // This is the last lesson - check if module is completed
-            const moduleIsCompleted = isModuleCompleted(
-              user.id,
-              parseInt(moduleId),
-              currentModule.content.lessons.length,
-              currentModule.content.quizzes?.length || 0
-            )
+            const moduleIsCompleted = isModuleCompleted(user.id, currentModule)
 
             if (moduleIsCompleted) {
               // All lessons and quizzes completed - get progress data and show completion modal
@@ -191,9 +205,16 @@ const LessonPage: React.FC = () => {
               {lesson.title}
             </h2>
 
-            <div className="prose dark:prose-invert max-w-none text-text dark:text-text-dark">
+            <div
+              ref={contentRef}
+              className="prose dark:prose-invert max-w-none text-text dark:text-text-dark"
+            >
               {lesson.content.map((item, index) => (
-                <LessonContentRenderer key={index} content={item} />
+                <LessonContentRenderer
+                  key={index}
+                  content={item}
+                  mediaKey={currentModule.media_key}
+                />
               ))}
             </div>
           </div>
@@ -242,20 +263,20 @@ const LessonPage: React.FC = () => {
   )
 }
 
+// Media extracted from a .oamod package is served over oa-media:// and played natively
+const isBundledMedia = (src?: string): boolean => !!src && src.startsWith(`${MEDIA_PROTOCOL}:`)
+
 interface LessonContentRendererProps {
   content: ContentBlock
+  mediaKey?: string | null
 }
 
-const LessonContentRenderer: React.FC<LessonContentRendererProps> = ({ content }) => {
+const LessonContentRenderer: React.FC<LessonContentRendererProps> = ({ content, mediaKey }) => {
   switch (content.type) {
     case 'text':
       return (
         <div className="mb-6">
-          {content.content?.split('\n\n').map((paragraph, idx) => (
-            <p key={idx} className="mb-4">
-              {paragraph}
-            </p>
-          ))}
+          <MarkdownContent mediaKey={mediaKey}>{content.content || ''}</MarkdownContent>
         </div>
       )
 
@@ -273,13 +294,17 @@ const LessonContentRenderer: React.FC<LessonContentRendererProps> = ({ content }
       return (
         <div className="mb-6">
           <div className="aspect-w-16 aspect-h-9 rounded-lg overflow-hidden">
-            <iframe
-              src={content.src}
-              title={content.title}
-              className="w-full h-96 border-0"
-              allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-              allowFullScreen
-            ></iframe>
+            {isBundledMedia(content.src) ? (
+              <video src={content.src} title={content.title} className="w-full h-96" controls />
+            ) : (
+              <iframe
+                src={content.src}
+                title={content.title}
+                className="w-full h-96 border-0"
+                allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+                allowFullScreen
+              ></iframe>
+            )}
           </div>
           {content.title && (
             <p className="text-sm text-text-secondary mt-2 text-center">{content.title}</p>
@@ -290,11 +315,21 @@ const LessonContentRenderer: React.FC<LessonContentRendererProps> = ({ content }
     case 'code':
       return (
         <div className="mb-6">
-          <div className="bg-surface-dark rounded-lg overflow-hidden">
-            <pre className="p-4 text-text-dark overflow-x-auto">
-              <code>{content.content || ''}</code>
-            </pre>
-          </div>
+          <CodeBlock
+            code={content.content || ''}
+            language={content.language}
+            highlightLines={content.highlightLines}
+          />
+        </div>
+      )
+
+    case 'math':
+      return (
+        <div className="mb-6">
+          <MathBlock latex={content.content || ''} />
+          {content.title && (
+            <p className="text-sm text-text-secondary mt-2 text-center">{content.title}</p>
+          )}
         </div>
       )
 
@@ -15,7 +15,14 @@ const ModuleDetailsPage: React.FC = () => {
   const navigate = useNavigate()
   const { user } = useAuth()
   const { currentModule, loadModuleById, isLoading, error } = useModules()
-  const { getModuleProgress, getUserModuleProgress, loadProgress } = useProgress()
+  const {
+    getModuleProgress,
+    getUserModuleProgress,
+    getLessonProgress,
+    getQuizProgress,
+    getNextLessonId,
+    loadProgress
+  } = useProgress()
   const { downloadCertificate, isGenerating: isGeneratingCertificate } = useCertificateDownload()
 
   useEffect(() => {
@@ -63,14 +70,7 @@ const ModuleDetailsPage: React.FC = () => {
     )
   }
 
-  const progress = user
-    ? getModuleProgress(
-        user.id,
-        currentModule.id,
-        currentModule.content.lessons.length,
-        currentModule.content.quizzes?.length || 0
-      )
-    : null
+  const progress = user ? getModuleProgress(user.id, currentModule) : null
 
   // Get raw user progress data for timestamps
   const userProgress = user ? getUserModuleProgress(user.id, currentModule.id) : null
@@ -210,7 +210,7 @@ const ModuleDetailsPage: React.FC = () => {
                       }
                       rightIcon={<ArrowRight size={16} />}
                     >
-                      {progress?.lessonsCompleted && progress.lessonsCompleted > index
+                      {user && getLessonProgress(user.id, currentModule.id, lesson.id)?.completed
                         ? 'Review'
                         : 'Start'}
                     </Button>
@@ -229,28 +229,44 @@ const ModuleDetailsPage: React.FC = () => {
           </CardHeader>
           <CardContent>
             <ul className="divide-y divide-border dark:divide-border-dark">
-              {currentModule.content.quizzes?.map((quiz, index) => (
-                <li key={quiz.id} className="py-3">
-                  <div className="flex justify-between items-center">
-                    <div>
-                      <span className="text-text-secondary text-sm mr-2">{index + 1}.</span>
-                      <span className="font-medium">{quiz.title}</span>
+              {currentModule.content.quizzes?.map((quiz, index) => {
+                const quizProgress = user
+                  ? getQuizProgress(user.id, currentModule.id, quiz.id)
+                  : null
+                return (
+                  <li key={quiz.id} className="py-3">
+                    <div className="flex justify-between items-center">
+                      <div>
+                        <span className="text-text-secondary text-sm mr-2">{index + 1}.</span>
+                        <span className="font-medium">{quiz.title}</span>
+                        {quizProgress && (
+                          <span
+                            className={`ml-2 text-sm ${
+                              quizProgress.score >= quiz.passingScore
+                                ? 'text-success dark:text-success-dark'
+                                : 'text-text-secondary dark:text-text-secondary-dark'
+                            }`}
+                          >
+                            {quizProgress.score}%
+                          </span>
+                        )}
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() =>
+                          navigate({
+                            to: `/modules/${currentModule.id}/quiz/${quiz.id}`
+                          })
+                        }
+                        rightIcon={<ArrowRight size={16} />}
+                      >
+                        {quizProgress ? 'Retake Quiz' : 'Take Quiz'}
+                      </Button>
                     </div>
-                    <Button
-                      size="sm"
-                      variant="ghost"
-                      onClick={() =>
-                        navigate({
-                          to: `/modules/${currentModule.id}/quiz/${quiz.id}`
-                        })
-                      }
-                      rightIcon={<ArrowRight size={16} />}
-                    >
-                      Take Quiz
-                    </Button>
-                  </div>
-                </li>
-              )) || (
+                  </li>
+                )
+              }) || (
                 <li className="py-3 text-center text-text-secondary">
                   No quizzes available for this module
                 </li>
@@ -262,7 +278,15 @@ const ModuleDetailsPage: React.FC = () => {
 
       <div className="text-center">
         <Button
-          onClick={() => navigate({ to: `/modules/${currentModule.id}/learn/lesson-1` })}
+          onClick={() =>
+            navigate({
+              to: `/modules/${currentModule.id}/learn/${
+                user
+                  ? getNextLessonId(user.id, currentModule)
+                  : currentModule.content.lessons[0]?.id
+              }`
+            })
+          }
           size="lg"
         >
           {progress && progress.lessonsCompleted > 0 ? 'Continue Learning' : 'Start Learning'}
@@ -0,0 +1,246 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { useNavigate } from '@tanstack/react-router'
+import { ArrowLeft, CheckCircle, Download, Monitor, RefreshCw, Wifi } from 'lucide-react'
+import { apiClient } from '../../lib/apiClient'
+import { useModules } from '../../hooks/useModules'
+import Button from '../../components/ui/Button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/Card'
+import { compareVersions } from '../../../../shared/moduleVersion'
+import { LanSyncStatus, PeerModule, PeerSummary } from '../../types'
+
+// Nearby computers come and go, so the list is refreshed while the page is open
+const STATUS_REFRESH_MS = 5 * 1000
+
+const NearbyModulesPage: React.FC = () => {
+  const navigate = useNavigate()
+  const { loadModules } = useModules()
+  const [status, setStatus] = useState<LanSyncStatus | null>(null)
+  const [peer, setPeer] = useState<PeerSummary | null>(null)
+  const [peerModules, setPeerModules] = useState<PeerModule[]>([])
+  const [isLoadingModules, setIsLoadingModules] = useState(false)
+  const [installingId, setInstallingId] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const loadStatus = useCallback(async () => {
+    const result = await apiClient.getLanSyncStatus()
+    if (result.success && result.data) {
+      setStatus(result.data)
+    } else {
+      setError(result.error || 'Failed to find nearby computers')
+    }
+  }, [])
+
+  useEffect(() => {
+    loadStatus()
+    const timer = setInterval(loadStatus, STATUS_REFRESH_MS)
+    return () => clearInterval(timer)
+  }, [loadStatus])
+
+  const loadPeerModules = useCallback(async (selected: PeerSummary) => {
+    setPeer(selected)
+    setIsLoadingModules(true)
+    const result = await apiClient.getPeerModules(selected.instanceId)
+    setIsLoadingModules(false)
+
+    if (result.success && result.data) {
+      setPeerModules(result.data)
+      setError(null)
+    } else {
+      setPeerModules([])
+      setError(result.error || `Failed to list modules on ${selected.name}`)
+    }
+  }, [])
+
+  const handleInstall = async (module: PeerModule): Promise<void> => {
+    if (!peer) return
+
+    setInstallingId(module.id)
+    const result = await apiClient.pullPeerModule(peer.instanceId, module.id)
+    setInstallingId(null)
+
+    if (!result.success || !result.data) {
+      setNotice(null)
+      setError(result.error || 'Failed to install module')
+    } else if (!result.data.success) {
+      setNotice(null)
+      setError(result.data.errors.join(' '))
+    } else {
+      setError(null)
+      setNotice(
+        result.data.upgradedFromVersion
+          ? `Updated "${module.title}" from version ${result.data.upgradedFromVersion}`
+          : `Installed "${module.title}"`
+      )
+      await loadModules()
+      await loadPeerModules(peer)
+    }
+  }
+
+  const renderModuleAction = (module: PeerModule): React.ReactNode => {
+    const comparison =
+      module.installedVersion === null
+        ? 1
+        : compareVersions(module.version, module.installedVersion)
+    if (comparison <= 0) {
+      return (
+        <span className="inline-flex items-center text-sm text-success dark:text-success-dark">
+          <CheckCircle size={14} className="mr-1" />
+          Installed
+        </span>
+      )
+    }
+    return (
+      <Button
+        size="sm"
+        onClick={() => handleInstall(module)}
+        isLoading={installingId === module.id}
+        disabled={installingId !== null}
+        leftIcon={<Download size={14} />}
+      >
+        {module.installedVersion === null ? 'Install' : 'Update'}
+      </Button>
+    )
+  }
+
+  const isOff = status !== null && (status.role === 'off' || !status.keyConfigured)
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto animate-fadeIn">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="mb-4"
+        onClick={() => navigate({ to: '/modules/browse' })}
+        leftIcon={<ArrowLeft size={16} />}
+      >
+        Back to Modules
+      </Button>
+
+      <header className="mb-8">
+        <h1 className="text-3xl font-bold mb-2 text-text dark:text-text-dark">Nearby Computers</h1>
+        <p className="text-text-secondary dark:text-text-secondary-dark">
+          Install modules from other computers in your classroom, without the internet.
+        </p>
+      </header>
+
+      {error && (
+        <div className="mb-6 p-3 rounded-md bg-error/10 text-error dark:text-error-dark text-sm">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="mb-6 p-3 rounded-md bg-success/10 text-success dark:text-success-dark text-sm">
+          {notice}
+        </div>
+      )}
+
+      {isOff ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <Wifi className="h-10 w-10 mx-auto mb-3 text-text-secondary" />
+            <p className="font-medium mb-1">The classroom network is turned off</p>
+            <p className="text-sm text-text-secondary dark:text-text-secondary-dark">
+              An administrator can turn it on under Settings.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Computers</CardTitle>
+              <CardDescription>
+                {status?.error
+                  ? `The classroom network could not start: ${status.error}`
+                  : 'Computers on this network with the same classroom key.'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!status || status.peers.length === 0 ? (
+                <p className="text-sm text-text-secondary dark:text-text-secondary-dark flex items-center">
+                  <RefreshCw size={14} className="mr-2 animate-spin" />
+                  Looking for nearby computers...
+                </p>
+              ) : (
+                <ul className="space-y-2">
+                  {status.peers.map((nearby) => (
+                    <li key={nearby.instanceId}>
+                      <button
+                        type="button"
+                        onClick={() => loadPeerModules(nearby)}
+                        className={`w-full flex items-center p-3 rounded-md border text-left transition-colors ${
+                          peer?.instanceId === nearby.instanceId
+                            ? 'border-primary bg-primary/5 dark:border-primary-dark dark:bg-primary-dark/10'
+                            : 'border-border hover:bg-surface dark:border-border-dark dark:hover:bg-surface-dark'
+                        }`}
+                      >
+                        <Monitor
+                          size={18}
+                          className="mr-3 shrink-0 text-primary dark:text-primary-dark"
+                        />
+                        <div>
+                          <p className="text-sm font-medium">{nearby.name}</p>
+                          <p className="text-xs text-text-secondary dark:text-text-secondary-dark">
+                            {nearby.role === 'teacher' ? 'Teacher computer' : 'Learner computer'} ·{' '}
+                            {nearby.address}
+                          </p>
+                        </div>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>{peer ? `Modules on ${peer.name}` : 'Modules'}</CardTitle>
+              <CardDescription>
+                Modules are checked before they are installed, and only newer versions replace the
+                ones on this computer.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!peer ? (
+                <p className="text-sm text-text-secondary dark:text-text-secondary-dark">
+                  Choose a computer to see its modules.
+                </p>
+              ) : isLoadingModules ? (
+                <p className="text-sm text-text-secondary dark:text-text-secondary-dark">
+                  Loading modules...
+                </p>
+              ) : peerModules.length === 0 ? (
+                <p className="text-sm text-text-secondary dark:text-text-secondary-dark">
+                  {peer.name} has no modules to share.
+                </p>
+              ) : (
+                <ul className="divide-y divide-border dark:divide-border-dark">
+                  {peerModules.map((module) => (
+                    <li key={module.id} className="py-3 flex items-center justify-between gap-4">
+                      <div>
+                        <p className="font-medium">{module.title}</p>
+                        <p className="text-xs text-text-secondary dark:text-text-secondary-dark">
+                          Version {module.version} · {module.lessonCount} lesson
+                          {module.lessonCount === 1 ? '' : 's'} · {module.quizCount} quiz
+                          {module.quizCount === 1 ? '' : 'zes'}
+                          {module.installedVersion &&
+                            module.installedVersion !== module.version &&
+                            ` · version ${module.installedVersion} installed`}
+                        </p>
+                      </div>
+                      {renderModuleAction(module)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default NearbyModulesPage
@@ -1,14 +1,24 @@
-import React, { useEffect, useState } from 'react'
+import React, { useEffect, useRef, useState } from 'react'
 import { useParams, useNavigate } from '@tanstack/react-router'
-import { ChevronLeft, Check, X, Award, Download } from 'lucide-react'
+import { ChevronLeft, Check, X, Award, Download, Lock } from 'lucide-react'
 import { useAuth } from '../../hooks/useAuth'
 import { useModules } from '../../hooks/useModules'
 import { useProgress } from '../../hooks/useProgress'
+import { useLearningTimer } from '../../hooks/useTimeTracker'
 import Button from '../../components/ui/Button'
 import Progress from '../../components/ui/Progress'
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '../../components/ui/Card'
 import { useCertificateDownload } from '../../hooks/useCertificateDownload'
+import Input from '../../components/ui/Input'
+import QuizAttemptHistory from '../../components/modules/QuizAttemptHistory'
 import { apiClient } from '../../lib/apiClient'
+import {
+  getAttemptAvailability,
+  isAnswered,
+  MAX_TEXT_ANSWER_LENGTH,
+  QuizAnswer
+} from '../../../../shared/quizGrading'
+import { QuizAttempt } from '../../types'
 
 const QuizPage: React.FC = () => {
   const { moduleId, quizId } = useParams({
@@ -17,14 +27,20 @@ const QuizPage: React.FC = () => {
   const navigate = useNavigate()
   const { user } = useAuth()
   const { currentModule, loadModuleById, isLoading: moduleLoading } = useModules()
-  const { saveQuizScore, isModuleCompleted } = useProgress()
+  const { submitQuizAttempt, isModuleCompleted } = useProgress()
+  const { saveProgress: saveTimeSpent } = useLearningTimer(parseInt(moduleId), quizId)
   const { downloadCertificate, isGenerating: isGeneratingCertificate } = useCertificateDownload()
 
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState<number>(0)
-  const [answers, setAnswers] = useState<number[]>([])
+  const [answers, setAnswers] = useState<QuizAnswer[]>([])
   const [quizComplete, setQuizComplete] = useState<boolean>(false)
   const [score, setScore] = useState<number>(0)
   const [moduleCompleted, setModuleCompleted] = useState<boolean>(false)
+  const [attempts, setAttempts] = useState<QuizAttempt[]>([])
+  const [countedScore, setCountedScore] = useState<number | null>(null)
+  const [submitError, setSubmitError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false)
+  const startedAt = useRef<number>(Date.now())
 
   useEffect(() => {
     if (moduleId) {
@@ -32,6 +48,16 @@ const QuizPage: React.FC = () => {
     }
   }, [moduleId, loadModuleById])
 
+  useEffect(() => {
+    if (!user || !moduleId || !quizId) return
+
+    apiClient.getQuizAttempts(user.id, parseInt(moduleId), quizId).then((result) => {
+      if (result.success) {
+        setAttempts(result.data || [])
+      }
+    })
+  }, [user, moduleId, quizId])
+
   if (moduleLoading || !currentModule) {
     return (
       <div className="p-6 max-w-4xl mx-auto">
@@ -60,9 +86,9 @@ const QuizPage: React.FC = () => {
     )
   }
 
-  const handleAnswerSelect = (questionIndex: number, answerIndex: number): void => {
+  const handleAnswerSelect = (questionIndex: number, answer: QuizAnswer): void => {
     const newAnswers = [...answers]
-    newAnswers[questionIndex] = answerIndex
+    newAnswers[questionIndex] = answer
     setAnswers(newAnswers)
   }
 
@@ -81,40 +107,38 @@ const QuizPage: React.FC = () => {
   }
 
   const completeQuiz = async (): Promise<void> => {
-    // Calculate score
-    let correctAnswers = 0
-
-    quiz.questions.forEach((question, index) => {
-      if (answers[index] === question.correctAnswer) {
-        correctAnswers++
-      }
-    })
-
-    const calculatedScore = Math.round((correctAnswers / quiz.questions.length) * 100)
-    setScore(calculatedScore)
-    setQuizComplete(true)
-
-    // Save quiz score
-    if (user) {
-      try {
-        await saveQuizScore(user.id, parseInt(moduleId), quizId, calculatedScore)
-
-        // Check if the module is now completed
-        const moduleIsCompleted = isModuleCompleted(
-          user.id,
-          parseInt(moduleId),
-          currentModule.content.lessons.length,
-          currentModule.content.quizzes?.length || 0
-        )
-
-        // Set module completion state if all lessons and quizzes are completed
-        // and this quiz was passed
-        if (moduleIsCompleted && calculatedScore >= quiz.passingScore) {
-          setModuleCompleted(true)
-        }
-      } catch (error) {
-        console.error('Failed to save quiz score:', error)
+    if (!user) return
+
+    setIsSubmitting(true)
+    setSubmitError(null)
+    await saveTimeSpent().catch((error) => console.error('Failed to save time spent:', error))
+    try {
+      // The main process grades the answers and records the attempt
+      const result = await submitQuizAttempt(user.id, {
+        moduleId: parseInt(moduleId),
+        quizId,
+        answers: quiz.questions.map((_, index) => answers[index] ?? null),
+        durationSeconds: Math.round((Date.now() - startedAt.current) / 1000)
+      })
+      const calculatedScore = result.attempt.score
+      setScore(calculatedScore)
+      setCountedScore(result.countedScore)
+      setAttempts([result.attempt, ...attempts])
+      setQuizComplete(true)
+
+      // Check if the module is now completed
+      const moduleIsCompleted = isModuleCompleted(user.id, currentModule)
+
+      // Set module completion state if all lessons and quizzes are completed
+      // and this quiz was passed
+      if (moduleIsCompleted && calculatedScore >= quiz.passingScore) {
+        setModuleCompleted(true)
       }
+    } catch (error) {
+      console.error('Failed to submit quiz:', error)
+      setSubmitError(error instanceof Error ? error.message : 'Failed to submit quiz')
+    } finally {
+      setIsSubmitting(false)
     }
   }
 
@@ -171,6 +195,15 @@ const QuizPage: React.FC = () => {
   const currentQuestion = quiz.questions[currentQuestionIndex]
   const progress = ((currentQuestionIndex + 1) / quiz.questions.length) * 100
   const isPassed = score >= quiz.passingScore
+  const availability = getAttemptAvailability(quiz, attempts)
+
+  const retryQuiz = (): void => {
+    setQuizComplete(false)
+    setCurrentQuestionIndex(0)
+    setAnswers([])
+    setCountedScore(null)
+    startedAt.current = Date.now()
+  }
 
   if (quizComplete) {
     // Handler: reset all progress and go to first lesson
@@ -241,7 +274,21 @@ const QuizPage: React.FC = () => {
                 <span className="text-text dark:text-text-dark">Passing Score</span>
                 <span className="text-text dark:text-text-dark">{quiz.passingScore}%</span>
               </div>
+              {countedScore !== null && countedScore !== score && (
+                <div className="flex justify-between mt-2">
+                  <span className="text-text dark:text-text-dark">Score Counted</span>
+                  <span className="text-text dark:text-text-dark">{countedScore}%</span>
+                </div>
+              )}
             </div>
+
+            {!isPassed && !availability.allowed && (
+              <p className="text-sm text-text-secondary dark:text-text-secondary-dark">
+                {availability.reason}
+              </p>
+            )}
+
+            <QuizAttemptHistory quiz={quiz} attempts={attempts} />
           </CardContent>
           <CardFooter className="flex justify-center">
             {isPassed ? (
@@ -261,11 +308,9 @@ const QuizPage: React.FC = () => {
               <div className="flex space-x-4">
                 <Button
                   variant="outline"
-                  onClick={() => {
-                    setQuizComplete(false)
-                    setCurrentQuestionIndex(0)
-                    setAnswers([])
-                  }}
+                  onClick={retryQuiz}
+                  disabled={!availability.allowed}
+                  title={availability.reason}
                 >
                   Try Again
                 </Button>
@@ -278,6 +323,30 @@ const QuizPage: React.FC = () => {
     )
   }
 
+  if (!availability.allowed) {
+    return (
+      <div className="min-h-screen bg-background dark:bg-background-dark flex items-center justify-center p-4">
+        <Card className="w-full max-w-md animate-fadeIn">
+          <CardHeader className="text-center">
+            <CardTitle className="text-2xl mb-2">{quiz.title}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6 text-center">
+            <div className="mx-auto w-24 h-24 rounded-full flex items-center justify-center bg-surface/50 dark:bg-surface-dark/50">
+              <Lock size={40} className="text-text-secondary dark:text-text-secondary-dark" />
+            </div>
+            <p className="text-text-secondary dark:text-text-secondary-dark">
+              {availability.reason}
+            </p>
+            <QuizAttemptHistory quiz={quiz} attempts={attempts} />
+          </CardContent>
+          <CardFooter className="flex justify-center">
+            <Button onClick={() => navigate({ to: `/modules/${moduleId}` })}>Back to Module</Button>
+          </CardFooter>
+        </Card>
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen bg-background dark:bg-background-dark pb-16">
       {/* Top navigation bar */}
@@ -315,11 +384,29 @@ const QuizPage: React.FC = () => {
             {currentQuestionIndex + 1}. {currentQuestion.question}
           </h2>
 
-          <div className="space-y-3">
-            {currentQuestion.options?.map((option, index) => (
-              <div
-                key={index}
-                className={`
+          {currentQuestion.type === 'text' ? (
+            <Input
+              value={(answers[currentQuestionIndex] as string) || ''}
+              onChange={(e) => handleAnswerSelect(currentQuestionIndex, e.target.value)}
+              onKeyDown={(e) => {
+                if (
+                  e.key === 'Enter' &&
+                  isAnswered(currentQuestion, answers[currentQuestionIndex])
+                ) {
+                  handleNextQuestion()
+                }
+              }}
+              placeholder="Type your answer"
+              maxLength={MAX_TEXT_ANSWER_LENGTH}
+              aria-label="Your answer"
+              autoFocus
+            />
+          ) : (
+            <div className="space-y-3">
+              {currentQuestion.options?.map((option, index) => (
+                <div
+                  key={index}
+                  className={`
                   p-4 rounded-lg border-2 cursor-pointer transition-all
                   ${
                     answers[currentQuestionIndex] === index
@@ -327,11 +414,11 @@ const QuizPage: React.FC = () => {
                       : 'border-border dark:border-border-dark hover:border-primary/50 dark:hover:border-primary-dark/50'
                   }
                 `}
-                onClick={() => handleAnswerSelect(currentQuestionIndex, index)}
-              >
-                <div className="flex items-center">
-                  <div
-                    className={`
+                  onClick={() => handleAnswerSelect(currentQuestionIndex, index)}
+                >
+                  <div className="flex items-center">
+                    <div
+                      className={`
                     w-5 h-5 rounded-full mr-3 flex items-center justify-center
                     ${
                       answers[currentQuestionIndex] === index
@@ -339,16 +426,31 @@ const QuizPage: React.FC = () => {
                         : 'bg-surface/50 dark:bg-surface-dark/50'
                     }
                   `}
-                  >
-                    {answers[currentQuestionIndex] === index && <Check size={12} />}
+                    >
+                      {answers[currentQuestionIndex] === index && <Check size={12} />}
+                    </div>
+                    <span className="text-text dark:text-text-dark">{option}</span>
                   </div>
-                  <span className="text-text dark:text-text-dark">{option}</span>
                 </div>
-              </div>
-            ))}
-          </div>
+              ))}
+            </div>
+          )}
         </div>
 
+        {attempts.length > 0 && (
+          <p className="mt-4 text-sm text-text-secondary dark:text-text-secondary-dark">
+            Attempt {attempts.length + 1}
+            {availability.attemptsRemaining !== null &&
+              ` · ${availability.attemptsRemaining} remaining`}
+          </p>
+        )}
+
+        {submitError && (
+          <div className="mt-4 p-3 bg-error/10 text-error rounded-md text-sm dark:bg-error-dark/20 dark:text-error-dark">
+            {submitError}
+          </div>
+        )}
+
         {/* Navigation buttons */}
         <div className="mt-8 flex justify-between">
           <Button
@@ -361,7 +463,8 @@ const QuizPage: React.FC = () => {
 
           <Button
             onClick={handleNextQuestion}
-            disabled={answers[currentQuestionIndex] === undefined}
+            disabled={!isAnswered(currentQuestion, answers[currentQuestionIndex])}
+            isLoading={isSubmitting}
           >
             {currentQuestionIndex === quiz.questions.length - 1 ? 'Submit' : 'Next'}
           </Button>
@@ -0,0 +1,135 @@
+import React, { useState } from 'react'
+import { Download, Upload, User as UserIcon } from 'lucide-react'
+import { useAuth } from '../../hooks/useAuth'
+import { useProgress } from '../../hooks/useProgress'
+import { apiClient } from '../../lib/apiClient'
+import { formatDateShort } from '../../lib/utils'
+import Button from '../../components/ui/Button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/Card'
+import ProfileImportModal from '../../components/profile/ProfileImportModal'
+import { LearnerProfileSummary } from '../../types'
+
+const ProfilePage: React.FC = () => {
+  const { user } = useAuth()
+  const { loadProgress } = useProgress()
+  const [profile, setProfile] = useState<LearnerProfileSummary | null>(null)
+  const [busy, setBusy] = useState<'export' | 'import' | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const showError = (message: string): void => {
+    setNotice(null)
+    setError(message)
+  }
+
+  const showNotice = (message: string): void => {
+    setError(null)
+    setNotice(message)
+  }
+
+  const handleExport = async (): Promise<void> => {
+    if (!user) return
+
+    setBusy('export')
+    const result = await apiClient.exportLearnerProfile(user.id)
+    setBusy(null)
+
+    if (!result.success || !result.data) {
+      showError(result.error || 'Failed to export profile')
+    } else if (!result.data.canceled) {
+      showNotice(
+        `Profile saved to ${result.data.filePath}. The computer you import it on shows where it came from as ${result.data.fingerprint}.`
+      )
+    }
+  }
+
+  const handleChooseImport = async (): Promise<void> => {
+    setBusy('import')
+    const result = await apiClient.inspectLearnerProfile()
+    setBusy(null)
+
+    if (!result.success || !result.data) {
+      showError(result.error || 'Failed to read profile')
+    } else if (result.data.profile) {
+      setProfile(result.data.profile)
+    }
+  }
+
+  const handleImported = (): void => {
+    if (user) loadProgress(user.id)
+  }
+
+  if (!user) {
+    return (
+      <div className="p-6 max-w-5xl mx-auto text-center">
+        <p>Loading profile...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto animate-fadeIn">
+      <header className="mb-8 flex items-center space-x-4">
+        <div className="h-14 w-14 rounded-full bg-primary/10 dark:bg-primary-dark/20 flex items-center justify-center">
+          <UserIcon className="h-7 w-7 text-primary dark:text-primary-dark" />
+        </div>
+        <div>
+          <h1 className="text-3xl font-bold text-text dark:text-text-dark">{user.username}</h1>
+          <p className="text-text-secondary dark:text-text-secondary-dark">
+            {user.email} · Joined {formatDateShort(user.created_at)}
+          </p>
+        </div>
+      </header>
+
+      {error && (
+        <div className="mb-6 p-3 rounded-md bg-error/10 text-error dark:text-error-dark text-sm">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="mb-6 p-3 rounded-md bg-success/10 text-success dark:text-success-dark text-sm">
+          {notice}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Move to Another Computer</CardTitle>
+          <CardDescription>
+            Export your progress, quiz results and certificates to a file, then import it on another
+            computer running Our Africa. Progress already on that computer is kept, and an
+            administrator there checks the file before yours is added. Your password is not included
+            in the file.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap gap-3">
+          <Button
+            onClick={handleExport}
+            isLoading={busy === 'export'}
+            disabled={busy !== null}
+            leftIcon={<Download size={16} />}
+          >
+            Export Profile
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleChooseImport}
+            isLoading={busy === 'import'}
+            disabled={busy !== null}
+            leftIcon={<Upload size={16} />}
+          >
+            Import Profile
+          </Button>
+        </CardContent>
+      </Card>
+
+      <ProfileImportModal
+        profile={profile}
+        onClose={() => setProfile(null)}
+        onImported={handleImported}
+      />
+    </div>
+  )
+}
+
+export default ProfilePage
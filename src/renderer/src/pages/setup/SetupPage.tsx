@@ -0,0 +1,281 @@
+import React, { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { z } from 'zod'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useNavigate } from '@tanstack/react-router'
+import {
+  ArrowLeft,
+  ArrowRight,
+  Building2,
+  Check,
+  Lock,
+  Mail,
+  Monitor,
+  Moon,
+  Sun,
+  User
+} from 'lucide-react'
+import { useAuth } from '../../hooks/useAuth'
+import { useSettings } from '../../hooks/useSettings'
+import Button from '../../components/ui/Button'
+import Input from '../../components/ui/Input'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle
+} from '../../components/ui/Card'
+import { applyThemeMode, resolveTheme } from '../../lib/theme'
+import { MAX_INSTITUTION_NAME_LENGTH } from '../../../../shared/settings'
+import { ThemePreference } from '../../types'
+
+const setupSchema = z
+  .object({
+    username: z.string().trim().min(3, 'Username must be at least 3 characters'),
+    email: z.string().trim().email('Please enter a valid email address'),
+    password: z.string().min(6, 'Password must be at least 6 characters'),
+    confirmPassword: z.string().min(6, 'Password must be at least 6 characters'),
+    institutionName: z
+      .string()
+      .trim()
+      .min(1, 'Please enter the name of your school or organisation')
+      .max(MAX_INSTITUTION_NAME_LENGTH, 'Institution name is too long'),
+    defaultTheme: z.enum(['light', 'dark', 'system'])
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword']
+  })
+
+type SetupFormValues = z.infer<typeof setupSchema>
+
+const STEPS: { title: string; description: string; fields: (keyof SetupFormValues)[] }[] = [
+  {
+    title: 'Administrator Account',
+    description: 'This account manages modules and learners on this computer',
+    fields: ['username', 'email', 'password', 'confirmPassword']
+  },
+  {
+    title: 'Institution',
+    description: 'Shown on every certificate issued from this computer',
+    fields: ['institutionName']
+  },
+  {
+    title: 'Appearance',
+    description: 'The default theme for everyone. Learners can still switch it themselves.',
+    fields: ['defaultTheme']
+  }
+]
+
+const THEME_OPTIONS: { value: ThemePreference; label: string; icon: React.ReactNode }[] = [
+  { value: 'light', label: 'Light', icon: <Sun size={20} /> },
+  { value: 'dark', label: 'Dark', icon: <Moon size={20} /> },
+  { value: 'system', label: 'Match system', icon: <Monitor size={20} /> }
+]
+
+const SetupPage: React.FC = () => {
+  const navigate = useNavigate()
+  const { completeSetup, isLoading, error } = useAuth()
+  const { loadSettings } = useSettings()
+  const [step, setStep] = useState(0)
+
+  const {
+    register,
+    handleSubmit,
+    trigger,
+    watch,
+    setValue,
+    formState: { errors }
+  } = useForm<SetupFormValues>({
+    resolver: zodResolver(setupSchema),
+    defaultValues: { institutionName: '', defaultTheme: 'system' }
+  })
+
+  const selectedTheme = watch('defaultTheme')
+  const isLastStep = step === STEPS.length - 1
+
+  const selectTheme = (theme: ThemePreference): void => {
+    setValue('defaultTheme', theme)
+    // Preview the choice straight away
+    applyThemeMode(resolveTheme(theme))
+  }
+
+  const goNext = async (): Promise<void> => {
+    if (await trigger(STEPS[step].fields)) {
+      setStep(step + 1)
+    }
+  }
+
+  const onSubmit = async (data: SetupFormValues): Promise<void> => {
+    const success = await completeSetup({
+      username: data.username,
+      email: data.email,
+      password: data.password,
+      institutionName: data.institutionName,
+      defaultTheme: data.defaultTheme
+    })
+    if (success) {
+      await loadSettings()
+      navigate({ to: '/' })
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background dark:bg-background-dark flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <Card className="w-full animate-fadeIn">
+          <CardHeader className="space-y-1">
+            <p className="text-xs font-medium text-text-secondary text-center">
+              Step {step + 1} of {STEPS.length}
+            </p>
+            <CardTitle className="text-2xl font-bold text-center">{STEPS[step].title}</CardTitle>
+            <CardDescription className="text-center">{STEPS[step].description}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {error && (
+              <div className="mb-4 p-3 bg-error/10 text-error rounded-md text-sm dark:bg-error-dark/20 dark:text-error-dark">
+                {error}
+              </div>
+            )}
+            <form
+              id="setup-form"
+              onSubmit={handleSubmit(onSubmit)}
+              onKeyDown={(e) => {
+                // Enter moves to the next step instead of submitting early
+                if (e.key === 'Enter' && !isLastStep) {
+                  e.preventDefault()
+                  goNext()
+                }
+              }}
+              className="space-y-4"
+            >
+              {step === 0 && (
+                <>
+                  <div className="space-y-2">
+                    <label htmlFor="username" className="text-sm font-medium">
+                      Username
+                    </label>
+                    <Input
+                      id="username"
+                      placeholder="admin"
+                      leftIcon={<User size={18} className="text-text-secondary" />}
+                      error={!!errors.username}
+                      helperText={errors.username?.message}
+                      {...register('username')}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label htmlFor="email" className="text-sm font-medium">
+                      Email
+                    </label>
+                    <Input
+                      id="email"
+                      type="email"
+                      placeholder="admin@school.example"
+                      leftIcon={<Mail size={18} className="text-text-secondary" />}
+                      error={!!errors.email}
+                      helperText={errors.email?.message}
+                      {...register('email')}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label htmlFor="password" className="text-sm font-medium">
+                      Password
+                    </label>
+                    <Input
+                      id="password"
+                      type="password"
+                      placeholder="••••••••"
+                      leftIcon={<Lock size={18} className="text-text-secondary" />}
+                      error={!!errors.password}
+                      helperText={errors.password?.message}
+                      {...register('password')}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label htmlFor="confirmPassword" className="text-sm font-medium">
+                      Confirm Password
+                    </label>
+                    <Input
+                      id="confirmPassword"
+                      type="password"
+                      placeholder="••••••••"
+                      leftIcon={<Lock size={18} className="text-text-secondary" />}
+                      error={!!errors.confirmPassword}
+                      helperText={errors.confirmPassword?.message}
+                      {...register('confirmPassword')}
+                    />
+                  </div>
+                </>
+              )}
+
+              {step === 1 && (
+                <div className="space-y-2">
+                  <label htmlFor="institutionName" className="text-sm font-medium">
+                    Institution Name
+                  </label>
+                  <Input
+                    id="institutionName"
+                    placeholder="Nairobi Community Learning Centre"
+                    leftIcon={<Building2 size={18} className="text-text-secondary" />}
+                    error={!!errors.institutionName}
+                    helperText={errors.institutionName?.message}
+                    {...register('institutionName')}
+                  />
+                </div>
+              )}
+
+              {step === 2 && (
+                <div className="grid grid-cols-3 gap-3">
+                  {THEME_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => selectTheme(option.value)}
+                      className={`flex flex-col items-center p-4 rounded-lg border-2 text-sm transition-colors ${
+                        selectedTheme === option.value
+                          ? 'border-primary dark:border-primary-dark'
+                          : 'border-border dark:border-border-dark hover:border-primary/50'
+                      }`}
+                    >
+                      {option.icon}
+                      <span className="mt-2">{option.label}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </form>
+          </CardContent>
+          <CardFooter className="flex justify-between">
+            <Button
+              variant="ghost"
+              onClick={() => setStep(step - 1)}
+              disabled={step === 0}
+              leftIcon={<ArrowLeft size={16} />}
+            >
+              Back
+            </Button>
+            {isLastStep ? (
+              <Button
+                type="submit"
+                form="setup-form"
+                isLoading={isLoading}
+                rightIcon={<Check size={16} />}
+              >
+                Finish Setup
+              </Button>
+            ) : (
+              <Button onClick={goNext} rightIcon={<ArrowRight size={16} />}>
+                Next
+              </Button>
+            )}
+          </CardFooter>
+        </Card>
+      </div>
+    </div>
+  )
+}
+
+export default SetupPage
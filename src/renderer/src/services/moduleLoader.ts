@@ -1,11 +1,23 @@
-import { Module } from '../types'
-import { ModuleValidator, ModuleValidationResult } from '../utils/moduleSchema'
+import { Module, ModuleImportReport } from '../types'
+import { apiClient } from '../lib/apiClient'
+import {
+  ModuleContentDiff,
+  compareVersions,
+  diffModuleContent
+} from '../../../shared/moduleVersion'
+import {
+  ModuleValidator,
+  ModuleValidationOptions,
+  ModuleValidationResult
+} from '../../../shared/moduleSchema'
 
 export interface ModuleLoadResult {
   success: boolean
   module?: Module
   validationResult?: ModuleValidationResult
   error?: string
+  // Set for .oamod packages opened in the native dialog, which the main process installs on confirm
+  packageId?: string
 }
 
 export class ModuleLoaderService {
@@ -130,12 +142,84 @@ export class ModuleLoaderService {
     }
   }
 
+  /**
+   * Open a self-contained .oamod package picked in a native dialog. The main
+   * process unpacks and verifies it; media paths are checked against the files
+   * bundled in the package. Returns null when the dialog is canceled.
+   */
+  static async openPackage(): Promise<ModuleLoadResult | null> {
+    const result = await apiClient.inspectModulePackage()
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error || 'Failed to read module package.' }
+    }
+
+    const { canceled, packageId, moduleData, mediaFiles } = result.data
+    if (canceled || !packageId) {
+      return null
+    }
+
+    const loadResult = this.processModuleData(moduleData, { mediaFiles })
+    return loadResult.success ? { ...loadResult, packageId } : loadResult
+  }
+
+  /**
+   * Install a previously opened .oamod package
+   */
+  static async installPackage(packageId: string): Promise<ModuleLoadResult> {
+    const result = await apiClient.importModulePackage(packageId)
+    const fileReport = result.data?.files[0]
+
+    if (!result.success || !fileReport?.success) {
+      return {
+        success: false,
+        error: fileReport?.errors.join('; ') || result.error || 'Failed to import module package.'
+      }
+    }
+
+    return { success: true }
+  }
+
+  /**
+   * Import one or more module files picked in a native dialog. Validation and
+   * saving happen in the main process; the returned report covers every file.
+   */
+  static async importFromDisk(): Promise<{ report?: ModuleImportReport; error?: string }> {
+    const result = await apiClient.importModule()
+
+    if (!result.success || !result.data) {
+      return { error: result.error || 'Failed to import modules.' }
+    }
+
+    return { report: result.data }
+  }
+
+  /**
+   * Upgrade an installed module from a file the import report held back for confirmation
+   */
+  static async confirmUpgrade(
+    pendingId: string
+  ): Promise<{ report?: ModuleImportReport; error?: string }> {
+    const result = await apiClient.confirmModuleUpgrade(pendingId)
+
+    if (!result.success || !result.data) {
+      return { error: result.error || 'Failed to upgrade module.' }
+    }
+
+    return { report: result.data }
+  }
+
   /**
    * Process and validate module data
    */
-  private static processModuleData(moduleData: unknown): ModuleLoadResult {
+  private static processModuleData(
+    moduleData: unknown,
+    options: ModuleValidationOptions = {}
+  ): ModuleLoadResult {
     // Validate the module structure
-    const validationResult = ModuleValidator.validate(moduleData as Record<string, unknown>)
+    const validationResult = ModuleValidator.validate(
+      moduleData as Record<string, unknown>,
+      options
+    )
 
     if (!validationResult.isValid) {
       return {
@@ -211,7 +295,7 @@ export class ModuleLoaderService {
     if (file.type !== 'application/json' && !file.name.endsWith('.json')) {
       return {
         isValid: false,
-        error: 'Only JSON files are allowed.'
+        error: 'Only JSON files are allowed. Use "Open Package" for .oamod packages.'
       }
     }
 
@@ -258,7 +342,9 @@ export class ModuleLoaderService {
   }
 
   /**
-   * Check if a module with the same ID or title already exists
+   * Check if a module with the same ID or title already exists. For a title
+   * match the versions are compared and a lesson/quiz diff is included so the
+   * user can decide whether to upgrade the installed module.
    */
   static checkForDuplicates(
     newModule: Module,
@@ -267,17 +353,9 @@ export class ModuleLoaderService {
     isDuplicate: boolean
     duplicateType?: 'id' | 'title'
     existingModule?: Module
+    isUpgrade?: boolean
+    diff?: ModuleContentDiff
   } {
-    // Check for ID duplicate
-    const idDuplicate = existingModules.find((module) => module.id === newModule.id)
-    if (idDuplicate) {
-      return {
-        isDuplicate: true,
-        duplicateType: 'id',
-        existingModule: idDuplicate
-      }
-    }
-
     // Check for title duplicate (case-insensitive)
     const titleDuplicate = existingModules.find(
       (module) => module.title.toLowerCase() === newModule.title.toLowerCase()
@@ -286,7 +364,19 @@ export class ModuleLoaderService {
       return {
         isDuplicate: true,
         duplicateType: 'title',
-        existingModule: titleDuplicate
+        existingModule: titleDuplicate,
+        isUpgrade: compareVersions(newModule.version, titleDuplicate.version || '1.0') > 0,
+        diff: diffModuleContent(titleDuplicate.content, newModule.content)
+      }
+    }
+
+    // Check for ID duplicate
+    const idDuplicate = existingModules.find((module) => module.id === newModule.id)
+    if (idDuplicate) {
+      return {
+        isDuplicate: true,
+        duplicateType: 'id',
+        existingModule: idDuplicate
       }
     }
 
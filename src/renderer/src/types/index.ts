@@ -1,76 +1,285 @@
+import type { ModuleContentDiff } from '../../../shared/moduleVersion'
+import type { UserRole } from '../../../shared/permissions'
+import type {
+  ThemePreference,
+  BackupInterval,
+  LanSyncRole,
+  Module,
+  ModuleDifficulty,
+  ModuleStatus,
+  ModuleDuration,
+  ModuleFilters,
+  ContentBlock,
+  Lesson,
+  Quiz,
+  Question,
+  QuizAttempt
+} from '../../../shared/types'
+
+export type {
+  ThemePreference,
+  BackupInterval,
+  LanSyncRole,
+  Module,
+  ModuleDifficulty,
+  ModuleStatus,
+  ModuleDuration,
+  ModuleSort,
+  ModuleFilters,
+  ModuleContent,
+  ContentBlock,
+  Lesson,
+  Quiz,
+  QuizScoringPolicy,
+  Question,
+  QuizAttemptAnswer,
+  QuizAttempt
+} from '../../../shared/types'
+
 // User types
 export interface User {
   id: number
   username: string
   email: string
+  role: UserRole
+  is_active: boolean
   avatar?: string
   created_at: string
 }
 
-export interface AuthUser extends User {
-  token: string
+export interface UserSummary extends User {
+  modulesStarted: number
+  modulesCompleted: number
+  certificateCount: number
+  totalTimeSpent: number
+  lastActive: string | null
 }
 
-export interface UserSession {
-  user: User
-  token: string
+export interface AppSettings {
+  institutionName: string
+  defaultTheme: ThemePreference
+  certificateTemplate: string // id of the template certificates are exported with
+  backupInterval: BackupInterval
+  backupsToKeep: number // automatic backups kept before the oldest are deleted
+  lanSyncRole: LanSyncRole
 }
 
-// Module types
-export interface Module {
+// An automatic backup in the backups folder
+export interface BackupSummary {
+  fileName: string
+  createdAt: string
+  size: number // bytes
+}
+
+export interface BackupResult {
+  canceled: boolean
+  filePath?: string
+}
+
+export interface RestoreResult {
+  canceled: boolean
+  schemaVersion?: number // of the restored file, before it was migrated
+}
+
+// Why this computer accepts a learner profile: it was exported here, from an
+// installation an administrator trusts, or by a computer with this computer's
+// classroom key
+export type LearnerProfileTrust = 'here' | 'installation' | 'classroom'
+
+// A learner profile as shown before it is imported or while it awaits review
+export interface LearnerProfileSummary {
+  profileId?: string // of a file opened for import
+  username: string
+  email: string
+  exportedAt: string
+  issuerFingerprint: string // of the installation the profile was exported from
+  trust: LearnerProfileTrust | null // null when nothing vouches for that installation
+  accountExists: boolean // an account with this username exists here
+  modules: {
+    title: string
+    version: string
+    installed: boolean
+    lessonsCompleted: number
+    certificate: boolean
+  }[]
+}
+
+export interface LearnerProfileInspectResult {
+  canceled: boolean
+  profile?: LearnerProfileSummary
+}
+
+export interface LearnerProfileExportResult {
+  canceled: boolean
+  filePath?: string
+  fingerprint?: string // of this installation, to compare on the importing computer
+}
+
+export interface LearnerProfileImportResult {
+  username: string
+  pendingReview: boolean // a learner's own import waits for an administrator
+  accountCreated: boolean
+  modulesMerged: number
+  modulesSkipped: string[] // "Title (version)" of modules not installed here
+  certificatesAdded: number
+}
+
+// A learner's own profile import, waiting for an administrator to approve it
+export interface LearnerProfileReview {
   id: number
+  submittedAt: string
+  profile: LearnerProfileSummary
+}
+
+// Another computer found on the network that uses the same classroom key
+export interface PeerSummary {
+  instanceId: string
+  name: string
+  role: Exclude<LanSyncRole, 'off'>
+  address: string
+  lastSeen: string
+}
+
+// A module offered by a peer, alongside the version installed here (if any)
+export interface PeerModule {
+  id: number // the module's id on the peer
   title: string
   description: string
-  content: ModuleContent
   version: string
-  author?: string
-  difficulty_level?: string
-  tags?: string[]
-  estimated_duration?: number
-  created_at: string
-  updated_at: string
+  lessonCount: number
+  quizCount: number
+  installedVersion: string | null
 }
 
-export interface ModuleContent {
-  lessons: Lesson[]
-  quizzes: Quiz[]
-  estimatedTime: number
+// The outcome of one progress sync, as seen by either side
+export interface ProgressSyncRecord {
+  peerName: string
+  at: string
+  learners: number
+  modulesMerged: number
+  accountsCreated: number
+  awaitingReview: number // learners whose certificates wait for an administrator
+  error?: string
 }
 
-// Content block types for rich lessons
-export interface ContentBlock {
-  type: 'text' | 'image' | 'video' | 'code'
-  content?: string
-  src?: string
-  alt?: string
-  title?: string
-  language?: string
+export interface LanSyncStatus {
+  role: LanSyncRole
+  keyConfigured: boolean
+  computerName: string
+  error: string | null // why sync could not start, e.g. no network
+  peers: PeerSummary[]
+  // Learner computers: the last sync with each teacher computer.
+  // Teacher computers: the last sync received from each learner computer.
+  progressSyncs: ProgressSyncRecord[]
 }
 
-export interface Lesson {
-  id: string
+export type SearchResultKind = 'module' | 'lesson' | 'quiz'
+
+export interface SearchResult {
+  moduleId: number
+  moduleTitle: string
+  kind: SearchResultKind
+  targetId: string | null // lesson or quiz ID
   title: string
-  content: ContentBlock[] // Rich content blocks
-  order: number
-  duration?: number // in minutes (optional)
+  snippet: string // matched words are wrapped in SNIPPET_MATCH_START and SNIPPET_MATCH_END
 }
 
-export interface Quiz {
-  id: string
-  title: string
-  description?: string
-  afterLessonId?: string
-  questions: Question[]
-  passingScore: number // percentage
+export interface SetupStatus {
+  needsSetup: boolean
+  settings: AppSettings
 }
 
-export interface Question {
-  id: string
-  question: string
-  type: 'multiple-choice' | 'true-false' | 'text'
-  options?: string[]
-  correctAnswer: string | number
-  explanation?: string
+export interface SetupData {
+  username: string
+  email: string
+  password: string
+  institutionName: string
+  defaultTheme: ThemePreference
+}
+
+export interface UserImportRowResult {
+  line: number
+  username: string
+  success: boolean
+  error?: string
+}
+
+export interface UserImportReport {
+  canceled: boolean
+  created: number
+  rows: UserImportRowResult[]
+}
+
+export interface AuthUser extends User {
+  token: string
+}
+
+export interface UserSession {
+  user: User
+  token: string
+}
+
+export interface FacetCount<T extends string = string> {
+  value: T
+  count: number
+}
+
+// How many modules each value would match, given the filters on the other facets
+export interface ModuleFacets {
+  difficulties: FacetCount<ModuleDifficulty>[]
+  tags: FacetCount[]
+  authors: FacetCount[]
+  durations: FacetCount<ModuleDuration>[]
+  statuses: FacetCount<ModuleStatus>[]
+}
+
+export interface ModuleQueryResult {
+  moduleIds: number[] // matching modules, in sort order
+  facets: ModuleFacets
+}
+
+export interface ModuleUpgradeResult {
+  module: Module
+  previousVersion: string
+  previousMediaKey?: string | null // media the upgrade replaced, to be removed
+  diff: ModuleContentDiff
+}
+
+export interface ModuleImportFileReport {
+  filePath: string
+  fileName: string
+  success: boolean
+  moduleId?: number
+  moduleTitle?: string
+  upgradedFromVersion?: string
+  // Set instead of upgrading when the file is a newer version of an installed module
+  pendingUpgrade?: ModulePendingUpgrade
+  errors: string[]
+  warnings: string[]
+}
+
+// Confirm with the pendingId to install the new version
+export interface ModulePendingUpgrade {
+  pendingId: string
+  moduleId: number
+  moduleTitle: string
+  fromVersion: string
+  toVersion: string
+  diff: ModuleContentDiff
+}
+
+export interface ModuleImportReport {
+  canceled: boolean
+  files: ModuleImportFileReport[]
+  importedIds: number[]
+}
+
+// A .oamod package opened for preview. Install it by packageId.
+export interface ModulePackagePreview {
+  canceled: boolean
+  packageId?: string
+  moduleData?: Record<string, unknown>
+  mediaFiles?: string[]
 }
 
 // Progress types
@@ -99,13 +308,67 @@ export interface LessonProgressData {
   lesson_id: string
   completed: boolean
   time_spent: number
-  quiz_score: number | null
-  quiz_attempts: number
   completed_at: string | null
   created_at: string
   updated_at: string
 }
 
+export interface QuizProgress {
+  id: number
+  user_id: number
+  module_id: number
+  quiz_id: string
+  score: number // percentage counted under the quiz's scoring policy
+  attempts: number
+  last_attempt_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface QuizAttemptSubmission {
+  moduleId: number
+  quizId: string
+  answers: (number | string | null)[] // one per question, in quiz order
+  durationSeconds: number
+}
+
+export interface QuizAttemptResult {
+  attempt: QuizAttempt
+  countedScore: number // the score recorded in progress after applying the scoring policy
+  quizProgress: QuizProgress
+}
+
+export interface LearnerAnalytics {
+  days: number // length of the daily series
+  timePerDay: { day: string; seconds: number }[] // one entry per day, oldest first
+  lessonsCompletedPerDay: { day: string; count: number }[]
+  timePerModule: { moduleId: number; title: string; seconds: number }[]
+  quizScores: {
+    moduleId: number
+    moduleTitle: string
+    quizId: string
+    quizTitle: string
+    score: number
+    passingScore: number
+    completedAt: string
+  }[] // every attempt, oldest first
+  hardestQuestions: {
+    moduleId: number
+    moduleTitle: string
+    quizId: string
+    quizTitle: string
+    questionId: string
+    question: string
+    answered: number
+    correct: number
+  }[]
+  streak: {
+    current: number // consecutive days up to today or yesterday
+    longest: number
+    activeDays: number
+  }
+}
+
 export interface ModuleProgress {
   moduleId: number
   lessonsCompleted: number
@@ -125,6 +388,42 @@ export interface Certificate {
   module_title: string
   user_name: string
   completion_date: string
+  score: number | null // average quiz score when the certificate was issued
+  time_spent: number // seconds spent in the module when the certificate was issued
+  verification_token: string | null // signed token encoded in the certificate's QR code
+}
+
+// What a certificate's signature covers
+export interface CertificatePayload {
+  code: string
+  learner: string
+  module: string
+  moduleVersion: string
+  completedAt: string
+  issuer: string // institution name at the time of issue
+  key: string // the issuing installation's Ed25519 public key, base64url
+}
+
+export interface CertificateTemplateSummary {
+  id: string
+  name: string
+  description?: string
+  orientation: 'landscape' | 'portrait'
+  builtIn: boolean
+}
+
+export interface CertificateTemplateInstallResult {
+  canceled: boolean
+  template?: CertificateTemplateSummary
+}
+
+export interface CertificateVerification {
+  valid: boolean
+  error?: string // why the certificate could not be verified
+  payload?: CertificatePayload
+  issuerFingerprint?: string
+  issuedHere: boolean // signed with this installation's key
+  onRecord: boolean // this installation's database holds the same certificate
 }
 
 // API Response types
@@ -133,6 +432,7 @@ export interface ApiResponse<T = unknown> {
   data?: T
   error?: string
   message?: string
+  code?: string
 }
 
 // Form types
@@ -220,9 +520,20 @@ export type IpcChannels = {
   'auth:logout': () => Promise<ApiResponse>
   'auth:get-current-user': () => Promise<ApiResponse<User>>
 
+  // Setup and settings channels
+  'setup:get-status': () => Promise<ApiResponse<SetupStatus>>
+  'setup:complete': (data: SetupData) => Promise<ApiResponse<UserSession>>
+  'settings:get': () => Promise<ApiResponse<AppSettings>>
+
   // User channels
   'user:get-all': () => Promise<ApiResponse<User[]>>
   'user:switch': (userId: number) => Promise<ApiResponse<UserSession>>
+  'user:set-role': (userId: number, role: UserRole) => Promise<ApiResponse<User>>
+  'user:get-summaries': () => Promise<ApiResponse<UserSummary[]>>
+  'user:reset-password': (userId: number, newPassword: string) => Promise<ApiResponse>
+  'user:set-active': (userId: number, active: boolean) => Promise<ApiResponse<User>>
+  'user:delete': (userId: number) => Promise<ApiResponse>
+  'user:import-csv': () => Promise<ApiResponse<UserImportReport>>
 
   // Module channels
   'modules:get-all': () => Promise<ApiResponse<Module[]>>
@@ -230,38 +541,108 @@ export type IpcChannels = {
   'modules:create': (
     moduleData: Omit<Module, 'id' | 'created_at' | 'updated_at'>
   ) => Promise<ApiResponse<Module>>
-  'modules:import': () => Promise<ApiResponse<Module>>
+  'modules:import': () => Promise<ApiResponse<ModuleImportReport>>
+  'modules:inspect-package': () => Promise<ApiResponse<ModulePackagePreview>>
+  'modules:import-package': (packageId: string) => Promise<ApiResponse<ModuleImportReport>>
+  'modules:confirm-upgrade': (pendingId: string) => Promise<ApiResponse<ModuleImportReport>>
+  'modules:upgrade': (
+    id: number,
+    moduleData: Omit<Module, 'id' | 'created_at' | 'updated_at'>
+  ) => Promise<ApiResponse<ModuleUpgradeResult>>
   'modules:delete': (id: number) => Promise<ApiResponse>
+  'modules:search': (query: string) => Promise<ApiResponse<SearchResult[]>>
+  'modules:query': (filters: ModuleFilters) => Promise<ApiResponse<ModuleQueryResult>>
 
   // Progress channels
   'progress:get-user-progress': (userId: number) => Promise<ApiResponse<UserProgress[]>>
   'progress:get-user-lesson-progress': (
     userId: number
   ) => Promise<ApiResponse<LessonProgressData[]>>
+  'progress:get-user-quiz-progress': (userId: number) => Promise<ApiResponse<QuizProgress[]>>
   'progress:update-lesson': (data: {
     userId: number
     moduleId: number
     lessonId: string
     completed: boolean
-    timeSpent: number
-    quizScore?: number
   }) => Promise<ApiResponse<LessonProgressData>>
+  'progress:record-time': (
+    moduleId: number,
+    itemId: string,
+    seconds: number
+  ) => Promise<ApiResponse<UserProgress>>
   'progress:get-module-progress': (
     userId: number,
     moduleId: number
   ) => Promise<
-    ApiResponse<{ moduleProgress: UserProgress | null; lessonProgress: LessonProgressData[] }>
+    ApiResponse<{
+      moduleProgress: UserProgress | null
+      lessonProgress: LessonProgressData[]
+      quizProgress: QuizProgress[]
+    }>
   >
   'progress:reset-module': (userId: number, moduleId: number) => Promise<ApiResponse>
+  'progress:submit-quiz-attempt': (
+    submission: QuizAttemptSubmission
+  ) => Promise<ApiResponse<QuizAttemptResult>>
+  'progress:get-quiz-attempts': (
+    userId: number,
+    moduleId: number,
+    quizId: string
+  ) => Promise<ApiResponse<QuizAttempt[]>>
+
+  // Analytics channels
+  'analytics:get-learner': (userId: number, days?: number) => Promise<ApiResponse<LearnerAnalytics>>
 
   // Certificate channels
-  'certificates:generate': (userId: number, moduleId: number) => Promise<ApiResponse<Certificate>>
+  'certificates:generate': (moduleId: number) => Promise<ApiResponse<Certificate>>
   'certificates:get-user-certificates': (userId: number) => Promise<ApiResponse<Certificate[]>>
-  'certificates:export': (certificateId: number) => Promise<ApiResponse<string>> // returns file path
-  'certificates:verify': (code: string) => Promise<ApiResponse<Certificate>>
+  'certificates:export': (
+    certificateId: number
+  ) => Promise<ApiResponse<{ canceled: boolean; filePath?: string }>>
+  'certificates:export-all': (
+    userId: number
+  ) => Promise<ApiResponse<{ canceled: boolean; folderPath?: string; count?: number }>>
+  'certificates:print': (certificateId: number) => Promise<ApiResponse>
+  'certificates:verify': (codeOrToken: string) => Promise<ApiResponse<CertificateVerification>>
+
+  // Certificate template channels
+  'certificate-templates:get-all': () => Promise<ApiResponse<CertificateTemplateSummary[]>>
+  'certificate-templates:install': () => Promise<ApiResponse<CertificateTemplateInstallResult>>
+  'certificate-templates:remove': (id: string) => Promise<ApiResponse<AppSettings>>
+  'certificate-templates:select': (id: string) => Promise<ApiResponse<AppSettings>>
+
+  // Learner profile channels
+  'profiles:export': (userId: number) => Promise<ApiResponse<LearnerProfileExportResult>>
+  'profiles:inspect': () => Promise<ApiResponse<LearnerProfileInspectResult>>
+  'profiles:import': (
+    profileId: string,
+    password?: string,
+    trustIssuer?: boolean
+  ) => Promise<ApiResponse<LearnerProfileImportResult>>
+  'profiles:get-reviews': () => Promise<ApiResponse<LearnerProfileReview[]>>
+  'profiles:approve-review': (reviewId: number) => Promise<ApiResponse<LearnerProfileImportResult>>
+  'profiles:reject-review': (reviewId: number) => Promise<ApiResponse<{ message: string }>>
+
+  // Backup channels
+  'backup:get-all': () => Promise<ApiResponse<BackupSummary[]>>
+  'backup:create': () => Promise<ApiResponse<BackupResult>>
+  'backup:restore': (fileName?: string) => Promise<ApiResponse<RestoreResult>>
+  'backup:update-schedule': (
+    interval: BackupInterval,
+    backupsToKeep: number
+  ) => Promise<ApiResponse<AppSettings>>
+
+  // Classroom network channels
+  'sync:get-status': () => Promise<ApiResponse<LanSyncStatus>>
+  'sync:get-key': () => Promise<ApiResponse<string | null>>
+  'sync:update': (role: LanSyncRole, key: string) => Promise<ApiResponse<LanSyncStatus>>
+  'sync:sync-progress': () => Promise<ApiResponse<ProgressSyncRecord[]>>
+  'sync:get-peer-modules': (instanceId: string) => Promise<ApiResponse<PeerModule[]>>
+  'sync:pull-module': (
+    instanceId: string,
+    moduleId: number
+  ) => Promise<ApiResponse<ModuleImportFileReport>>
 }
 
-// Utility types
-export type ModuleDifficulty = 'beginner' | 'intermediate' | 'advanced'
 export type QuestionType = Question['type']
 export type ContentBlockType = ContentBlock['type']
@@ -0,0 +1,33 @@
+import hljs from 'highlight.js/lib/common'
+import { isHighlightedLanguage } from '../../../shared/codeBlocks'
+
+// Code blocks are highlighted with highlight.js and the common languages it
+// bundles (Python, JavaScript, Java, C, C++, SQL, HTML, CSS, Bash and more),
+// so lessons need no network. Colours are in main.css and follow the theme.
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+/**
+ * The HTML of each line of code. highlight.js escapes the source, so the only
+ * markup is its own token spans. Unknown languages are escaped as plain text.
+ */
+export function highlightCodeLines(code: string, language?: string): string[] {
+  const source = code.replace(/\r\n?/g, '\n')
+  const html =
+    language && isHighlightedLanguage(language)
+      ? hljs.highlight(source, { language, ignoreIllegals: true }).value
+      : escapeHtml(source)
+
+  // Tokens such as block comments can span lines, so each line closes the spans
+  // still open at its end and the next line opens them again
+  const openSpans: string[] = []
+  return html.split('\n').map((line) => {
+    const reopened = openSpans.join('')
+    for (const [tag] of line.matchAll(/<span[^>]*>|<\/span>/g)) {
+      if (tag === '</span>') openSpans.pop()
+      else openSpans.push(tag)
+    }
+    return reopened + line + '</span>'.repeat(openSpans.length)
+  })
+}
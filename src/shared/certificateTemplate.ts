@@ -0,0 +1,296 @@
+// Declarative certificate layouts shared by the main process (which installs
+// and renders them) and the renderer (which lists and selects them).
+// Positions and sizes are in millimetres from the top left of an A4 page;
+// font sizes are in points. Text may contain {{placeholders}}.
+
+export const TEMPLATE_FILE = 'template.json'
+export const DEFAULT_TEMPLATE_ID = 'classic'
+export const DEFAULT_LOGO = 'default' // the application logo, for templates without their own
+
+export const CERTIFICATE_ORIENTATIONS = ['landscape', 'portrait'] as const
+export type CertificateOrientation = (typeof CERTIFICATE_ORIENTATIONS)[number]
+
+export const TEMPLATE_FONTS = ['helvetica', 'times', 'courier'] as const
+export type TemplateFont = (typeof TEMPLATE_FONTS)[number]
+
+export const TEMPLATE_COLORS = ['primary', 'accent', 'text', 'muted'] as const
+export type TemplateColor = (typeof TEMPLATE_COLORS)[number]
+
+export const TEMPLATE_PLACEHOLDERS = [
+  'learner',
+  'module',
+  'moduleVersion',
+  'completionDate',
+  'issuer',
+  'code'
+] as const
+export type TemplatePlaceholder = (typeof TEMPLATE_PLACEHOLDERS)[number]
+
+const TEXT_STYLES = ['normal', 'bold', 'italic'] as const
+const TEXT_ALIGNMENTS = ['left', 'center', 'right'] as const
+
+export interface CertificateTemplateText {
+  text: string
+  y: number
+  x?: number // defaults to the centre of the page
+  size: number
+  style?: (typeof TEXT_STYLES)[number] // defaults to 'normal'
+  color?: TemplateColor // defaults to 'text'
+  align?: (typeof TEXT_ALIGNMENTS)[number] // defaults to 'center'
+}
+
+export interface CertificateTemplateLine {
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+  width: number
+  color?: TemplateColor // defaults to 'accent'
+}
+
+export interface CertificateTemplateImage {
+  file: string // PNG or JPEG next to template.json, or DEFAULT_LOGO
+  y: number
+  x?: number // defaults to centring the image
+  width: number
+  height: number
+}
+
+export interface CertificateTemplateSignatory {
+  name: string
+  title?: string
+  signatureImage?: string // PNG or JPEG drawn above the signature line
+  x: number // centre of the signature line
+  y: number // the signature line
+}
+
+export interface CertificateTemplate {
+  id: string
+  name: string
+  description?: string
+  orientation: CertificateOrientation
+  font?: TemplateFont // defaults to 'helvetica'
+  colors: Record<TemplateColor | 'background', string> // #RRGGBB
+  border?: { inset: number; width: number; color?: TemplateColor }
+  logo?: CertificateTemplateImage
+  lines?: CertificateTemplateLine[]
+  fields: CertificateTemplateText[]
+  signatories?: CertificateTemplateSignatory[]
+  qrCode: { x: number; y: number; size: number } // the signed verification code
+}
+
+export interface TemplateValidationResult {
+  template: CertificateTemplate | null
+  errors: string[]
+}
+
+const PAGE_SIZE: Record<CertificateOrientation, { width: number; height: number }> = {
+  landscape: { width: 297, height: 210 },
+  portrait: { width: 210, height: 297 }
+}
+
+export function getPageSize(orientation: CertificateOrientation): {
+  width: number
+  height: number
+} {
+  return PAGE_SIZE[orientation]
+}
+
+/**
+ * Replace {{placeholders}} in template text. Unknown placeholders are left as
+ * they are so mistakes show up on the certificate rather than vanishing.
+ */
+export function fillTemplateText(
+  text: string,
+  values: Record<TemplatePlaceholder, string>
+): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in values ? values[name as TemplatePlaceholder] : match
+  )
+}
+
+/**
+ * Every image file a template refers to, apart from the application logo
+ */
+export function getTemplateImages(template: CertificateTemplate): string[] {
+  const files = [
+    template.logo?.file,
+    ...(template.signatories || []).map((signatory) => signatory.signatureImage)
+  ]
+  return files.filter((file): file is string => !!file && file !== DEFAULT_LOGO)
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && values.includes(value as T)
+
+/**
+ * Validate a template read from template.json. Collects every problem so an
+ * administrator can fix them in one go.
+ */
+export function validateCertificateTemplate(data: unknown): TemplateValidationResult {
+  const errors: string[] = []
+
+  if (!isRecord(data)) {
+    return { template: null, errors: ['Template must be a JSON object'] }
+  }
+
+  if (typeof data.id !== 'string' || !/^[a-z0-9-]{1,50}$/.test(data.id)) {
+    errors.push('Template id must be 1-50 lowercase letters, numbers or dashes')
+  }
+  if (typeof data.name !== 'string' || !data.name.trim()) {
+    errors.push('Template name is required')
+  }
+  if (data.description !== undefined && typeof data.description !== 'string') {
+    errors.push('Template description must be text')
+  }
+  if (!isOneOf(CERTIFICATE_ORIENTATIONS, data.orientation)) {
+    errors.push(`Orientation must be one of: ${CERTIFICATE_ORIENTATIONS.join(', ')}`)
+  }
+  if (data.font !== undefined && !isOneOf(TEMPLATE_FONTS, data.font)) {
+    errors.push(`Font must be one of: ${TEMPLATE_FONTS.join(', ')}`)
+  }
+
+  const page = isOneOf(CERTIFICATE_ORIENTATIONS, data.orientation)
+    ? PAGE_SIZE[data.orientation]
+    : PAGE_SIZE.landscape
+  const maxExtent = Math.max(page.width, page.height)
+
+  // Positions must land on the page; sizes must be positive
+  const checkNumber = (value: unknown, label: string, max = maxExtent, min = 0): void => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      errors.push(`${label} must be a number from ${min} to ${max}`)
+    }
+  }
+  const checkColor = (value: unknown, label: string): void => {
+    if (value !== undefined && !isOneOf(TEMPLATE_COLORS, value)) {
+      errors.push(`${label} must be one of: ${TEMPLATE_COLORS.join(', ')}`)
+    }
+  }
+  const checkImageFile = (value: unknown, label: string, allowDefault: boolean): void => {
+    if (allowDefault && value === DEFAULT_LOGO) return
+    if (typeof value !== 'string' || !/^[\w.-]+\.(png|jpe?g)$/i.test(value)) {
+      errors.push(`${label} must be the name of a PNG or JPEG file next to ${TEMPLATE_FILE}`)
+    }
+  }
+
+  if (!isRecord(data.colors)) {
+    errors.push('Template colors are required')
+  } else {
+    const colors = data.colors
+    ;[...TEMPLATE_COLORS, 'background'].forEach((name) => {
+      const value = colors[name]
+      if (typeof value !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(value)) {
+        errors.push(`Color "${name}" must be a hex colour such as #4F2A6A`)
+      }
+    })
+  }
+
+  if (data.border !== undefined) {
+    if (!isRecord(data.border)) {
+      errors.push('Border must be an object')
+    } else {
+      checkNumber(data.border.inset, 'Border inset', 50)
+      checkNumber(data.border.width, 'Border width', 10, 0.1)
+      checkColor(data.border.color, 'Border color')
+    }
+  }
+
+  if (data.logo !== undefined) {
+    if (!isRecord(data.logo)) {
+      errors.push('Logo must be an object')
+    } else {
+      checkImageFile(data.logo.file, 'Logo file', true)
+      if (data.logo.x !== undefined) checkNumber(data.logo.x, 'Logo x')
+      checkNumber(data.logo.y, 'Logo y')
+      checkNumber(data.logo.width, 'Logo width', maxExtent, 1)
+      checkNumber(data.logo.height, 'Logo height', maxExtent, 1)
+    }
+  }
+
+  if (data.lines !== undefined) {
+    if (!Array.isArray(data.lines)) {
+      errors.push('Lines must be an array')
+    } else {
+      data.lines.forEach((line, index) => {
+        const label = `Line ${index + 1}`
+        if (!isRecord(line)) {
+          errors.push(`${label} must be an object`)
+          return
+        }
+        checkNumber(line.x1, `${label} x1`)
+        checkNumber(line.y1, `${label} y1`)
+        checkNumber(line.x2, `${label} x2`)
+        checkNumber(line.y2, `${label} y2`)
+        checkNumber(line.width, `${label} width`, 10, 0.1)
+        checkColor(line.color, `${label} color`)
+      })
+    }
+  }
+
+  if (!Array.isArray(data.fields) || data.fields.length === 0) {
+    errors.push('Template must have at least one text field')
+  } else {
+    data.fields.forEach((field, index) => {
+      const label = `Text field ${index + 1}`
+      if (!isRecord(field)) {
+        errors.push(`${label} must be an object`)
+        return
+      }
+      if (typeof field.text !== 'string' || !field.text.trim()) {
+        errors.push(`${label} text is required`)
+      }
+      if (field.x !== undefined) checkNumber(field.x, `${label} x`)
+      checkNumber(field.y, `${label} y`)
+      checkNumber(field.size, `${label} size`, 72, 4)
+      if (field.style !== undefined && !isOneOf(TEXT_STYLES, field.style)) {
+        errors.push(`${label} style must be one of: ${TEXT_STYLES.join(', ')}`)
+      }
+      if (field.align !== undefined && !isOneOf(TEXT_ALIGNMENTS, field.align)) {
+        errors.push(`${label} align must be one of: ${TEXT_ALIGNMENTS.join(', ')}`)
+      }
+      checkColor(field.color, `${label} color`)
+    })
+  }
+
+  if (data.signatories !== undefined) {
+    if (!Array.isArray(data.signatories)) {
+      errors.push('Signatories must be an array')
+    } else {
+      data.signatories.forEach((signatory, index) => {
+        const label = `Signatory ${index + 1}`
+        if (!isRecord(signatory)) {
+          errors.push(`${label} must be an object`)
+          return
+        }
+        if (typeof signatory.name !== 'string' || !signatory.name.trim()) {
+          errors.push(`${label} name is required`)
+        }
+        if (signatory.title !== undefined && typeof signatory.title !== 'string') {
+          errors.push(`${label} title must be text`)
+        }
+        if (signatory.signatureImage !== undefined) {
+          checkImageFile(signatory.signatureImage, `${label} signature image`, false)
+        }
+        checkNumber(signatory.x, `${label} x`)
+        checkNumber(signatory.y, `${label} y`)
+      })
+    }
+  }
+
+  // Every certificate carries its verification QR code
+  if (!isRecord(data.qrCode)) {
+    errors.push('QR code position and size are required')
+  } else {
+    checkNumber(data.qrCode.x, 'QR code x')
+    checkNumber(data.qrCode.y, 'QR code y')
+    checkNumber(data.qrCode.size, 'QR code size', 100, 15)
+  }
+
+  return {
+    template: errors.length === 0 ? (data as unknown as CertificateTemplate) : null,
+    errors
+  }
+}
@@ -0,0 +1,35 @@
+import hljs from 'highlight.js/lib/common'
+
+// Code block options that module validation and the lesson view both read
+
+// First and last line, both included and counted from 1
+export type LineRange = [number, number]
+
+/**
+ * Whether a code block's language can be highlighted, by name or alias (e.g. "py")
+ */
+export function isHighlightedLanguage(language: string): boolean {
+  return !!hljs.getLanguage(language)
+}
+
+/**
+ * Line ranges from a spec like "2-4, 7", or null if it is malformed
+ */
+export function parseLineRanges(spec: string): LineRange[] | null {
+  const ranges: LineRange[] = []
+
+  for (const part of spec.split(',')) {
+    const match = /^\s*(\d+)\s*(?:-\s*(\d+)\s*)?$/.exec(part)
+    if (!match) return null
+
+    const start = Number(match[1])
+    const end = match[2] ? Number(match[2]) : start
+    if (start < 1 || end < start) return null
+    ranges.push([start, end])
+  }
+
+  return ranges
+}
+
+export const isLineInRanges = (line: number, ranges: LineRange[]): boolean =>
+  ranges.some(([start, end]) => line >= start && line <= end)
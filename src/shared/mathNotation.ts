@@ -0,0 +1,62 @@
+import katex from 'katex'
+import { unified } from 'unified'
+import remarkParse from 'remark-parse'
+import remarkMath from 'remark-math'
+
+// LaTeX in lessons: math blocks, and $inline$, $$display$$ or ```math inside
+// Markdown text. Both are rendered with KaTeX, which is bundled with the app.
+
+export interface MarkdownMath {
+  latex: string
+  displayMode: boolean
+  line: number // 1-based, within the Markdown text
+}
+
+// The parts of the Markdown syntax tree this module looks at
+interface MarkdownNode {
+  type: string
+  value?: string
+  lang?: string | null
+  position?: { start: { line: number } }
+  children?: MarkdownNode[]
+}
+
+const markdownParser = unified().use(remarkParse).use(remarkMath)
+
+/**
+ * Why KaTeX cannot render some LaTeX, or null when it can
+ */
+export function getLatexError(latex: string, displayMode = true): string | null {
+  try {
+    katex.renderToString(latex, { displayMode, throwOnError: true })
+    return null
+  } catch (error) {
+    return error instanceof katex.ParseError ? error.rawMessage : String(error)
+  }
+}
+
+/**
+ * Every formula in Markdown text, in the order it appears
+ */
+export function findMarkdownMath(markdown: string): MarkdownMath[] {
+  const formulas: MarkdownMath[] = []
+
+  const visit = (node: MarkdownNode): void => {
+    const isMath =
+      node.type === 'math' ||
+      node.type === 'inlineMath' ||
+      (node.type === 'code' && node.lang === 'math')
+
+    if (isMath) {
+      formulas.push({
+        latex: node.value || '',
+        displayMode: node.type !== 'inlineMath',
+        line: node.position?.start.line ?? 1
+      })
+    }
+    node.children?.forEach(visit)
+  }
+
+  visit(markdownParser.parse(markdown) as MarkdownNode)
+  return formulas
+}
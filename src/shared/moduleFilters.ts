@@ -0,0 +1,85 @@
+import type {
+  ModuleDifficulty,
+  ModuleDuration,
+  ModuleFilters,
+  ModuleSort,
+  ModuleStatus
+} from './types'
+
+// Facets and sort orders for browsing modules. The main process filters in SQL
+// with the same values the browse page offers.
+
+export const MODULE_DIFFICULTIES: ModuleDifficulty[] = ['beginner', 'intermediate', 'advanced']
+export const MODULE_STATUSES: ModuleStatus[] = ['not-started', 'in-progress', 'completed']
+export const MODULE_DURATIONS: ModuleDuration[] = ['short', 'medium', 'long']
+export const MODULE_SORTS: ModuleSort[] = ['title', 'newest', 'shortest', 'longest', 'difficulty']
+
+// Estimated minutes: short modules take less than SHORT, long ones more than LONG
+export const SHORT_MODULE_MINUTES = 30
+export const LONG_MODULE_MINUTES = 120
+
+export const DIFFICULTY_LABELS: Record<ModuleDifficulty, string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced'
+}
+
+export const STATUS_LABELS: Record<ModuleStatus, string> = {
+  'not-started': 'Not started',
+  'in-progress': 'In progress',
+  completed: 'Completed'
+}
+
+export const DURATION_LABELS: Record<ModuleDuration, string> = {
+  short: `Under ${SHORT_MODULE_MINUTES} minutes`,
+  medium: `${SHORT_MODULE_MINUTES} minutes to ${LONG_MODULE_MINUTES / 60} hours`,
+  long: `Over ${LONG_MODULE_MINUTES / 60} hours`
+}
+
+export const SORT_LABELS: Record<ModuleSort, string> = {
+  title: 'Title',
+  newest: 'Newest first',
+  shortest: 'Shortest first',
+  longest: 'Longest first',
+  difficulty: 'Easiest first'
+}
+
+export const isModuleDifficulty = (value: unknown): value is ModuleDifficulty =>
+  MODULE_DIFFICULTIES.includes(value as ModuleDifficulty)
+
+const isModuleStatus = (value: unknown): value is ModuleStatus =>
+  MODULE_STATUSES.includes(value as ModuleStatus)
+
+const isModuleDuration = (value: unknown): value is ModuleDuration =>
+  MODULE_DURATIONS.includes(value as ModuleDuration)
+
+const isModuleSort = (value: unknown): value is ModuleSort =>
+  MODULE_SORTS.includes(value as ModuleSort)
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+
+/**
+ * Keep only the filter values this version understands, e.g. from an IPC call
+ */
+export function parseModuleFilters(input: unknown): Required<ModuleFilters> {
+  const data = typeof input === 'object' && input !== null ? (input as Record<string, unknown>) : {}
+  return {
+    difficulties: stringList(data.difficulties).filter(isModuleDifficulty),
+    tags: stringList(data.tags),
+    authors: stringList(data.authors),
+    durations: stringList(data.durations).filter(isModuleDuration),
+    statuses: stringList(data.statuses).filter(isModuleStatus),
+    sort: isModuleSort(data.sort) ? data.sort : 'title'
+  }
+}
+
+export function hasActiveFilters(filters: ModuleFilters): boolean {
+  return [
+    filters.difficulties,
+    filters.tags,
+    filters.authors,
+    filters.durations,
+    filters.statuses
+  ].some((values) => !!values && values.length > 0)
+}
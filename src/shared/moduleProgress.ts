@@ -0,0 +1,49 @@
+import { ModuleContent } from './types'
+
+export interface ModuleCompletion {
+  lessonsCompleted: number
+  totalLessons: number
+  quizzesPassed: number
+  totalQuizzes: number
+  percentComplete: number
+  isCompleted: boolean
+}
+
+/**
+ * Measure completion against the lesson and quiz IDs the module actually
+ * contains, so authors can use any IDs they like. Rows for IDs the module no
+ * longer has are ignored, and a quiz only counts once its score meets the
+ * quiz's passing score. Shared by the main process, which stores the result in
+ * user_progress, and the renderer stores.
+ */
+export function calculateModuleCompletion(
+  content: Pick<ModuleContent, 'lessons' | 'quizzes'>,
+  lessonProgress: { lesson_id: string; completed: boolean | number }[],
+  quizProgress: { quiz_id: string; score: number }[]
+): ModuleCompletion {
+  const lessons = content.lessons || []
+  const quizzes = content.quizzes || []
+
+  const completedLessonIds = new Set(
+    lessonProgress.filter((row) => row.completed).map((row) => row.lesson_id)
+  )
+  const quizScores = new Map(quizProgress.map((row) => [row.quiz_id, row.score]))
+
+  const lessonsCompleted = lessons.filter((lesson) => completedLessonIds.has(lesson.id)).length
+  const quizzesPassed = quizzes.filter((quiz) => {
+    const score = quizScores.get(quiz.id)
+    return score !== undefined && score >= quiz.passingScore
+  }).length
+
+  const totalItems = lessons.length + quizzes.length
+  const completedItems = lessonsCompleted + quizzesPassed
+
+  return {
+    lessonsCompleted,
+    totalLessons: lessons.length,
+    quizzesPassed,
+    totalQuizzes: quizzes.length,
+    percentComplete: totalItems > 0 ? Math.round((completedItems / totalItems) * 100) : 0,
+    isCompleted: totalItems > 0 && completedItems === totalItems
+  }
+}
@@ -0,0 +1,817 @@
+import {
+  Module,
+  ModuleContent,
+  Lesson,
+  Quiz,
+  Question,
+  QuizScoringPolicy,
+  ContentBlock
+} from './types'
+import {
+  isSafeAnswerPattern,
+  MAX_ANSWER_PATTERN_LENGTH,
+  parseTrueFalseAnswer,
+  TRUE_FALSE_OPTIONS
+} from './quizGrading'
+import { isModuleDifficulty, MODULE_DIFFICULTIES } from './moduleFilters'
+import { findMarkdownMath, getLatexError } from './mathNotation'
+import { isHighlightedLanguage, parseLineRanges } from './codeBlocks'
+
+const QUESTION_TYPES: Question['type'][] = ['multiple-choice', 'true-false', 'text']
+const QUIZ_SCORING_POLICIES: QuizScoringPolicy[] = ['best', 'latest']
+
+export interface ModuleValidationOptions {
+  // Media files bundled in a .oamod package, e.g. "media/diagram.png"
+  mediaFiles?: string[]
+}
+
+export interface ModuleValidationResult {
+  isValid: boolean
+  errors: string[]
+  warnings: string[]
+}
+
+// Type for raw module data that might come from external sources
+export interface RawModuleData {
+  title?: unknown
+  description?: unknown
+  content?: unknown
+  version?: unknown
+  author?: unknown
+  difficulty_level?: unknown
+  tags?: unknown
+  [key: string]: unknown
+}
+
+export interface RawModuleContent {
+  lessons?: unknown
+  quizzes?: unknown
+  estimatedTime?: unknown
+  [key: string]: unknown
+}
+
+export interface RawLesson {
+  id?: unknown
+  title?: unknown
+  order?: unknown
+  content?: unknown
+  [key: string]: unknown
+}
+
+export interface RawLessonContent {
+  type?: unknown
+  content?: unknown
+  src?: unknown
+  alt?: unknown
+  title?: unknown
+  language?: unknown
+  highlightLines?: unknown
+  [key: string]: unknown
+}
+
+export interface RawQuiz {
+  id?: unknown
+  title?: unknown
+  description?: unknown
+  passingScore?: unknown
+  afterLessonId?: unknown
+  questions?: unknown
+  maxAttempts?: unknown
+  cooldownMinutes?: unknown
+  scoring?: unknown
+  [key: string]: unknown
+}
+
+export interface RawQuestion {
+  id?: unknown
+  type?: unknown
+  question?: unknown
+  options?: unknown
+  correctAnswer?: unknown
+  acceptedAnswers?: unknown
+  answerPatterns?: unknown
+  caseSensitive?: unknown
+  explanation?: unknown
+  [key: string]: unknown
+}
+
+export const MEDIA_PROTOCOL = 'oa-media'
+
+export class ModuleValidator {
+  static validate(
+    data: RawModuleData | null | undefined,
+    options: ModuleValidationOptions = {}
+  ): ModuleValidationResult {
+    const errors: string[] = []
+    const warnings: string[] = []
+
+    // Check if data exists
+    if (!data) {
+      errors.push('Module data is required')
+      return { isValid: false, errors, warnings }
+    }
+
+    // Validate required top-level fields
+    if (!data.title || typeof data.title !== 'string') {
+      errors.push('Module title is required and must be a string')
+    }
+
+    if (!data.description || typeof data.description !== 'string') {
+      errors.push('Module description is required and must be a string')
+    }
+
+    if (!data.content || typeof data.content !== 'object') {
+      errors.push('Module content is required and must be an object')
+      return { isValid: false, errors, warnings }
+    }
+
+    // Validate content structure
+    this.validateContent(data.content as RawModuleContent, errors, warnings, options)
+
+    // Validate version if provided
+    if (data.version && typeof data.version !== 'string') {
+      warnings.push('Module version should be a string')
+    }
+
+    this.validateMetadata(data, warnings)
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings
+    }
+  }
+
+  // Optional fields used to filter modules; invalid values are dropped on import
+  private static validateMetadata(data: RawModuleData, warnings: string[]): void {
+    if (data.author !== undefined && typeof data.author !== 'string') {
+      warnings.push('Module author should be a string')
+    }
+
+    if (data.difficulty_level !== undefined && !isModuleDifficulty(data.difficulty_level)) {
+      warnings.push(`Module difficulty_level should be one of: ${MODULE_DIFFICULTIES.join(', ')}`)
+    }
+
+    if (
+      data.tags !== undefined &&
+      (!Array.isArray(data.tags) || data.tags.some((tag: unknown) => typeof tag !== 'string'))
+    ) {
+      warnings.push('Module tags should be an array of strings')
+    }
+  }
+
+  private static validateContent(
+    content: RawModuleContent,
+    errors: string[],
+    warnings: string[],
+    options: ModuleValidationOptions
+  ): void {
+    // Validate lessons
+    if (!content.lessons || !Array.isArray(content.lessons)) {
+      errors.push('Content must include a lessons array')
+      return
+    }
+
+    if (content.lessons.length === 0) {
+      errors.push('Module must contain at least one lesson')
+    }
+
+    content.lessons.forEach((lesson: unknown, index: number) => {
+      this.validateLesson(lesson as RawLesson, index, errors, warnings, options)
+    })
+
+    // Validate quizzes
+    if (!content.quizzes || !Array.isArray(content.quizzes)) {
+      warnings.push('Content should include a quizzes array')
+    } else {
+      content.quizzes.forEach((quiz: unknown, index: number) => {
+        this.validateQuiz(quiz as RawQuiz, index, errors, warnings)
+      })
+    }
+
+    // Validate estimated time
+    if (content.estimatedTime && typeof content.estimatedTime !== 'number') {
+      warnings.push('Estimated time should be a number (minutes)')
+    }
+  }
+
+  private static validateLesson(
+    lesson: RawLesson,
+    index: number,
+    errors: string[],
+    warnings: string[],
+    options: ModuleValidationOptions
+  ): void {
+    const prefix = `Lesson ${index + 1}`
+
+    if (!lesson.id || typeof lesson.id !== 'string') {
+      errors.push(`${prefix}: ID is required and must be a string`)
+    }
+
+    if (!lesson.title || typeof lesson.title !== 'string') {
+      errors.push(`${prefix}: Title is required and must be a string`)
+    }
+
+    if (typeof lesson.order !== 'number') {
+      errors.push(`${prefix}: Order is required and must be a number`)
+    }
+
+    if (!lesson.content || !Array.isArray(lesson.content)) {
+      errors.push(`${prefix}: Content is required and must be an array`)
+      return
+    }
+
+    if (lesson.content.length === 0) {
+      warnings.push(`${prefix}: Has no content items`)
+    }
+
+    lesson.content.forEach((item: unknown, itemIndex: number) => {
+      this.validateLessonContent(
+        item as RawLessonContent,
+        index,
+        itemIndex,
+        errors,
+        warnings,
+        options
+      )
+    })
+  }
+
+  private static validateLessonContent(
+    item: RawLessonContent,
+    lessonIndex: number,
+    itemIndex: number,
+    errors: string[],
+    warnings: string[],
+    options: ModuleValidationOptions
+  ): void {
+    const prefix = `Lesson ${lessonIndex + 1}, Content ${itemIndex + 1}`
+
+    if (!item.type || typeof item.type !== 'string') {
+      errors.push(`${prefix}: Type is required and must be a string`)
+      return
+    }
+
+    const validTypes = ['text', 'image', 'video', 'code', 'math']
+    if (!validTypes.includes(item.type)) {
+      errors.push(`${prefix}: Type must be one of: ${validTypes.join(', ')}`)
+      return
+    }
+
+    switch (item.type) {
+      case 'text':
+        if (!item.content || typeof item.content !== 'string') {
+          errors.push(`${prefix}: Text content is required and must be a string`)
+        } else {
+          this.getMarkdownImageSources(item.content).forEach((src) =>
+            this.validateMediaSource(src, prefix, errors, warnings, options)
+          )
+          findMarkdownMath(item.content).forEach(({ latex, displayMode, line }) => {
+            const error = getLatexError(latex, displayMode)
+            if (error) errors.push(`${prefix}, Line ${line}: Invalid LaTeX: ${error}`)
+          })
+        }
+        break
+
+      case 'image':
+        if (!item.src || typeof item.src !== 'string') {
+          errors.push(`${prefix}: Image src is required and must be a string`)
+        } else {
+          this.validateMediaSource(item.src, prefix, errors, warnings, options)
+        }
+        if (!item.alt || typeof item.alt !== 'string') {
+          warnings.push(`${prefix}: Image alt text is recommended for accessibility`)
+        }
+        break
+
+      case 'video':
+        if (!item.src || typeof item.src !== 'string') {
+          errors.push(`${prefix}: Video src is required and must be a string`)
+        } else {
+          this.validateMediaSource(item.src, prefix, errors, warnings, options)
+        }
+        if (!item.title || typeof item.title !== 'string') {
+          warnings.push(`${prefix}: Video title is recommended`)
+        }
+        break
+
+      case 'code':
+        if (!item.content || typeof item.content !== 'string') {
+          errors.push(`${prefix}: Code content is required and must be a string`)
+        }
+        if (!item.language || typeof item.language !== 'string') {
+          warnings.push(`${prefix}: Code language is recommended for syntax highlighting`)
+        } else if (!isHighlightedLanguage(item.language)) {
+          warnings.push(`${prefix}: Code language "${item.language}" cannot be highlighted`)
+        }
+        if (item.highlightLines !== undefined) {
+          this.validateHighlightLines(item, prefix, errors)
+        }
+        break
+
+      case 'math':
+        if (!item.content || typeof item.content !== 'string') {
+          errors.push(`${prefix}: Math content is required and must be a LaTeX string`)
+        } else {
+          const error = getLatexError(item.content)
+          if (error) errors.push(`${prefix}: Invalid LaTeX: ${error}`)
+        }
+        break
+    }
+  }
+
+  private static validateHighlightLines(
+    item: RawLessonContent,
+    prefix: string,
+    errors: string[]
+  ): void {
+    const ranges =
+      typeof item.highlightLines === 'string' ? parseLineRanges(item.highlightLines) : null
+    if (!ranges) {
+      errors.push(`${prefix}: Highlighted lines must be line numbers and ranges, e.g. "2-4, 7"`)
+      return
+    }
+
+    const lineCount = typeof item.content === 'string' ? item.content.split('\n').length : 0
+    const lastLine = Math.max(...ranges.map(([, end]) => end))
+    if (lastLine > lineCount) {
+      errors.push(`${prefix}: Highlighted line ${lastLine} is past the end of the code`)
+    }
+  }
+
+  private static validateMediaSource(
+    src: string,
+    prefix: string,
+    errors: string[],
+    warnings: string[],
+    options: ModuleValidationOptions
+  ): void {
+    if (!this.isRelativeMediaPath(src)) return
+
+    const mediaPath = this.normalizeMediaPath(src)
+    if (!options.mediaFiles) {
+      warnings.push(
+        `${prefix}: Relative media path "${src}" only works when the module is imported as a .oamod package`
+      )
+    } else if (!options.mediaFiles.includes(mediaPath)) {
+      errors.push(`${prefix}: Media file "${src}" is missing from the package`)
+    }
+  }
+
+  static isRelativeMediaPath(src: string): boolean {
+    // Anything without a scheme (https:, data:, oa-media:) or a leading "//" or "/"
+    return !/^[a-z][a-z0-9+.-]*:/i.test(src) && !src.startsWith('/')
+  }
+
+  static normalizeMediaPath(src: string): string {
+    return src.replace(/^(\.\/)+/, '')
+  }
+
+  // The oa-media:// URL of a file extracted from a .oamod package
+  static toMediaUrl(src: string, mediaKey: string): string {
+    return `${MEDIA_PROTOCOL}://${mediaKey}/${this.normalizeMediaPath(src)
+      .split('/')
+      .map(encodeURIComponent)
+      .join('/')}`
+  }
+
+  // Images in Markdown text, e.g. ![Map](media/map.png "Title")
+  private static getMarkdownImageSources(markdown: string): string[] {
+    return [...markdown.matchAll(/!\[[^\]]*\]\(\s*<?([^\s)>]+)/g)].map((match) => match[1])
+  }
+
+  /**
+   * Point relative media paths at files extracted from a .oamod package,
+   * served to the renderer through the oa-media:// protocol. Images inside
+   * Markdown text keep their relative paths and are resolved when rendered.
+   */
+  static rewriteMediaSources<T extends Pick<Module, 'content'>>(module: T, mediaKey: string): T {
+    return this.mapMediaSources(module, (src) =>
+      this.isRelativeMediaPath(src) ? this.toMediaUrl(src, mediaKey) : src
+    )
+  }
+
+  /**
+   * Undo rewriteMediaSources, pointing media back at the package-relative
+   * paths it was installed from
+   */
+  static restoreMediaSources<T extends Pick<Module, 'content'>>(module: T, mediaKey: string): T {
+    const prefix = `${MEDIA_PROTOCOL}://${mediaKey}/`
+    return this.mapMediaSources(module, (src) =>
+      src.startsWith(prefix)
+        ? src.slice(prefix.length).split('/').map(decodeURIComponent).join('/')
+        : src
+    )
+  }
+
+  private static mapMediaSources<T extends Pick<Module, 'content'>>(
+    module: T,
+    map: (src: string) => string
+  ): T {
+    const rewrite = (src?: string): string | undefined => (src ? map(src) : src)
+
+    return {
+      ...module,
+      content: {
+        ...module.content,
+        lessons: module.content.lessons.map((lesson) => ({
+          ...lesson,
+          content: lesson.content.map((block) =>
+            block.type === 'image' || block.type === 'video'
+              ? { ...block, src: rewrite(block.src) }
+              : block
+          )
+        }))
+      }
+    }
+  }
+
+  private static validateQuiz(
+    quiz: RawQuiz,
+    index: number,
+    errors: string[],
+    warnings: string[]
+  ): void {
+    const prefix = `Quiz ${index + 1}`
+
+    if (!quiz.id || typeof quiz.id !== 'string') {
+      errors.push(`${prefix}: ID is required and must be a string`)
+    }
+
+    if (!quiz.title || typeof quiz.title !== 'string') {
+      errors.push(`${prefix}: Title is required and must be a string`)
+    }
+
+    if (!quiz.description || typeof quiz.description !== 'string') {
+      warnings.push(`${prefix}: Description is recommended`)
+    }
+
+    if (typeof quiz.passingScore !== 'number' || quiz.passingScore < 0 || quiz.passingScore > 100) {
+      errors.push(`${prefix}: Passing score must be a number between 0 and 100`)
+    }
+
+    if (!quiz.afterLessonId || typeof quiz.afterLessonId !== 'string') {
+      warnings.push(`${prefix}: afterLessonId is recommended to specify when quiz appears`)
+    }
+
+    if (
+      quiz.maxAttempts !== undefined &&
+      (!Number.isInteger(quiz.maxAttempts) || (quiz.maxAttempts as number) < 1)
+    ) {
+      errors.push(`${prefix}: maxAttempts must be a whole number of at least 1`)
+    }
+
+    if (
+      quiz.cooldownMinutes !== undefined &&
+      (typeof quiz.cooldownMinutes !== 'number' || quiz.cooldownMinutes < 0)
+    ) {
+      errors.push(`${prefix}: cooldownMinutes must be a number of minutes, 0 or more`)
+    }
+
+    if (quiz.scoring !== undefined && !QUIZ_SCORING_POLICIES.includes(quiz.scoring as never)) {
+      errors.push(`${prefix}: scoring must be "best" or "latest"`)
+    }
+
+    if (!quiz.questions || !Array.isArray(quiz.questions)) {
+      errors.push(`${prefix}: Questions array is required`)
+      return
+    }
+
+    if (quiz.questions.length === 0) {
+      errors.push(`${prefix}: Must contain at least one question`)
+    }
+
+    quiz.questions.forEach((question: unknown, qIndex: number) => {
+      this.validateQuestion(question as RawQuestion, index, qIndex, errors)
+    })
+  }
+
+  private static validateQuestion(
+    question: RawQuestion,
+    quizIndex: number,
+    questionIndex: number,
+    errors: string[]
+  ): void {
+    const prefix = `Quiz ${quizIndex + 1}, Question ${questionIndex + 1}`
+
+    if (!question.id || typeof question.id !== 'string') {
+      errors.push(`${prefix}: ID is required and must be a string`)
+    }
+
+    if (!question.question || typeof question.question !== 'string') {
+      errors.push(`${prefix}: Question text is required and must be a string`)
+    }
+
+    const type = question.type === undefined ? 'multiple-choice' : question.type
+
+    switch (type) {
+      case 'multiple-choice':
+        this.validateMultipleChoiceQuestion(question, prefix, errors)
+        break
+
+      case 'true-false':
+        if (parseTrueFalseAnswer(question.correctAnswer) === null) {
+          errors.push(`${prefix}: Correct answer must be true or false`)
+        }
+        break
+
+      case 'text':
+        this.validateTextQuestion(question, prefix, errors)
+        break
+
+      default:
+        errors.push(
+          `${prefix}: Type must be one of ${QUESTION_TYPES.map((t) => `"${t}"`).join(', ')}`
+        )
+    }
+  }
+
+  private static validateMultipleChoiceQuestion(
+    question: RawQuestion,
+    prefix: string,
+    errors: string[]
+  ): void {
+    if (!question.options || !Array.isArray(question.options)) {
+      errors.push(`${prefix}: Options array is required`)
+      return
+    }
+
+    if (question.options.length < 2) {
+      errors.push(`${prefix}: Must have at least 2 options`)
+    }
+
+    if (question.options.some((option: unknown) => typeof option !== 'string')) {
+      errors.push(`${prefix}: All options must be strings`)
+    }
+
+    if (typeof question.correctAnswer !== 'number') {
+      errors.push(`${prefix}: Correct answer must be a number (option index)`)
+    } else if (question.correctAnswer < 0 || question.correctAnswer >= question.options.length) {
+      errors.push(`${prefix}: Correct answer index is out of range`)
+    }
+  }
+
+  private static validateTextQuestion(
+    question: RawQuestion,
+    prefix: string,
+    errors: string[]
+  ): void {
+    const { correctAnswer, acceptedAnswers, answerPatterns, caseSensitive } = question
+    let answerCount = 0
+
+    if (correctAnswer !== undefined) {
+      if (typeof correctAnswer !== 'string' || !correctAnswer.trim()) {
+        errors.push(`${prefix}: Correct answer must be a non-empty string for text questions`)
+      } else {
+        answerCount++
+      }
+    }
+
+    if (acceptedAnswers !== undefined) {
+      if (
+        !Array.isArray(acceptedAnswers) ||
+        acceptedAnswers.some((answer: unknown) => typeof answer !== 'string' || !answer.trim())
+      ) {
+        errors.push(`${prefix}: acceptedAnswers must be an array of non-empty strings`)
+      } else {
+        answerCount += acceptedAnswers.length
+      }
+    }
+
+    if (answerPatterns !== undefined) {
+      if (!Array.isArray(answerPatterns)) {
+        errors.push(`${prefix}: answerPatterns must be an array of regular expressions`)
+      } else {
+        answerPatterns.forEach((pattern: unknown) => {
+          if (typeof pattern !== 'string' || !pattern) {
+            errors.push(`${prefix}: answerPatterns must only contain non-empty strings`)
+            return
+          }
+          try {
+            new RegExp(pattern, 'u')
+          } catch {
+            errors.push(`${prefix}: Answer pattern "${pattern}" is not a valid regular expression`)
+            return
+          }
+          if (pattern.length > MAX_ANSWER_PATTERN_LENGTH) {
+            errors.push(
+              `${prefix}: Answer patterns must be at most ${MAX_ANSWER_PATTERN_LENGTH} characters`
+            )
+          } else if (!isSafeAnswerPattern(pattern)) {
+            errors.push(
+              `${prefix}: Answer pattern "${pattern}" repeats a group that repeats or has alternatives (like "(a+)+"), which can make grading hang`
+            )
+          } else {
+            answerCount++
+          }
+        })
+      }
+    }
+
+    if (answerCount === 0) {
+      errors.push(
+        `${prefix}: Text questions need a correctAnswer, acceptedAnswers or answerPatterns`
+      )
+    }
+
+    if (caseSensitive !== undefined && typeof caseSensitive !== 'boolean') {
+      errors.push(`${prefix}: caseSensitive must be true or false`)
+    }
+  }
+
+  static sanitizeModule(data: RawModuleData): Module {
+    // Create a new module with sanitized content
+    const sanitizedModule: Module = {
+      id: typeof data.id === 'number' ? data.id : Date.now(), // Use provided ID or generate new one
+      title: this.sanitizeString(data.title as string),
+      description: this.sanitizeString(data.description as string),
+      content: this.sanitizeContent(data.content as RawModuleContent),
+      version: (data.version as string) || '1.0.0',
+      author: this.sanitizeString(data.author) || undefined,
+      difficulty_level: isModuleDifficulty(data.difficulty_level)
+        ? data.difficulty_level
+        : undefined,
+      tags: this.sanitizeTags(data.tags),
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    }
+
+    return sanitizedModule
+  }
+
+  private static sanitizeString(str: unknown): string {
+    if (typeof str !== 'string') return ''
+
+    // Basic HTML/script tag removal
+    return str
+      .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
+      .replace(/<[^>]*>/g, '')
+      .trim()
+  }
+
+  // Markdown is rendered without raw HTML, so tags are left for the renderer to drop
+  private static sanitizeMarkdown(str: unknown): string {
+    return typeof str === 'string' ? str.trim() : ''
+  }
+
+  // Code and LaTeX keep "<" and ">", which are escaped when highlighted or
+  // rendered by KaTeX, and their leading lines so highlighted line numbers hold
+  private static sanitizeSource(str: unknown): string {
+    return typeof str === 'string' ? str.trimEnd() : ''
+  }
+
+  // Trimmed, without blanks or case-insensitive duplicates
+  private static sanitizeTags(tags: unknown): string[] {
+    if (!Array.isArray(tags)) return []
+
+    const seen = new Set<string>()
+    return tags
+      .map((tag) => this.sanitizeString(tag))
+      .filter((tag) => {
+        const key = tag.toLowerCase()
+        if (!tag || seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+  }
+
+  private static sanitizeContent(content: RawModuleContent): ModuleContent {
+    const lessons = Array.isArray(content.lessons) ? content.lessons : []
+    const quizzes = Array.isArray(content.quizzes) ? content.quizzes : []
+
+    return {
+      lessons: lessons.map((lesson: unknown) => this.sanitizeLesson(lesson as RawLesson)),
+      quizzes: quizzes.map((quiz: unknown) => this.sanitizeQuiz(quiz as RawQuiz)),
+      estimatedTime: typeof content.estimatedTime === 'number' ? content.estimatedTime : 60
+    }
+  }
+
+  private static sanitizeLesson(lesson: RawLesson): Lesson {
+    const content = Array.isArray(lesson.content) ? lesson.content : []
+
+    return {
+      id: lesson.id as string,
+      title: this.sanitizeString(lesson.title),
+      order: lesson.order as number,
+      content: content.map((item: unknown) => this.sanitizeLessonContent(item as RawLessonContent))
+    }
+  }
+
+  private static sanitizeLessonContent(item: RawLessonContent): ContentBlock {
+    const type = item.type as string
+
+    switch (type) {
+      case 'text':
+        return {
+          type: 'text',
+          content: this.sanitizeMarkdown(item.content)
+        }
+
+      case 'image':
+        return {
+          type: 'image',
+          src: this.sanitizeString(item.src),
+          alt: this.sanitizeString(item.alt)
+        }
+
+      case 'video':
+        return {
+          type: 'video',
+          src: this.sanitizeString(item.src),
+          title: this.sanitizeString(item.title)
+        }
+
+      case 'code':
+        return {
+          type: 'code',
+          language: this.sanitizeString(item.language),
+          content: this.sanitizeSource(item.content),
+          highlightLines: this.sanitizeString(item.highlightLines) || undefined
+        }
+
+      case 'math':
+        return {
+          type: 'math',
+          content: this.sanitizeSource(item.content),
+          title: this.sanitizeString(item.title) || undefined
+        }
+
+      default:
+        // Fallback to text type for unknown types
+        return {
+          type: 'text',
+          content: this.sanitizeString(item.content) || 'Invalid content type'
+        }
+    }
+  }
+
+  private static sanitizeQuiz(quiz: RawQuiz): Quiz {
+    const questions = Array.isArray(quiz.questions) ? quiz.questions : []
+
+    return {
+      id: quiz.id as string,
+      title: this.sanitizeString(quiz.title),
+      description: this.sanitizeString(quiz.description) || '',
+      passingScore: quiz.passingScore as number,
+      afterLessonId: quiz.afterLessonId as string,
+      questions: questions.map((q: unknown) => this.sanitizeQuestion(q as RawQuestion)),
+      maxAttempts: typeof quiz.maxAttempts === 'number' ? quiz.maxAttempts : undefined,
+      cooldownMinutes: typeof quiz.cooldownMinutes === 'number' ? quiz.cooldownMinutes : undefined,
+      scoring: quiz.scoring === 'latest' ? 'latest' : 'best'
+    }
+  }
+
+  private static sanitizeQuestion(question: RawQuestion): Question {
+    const base = {
+      id: question.id as string,
+      question: this.sanitizeString(question.question),
+      explanation: this.sanitizeString(question.explanation) || undefined
+    }
+
+    if (question.type === 'true-false') {
+      return {
+        ...base,
+        type: 'true-false',
+        options: [...TRUE_FALSE_OPTIONS],
+        correctAnswer: parseTrueFalseAnswer(question.correctAnswer) ?? 0
+      }
+    }
+
+    if (question.type === 'text') {
+      const candidates = [
+        question.correctAnswer,
+        ...(Array.isArray(question.acceptedAnswers) ? question.acceptedAnswers : [])
+      ]
+      const acceptedAnswers = Array.from(
+        new Set(candidates.map((answer) => this.sanitizeString(answer)).filter(Boolean))
+      )
+      // Patterns are only ever compiled, never rendered, so they are kept verbatim
+      const answerPatterns = Array.isArray(question.answerPatterns)
+        ? question.answerPatterns.filter(
+            (pattern): pattern is string => typeof pattern === 'string' && pattern.length > 0
+          )
+        : []
+
+      return {
+        ...base,
+        type: 'text',
+        correctAnswer: acceptedAnswers[0] || '',
+        acceptedAnswers,
+        answerPatterns,
+        caseSensitive: question.caseSensitive === true
+      }
+    }
+
+    const options = Array.isArray(question.options) ? question.options : []
+
+    return {
+      ...base,
+      type: 'multiple-choice',
+      options: options.map((opt: unknown) => this.sanitizeString(opt)),
+      correctAnswer:
+        typeof question.correctAnswer === 'number'
+          ? question.correctAnswer
+          : parseInt(question.correctAnswer as string) || 0
+    }
+  }
+}
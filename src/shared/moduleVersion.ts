@@ -0,0 +1,115 @@
+import { ModuleContent } from './types'
+
+export interface ModuleItemRef {
+  id: string
+  title: string
+}
+
+export interface ModuleItemDiff {
+  added: ModuleItemRef[]
+  removed: ModuleItemRef[]
+  changed: ModuleItemRef[]
+}
+
+export interface ModuleContentDiff {
+  lessons: ModuleItemDiff
+  quizzes: ModuleItemDiff
+}
+
+interface ParsedVersion {
+  parts: number[]
+  prerelease: string | null
+}
+
+function parseVersion(version: string): ParsedVersion {
+  // Build metadata ("+...") does not affect ordering
+  const [core, ...rest] = version.trim().replace(/^v/i, '').split('+')[0].split('-')
+  const parts = core.split('.').map((part) => parseInt(part, 10) || 0)
+  while (parts.length < 3) parts.push(0)
+  return { parts, prerelease: rest.length > 0 ? rest.join('-') : null }
+}
+
+/**
+ * Compare pre-release tags identifier by identifier (semver §11): numeric
+ * identifiers numerically ("beta.2" < "beta.10") and below alphanumeric ones,
+ * others in ASCII order, and a shorter tag first when all else is equal
+ */
+function comparePrerelease(a: string, b: string): number {
+  const left = a.split('.')
+  const right = b.split('.')
+
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    const leftNumeric = /^\d+$/.test(left[i])
+    const rightNumeric = /^\d+$/.test(right[i])
+    if (leftNumeric && rightNumeric) {
+      const diff = Number(left[i]) - Number(right[i])
+      if (diff !== 0) return diff
+    } else if (leftNumeric !== rightNumeric) {
+      return leftNumeric ? -1 : 1
+    } else if (left[i] !== right[i]) {
+      return left[i] < right[i] ? -1 : 1
+    }
+  }
+
+  return left.length - right.length
+}
+
+/**
+ * Compare two semantic versions. Missing parts count as 0, so "1.0" equals
+ * "1.0.0", and a pre-release ("1.1.0-beta") sorts before its release.
+ * Returns a negative number if a < b, 0 if equal, positive if a > b.
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a)
+  const right = parseVersion(b)
+
+  for (let i = 0; i < Math.max(left.parts.length, right.parts.length); i++) {
+    const diff = (left.parts[i] || 0) - (right.parts[i] || 0)
+    if (diff !== 0) return diff
+  }
+
+  if (left.prerelease === right.prerelease) return 0
+  if (left.prerelease === null) return 1
+  if (right.prerelease === null) return -1
+  return comparePrerelease(left.prerelease, right.prerelease)
+}
+
+function diffItems<T extends { id: string; title: string }>(
+  oldItems: T[],
+  newItems: T[]
+): ModuleItemDiff {
+  const oldById = new Map(oldItems.map((item) => [item.id, item]))
+  const newIds = new Set(newItems.map((item) => item.id))
+  const toRef = (item: T): ModuleItemRef => ({ id: item.id, title: item.title })
+
+  return {
+    added: newItems.filter((item) => !oldById.has(item.id)).map(toRef),
+    removed: oldItems.filter((item) => !newIds.has(item.id)).map(toRef),
+    changed: newItems
+      .filter((item) => {
+        const previous = oldById.get(item.id)
+        return previous && JSON.stringify(previous) !== JSON.stringify(item)
+      })
+      .map(toRef)
+  }
+}
+
+/**
+ * Lessons and quizzes added, removed or changed between two versions of a
+ * module. Items are matched by ID, which is also how learner progress is keyed.
+ */
+export function diffModuleContent(
+  oldContent: ModuleContent,
+  newContent: ModuleContent
+): ModuleContentDiff {
+  return {
+    lessons: diffItems(oldContent.lessons || [], newContent.lessons || []),
+    quizzes: diffItems(oldContent.quizzes || [], newContent.quizzes || [])
+  }
+}
+
+export function hasContentChanges(diff: ModuleContentDiff): boolean {
+  return [diff.lessons, diff.quizzes].some(
+    (items) => items.added.length + items.removed.length + items.changed.length > 0
+  )
+}
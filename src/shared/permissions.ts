@@ -0,0 +1,39 @@
+// Role-based permissions shared by the main process (which enforces them in the
+// IPC handlers) and the renderer (which only uses them to hide actions)
+
+export type UserRole = 'student' | 'instructor' | 'admin'
+
+export const USER_ROLES: UserRole[] = ['student', 'instructor', 'admin']
+
+export type Permission =
+  | 'modules:manage' // create, import, upgrade and delete modules
+  | 'progress:view-others' // read progress and certificates of other learners
+  | 'progress:reset-others' // reset another learner's module progress
+  | 'users:manage' // list, switch to and change the role of user accounts
+  | 'settings:manage' // change application settings and certificate templates
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  student: [],
+  instructor: ['modules:manage', 'progress:view-others'],
+  admin: [
+    'modules:manage',
+    'progress:view-others',
+    'progress:reset-others',
+    'users:manage',
+    'settings:manage'
+  ]
+}
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && USER_ROLES.includes(value as UserRole)
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return isUserRole(role) && ROLE_PERMISSIONS[role].includes(permission)
+}
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  student: 'Student',
+  instructor: 'Instructor',
+  admin: 'Administrator'
+}
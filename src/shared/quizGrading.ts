@@ -0,0 +1,209 @@
+import { Question, Quiz, QuizAttempt } from './types'
+
+// An option index for multiple-choice and true/false questions, or the typed
+// response for text questions
+export type QuizAnswer = number | string
+
+export const TRUE_FALSE_OPTIONS = ['True', 'False']
+
+export const MAX_TEXT_ANSWER_LENGTH = 500
+
+export const MAX_ANSWER_PATTERN_LENGTH = 200
+
+export interface QuizGrade {
+  correct: number
+  total: number
+  score: number // percentage
+}
+
+/**
+ * Trim and collapse whitespace so "  Central   Processing Unit " matches
+ * "Central Processing Unit"
+ */
+export function normalizeTextAnswer(answer: string, caseSensitive = false): string {
+  const normalized = answer.trim().replace(/\s+/g, ' ')
+  return caseSensitive ? normalized : normalized.toLowerCase()
+}
+
+/**
+ * Parse a true/false answer from module JSON: a boolean, "true"/"false" or an
+ * option index (0 = True, 1 = False). Returns the option index or null.
+ */
+export function parseTrueFalseAnswer(value: unknown): number | null {
+  if (typeof value === 'boolean') return value ? 0 : 1
+  if (value === 0 || value === 1) return value
+  if (typeof value === 'string') {
+    const normalized = value.trim().toLowerCase()
+    if (normalized === 'true') return 0
+    if (normalized === 'false') return 1
+  }
+  return null
+}
+
+interface PatternGroup {
+  repeats: boolean
+  alternates: boolean
+}
+
+/**
+ * Whether an answer pattern is safe to run against a learner's answer.
+ * Repeating a group that itself repeats or has alternatives, like "(a+)+" or
+ * "(a|ab)*", can take exponential time on a crafted answer.
+ */
+export function isSafeAnswerPattern(pattern: string): boolean {
+  if (pattern.length > MAX_ANSWER_PATTERN_LENGTH) return false
+
+  const groups: PatternGroup[] = [{ repeats: false, alternates: false }]
+  let closedGroup: PatternGroup | null = null
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    const current = groups[groups.length - 1]
+    const previousGroup = closedGroup
+    closedGroup = null
+
+    if (char === '\\') {
+      i++
+    } else if (char === '[') {
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++
+      }
+    } else if (char === '(') {
+      groups.push({ repeats: false, alternates: false })
+    } else if (char === ')') {
+      const group = groups.pop()
+      if (!group || groups.length === 0) return false
+      // A repeated outer group repeats everything inside it
+      groups[groups.length - 1].repeats ||= group.repeats
+      groups[groups.length - 1].alternates ||= group.alternates
+      closedGroup = group
+    } else if (char === '|') {
+      current.alternates = true
+    } else {
+      const quantifier = /^(?:[*+?]|\{(\d+)(?:(,)(\d*))?\})/.exec(pattern.slice(i))
+      if (!quantifier) continue
+      i += quantifier[0].length - 1
+      if (pattern[i + 1] === '?') i++ // lazy
+
+      const [token, min, comma, max] = quantifier
+      let limit = Infinity // * and +
+      if (token === '?') limit = 1
+      else if (min !== undefined && !comma) limit = Number(min)
+      else if (max) limit = Number(max)
+      if (limit > 1) {
+        if (previousGroup && (previousGroup.repeats || previousGroup.alternates)) return false
+        current.repeats = true
+      }
+    }
+  }
+
+  return true
+}
+
+function isTextAnswerCorrect(question: Question, answer: string): boolean {
+  const caseSensitive = question.caseSensitive === true
+  const response = normalizeTextAnswer(answer, caseSensitive)
+  if (!response) return false
+
+  const accepted = question.acceptedAnswers || [String(question.correctAnswer)]
+  if (accepted.some((candidate) => normalizeTextAnswer(candidate, caseSensitive) === response)) {
+    return true
+  }
+
+  return (question.answerPatterns || []).some((pattern) => {
+    // Modules imported before unsafe patterns were refused may still hold one
+    if (!isSafeAnswerPattern(pattern)) return false
+    try {
+      return new RegExp(pattern, caseSensitive ? 'u' : 'iu').test(response)
+    } catch {
+      // Invalid patterns are rejected at import; never let one break grading
+      return false
+    }
+  })
+}
+
+export function isAnswerCorrect(question: Question, answer: QuizAnswer | undefined): boolean {
+  if (answer === undefined) return false
+
+  if (question.type === 'text') {
+    return typeof answer === 'string' && isTextAnswerCorrect(question, answer)
+  }
+
+  return answer === question.correctAnswer
+}
+
+export function isAnswered(question: Question, answer: QuizAnswer | undefined): boolean {
+  if (question.type === 'text') {
+    return typeof answer === 'string' && answer.trim().length > 0
+  }
+  return typeof answer === 'number'
+}
+
+export function gradeQuiz(quiz: Quiz, answers: (QuizAnswer | undefined)[]): QuizGrade {
+  const total = quiz.questions.length
+  const correct = quiz.questions.filter((question, index) =>
+    isAnswerCorrect(question, answers[index])
+  ).length
+
+  return {
+    correct,
+    total,
+    score: total > 0 ? Math.round((correct / total) * 100) : 0
+  }
+}
+
+export interface QuizAttemptAvailability {
+  allowed: boolean
+  attemptsUsed: number
+  attemptsRemaining: number | null // null when the quiz allows unlimited attempts
+  nextAttemptAt: string | null // set while a cooldown is running
+  reason?: string
+}
+
+/**
+ * Apply a quiz's max attempts and cooldown to the learner's previous attempts.
+ * Shared by the main process, which enforces it, and QuizPage, which explains it.
+ */
+export function getAttemptAvailability(
+  quiz: Quiz,
+  attempts: Pick<QuizAttempt, 'completed_at'>[],
+  now: Date = new Date()
+): QuizAttemptAvailability {
+  const attemptsUsed = attempts.length
+  const attemptsRemaining = quiz.maxAttempts ? Math.max(quiz.maxAttempts - attemptsUsed, 0) : null
+
+  if (attemptsRemaining === 0) {
+    return {
+      allowed: false,
+      attemptsUsed,
+      attemptsRemaining,
+      nextAttemptAt: null,
+      reason: `You have used all ${quiz.maxAttempts} attempts for this quiz`
+    }
+  }
+
+  const lastCompletedAt = Math.max(0, ...attempts.map((a) => new Date(a.completed_at).getTime()))
+  const cooldownEndsAt = lastCompletedAt + (quiz.cooldownMinutes || 0) * 60 * 1000
+
+  if (attemptsUsed > 0 && cooldownEndsAt > now.getTime()) {
+    const nextAttemptAt = new Date(cooldownEndsAt).toISOString()
+    return {
+      allowed: false,
+      attemptsUsed,
+      attemptsRemaining,
+      nextAttemptAt,
+      reason: `You can try again after ${new Date(cooldownEndsAt).toLocaleString()}`
+    }
+  }
+
+  return { allowed: true, attemptsUsed, attemptsRemaining, nextAttemptAt: null }
+}
+
+/**
+ * The score that counts towards progress. Attempts are ordered newest first.
+ */
+export function getCountedScore(quiz: Quiz, attempts: Pick<QuizAttempt, 'score'>[]): number | null {
+  if (attempts.length === 0) return null
+  if (quiz.scoring === 'latest') return attempts[0].score
+  return Math.max(...attempts.map((attempt) => attempt.score))
+}
@@ -0,0 +1,50 @@
+// Full-text search helpers shared by the search index in the main process and
+// the pages that show its results.
+
+// Wrap matched words in search snippets; control characters never appear in module text
+export const SNIPPET_MATCH_START = '\u0002'
+export const SNIPPET_MATCH_END = '\u0003'
+
+const MAX_SEARCH_TERMS = 8
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu
+
+export interface SnippetPart {
+  text: string
+  match: boolean
+}
+
+/**
+ * The distinct words of a search query, lower-cased. Punctuation is dropped so
+ * user input can never change the meaning of the full-text query.
+ */
+export function getSearchTerms(query: string): string[] {
+  const words = query.toLowerCase().match(WORD_PATTERN) || []
+  return [...new Set(words)].slice(0, MAX_SEARCH_TERMS)
+}
+
+/**
+ * Split a snippet from the search index into plain text and matched words
+ */
+export function splitSnippet(snippet: string): SnippetPart[] {
+  const [first, ...rest] = snippet.split(SNIPPET_MATCH_START)
+  const parts: SnippetPart[] = first ? [{ text: first, match: false }] : []
+  for (const segment of rest) {
+    const [match, after = ''] = segment.split(SNIPPET_MATCH_END)
+    parts.push({ text: match, match: true })
+    if (after) parts.push({ text: after, match: false })
+  }
+  return parts
+}
+
+/**
+ * Where the search terms occur in some text, as [start, end) offsets. Terms
+ * match the start of a word, like the prefix search in the index.
+ */
+export function findSearchMatches(text: string, terms: string[]): [number, number][] {
+  if (terms.length === 0) return []
+
+  const escaped = terms.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${escaped.join('|')})[\\p{L}\\p{N}]*`, 'giu')
+  return [...text.matchAll(pattern)].map((match) => [match.index, match.index + match[0].length])
+}
@@ -0,0 +1,63 @@
+import type { BackupInterval, LanSyncRole, ThemePreference } from './types'
+
+// Application settings rules shared by the main process (which stores and
+// validates them) and the renderer (setup wizard and settings forms)
+
+export const THEME_PREFERENCES: ThemePreference[] = ['light', 'dark', 'system']
+
+export const MAX_INSTITUTION_NAME_LENGTH = 100
+
+export function isThemePreference(value: unknown): value is ThemePreference {
+  return typeof value === 'string' && THEME_PREFERENCES.includes(value as ThemePreference)
+}
+
+export const BACKUP_INTERVALS: BackupInterval[] = ['off', 'daily', 'weekly']
+
+// How many automatic backups are kept before the oldest are deleted
+export const MIN_BACKUPS_TO_KEEP = 1
+export const MAX_BACKUPS_TO_KEEP = 30
+export const DEFAULT_BACKUPS_TO_KEEP = 7
+
+export function isBackupInterval(value: unknown): value is BackupInterval {
+  return typeof value === 'string' && BACKUP_INTERVALS.includes(value as BackupInterval)
+}
+
+export function isBackupsToKeep(value: unknown): value is number {
+  return (
+    Number.isInteger(value) &&
+    (value as number) >= MIN_BACKUPS_TO_KEEP &&
+    (value as number) <= MAX_BACKUPS_TO_KEEP
+  )
+}
+
+export const LAN_SYNC_ROLES: LanSyncRole[] = ['off', 'learner', 'teacher']
+
+export function isLanSyncRole(value: unknown): value is LanSyncRole {
+  return typeof value === 'string' && LAN_SYNC_ROLES.includes(value as LanSyncRole)
+}
+
+// Classroom keys are typed by hand on every computer, so they use an alphabet
+// without look-alike characters and are shown as four groups of four
+const CLASSROOM_KEY_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ'
+const CLASSROOM_KEY_LENGTH = 16
+
+export function generateClassroomKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(CLASSROOM_KEY_LENGTH))
+  const chars = Array.from(bytes, (byte) => CLASSROOM_KEY_ALPHABET[byte % 32])
+  return formatClassroomKey(chars.join(''))
+}
+
+/**
+ * Tidy a typed classroom key into XXXX-XXXX-XXXX-XXXX, or null when it is not one
+ */
+export function normalizeClassroomKey(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const chars = value.toUpperCase().replace(/[\s-]/g, '')
+  if (chars.length !== CLASSROOM_KEY_LENGTH) return null
+  if ([...chars].some((char) => !CLASSROOM_KEY_ALPHABET.includes(char))) return null
+  return formatClassroomKey(chars)
+}
+
+function formatClassroomKey(chars: string): string {
+  return chars.match(/.{4}/g)!.join('-')
+}
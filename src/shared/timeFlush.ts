@@ -0,0 +1,4 @@
+// Channels the main process uses to ask the renderer to save unsaved learning
+// time before a window closes or the app quits, and the renderer's reply
+export const TIME_FLUSH_CHANNEL = 'time:flush'
+export const TIME_FLUSHED_CHANNEL = 'time:flushed'
@@ -0,0 +1,110 @@
+// Domain types shared by the main process and the renderer
+
+export type ThemePreference = 'light' | 'dark' | 'system'
+
+export type BackupInterval = 'off' | 'daily' | 'weekly'
+
+// Classroom network sync between Our Africa computers on the same local network.
+// Learner computers send progress to the teacher computer; any computer can
+// offer its modules to the others.
+export type LanSyncRole = 'off' | 'learner' | 'teacher'
+
+export interface Module {
+  id: number
+  title: string
+  description: string
+  content: ModuleContent
+  version: string
+  author?: string
+  difficulty_level?: string
+  tags?: string[]
+  estimated_duration?: number
+  media_key?: string | null // folder of bundled media for .oamod packages
+  created_at: string
+  updated_at: string
+}
+
+export type ModuleDifficulty = 'beginner' | 'intermediate' | 'advanced'
+export type ModuleStatus = 'not-started' | 'in-progress' | 'completed' // for the current user
+export type ModuleDuration = 'short' | 'medium' | 'long'
+export type ModuleSort = 'title' | 'newest' | 'shortest' | 'longest' | 'difficulty'
+
+// Values within one facet are alternatives; different facets must all match
+export interface ModuleFilters {
+  difficulties?: ModuleDifficulty[]
+  tags?: string[]
+  authors?: string[]
+  durations?: ModuleDuration[]
+  statuses?: ModuleStatus[]
+  sort?: ModuleSort
+}
+
+export interface ModuleContent {
+  lessons: Lesson[]
+  quizzes: Quiz[]
+  estimatedTime: number
+}
+
+// Content block types for rich lessons
+export interface ContentBlock {
+  type: 'text' | 'image' | 'video' | 'code' | 'math'
+  content?: string
+  src?: string
+  alt?: string
+  title?: string
+  language?: string
+  highlightLines?: string // code lines to mark, e.g. "2-4, 7"
+}
+
+export interface Lesson {
+  id: string
+  title: string
+  content: ContentBlock[] // Rich content blocks
+  order: number
+  duration?: number // in minutes (optional)
+}
+
+export interface Quiz {
+  id: string
+  title: string
+  description?: string
+  afterLessonId?: string
+  questions: Question[]
+  passingScore: number // percentage
+  maxAttempts?: number // unlimited when omitted
+  cooldownMinutes?: number // wait between attempts, 0 when omitted
+  scoring?: QuizScoringPolicy // which attempt counts towards progress, 'best' when omitted
+}
+
+export type QuizScoringPolicy = 'best' | 'latest'
+
+export interface Question {
+  id: string
+  question: string
+  type: 'multiple-choice' | 'true-false' | 'text'
+  options?: string[] // multiple-choice and true-false (always ['True', 'False'])
+  correctAnswer: string | number // option index, or the model answer for text questions
+  acceptedAnswers?: string[] // text: any of these is correct
+  answerPatterns?: string[] // text: regular expressions a correct answer matches
+  caseSensitive?: boolean // text: defaults to false
+  explanation?: string
+}
+
+export interface QuizAttemptAnswer {
+  questionId: string
+  answer: number | string | null
+  correct: boolean
+}
+
+export interface QuizAttempt {
+  id: number
+  user_id: number
+  module_id: number
+  quiz_id: string
+  score: number // percentage
+  passed: boolean
+  answers: QuizAttemptAnswer[]
+  duration_seconds: number
+  started_at: string
+  completed_at: string
+}